@@ -0,0 +1,91 @@
+// Product Bundle Tests
+import { describe, it, expect } from "vitest";
+import { calculateBundlePrice, getBundleAvailability, expandBundleLines } from "../bundles/utils.js";
+
+const component = (overrides: Partial<Parameters<typeof getBundleAvailability>[0][number]> = {}) => ({
+  status: "active",
+  trackInventory: true,
+  allowBackorder: false,
+  availableQuantity: 10,
+  quantity: 1,
+  ...overrides,
+});
+
+describe("bundles", () => {
+  describe("calculateBundlePrice", () => {
+    const components = [
+      { priceNet: 1000, priceGross: 1190, quantity: 2 },
+      { priceNet: 500, priceGross: 595, quantity: 1 },
+    ];
+
+    it("should keep the price of fixed bundles", () => {
+      expect(calculateBundlePrice({ pricing: "fixed" }, { net: 2000, gross: 2380 }, components))
+        .toEqual({ net: 2000, gross: 2380 });
+    });
+
+    it("should sum the components without a discount", () => {
+      expect(calculateBundlePrice({ pricing: "components" }, { net: 0, gross: 0 }, components))
+        .toEqual({ net: 2500, gross: 2975 });
+    });
+
+    it("should take a percentage discount off the sum", () => {
+      const price = calculateBundlePrice(
+        { pricing: "components", discountType: "percentage", discountValue: 1000 },
+        { net: 0, gross: 0 },
+        components
+      );
+      expect(price.gross).toBe(2677);
+      expect(price.net).toBe(2250);
+    });
+
+    it("should not discount below zero", () => {
+      expect(calculateBundlePrice(
+        { pricing: "components", discountType: "fixed", discountValue: 5000 },
+        { net: 0, gross: 0 },
+        components
+      )).toEqual({ net: 0, gross: 0 });
+    });
+  });
+
+  describe("getBundleAvailability", () => {
+    it("should be limited by the scarcest component", () => {
+      expect(getBundleAvailability([
+        component({ availableQuantity: 10, quantity: 2 }),
+        component({ availableQuantity: 4, quantity: 1 }),
+      ])).toBe(4);
+      expect(getBundleAvailability([component({ availableQuantity: 5, quantity: 2 })])).toBe(2);
+    });
+
+    it("should ignore untracked and backorderable components", () => {
+      expect(getBundleAvailability([
+        component({ availableQuantity: 0, trackInventory: false }),
+        component({ availableQuantity: 0, allowBackorder: true }),
+      ])).toBeNull();
+    });
+
+    it("should be unavailable if a component is inactive", () => {
+      expect(getBundleAvailability([component({ status: "archived", trackInventory: false })])).toBe(0);
+    });
+
+    it("should not go negative on oversold components", () => {
+      expect(getBundleAvailability([component({ availableQuantity: -3 })])).toBe(0);
+    });
+  });
+
+  describe("expandBundleLines", () => {
+    it("should replace bundles by their components", () => {
+      const lines = expandBundleLines(
+        [
+          { productId: "kit", quantity: 2 },
+          { productId: "single", quantity: 1 },
+        ],
+        new Map([["kit", [{ productId: "a", quantity: 1 }, { productId: "b", quantity: 3 }]]])
+      );
+      expect(lines).toEqual([
+        { productId: "a", quantity: 2, bundleId: "kit" },
+        { productId: "b", quantity: 6, bundleId: "kit" },
+        { productId: "single", quantity: 1 },
+      ]);
+    });
+  });
+});
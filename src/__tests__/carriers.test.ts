@@ -0,0 +1,89 @@
+// Carrier Tests
+import { describe, it, expect } from "vitest";
+import { createFakeCarrier } from "../carriers/fake-adapter.js";
+import { getCarrier, registerCarrier, unregisterCarrier } from "../carriers/registry.js";
+import { buildTrackingUrl, labelStorageKey, toCarrierAddress } from "../carriers/utils.js";
+
+const recipient = {
+  name: "Max Mustermann",
+  street: "Beispielweg",
+  streetNumber: "42",
+  postalCode: "10115",
+  city: "Berlin",
+  country: "DE",
+};
+
+describe("carriers", () => {
+  describe("fake adapter", () => {
+    it("should create a shipment with a PDF label", async () => {
+      const carrier = createFakeCarrier("dhl");
+      const shipment = await carrier.createShipment({
+        reference: "SK-2026-000001",
+        recipient,
+        parcels: [{ weight: 1200 }],
+      });
+
+      expect(shipment.carrierCode).toBe("dhl");
+      expect(shipment.trackingNumber).toMatch(/^\d{20}$/);
+      expect(shipment.trackingUrl).toContain(shipment.trackingNumber);
+      expect(shipment.label.content.subarray(0, 5).toString()).toBe("%PDF-");
+    });
+
+    it("should track and cancel shipments without state of its own", async () => {
+      const shipment = await createFakeCarrier().createShipment({ reference: "R1", recipient, parcels: [{ weight: 500 }] });
+
+      // Another instance, as after a restart
+      const carrier = createFakeCarrier();
+      const tracking = await carrier.getTracking(shipment.trackingNumber);
+      expect(tracking.status).toBe("pre_transit");
+      expect(Math.abs(tracking.events[0].occurredAt.getTime() - Date.now())).toBeLessThan(5000);
+      await expect(carrier.cancelShipment(shipment.shipmentId)).resolves.toBeUndefined();
+
+      expect((await carrier.getTracking("unknown")).status).toBe("unknown");
+      await expect(carrier.cancelShipment("fake_unknown")).rejects.toThrow("not found");
+    });
+
+    it("should reject incomplete shipments", async () => {
+      const carrier = createFakeCarrier();
+      await expect(carrier.createShipment({ reference: "R1", recipient, parcels: [] })).rejects.toThrow();
+      await expect(carrier.createShipment({
+        reference: "R1",
+        recipient: { ...recipient, postalCode: "" },
+        parcels: [{ weight: 500 }],
+      })).rejects.toThrow("incomplete");
+    });
+  });
+
+  describe("registry", () => {
+    it("should serve every carrier with a fake in sandbox mode", () => {
+      expect(getCarrier("DPD", true).code).toBe("dpd");
+      expect(() => getCarrier("dpd")).toThrow("No carrier adapter");
+    });
+
+    it("should return registered adapters", () => {
+      const adapter = createFakeCarrier("custom");
+      registerCarrier(adapter);
+      expect(getCarrier("CUSTOM")).toBe(adapter);
+      unregisterCarrier("custom");
+    });
+  });
+
+  describe("utils", () => {
+    it("should build carrier tracking links", () => {
+      expect(buildTrackingUrl("dpd", "0123")).toBe("https://tracking.dpd.de/status/de_DE/parcel/0123");
+      expect(buildTrackingUrl("unknown", "0123")).toBeNull();
+    });
+
+    it("should map order addresses", () => {
+      expect(toCarrierAddress({
+        firstName: "Max",
+        lastName: "Mustermann",
+        street: "Beispielweg",
+        zip: "10115",
+        city: "Berlin",
+        country: "de",
+      })).toMatchObject({ name: "Max Mustermann", postalCode: "10115", country: "DE" });
+      expect(labelStorageKey("o1", "123")).toBe("labels/o1/123.pdf");
+    });
+  });
+});
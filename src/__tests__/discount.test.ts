@@ -1,438 +1,337 @@
-// Discount Service Tests
-import { describe, it, expect, beforeEach } from "vitest";
-import { discountService } from "../discounts/discount-service.js";
-
-describe("discountService", () => {
-  const testCode = "TEST" + Date.now();
-
-  describe("create", () => {
-    it("should create a percentage discount", async () => {
-      const discount = await discountService.create({
-        code: testCode + "-PCT",
-        description: "Test 10% discount",
-        type: "percentage",
-        value: 10,
-      });
-
-      expect(discount).toBeDefined();
-      expect(discount.id).toBeDefined();
-      expect(discount.code).toBe((testCode + "-PCT").toUpperCase());
-      expect(discount.type).toBe("percentage");
-      expect(discount.value).toBe(10);
-      expect(discount.active).toBe(true);
-      expect(discount.usageCount).toBe(0);
-    });
+// Promotion Rule Tests
+import { describe, it, expect } from "vitest";
+import {
+  CouponError,
+  applyCoupon,
+  checkCoupon,
+  checkRedeemable,
+  eligibleLines,
+  lineDiscountMap,
+  normalizeCode,
+} from "../discounts/promotions.js";
+import {
+  codeLikePattern,
+  generateCouponCode,
+  generateCouponCodes,
+  isValidCouponCode,
+  parseCodeList,
+  patternCapacity,
+  toCsv,
+} from "../discounts/codes.js";
+import { applyAutomaticPromotions, bundlePrice, buyXGetY, promotionGifts, tieredSpend } from "../discounts/automatic.js";
+import { calculateTaxes } from "../tax/calculator.js";
+import type { AutomaticPromotionRule, CouponRule, PromotionContext, PromotionLine } from "../discounts/types.js";
+
+const coupon = (overrides: Partial<CouponRule> = {}): CouponRule => ({
+  id: "coupon-1",
+  code: "SUMMER",
+  type: "percentage",
+  value: 1000,
+  minPurchase: null,
+  maxDiscount: null,
+  usageLimit: null,
+  usageLimitPerCustomer: null,
+  usageCount: 0,
+  firstOrderOnly: false,
+  startsAt: null,
+  expiresAt: null,
+  productIds: null,
+  categoryIds: null,
+  excludeProductIds: null,
+  excludeCategoryIds: null,
+  isActive: true,
+  ...overrides,
+});
 
-    it("should create a fixed amount discount", async () => {
-      const discount = await discountService.create({
-        code: testCode + "-FIXED",
-        type: "fixed",
-        value: 20,
-        minOrderValue: 50,
-      });
-
-      expect(discount.type).toBe("fixed");
-      expect(discount.value).toBe(20);
-      expect(discount.minOrderValue).toBe(50);
+const lines: PromotionLine[] = [
+  { key: "shirt", productId: "p-shirt", categoryIds: ["clothing"], total: 4000 },
+  { key: "book", productId: "p-book", categoryIds: ["books"], total: 1070 },
+  { key: "sale", productId: "p-sale", categoryIds: ["clothing", "sale"], total: 2000 },
+];
+
+const context: PromotionContext = {
+  subtotal: 7070,
+  shippingTotal: 595,
+  customerUses: 0,
+  isFirstOrder: false,
+};
+
+describe("promotions", () => {
+  describe("checkCoupon", () => {
+    it("should reject inactive and expired coupons", () => {
+      expect(() => checkCoupon(coupon({ isActive: false }), context)).toThrow("not active");
+      expect(() => checkCoupon(coupon({ type: "bogus" }), context)).toThrow("not active");
+      expect(() => checkCoupon(coupon({ expiresAt: new Date("2020-01-01") }), context)).toThrow("expired");
+      expect(() => checkCoupon(coupon({ startsAt: new Date("2999-01-01") }), context)).toThrow("not yet valid");
     });
 
-    it("should create a shipping discount", async () => {
-      const discount = await discountService.create({
-        code: testCode + "-SHIP",
-        type: "shipping",
-        value: 0,
-      });
+    it("should enforce usage limits", () => {
+      expect(() => checkCoupon(coupon({ usageLimit: 10, usageCount: 10 }), context)).toThrow("usage limit");
+      expect(() => checkCoupon(coupon({ usageLimitPerCustomer: 1 }), { ...context, customerUses: 1 }))
+        .toThrow("already been used");
+      expect(() => checkCoupon(coupon({ usageLimitPerCustomer: 2 }), { ...context, customerUses: 1 })).not.toThrow();
+    });
 
-      expect(discount.type).toBe("shipping");
+    it("should enforce first order and minimum purchase", () => {
+      expect(() => checkCoupon(coupon({ firstOrderOnly: true }), context)).toThrow("first order");
+      expect(() => checkCoupon(coupon({ firstOrderOnly: true }), { ...context, isFirstOrder: true })).not.toThrow();
+
+      try {
+        checkCoupon(coupon({ minPurchase: 10000 }), context);
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(CouponError);
+        expect((error as CouponError).code).toBe("MIN_PURCHASE_NOT_MET");
+        expect((error as CouponError).message).toContain("100.00 EUR");
+      }
     });
+  });
 
-    it("should normalize code to uppercase", async () => {
-      const discount = await discountService.create({
-        code: "lowercase" + Date.now(),
-        type: "percentage",
-        value: 5,
-      });
+  describe("checkRedeemable", () => {
+    it("should count the redemptions passed in, not the stored counter", () => {
+      const limited = coupon({ usageLimit: 5, usageCount: 0 });
+      expect(() => checkRedeemable(limited, { uses: 5, customerUses: 0 })).toThrow("usage limit");
+      expect(() => checkRedeemable({ ...limited, usageCount: 9 }, { uses: 4, customerUses: 0 })).not.toThrow();
+    });
 
-      expect(discount.code).toBe(discount.code.toUpperCase());
+    it("should enforce the per-customer limit and validity at order time", () => {
+      expect(() => checkRedeemable(coupon({ usageLimitPerCustomer: 1 }), { uses: 3, customerUses: 1 }))
+        .toThrow("already been used");
+      expect(() => checkRedeemable(coupon({ expiresAt: new Date("2026-03-01") }), { uses: 0, customerUses: 0 }, new Date("2026-03-02")))
+        .toThrow("expired");
     });
 
-    it("should throw error for duplicate code", async () => {
-      const code = "UNIQUE" + Date.now();
-      await discountService.create({
-        code,
-        type: "percentage",
-        value: 10,
-      });
-
-      await expect(
-        discountService.create({
-          code,
-          type: "percentage",
-          value: 15,
-        })
-      ).rejects.toThrow("already exists");
+    it("should not check order conditions", () => {
+      expect(() => checkRedeemable(coupon({ firstOrderOnly: true, minPurchase: 10000 }), { uses: 0, customerUses: 0 }))
+        .not.toThrow();
     });
   });
 
-  describe("getByCode", () => {
-    it("should find discount by code", async () => {
-      const code = "FIND" + Date.now();
-      await discountService.create({
-        code,
-        type: "percentage",
-        value: 10,
-      });
-
-      const found = await discountService.getByCode(code);
-      expect(found).toBeDefined();
-      expect(found?.code).toBe(code.toUpperCase());
+  describe("eligibleLines", () => {
+    it("should include every line without a scope", () => {
+      expect(eligibleLines(coupon(), lines)).toHaveLength(3);
     });
 
-    it("should return null for non-existent code", async () => {
-      const found = await discountService.getByCode("NONEXISTENT");
-      expect(found).toBeNull();
+    it("should scope by product or category", () => {
+      expect(eligibleLines(coupon({ productIds: ["p-book"] }), lines).map((line) => line.key)).toEqual(["book"]);
+      expect(eligibleLines(coupon({ categoryIds: ["clothing"] }), lines).map((line) => line.key)).toEqual(["shirt", "sale"]);
+      expect(eligibleLines(coupon({ productIds: ["p-book"], categoryIds: ["sale"] }), lines).map((line) => line.key))
+        .toEqual(["book", "sale"]);
     });
 
-    it("should be case-insensitive", async () => {
-      const code = "CASETEST" + Date.now();
-      await discountService.create({
-        code: code.toUpperCase(),
-        type: "percentage",
-        value: 10,
-      });
-
-      const found = await discountService.getByCode(code.toLowerCase());
-      expect(found).toBeDefined();
+    it("should let exclusions win", () => {
+      expect(eligibleLines(coupon({ categoryIds: ["clothing"], excludeCategoryIds: ["sale"] }), lines).map((line) => line.key))
+        .toEqual(["shirt"]);
+      expect(eligibleLines(coupon({ excludeProductIds: ["p-shirt"] }), lines).map((line) => line.key))
+        .toEqual(["book", "sale"]);
     });
   });
 
-  describe("applyDiscount", () => {
-    it("should apply percentage discount correctly", async () => {
-      const code = "APPLY10" + Date.now();
-      await discountService.create({
-        code,
-        type: "percentage",
-        value: 10,
-      });
-
-      const result = await discountService.applyDiscount({
-        code,
-        cartTotal: 100,
-        cartItems: [
-          { productId: "p1", quantity: 2, unitPrice: 50, totalPrice: 100 },
-        ],
-      });
-
-      expect(result.valid).toBe(true);
-      expect(result.discountAmount).toBe(10);
-      expect(result.discountedTotal).toBe(90);
+  describe("applyCoupon", () => {
+    it("should take a percentage of the eligible lines", () => {
+      const result = applyCoupon(coupon({ categoryIds: ["clothing"] }), lines, context);
+      expect(result.discountTotal).toBe(600);
+      expect(result.lineDiscounts).toEqual([
+        { key: "shirt", amount: 400 },
+        { key: "sale", amount: 200 },
+      ]);
+      expect(result.freeShipping).toBe(false);
     });
 
-    it("should apply fixed discount correctly", async () => {
-      const code = "FIXED20" + Date.now();
-      await discountService.create({
-        code,
-        type: "fixed",
-        value: 20,
-      });
-
-      const result = await discountService.applyDiscount({
-        code,
-        cartTotal: 100,
-        cartItems: [
-          { productId: "p1", quantity: 1, unitPrice: 100, totalPrice: 100 },
-        ],
-      });
-
-      expect(result.valid).toBe(true);
-      expect(result.discountAmount).toBe(20);
-      expect(result.discountedTotal).toBe(80);
+    it("should cap percentage discounts", () => {
+      const result = applyCoupon(coupon({ value: 5000, maxDiscount: 1000 }), lines, context);
+      expect(result.discountTotal).toBe(1000);
+      expect(result.lineDiscounts.reduce((sum, line) => sum + line.amount, 0)).toBe(1000);
     });
 
-    it("should apply shipping discount correctly", async () => {
-      const code = "FREESHIP" + Date.now();
-      await discountService.create({
-        code,
-        type: "shipping",
-        value: 0,
-      });
-
-      const result = await discountService.applyDiscount({
-        code,
-        cartTotal: 100,
-        cartItems: [
-          { productId: "p1", quantity: 1, unitPrice: 100, totalPrice: 100 },
-        ],
-        shippingCost: 5.99,
-      });
-
-      expect(result.valid).toBe(true);
-      expect(result.discountAmount).toBe(5.99);
-      expect(result.discountedShipping).toBe(0);
+    it("should limit fixed discounts to the eligible value", () => {
+      const result = applyCoupon(coupon({ type: "fixed", value: 5000, productIds: ["p-book"] }), lines, context);
+      expect(result.discountTotal).toBe(1070);
+      expect(result.lineDiscounts).toEqual([{ key: "book", amount: 1070 }]);
     });
 
-    it("should reject non-existent code", async () => {
-      const result = await discountService.applyDiscount({
-        code: "INVALID",
-        cartTotal: 100,
-        cartItems: [],
-      });
+    it("should allocate without losing cents", () => {
+      const result = applyCoupon(coupon({ type: "fixed", value: 1000 }), lines, context);
+      expect(result.lineDiscounts.reduce((sum, line) => sum + line.amount, 0)).toBe(1000);
+      expect(lineDiscountMap(result).get("shirt")).toBe(566);
+      expect(lineDiscountMap(null).size).toBe(0);
+    });
 
-      expect(result.valid).toBe(false);
-      expect(result.message).toContain("nicht gefunden");
+    it("should waive shipping for free shipping coupons", () => {
+      const result = applyCoupon(coupon({ type: "free_shipping", value: 0 }), lines, context);
+      expect(result.discountTotal).toBe(0);
+      expect(result.lineDiscounts).toEqual([]);
+      expect(result.freeShipping).toBe(true);
+      expect(result.shippingDiscount).toBe(595);
     });
 
-    it("should reject inactive discount", async () => {
-      const code = "INACTIVE" + Date.now();
-      await discountService.create({
-        code,
-        type: "percentage",
-        value: 10,
-        active: false,
-      });
-
-      const result = await discountService.applyDiscount({
-        code,
-        cartTotal: 100,
-        cartItems: [],
-      });
-
-      expect(result.valid).toBe(false);
-      expect(result.message).toContain("nicht aktiv");
+    it("should reject coupons that match no line", () => {
+      expect(() => applyCoupon(coupon({ productIds: ["p-other"] }), lines, context)).toThrow("does not apply");
     });
 
-    it("should reject expired discount", async () => {
-      const code = "EXPIRED" + Date.now();
-      await discountService.create({
-        code,
-        type: "percentage",
-        value: 10,
-        validUntil: new Date(Date.now() - 86400000), // Yesterday
-      });
-
-      const result = await discountService.applyDiscount({
-        code,
-        cartTotal: 100,
-        cartItems: [{ productId: "p1", quantity: 1, unitPrice: 100, totalPrice: 100 }],
-      });
-
-      expect(result.valid).toBe(false);
-      expect(result.message).toContain("abgelaufen");
+    it("should discount zero-rated orders by the share of their net value", () => {
+      // Reverse charge: 100.00 net, no VAT. The coupon sees the taxed line.
+      const taxLines = [{ key: "shirt", netAmount: 10000, rates: [] }];
+      const undiscounted = calculateTaxes({ lines: taxLines });
+      const promotionLines: PromotionLine[] = [
+        { key: "shirt", productId: "p-shirt", categoryIds: [], total: undiscounted.lines[0].grossAmount },
+      ];
+
+      for (const rule of [coupon(), coupon({ type: "fixed", value: 1000 })]) {
+        const result = applyCoupon(rule, promotionLines, { ...context, subtotal: 10000 });
+        const taxes = calculateTaxes({
+          lines: taxLines.map((line) => ({ ...line, discountGross: lineDiscountMap(result).get(line.key) })),
+        });
+        expect(taxes.discountTotal).toBe(1000);
+        expect(taxes.total).toBe(9000);
+      }
     });
+  });
 
-    it("should reject if minimum order value not met", async () => {
-      const code = "MINORDER" + Date.now();
-      await discountService.create({
-        code,
-        type: "percentage",
-        value: 10,
-        minOrderValue: 100,
-      });
-
-      const result = await discountService.applyDiscount({
-        code,
-        cartTotal: 50,
-        cartItems: [{ productId: "p1", quantity: 1, unitPrice: 50, totalPrice: 50 }],
-      });
-
-      expect(result.valid).toBe(false);
-      expect(result.message).toContain("Mindestbestellwert");
+  it("should normalize codes", () => {
+    expect(normalizeCode(" summer10 ")).toBe("SUMMER10");
+  });
+
+  describe("automatic promotions", () => {
+    const promotion = (overrides: Partial<AutomaticPromotionRule> = {}): AutomaticPromotionRule => ({
+      id: "promo-1",
+      name: "Spend more, save more",
+      description: null,
+      type: "tiered_spend",
+      rule: {
+        tiers: [
+          { minSubtotal: 10000, type: "percentage", value: 1000 },
+          { minSubtotal: 20000, type: "percentage", value: 1500 },
+        ],
+      },
+      priority: 0,
+      stackable: true,
+      combinesWithCoupons: true,
+      startsAt: null,
+      expiresAt: null,
+      productIds: null,
+      categoryIds: null,
+      excludeProductIds: null,
+      excludeCategoryIds: null,
+      isActive: true,
+      ...overrides,
     });
 
-    it("should apply max discount cap", async () => {
-      const code = "MAXCAP" + Date.now();
-      await discountService.create({
-        code,
-        type: "percentage",
-        value: 50,
-        maxDiscount: 25,
-      });
-
-      const result = await discountService.applyDiscount({
-        code,
-        cartTotal: 200,
-        cartItems: [{ productId: "p1", quantity: 1, unitPrice: 200, totalPrice: 200 }],
-      });
-
-      expect(result.valid).toBe(true);
-      expect(result.discountAmount).toBe(25); // Capped at 25, not 100
-      expect(result.discountedTotal).toBe(175);
+    const socks: PromotionLine[] = [
+      { key: "a", productId: "p-a", categoryIds: ["socks"], quantity: 2, total: 1000 },
+      { key: "b", productId: "p-b", categoryIds: ["socks"], quantity: 1, total: 300 },
+    ];
+
+    it("should give the cheapest unit of every group away", () => {
+      expect(buyXGetY({ buyQuantity: 2, getQuantity: 1 }, socks)).toEqual([{ key: "b", amount: 300 }]);
+      expect(buyXGetY({ buyQuantity: 3, getQuantity: 1 }, socks)).toEqual([]);
+      expect(buyXGetY({ buyQuantity: 2, getQuantity: 1, discountPercent: 5000 }, socks))
+        .toEqual([{ key: "b", amount: 150 }]);
     });
 
-    it("should enforce usage limit", async () => {
-      const code = "LIMITED" + Date.now();
-      const discount = await discountService.create({
-        code,
-        type: "percentage",
-        value: 10,
-        usageLimit: 1,
-      });
-
-      // Simulate usage
-      await discountService.recordUsage(discount.id, "order1", "cust1", 10);
-
-      const result = await discountService.applyDiscount({
-        code,
-        cartTotal: 100,
-        cartItems: [{ productId: "p1", quantity: 1, unitPrice: 100, totalPrice: 100 }],
-      });
-
-      expect(result.valid).toBe(false);
-      expect(result.message).toContain("zu oft verwendet");
+    it("should pick the highest tier reached", () => {
+      const cart: PromotionLine[] = [{ key: "x", productId: "p-x", categoryIds: [], total: 15000 }];
+      expect(tieredSpend(promotion().rule as never, cart)).toEqual([{ key: "x", amount: 1500 }]);
+      expect(tieredSpend(promotion().rule as never, [{ ...cart[0], total: 25000 }])).toEqual([{ key: "x", amount: 3750 }]);
+      expect(tieredSpend(promotion().rule as never, [{ ...cart[0], total: 9999 }])).toEqual([]);
     });
 
-    it("should enforce per-customer usage limit", async () => {
-      const code = "PERCUST" + Date.now();
-      const discount = await discountService.create({
-        code,
-        type: "percentage",
-        value: 10,
-        usageLimitPerCustomer: 1,
-      });
-
-      // Record usage for customer
-      await discountService.recordUsage(discount.id, "order1", "cust1", 10);
-
-      const result = await discountService.applyDiscount({
-        code,
-        cartTotal: 100,
-        cartItems: [{ productId: "p1", quantity: 1, unitPrice: 100, totalPrice: 100 }],
-        customerId: "cust1",
-      });
-
-      expect(result.valid).toBe(false);
-      expect(result.message).toContain("bereits verwendet");
+    it("should apply by priority on what earlier promotions left", () => {
+      const result = applyAutomaticPromotions([
+        promotion({ rule: { tiers: [{ minSubtotal: 0, type: "fixed", value: 500 }] } }),
+        promotion({ id: "promo-2", name: "3 for 2", type: "buy_x_get_y", priority: 10, rule: { buyQuantity: 2, getQuantity: 1 } }),
+      ], socks);
+
+      expect(result.applied.map((p) => p.promotionId)).toEqual(["promo-2", "promo-1"]);
+      expect(result.applied[1].lineDiscounts).toEqual([{ key: "a", amount: 500 }]);
+      expect(result.discountTotal).toBe(800);
+      expect(result.lineDiscounts).toEqual([{ key: "a", amount: 500 }, { key: "b", amount: 300 }]);
     });
 
-    it("should enforce first order only", async () => {
-      const code = "FIRSTONLY" + Date.now();
-      await discountService.create({
-        code,
-        type: "percentage",
-        value: 10,
-        firstOrderOnly: true,
-      });
-
-      const result = await discountService.applyDiscount({
-        code,
-        cartTotal: 100,
-        cartItems: [{ productId: "p1", quantity: 1, unitPrice: 100, totalPrice: 100 }],
-        isFirstOrder: false,
-      });
-
-      expect(result.valid).toBe(false);
-      expect(result.message).toContain("Erstbestellungen");
+    it("should apply a promotion that does not stack on its own", () => {
+      const exclusive = promotion({ id: "promo-2", type: "buy_x_get_y", stackable: false, rule: { buyQuantity: 2, getQuantity: 1 } });
+      const fixed = promotion({ priority: 5, rule: { tiers: [{ minSubtotal: 0, type: "fixed", value: 100 }] } });
+
+      expect(applyAutomaticPromotions([fixed, exclusive], socks).applied.map((p) => p.promotionId)).toEqual(["promo-1"]);
+      expect(applyAutomaticPromotions([{ ...fixed, priority: -5 }, exclusive], socks).applied.map((p) => p.promotionId))
+        .toEqual(["promo-2"]);
     });
-  });
 
-  describe("update", () => {
-    it("should update discount properties", async () => {
-      const code = "UPDATE" + Date.now();
-      const discount = await discountService.create({
-        code,
-        type: "percentage",
-        value: 10,
-      });
-
-      const updated = await discountService.update({
-        id: discount.id,
-        value: 20,
-        description: "Updated description",
-      });
-
-      expect(updated.value).toBe(20);
-      expect(updated.description).toBe("Updated description");
+    it("should skip inactive, expired and out of scope promotions", () => {
+      const rule = { tiers: [{ minSubtotal: 0, type: "fixed", value: 100 }] };
+      expect(applyAutomaticPromotions([
+        promotion({ rule, isActive: false }),
+        promotion({ rule, expiresAt: new Date("2020-01-01") }),
+        promotion({ rule, categoryIds: ["shoes"] }),
+      ], socks).applied).toEqual([]);
     });
-  });
 
-  describe("delete", () => {
-    it("should delete a discount", async () => {
-      const code = "DELETE" + Date.now();
-      const discount = await discountService.create({
-        code,
-        type: "percentage",
-        value: 10,
-      });
+    it("should sell complete sets at the bundle price", () => {
+      const cart: PromotionLine[] = [
+        { key: "shirt", productId: "p-shirt", categoryIds: [], quantity: 2, total: 5000 },
+        { key: "cap", productId: "p-cap", categoryIds: [], quantity: 1, total: 1500 },
+      ];
+      const rule = { items: [{ productId: "p-shirt" }, { productId: "p-cap" }], price: 3000 };
 
-      await discountService.delete(discount.id);
+      // One set (2500 + 1500) for 3000; the second shirt has no cap to go with
+      expect(bundlePrice(rule, cart)).toEqual([{ key: "shirt", amount: 625 }, { key: "cap", amount: 375 }]);
+      expect(bundlePrice({ ...rule, price: 5000 }, cart)).toEqual([]);
+      expect(bundlePrice(rule, [cart[0]])).toEqual([]);
 
-      const found = await discountService.getById(discount.id);
-      expect(found).toBeNull();
+      const result = applyAutomaticPromotions([promotion({ type: "bundle_price", rule })], cart);
+      expect(result.discountTotal).toBe(1000);
+    });
+
+    it("should add free gifts above the threshold", () => {
+      const gift = promotion({ type: "free_gift", rule: { minSubtotal: 1000, productId: "p-gift" } });
+      const result = applyAutomaticPromotions([gift], socks);
+      expect(result.discountTotal).toBe(0);
+      expect(promotionGifts(result)).toEqual([{ promotionId: "promo-1", productId: "p-gift", quantity: 1 }]);
+      expect(applyAutomaticPromotions([gift], [socks[1]]).applied).toEqual([]);
     });
   });
 
-  describe("recordUsage", () => {
-    it("should increment usage count", async () => {
-      const code = "USAGE" + Date.now();
-      const discount = await discountService.create({
-        code,
-        type: "percentage",
-        value: 10,
-      });
+  describe("coupon codes", () => {
+    it("should fill the pattern without ambiguous characters", () => {
+      for (let i = 0; i < 50; i++) {
+        const code = generateCouponCode("XXXX-XXXX", "news-");
+        expect(code).toMatch(/^NEWS-[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}$/);
+        expect(isValidCouponCode(code)).toBe(true);
+      }
+    });
 
-      await discountService.recordUsage(discount.id, "order1", "cust1", 10);
-      await discountService.recordUsage(discount.id, "order2", "cust2", 15);
+    it("should generate distinct codes that are not taken", () => {
+      const taken = new Set(generateCouponCodes(100, { pattern: "XXXXXX" }));
+      const codes = generateCouponCodes(500, { pattern: "XXXXXX" }, taken);
+      expect(new Set(codes).size).toBe(500);
+      expect(codes.some((code) => taken.has(code))).toBe(false);
+    });
 
-      const updated = await discountService.getById(discount.id);
-      expect(updated?.usageCount).toBe(2);
+    it("should refuse patterns that are too short for the batch", () => {
+      expect(patternCapacity("XX")).toBe(1024);
+      expect(() => generateCouponCodes(200, { pattern: "XX" })).toThrow("too short");
+      expect(() => generateCouponCodes(1, { pattern: "XXXX", prefix: "a b" })).toThrow("valid codes");
     });
-  });
 
-  describe("getUsageStats", () => {
-    it("should return usage statistics", async () => {
-      const code = "STATS" + Date.now();
-      const discount = await discountService.create({
-        code,
-        type: "percentage",
-        value: 10,
-      });
-
-      await discountService.recordUsage(discount.id, "order1", "cust1", 10);
-      await discountService.recordUsage(discount.id, "order2", "cust2", 20);
-
-      const stats = await discountService.getUsageStats(discount.id);
-      expect(stats.totalUsages).toBe(2);
-      expect(stats.totalDiscountAmount).toBe(30);
-      expect(stats.usages.length).toBe(2);
+    it("should count stored codes against the pattern's room", () => {
+      expect(() => generateCouponCodes(10, { pattern: "XX", prefix: "A", existing: 90 })).not.toThrow();
+      expect(() => generateCouponCodes(10, { pattern: "XX", prefix: "A", existing: 100 })).toThrow("too short");
     });
-  });
 
-  describe("generateCode", () => {
-    it("should generate a code of specified length", () => {
-      const code = discountService.generateCode(10);
-      expect(code.length).toBe(10);
+    it("should match the codes of a pattern with LIKE", () => {
+      expect(codeLikePattern("XXXX-XXXX", "news-")).toBe("NEWS-____-____");
+      expect(codeLikePattern("XX_X", "a_")).toBe("A\\___\\__");
     });
 
-    it("should generate uppercase alphanumeric code", () => {
-      const code = discountService.generateCode(8);
-      expect(code).toMatch(/^[A-Z0-9]+$/);
+    it("should read code lists and CSV files", () => {
+      const result = parseCodeList("code,note\r\n summer-1 ,a\nSUMMER-1\n\"WINTER-2\";x\nno\n\nbad code!\n");
+      expect(result.codes).toEqual(["SUMMER-1", "WINTER-2"]);
+      expect(result.invalid).toEqual(["NO", "BAD CODE!"]);
     });
-  });
 
-  describe("getAll", () => {
-    it("should filter by active status", async () => {
-      const activeCode = "ACTIVE" + Date.now();
-      const inactiveCode = "INACT" + Date.now();
-
-      await discountService.create({
-        code: activeCode,
-        type: "percentage",
-        value: 10,
-        active: true,
-      });
-      await discountService.create({
-        code: inactiveCode,
-        type: "percentage",
-        value: 10,
-        active: false,
-      });
-
-      const activeOnly = await discountService.getAll({ active: true });
-      const hasActive = activeOnly.some(d => d.code === activeCode.toUpperCase());
-      const hasInactive = activeOnly.some(d => d.code === inactiveCode.toUpperCase());
-
-      expect(hasActive).toBe(true);
-      expect(hasInactive).toBe(false);
+    it("should quote CSV fields where needed", () => {
+      expect(toCsv(["code", "note"], [["A-1", "x, \"y\""], ["B-2", null]]))
+        .toBe('code,note\r\nA-1,"x, ""y"""\r\nB-2,\r\n');
     });
   });
 });
@@ -0,0 +1,289 @@
+// E-Invoice (XRechnung / ZUGFeRD) Tests
+import { describe, it, expect } from "vitest";
+import {
+  EInvoiceError,
+  buildEInvoiceModel,
+  generateCiiXml,
+  generateUblXml,
+  resolveEInvoiceFormat,
+  toCountryCode,
+  XRECHNUNG_CUSTOMIZATION_ID,
+} from "../invoices/e-invoice.js";
+import { orderToInvoiceData, DEFAULT_SELLER } from "../invoices/order-mapper.js";
+import { generateInvoicePdf } from "../invoices/pdf-generator.js";
+import type { InvoiceData } from "../invoices/types.js";
+
+interface XmlNode {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+}
+
+// Minimal parser: fails on anything that is not well-formed, which is all
+// the structural checks below need
+function parseXml(xml: string): XmlNode {
+  const body = xml.replace(/^<\?xml[^?]*\?>\s*/, "");
+  const stack: XmlNode[] = [{ name: "#document", attributes: {}, children: [], text: "" }];
+  const token = /<(\/?)([A-Za-z_][\w.:-]*)((?:\s+[\w.:-]+="[^"<]*")*)\s*(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+  let position = 0;
+
+  while ((match = token.exec(body))) {
+    if (match.index !== position) throw new Error(`Unexpected markup at ${position}`);
+    position = token.lastIndex;
+    const [, closing, name, attrs, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (text !== undefined) {
+      if (/&(?!(amp|lt|gt|quot|apos);)/.test(text)) throw new Error(`Unescaped & in ${current.name}`);
+      current.text += text.trim();
+    } else if (closing) {
+      if (current.name !== name) throw new Error(`Expected </${current.name}>, found </${name}>`);
+      stack.pop();
+    } else {
+      const node: XmlNode = { name, attributes: {}, children: [], text: "" };
+      for (const [, key, value] of attrs.matchAll(/([\w.:-]+)="([^"]*)"/g)) node.attributes[key] = value;
+      current.children.push(node);
+      if (!selfClosing) stack.push(node);
+    }
+  }
+  if (position !== body.length || stack.length !== 1 || stack[0].children.length !== 1) {
+    throw new Error("Document is not well-formed");
+  }
+  return stack[0].children[0];
+}
+
+function all(node: XmlNode, path: string): XmlNode[] {
+  return path.split("/").reduce<XmlNode[]>(
+    (nodes, name) => nodes.flatMap((entry) => entry.children.filter((child) => child.name === name)),
+    [node]
+  );
+}
+
+function value(node: XmlNode, path: string): string | undefined {
+  return all(node, path)[0]?.text;
+}
+
+const amount = (node: XmlNode, path: string) => Number(value(node, path));
+
+const baseOrder = {
+  id: "order-1",
+  orderNumber: "SK-2024-000042",
+  createdAt: new Date("2024-05-02T10:00:00Z"),
+  email: "einkauf@stadt.example",
+  paymentMethod: "Vorkasse",
+  paymentStatus: "pending" as const,
+  items: [
+    { productName: "T-Shirt", sku: "TS-1", quantity: 2, unitPriceNet: 1681, unitPriceGross: 2000, totalNet: 3361, totalGross: 4000, taxRate: 19 },
+    { productName: "Buch", sku: "B-1", quantity: 1, unitPriceNet: 1000, unitPriceGross: 1070, totalNet: 1000, totalGross: 1070, taxRate: 7 },
+    { productName: "Beilage", quantity: 1, unitPriceNet: 0, unitPriceGross: 0, totalNet: 0, totalGross: 0, taxRate: 7, bundleComponent: true },
+  ],
+  shippingNet: 500,
+  shippingGross: 595,
+  shippingTaxRate: 19,
+  discountTotal: 507,
+  discountCode: "SPRING",
+  subtotalNet: 4361,
+  subtotalGross: 5070,
+  totalNet: 4436,
+  totalTax: 722,
+  totalGross: 5158,
+  billingAddress: {
+    firstName: "Erika",
+    lastName: "Beispiel",
+    company: "Stadtverwaltung Musterstadt",
+    street: "Rathausplatz 1",
+    zip: "10115",
+    city: "Berlin",
+    country: "Deutschland",
+  },
+};
+
+function invoiceData(overrides: Partial<InvoiceData> = {}): InvoiceData {
+  return {
+    ...orderToInvoiceData({
+      order: baseOrder,
+      invoiceNumber: "RE-2024-000042",
+      invoiceDate: new Date("2024-05-03T10:00:00Z"),
+      buyerReference: "991-12345-67",
+    }),
+    ...overrides,
+  };
+}
+
+function expectConsistentCiiTotals(root: XmlNode) {
+  const summation = all(
+    root,
+    "rsm:SupplyChainTradeTransaction/ram:ApplicableHeaderTradeSettlement/ram:SpecifiedTradeSettlementHeaderMonetarySummation"
+  )[0];
+  const lines = all(
+    root,
+    "rsm:SupplyChainTradeTransaction/ram:IncludedSupplyChainTradeLineItem/ram:SpecifiedLineTradeSettlement/ram:SpecifiedTradeSettlementLineMonetarySummation/ram:LineTotalAmount"
+  );
+  const taxes = all(root, "rsm:SupplyChainTradeTransaction/ram:ApplicableHeaderTradeSettlement/ram:ApplicableTradeTax");
+
+  const lineTotal = amount(summation, "ram:LineTotalAmount");
+  const basis = amount(summation, "ram:TaxBasisTotalAmount");
+  const tax = amount(summation, "ram:TaxTotalAmount");
+  const grand = amount(summation, "ram:GrandTotalAmount");
+
+  // BR-CO-10, BR-CO-13, BR-CO-14, BR-CO-15, BR-CO-16
+  expect(lines.reduce((sum, line) => sum + Number(line.text), 0)).toBeCloseTo(lineTotal, 2);
+  expect(lineTotal - amount(summation, "ram:AllowanceTotalAmount") + amount(summation, "ram:ChargeTotalAmount")).toBeCloseTo(basis, 2);
+  expect(taxes.reduce((sum, entry) => sum + amount(entry, "ram:CalculatedAmount"), 0)).toBeCloseTo(tax, 2);
+  expect(taxes.reduce((sum, entry) => sum + amount(entry, "ram:BasisAmount"), 0)).toBeCloseTo(basis, 2);
+  expect(basis + tax).toBeCloseTo(grand, 2);
+  expect(grand - amount(summation, "ram:TotalPrepaidAmount")).toBeCloseTo(amount(summation, "ram:DuePayableAmount"), 2);
+}
+
+describe("e-invoice format", () => {
+  it("should choose XRechnung for a Leitweg-ID and ZUGFeRD for a VAT ID", () => {
+    expect(resolveEInvoiceFormat({ metadata: { leitwegId: "991-12345-67" } })).toBe("xrechnung-cii");
+    expect(resolveEInvoiceFormat({ metadata: { leitwegId: "991-12345-67", eInvoiceSyntax: "ubl" } })).toBe("xrechnung-ubl");
+    expect(resolveEInvoiceFormat({ vatId: "DE987654321", metadata: null })).toBe("zugferd");
+    expect(resolveEInvoiceFormat({ vatId: "DE987654321", metadata: { eInvoiceFormat: "none" } })).toBeNull();
+    expect(resolveEInvoiceFormat({ metadata: { eInvoiceFormat: "xrechnung-ubl" } })).toBe("xrechnung-ubl");
+    expect(resolveEInvoiceFormat({})).toBeNull();
+  });
+
+  it("should map stored country names to ISO codes", () => {
+    expect(toCountryCode("Deutschland")).toBe("DE");
+    expect(toCountryCode("at")).toBe("AT");
+    expect(toCountryCode("Atlantis")).toBeUndefined();
+  });
+});
+
+describe("e-invoice model", () => {
+  it("should split the discount per tax rate and keep the totals consistent", () => {
+    const model = buildEInvoiceModel(invoiceData());
+    expect(model.lines).toHaveLength(2);
+    expect(model.allowanceCharges.filter((entry) => !entry.charge).map((entry) => entry.tax.rate)).toEqual([19, 7]);
+    expect(model.totals.taxBasis).toBe(
+      model.taxes.reduce((sum, tax) => sum + tax.basis, 0)
+    );
+    expect(model.totals.payable).toBe(model.totals.gross);
+  });
+
+  it("should count gift cards as prepaid on a pending invoice", () => {
+    const model = buildEInvoiceModel(invoiceData({ prepaidAmount: 2000 }));
+    expect(model.totals.prepaid).toBe(2000);
+    expect(model.totals.payable).toBe(model.totals.gross - 2000);
+    expect(buildEInvoiceModel(invoiceData({ prepaidAmount: 99999 })).totals.payable).toBe(0);
+    expect(buildEInvoiceModel(invoiceData({ paymentStatus: "paid", prepaidAmount: 2000 })).totals.payable).toBe(0);
+  });
+
+  it("should report reverse charge without VAT", () => {
+    const model = buildEInvoiceModel(invoiceData({ vatTreatment: "reverse_charge", taxNote: "Steuerschuldnerschaft des Leistungsempfaengers" }));
+    expect(model.taxes).toHaveLength(1);
+    expect(model.taxes[0]).toMatchObject({ code: "K", rate: 0, amount: 0, exemptionReasonCode: "VATEX-EU-IC" });
+  });
+});
+
+describe("XRechnung CII", () => {
+  it("should produce a well-formed invoice with the required business terms", () => {
+    const root = parseXml(generateCiiXml(invoiceData(), { profile: "xrechnung" }));
+    expect(root.name).toBe("rsm:CrossIndustryInvoice");
+    expect(value(root, "rsm:ExchangedDocumentContext/ram:GuidelineSpecifiedDocumentContextParameter/ram:ID"))
+      .toBe(XRECHNUNG_CUSTOMIZATION_ID);
+    expect(value(root, "rsm:ExchangedDocument/ram:ID")).toBe("RE-2024-000042");
+    expect(value(root, "rsm:ExchangedDocument/ram:TypeCode")).toBe("380");
+    expect(all(root, "rsm:ExchangedDocument/ram:IssueDateTime/udt:DateTimeString")[0].attributes.format).toBe("102");
+
+    const agreement = "rsm:SupplyChainTradeTransaction/ram:ApplicableHeaderTradeAgreement";
+    expect(value(root, `${agreement}/ram:BuyerReference`)).toBe("991-12345-67");
+    expect(value(root, `${agreement}/ram:SellerTradeParty/ram:SpecifiedTaxRegistration/ram:ID`)).toBe(DEFAULT_SELLER.taxId);
+    expect(value(root, `${agreement}/ram:SellerTradeParty/ram:PostalTradeAddress/ram:CountryID`)).toBe("DE");
+    expect(value(root, `${agreement}/ram:SellerTradeParty/ram:DefinedTradeContact/ram:EmailURIUniversalCommunication/ram:URIID`))
+      .toBe(DEFAULT_SELLER.email);
+    expect(value(root, `${agreement}/ram:BuyerTradeParty/ram:Name`)).toBe("Stadtverwaltung Musterstadt");
+    expect(value(root, `${agreement}/ram:BuyerTradeParty/ram:URIUniversalCommunication/ram:URIID`)).toBe("einkauf@stadt.example");
+
+    const settlement = "rsm:SupplyChainTradeTransaction/ram:ApplicableHeaderTradeSettlement";
+    expect(value(root, `${settlement}/ram:SpecifiedTradeSettlementPaymentMeans/ram:TypeCode`)).toBe("58");
+    expect(value(root, `${settlement}/ram:SpecifiedTradeSettlementPaymentMeans/ram:PayeePartyCreditorFinancialAccount/ram:IBANID`))
+      .toBe("DE89370400440532013000");
+    expect(all(root, "rsm:SupplyChainTradeTransaction/ram:IncludedSupplyChainTradeLineItem")).toHaveLength(2);
+    expectConsistentCiiTotals(root);
+  });
+
+  it("should escape text content", () => {
+    const data = invoiceData();
+    data.items[0].description = "Shirt <Größe L> & Socken";
+    const root = parseXml(generateCiiXml(data, { profile: "xrechnung" }));
+    expect(value(root, "rsm:SupplyChainTradeTransaction/ram:IncludedSupplyChainTradeLineItem/ram:SpecifiedTradeProduct/ram:Name"))
+      .toBe("Shirt &lt;Größe L&gt; &amp; Socken");
+  });
+
+  it("should reject an invoice without Leitweg-ID", () => {
+    const data = invoiceData({ buyerReference: undefined });
+    expect(() => generateCiiXml(data, { profile: "xrechnung" })).toThrow(EInvoiceError);
+    try {
+      generateCiiXml(data, { profile: "xrechnung" });
+    } catch (err) {
+      expect((err as EInvoiceError).violations).toEqual([expect.stringContaining("BR-DE-15")]);
+    }
+    // Factur-X EN 16931 does not require one
+    expect(() => generateCiiXml(data, { profile: "en16931" })).not.toThrow();
+  });
+
+  it("should mark paid invoices as prepaid", () => {
+    const root = parseXml(generateCiiXml(invoiceData({ paymentStatus: "paid" }), { profile: "en16931" }));
+    const summation = all(
+      root,
+      "rsm:SupplyChainTradeTransaction/ram:ApplicableHeaderTradeSettlement/ram:SpecifiedTradeSettlementHeaderMonetarySummation"
+    )[0];
+    expect(amount(summation, "ram:DuePayableAmount")).toBe(0);
+    expect(value(root, "rsm:ExchangedDocumentContext/ram:GuidelineSpecifiedDocumentContextParameter/ram:ID"))
+      .toBe("urn:cen.eu:en16931:2017");
+    expectConsistentCiiTotals(root);
+  });
+});
+
+describe("XRechnung UBL", () => {
+  it("should produce a well-formed invoice with consistent totals", () => {
+    const root = parseXml(generateUblXml(invoiceData()));
+    expect(root.name).toBe("Invoice");
+    expect(root.attributes.xmlns).toBe("urn:oasis:names:specification:ubl:schema:xsd:Invoice-2");
+    expect(value(root, "cbc:CustomizationID")).toBe(XRECHNUNG_CUSTOMIZATION_ID);
+    expect(value(root, "cbc:IssueDate")).toBe("2024-05-03");
+    expect(value(root, "cbc:BuyerReference")).toBe("991-12345-67");
+    expect(all(root, "cac:AccountingSupplierParty/cac:Party/cbc:EndpointID")[0].attributes.schemeID).toBe("EM");
+    expect(value(root, "cac:AccountingCustomerParty/cac:Party/cac:PostalAddress/cac:Country/cbc:IdentificationCode")).toBe("DE");
+
+    const lines = all(root, "cac:InvoiceLine");
+    const subtotals = all(root, "cac:TaxTotal/cac:TaxSubtotal");
+    const total = all(root, "cac:LegalMonetaryTotal")[0];
+    expect(lines).toHaveLength(2);
+    expect(lines.reduce((sum, line) => sum + amount(line, "cbc:LineExtensionAmount"), 0))
+      .toBeCloseTo(amount(total, "cbc:LineExtensionAmount"), 2);
+    expect(subtotals.reduce((sum, entry) => sum + amount(entry, "cbc:TaxableAmount"), 0))
+      .toBeCloseTo(amount(total, "cbc:TaxExclusiveAmount"), 2);
+    expect(amount(total, "cbc:TaxExclusiveAmount") + amount(root, "cac:TaxTotal/cbc:TaxAmount"))
+      .toBeCloseTo(amount(total, "cbc:TaxInclusiveAmount"), 2);
+  });
+
+  it("should produce a credit note referencing the corrected invoice", () => {
+    const root = parseXml(generateUblXml(invoiceData({
+      documentType: "credit_note",
+      invoiceNumber: "GS-2024-000003",
+      correctedInvoice: { invoiceNumber: "RE-2024-000042", invoiceDate: new Date("2024-05-03T10:00:00Z") },
+    })));
+    expect(root.name).toBe("CreditNote");
+    expect(value(root, "cbc:CreditNoteTypeCode")).toBe("381");
+    expect(value(root, "cac:BillingReference/cac:InvoiceDocumentReference/cbc:ID")).toBe("RE-2024-000042");
+    expect(all(root, "cac:CreditNoteLine/cbc:CreditedQuantity")).toHaveLength(2);
+  });
+});
+
+describe("ZUGFeRD PDF", () => {
+  it("should embed the CII XML as factur-x.xml", async () => {
+    const data = invoiceData({ buyerReference: undefined });
+    const pdf = await generateInvoicePdf(data, { eInvoiceXml: generateCiiXml(data, { profile: "en16931" }) });
+    const content = pdf.toString("latin1");
+    expect(content.startsWith("%PDF-1.7")).toBe(true);
+    expect(content).toContain("(factur-x.xml)");
+    expect(content).toContain("/AFRelationship /Alternative");
+    expect(content).toContain("/OutputIntents");
+  });
+});
@@ -0,0 +1,117 @@
+// Fulfilment Source Selection Tests
+import { describe, it, expect } from "vitest";
+import { countryDistance, rankWarehouses, selectFulfilmentSource } from "../inventory/fulfilment.js";
+import type { FulfilmentCandidate } from "../inventory/types.js";
+
+const warehouse = (
+  warehouseId: string,
+  overrides: Partial<FulfilmentCandidate> = {}
+): FulfilmentCandidate => ({
+  warehouseId,
+  priority: 0,
+  isDefault: false,
+  quantity: 10,
+  reservedQuantity: 0,
+  trackInventory: true,
+  allowBackorder: false,
+  ...overrides,
+});
+
+describe("fulfilment", () => {
+  describe("countryDistance", () => {
+    it("should be zero within the same country", () => {
+      expect(countryDistance("DE", "de")).toBe(0);
+    });
+
+    it("should rank neighbours closer than distant countries", () => {
+      const deToAt = countryDistance("DE", "AT")!;
+      const deToEs = countryDistance("DE", "ES")!;
+      expect(deToAt).toBeGreaterThan(0);
+      expect(deToAt).toBeLessThan(deToEs);
+    });
+
+    it("should return null for unknown countries", () => {
+      expect(countryDistance("DE", "XX")).toBeNull();
+    });
+  });
+
+  describe("rankWarehouses", () => {
+    it("should order by priority, lower first", () => {
+      const ranked = rankWarehouses(
+        [warehouse("b", { priority: 2 }), warehouse("a", { priority: 1 })],
+        "priority"
+      );
+      expect(ranked.map((w) => w.warehouseId)).toEqual(["a", "b"]);
+    });
+
+    it("should prefer the default warehouse on equal priority", () => {
+      const ranked = rankWarehouses(
+        [warehouse("other"), warehouse("main", { isDefault: true })],
+        "priority"
+      );
+      expect(ranked[0].warehouseId).toBe("main");
+    });
+
+    it("should order by distance with the closest strategy", () => {
+      const ranked = rankWarehouses(
+        [
+          warehouse("berlin", { country: "DE", priority: 0 }),
+          warehouse("vienna", { country: "AT", priority: 5 }),
+        ],
+        "closest",
+        "HU"
+      );
+      expect(ranked[0].warehouseId).toBe("vienna");
+    });
+
+    it("should fall back to priority when the destination is unknown", () => {
+      const ranked = rankWarehouses(
+        [
+          warehouse("vienna", { country: "AT", priority: 5 }),
+          warehouse("berlin", { country: "DE", priority: 0 }),
+        ],
+        "closest"
+      );
+      expect(ranked[0].warehouseId).toBe("berlin");
+    });
+
+    it("should not mutate the input", () => {
+      const candidates = [warehouse("b", { priority: 2 }), warehouse("a", { priority: 1 })];
+      rankWarehouses(candidates, "priority");
+      expect(candidates[0].warehouseId).toBe("b");
+    });
+  });
+
+  describe("selectFulfilmentSource", () => {
+    it("should skip warehouses that cannot ship the full quantity", () => {
+      const source = selectFulfilmentSource(
+        [
+          warehouse("near", { country: "DE", quantity: 3 }),
+          warehouse("far", { country: "ES", quantity: 20 }),
+        ],
+        5,
+        "closest",
+        "DE"
+      );
+      expect(source?.warehouseId).toBe("far");
+    });
+
+    it("should take active reservations into account", () => {
+      const source = selectFulfilmentSource(
+        [warehouse("a", { quantity: 5, reservedQuantity: 4 })],
+        2,
+        "priority"
+      );
+      expect(source).toBeNull();
+    });
+
+    it("should accept warehouses allowing backorders", () => {
+      const source = selectFulfilmentSource(
+        [warehouse("a", { quantity: 0, allowBackorder: true })],
+        2,
+        "priority"
+      );
+      expect(source?.warehouseId).toBe("a");
+    });
+  });
+});
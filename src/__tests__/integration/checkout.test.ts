@@ -0,0 +1,201 @@
+// Checkout Reservation Integration Tests
+// src/__tests__/integration/checkout.test.ts
+
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { and, eq } from "drizzle-orm";
+import type { Hono } from "hono";
+import type Stripe from "stripe";
+import type { Database } from "@/db";
+import { cartItems, orders, paymentMethods, stockReservations } from "@/db/schema";
+import {
+  setupServiceDatabase,
+  teardownServiceDatabase,
+  createProduct,
+  createCart,
+  createShopApp,
+  requestJson,
+  completeCheckoutBody,
+  testAddress,
+  type ApiBody,
+  type CheckoutStarted,
+  type OrderPlaced,
+} from "./setup";
+
+// Stripe is not called; the sessions expire an hour after they are created
+vi.mock("@/payments/stripe", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/payments/stripe")>()),
+  createCheckoutSession: vi.fn(async (params: { expiresAt?: Date }) => ({
+    sessionId: "cs_test",
+    url: "https://checkout.stripe.test/cs_test",
+    expiresAt: params.expiresAt ?? new Date(Date.now() + 24 * 60 * 60 * 1000),
+  })),
+  expireCheckoutSession: vi.fn(async () => undefined),
+}));
+
+describe("checkout reservations", () => {
+  let db: Database;
+  let app: Hono;
+  let stripe: typeof import("@/payments/stripe");
+  let inventoryService: typeof import("@/inventory/inventory-service")["inventoryService"];
+  let releaseExpiredHolds: typeof import("@/payments")["releaseExpiredHolds"];
+  let processWebhookEvent: typeof import("@/payments/webhooks")["processWebhookEvent"];
+  let invoiceMethodId: string;
+  let cardMethodId: string;
+
+  beforeAll(async () => {
+    db = await setupServiceDatabase();
+    app = await createShopApp();
+    stripe = await import("@/payments/stripe");
+    ({ inventoryService } = await import("@/inventory/inventory-service"));
+    ({ releaseExpiredHolds } = await import("@/payments"));
+    const webhooks = await import("@/payments/webhooks");
+    webhooks.registerDefaultHandlers();
+    processWebhookEvent = webhooks.processWebhookEvent;
+
+    // Paid outside the shop: the order waits for its payment with the stock held
+    const [invoice, card] = await db.insert(paymentMethods).values([
+      { slug: "invoice", name: "Rechnung", provider: "invoice" },
+      { slug: "card", name: "Karte", provider: "stripe" },
+    ]).returning();
+    invoiceMethodId = invoice.id;
+    cardMethodId = card.id;
+  }, 120000);
+
+  afterAll(async () => {
+    await teardownServiceDatabase();
+  });
+
+  const startCheckout = (cartId: string) =>
+    requestJson(app, "POST", "/checkout", { cartId, email: "buyer@example.com", shippingAddress: testAddress });
+
+  const reservedOf = async (productId: string) => (await inventoryService.getInventory(productId))?.reservedQuantity;
+
+  it("should hold the cart's stock during checkout", async () => {
+    const product = await createProduct(db, { stockQuantity: 5 });
+    const cart = await createCart(db, [{ product, quantity: 2 }]);
+
+    const res = await startCheckout(cart.id);
+    expect(res.status).toBe(201);
+    expect((await res.json() as ApiBody<CheckoutStarted>).data.reservationExpiresAt).toBeTruthy();
+
+    const holds = await inventoryService.getActiveReservations(cart.id);
+    expect(holds.map((hold) => hold.quantity)).toEqual([2]);
+    expect(await reservedOf(product.id)).toBe(2);
+
+    // Coming back to the checkout replaces the holds
+    expect((await startCheckout(cart.id)).status).toBe(201);
+    expect(await inventoryService.getActiveReservations(cart.id)).toHaveLength(1);
+    expect(await reservedOf(product.id)).toBe(2);
+  });
+
+  it("should count the cart's own holds as available to it", async () => {
+    const product = await createProduct(db, { stockQuantity: 2 });
+    const cart = await createCart(db, [{ product, quantity: 2 }]);
+    const item = await db.query.cartItems.findFirst({ where: eq(cartItems.cartId, cart.id) });
+    expect((await startCheckout(cart.id)).status).toBe(201);
+
+    // All stock is held by this cart: it may keep its quantity, others get nothing
+    const own = await requestJson(app, "PATCH", `/cart/${cart.id}/items/${item!.id}`, { quantity: 2 });
+    expect(own.status).toBe(200);
+
+    const other = await createCart(db, []);
+    const res = await requestJson(app, "POST", `/cart/${other.id}/items`, { productId: product.id, quantity: 1 });
+    expect(res.status).toBe(400);
+    expect((await res.json() as ApiBody).error?.code).toBe("INSUFFICIENT_STOCK");
+  });
+
+  it("should move the hold from the cart to the order", async () => {
+    const product = await createProduct(db, { stockQuantity: 5 });
+    const cart = await createCart(db, [{ product, quantity: 2 }]);
+    await startCheckout(cart.id);
+
+    const res = await requestJson(app, "POST", "/checkout/complete", completeCheckoutBody(cart.id, { paymentMethodId: invoiceMethodId }));
+    expect(res.status).toBe(201);
+    const { orderId } = (await res.json() as ApiBody<OrderPlaced>).data;
+
+    expect(await inventoryService.getActiveReservations(cart.id)).toHaveLength(0);
+    const holds = await inventoryService.getActiveReservations(orderId);
+    expect(holds.map((hold) => hold.quantity)).toEqual([2]);
+    expect(await reservedOf(product.id)).toBe(2);
+  });
+
+  it("should sell the held stock when the order needs no payment", async () => {
+    const product = await createProduct(db, { stockQuantity: 5 });
+    const cart = await createCart(db, [{ product, quantity: 2 }]);
+    await startCheckout(cart.id);
+
+    const res = await requestJson(app, "POST", "/checkout/complete", completeCheckoutBody(cart.id));
+    expect(res.status).toBe(201);
+    const { orderId } = (await res.json() as ApiBody<OrderPlaced>).data;
+
+    expect(await inventoryService.getActiveReservations(orderId)).toHaveLength(0);
+    const item = await inventoryService.getInventory(product.id);
+    expect(item?.quantity).toBe(3);
+    expect(item?.reservedQuantity).toBe(0);
+  });
+
+  it("should release holds once they expire", async () => {
+    const product = await createProduct(db, { stockQuantity: 5 });
+    const cart = await createCart(db, [{ product, quantity: 2 }]);
+    await startCheckout(cart.id);
+
+    await db
+      .update(stockReservations)
+      .set({ expiresAt: new Date(Date.now() - 60_000) })
+      .where(and(eq(stockReservations.orderId, cart.id), eq(stockReservations.status, "active")));
+    expect(await inventoryService.cleanupExpiredReservations()).toBeGreaterThanOrEqual(1);
+
+    const [hold] = await db.select().from(stockReservations).where(eq(stockReservations.orderId, cart.id));
+    expect(hold.status).toBe("expired");
+    expect(await reservedOf(product.id)).toBe(0);
+
+    // Placing the order takes the stock again
+    const res = await requestJson(app, "POST", "/checkout/complete", completeCheckoutBody(cart.id, { paymentMethodId: invoiceMethodId }));
+    expect(res.status).toBe(201);
+    const { orderId } = (await res.json() as ApiBody<OrderPlaced>).data;
+    expect(await inventoryService.getActiveReservations(orderId)).toHaveLength(1);
+    expect(await reservedOf(product.id)).toBe(2);
+  });
+
+  describe("with a payment at the provider", () => {
+    const expireHolds = (orderId: string) =>
+      db
+        .update(stockReservations)
+        .set({ expiresAt: new Date(Date.now() - 60_000) })
+        .where(and(eq(stockReservations.orderId, orderId), eq(stockReservations.status, "active")));
+
+    async function placeCardOrder(product: Awaited<ReturnType<typeof createProduct>>) {
+      const cart = await createCart(db, [{ product, quantity: 2 }]);
+      const res = await requestJson(app, "POST", "/checkout/complete", completeCheckoutBody(cart.id, { paymentMethodId: cardMethodId }));
+      expect(res.status).toBe(201);
+      return (await res.json() as ApiBody<OrderPlaced>).data.orderId;
+    }
+
+    it("should hold the order's stock until the checkout session expires", async () => {
+      const product = await createProduct(db, { stockQuantity: 5 });
+      const orderId = await placeCardOrder(product);
+
+      const { expiresAt } = vi.mocked(stripe.createCheckoutSession).mock.lastCall![0];
+      const [hold] = await inventoryService.getActiveReservations(orderId);
+      expect(hold.expiresAt.getTime()).toBeGreaterThan(expiresAt!.getTime());
+    });
+
+    it("should close the session and cancel the order when the hold lapses before payment", async () => {
+      const product = await createProduct(db, { stockQuantity: 5 });
+      const orderId = await placeCardOrder(product);
+
+      await expireHolds(orderId);
+      expect((await releaseExpiredHolds()).cancelled).toBeGreaterThanOrEqual(1);
+
+      expect(stripe.expireCheckoutSession).toHaveBeenCalledWith("cs_test");
+      const order = await db.query.orders.findFirst({ where: eq(orders.id, orderId) });
+      expect(order?.status).toBe("cancelled");
+      expect(await reservedOf(product.id)).toBe(0);
+
+      // A payment arriving anyway does not sell the released stock
+      const late = { id: `evt_${crypto.randomUUID()}`, type: "checkout.session.completed", data: { object: { payment_intent: "pi_late", amount_total: 2380, metadata: { orderId } } } };
+      expect(await processWebhookEvent(late as unknown as Stripe.Event)).toMatchObject({ action: "ignored" });
+      expect((await inventoryService.getInventory(product.id))?.quantity).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,254 @@
+// Gift Card Payment Integration Tests
+// src/__tests__/integration/giftcards.test.ts
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import type { Hono } from "hono";
+import type Stripe from "stripe";
+import type { Database } from "@/db";
+import { giftCards, orders, paymentMethods, refunds } from "@/db/schema";
+import {
+  setupServiceDatabase,
+  teardownServiceDatabase,
+  createProduct,
+  createCart,
+  createShopApp,
+  requestJson,
+  completeCheckoutBody,
+  type ApiBody,
+  type OrderPlaced,
+} from "./setup";
+
+// The providers are not called; the tests check what would be charged and refunded
+vi.mock("@/payments/stripe", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/payments/stripe")>()),
+  createCheckoutSession: vi.fn(async () => ({ sessionId: "cs_test", url: "https://checkout.stripe.test/cs_test", expiresAt: new Date(Date.now() + 60 * 60 * 1000) })),
+  createPaymentIntent: vi.fn(async () => ({ clientSecret: "pi_test_secret", paymentIntentId: "pi_test", status: "requires_payment_method" })),
+  createRefund: vi.fn(async () => ({ id: `re_${crypto.randomUUID()}` })),
+}));
+vi.mock("@/payments/paypal", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/payments/paypal")>()),
+  createPayPalOrder: vi.fn(async () => ({ paypalOrderId: "PP-TEST", approvalUrl: "https://paypal.test/approve", status: "CREATED" })),
+  getPayPalOrder: vi.fn(),
+  capturePayPalOrder: vi.fn(async () => ({ captureId: "CAP-TEST", status: "COMPLETED", amount: 1380, currency: "EUR" })),
+}));
+
+describe("gift card payments", () => {
+  let db: Database;
+  let app: Hono;
+  let stripe: typeof import("@/payments/stripe");
+  let paypal: typeof import("@/payments/paypal");
+  let giftCardService: typeof import("@/giftcards/service")["giftCardService"];
+  let orderService: typeof import("@/orders")["orderService"];
+  let refundService: typeof import("@/orders")["refundService"];
+  let processWebhookEvent: typeof import("@/payments/webhooks")["processWebhookEvent"];
+  const methods: Record<"checkout" | "intent" | "paypal", string> = { checkout: "", intent: "", paypal: "" };
+  const admin = { type: "admin" as const, id: "test" };
+
+  beforeAll(async () => {
+    db = await setupServiceDatabase();
+    app = await createShopApp();
+    stripe = await import("@/payments/stripe");
+    paypal = await import("@/payments/paypal");
+    ({ giftCardService } = await import("@/giftcards/service"));
+    ({ orderService, refundService } = await import("@/orders"));
+    const webhooks = await import("@/payments/webhooks");
+    webhooks.registerDefaultHandlers();
+    processWebhookEvent = webhooks.processWebhookEvent;
+
+    const rows = await db.insert(paymentMethods).values([
+      { slug: "card", name: "Karte", provider: "stripe" },
+      { slug: "card-element", name: "Karte (Element)", provider: "stripe", providerConfig: { flow: "payment_intent" } },
+      { slug: "paypal", name: "PayPal", provider: "paypal" },
+    ]).returning();
+    methods.checkout = rows[0].id;
+    methods.intent = rows[1].id;
+    methods.paypal = rows[2].id;
+  }, 120000);
+
+  afterAll(async () => {
+    await teardownServiceDatabase();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const balanceOf = async (id: string) =>
+    (await db.query.giftCards.findFirst({ where: eq(giftCards.id, id) }))!.currentBalance;
+
+  const orderOf = async (orderId: string) => (await db.query.orders.findFirst({ where: eq(orders.id, orderId) }))!;
+
+  // Order over 2380 (2 x 1190, no shipping) with one gift card
+  async function checkoutWithGiftCard(cardValue: number, paymentMethodId?: string) {
+    const card = await giftCardService.create({ initialValue: cardValue });
+    const product = await createProduct(db, { stockQuantity: 10 });
+    const cart = await createCart(db, [{ product, quantity: 2 }]);
+    const res = await requestJson(app, "POST", "/checkout/complete", completeCheckoutBody(cart.id, {
+      paymentMethodId,
+      giftCardCodes: [card.code],
+    }));
+    expect(res.status).toBe(201);
+    return { card, data: (await res.json() as ApiBody<OrderPlaced>).data };
+  }
+
+  // Mark a split order paid, as the provider's webhook would
+  async function markPaid(orderId: string) {
+    await orderService.transition(orderId, { paymentStatus: "paid" }, { actor: admin, fields: { paymentReference: "pi_test" } });
+  }
+
+  function stripeEvent(type: string, object: Record<string, unknown>): Stripe.Event {
+    return { id: `evt_${crypto.randomUUID()}`, type, data: { object } } as unknown as Stripe.Event;
+  }
+
+  describe("checkout", () => {
+    it("should redeem the gift card and charge the rest through Stripe Checkout", async () => {
+      const { card, data } = await checkoutWithGiftCard(1000, methods.checkout);
+
+      expect(data.total).toBe(2380);
+      expect(data.giftCardTotal).toBe(1000);
+      expect(data.amountDue).toBe(1380);
+      expect(data.nextStep).toBe("payment");
+      expect(await balanceOf(card.id)).toBe(0);
+
+      expect(stripe.createCheckoutSession).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(stripe.createCheckoutSession).mock.calls[0][0].lineItems).toEqual([
+        expect.objectContaining({ amount: 1380, quantity: 1 }),
+      ]);
+    });
+
+    it("should charge the rest through a payment intent", async () => {
+      const { data } = await checkoutWithGiftCard(1000, methods.intent);
+
+      expect(data.payment).toMatchObject({ provider: "stripe", type: "client_secret" });
+      expect(vi.mocked(stripe.createPaymentIntent).mock.calls[0][0].amount).toBe(1380);
+    });
+
+    it("should charge the rest through PayPal", async () => {
+      const { data } = await checkoutWithGiftCard(1000, methods.paypal);
+
+      expect(data.payment).toMatchObject({ provider: "paypal", type: "redirect" });
+      expect(vi.mocked(paypal.createPayPalOrder).mock.calls[0][0].amount).toBe(1380);
+    });
+
+    it("should mark the order paid once the PayPal payment is captured", async () => {
+      const { data } = await checkoutWithGiftCard(1000, methods.paypal);
+      const approved = { status: "APPROVED", amount: 1380, currency: "EUR", referenceId: data.orderId };
+      vi.mocked(paypal.getPayPalOrder).mockResolvedValueOnce(approved);
+
+      const res = await requestJson(app, "POST", "/paypal/orders/PP-TEST/capture");
+      expect(res.status).toBe(200);
+      const order = await orderOf(data.orderId);
+      expect(order.paymentStatus).toBe("paid");
+      expect(order.paymentReference).toBe("CAP-TEST");
+
+      // Repeating the capture books nothing twice
+      vi.mocked(paypal.getPayPalOrder).mockResolvedValueOnce({ ...approved, status: "COMPLETED", captureId: "CAP-TEST" });
+      expect((await requestJson(app, "POST", "/paypal/orders/PP-TEST/capture")).status).toBe(200);
+      expect(paypal.capturePayPalOrder).toHaveBeenCalledTimes(1);
+    });
+
+    it("should mark an order covered by gift cards as paid", async () => {
+      const { card, data } = await checkoutWithGiftCard(5000, methods.checkout);
+
+      expect(data.amountDue).toBe(0);
+      expect(data.nextStep).toBe("confirmation");
+      expect(data.payment).toBeNull();
+      expect((await orderOf(data.orderId)).paymentStatus).toBe("paid");
+      expect(await balanceOf(card.id)).toBe(2620);
+      expect(stripe.createCheckoutSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("reversal", () => {
+    it("should give the gift card back when the order is cancelled", async () => {
+      const { card, data } = await checkoutWithGiftCard(1000, methods.checkout);
+
+      await orderService.transition(data.orderId, { status: "cancelled", paymentStatus: "cancelled" }, { actor: admin });
+
+      expect(await balanceOf(card.id)).toBe(1000);
+      expect((await orderOf(data.orderId)).giftCardTotal).toBe(0);
+    });
+
+    it("should give the gift card back when the checkout session expires", async () => {
+      const { card, data } = await checkoutWithGiftCard(1000, methods.checkout);
+
+      await processWebhookEvent(stripeEvent("checkout.session.expired", { metadata: { orderId: data.orderId } }));
+
+      expect(await balanceOf(card.id)).toBe(1000);
+    });
+
+    it("should keep the gift card redeemed after a failed payment attempt", async () => {
+      const { card, data } = await checkoutWithGiftCard(1000, methods.intent);
+
+      await processWebhookEvent(stripeEvent("payment_intent.payment_failed", { id: "pi_test", metadata: { orderId: data.orderId } }));
+
+      expect((await orderOf(data.orderId)).paymentStatus).toBe("failed");
+      expect(await balanceOf(card.id)).toBe(0);
+    });
+  });
+
+  describe("refunds", () => {
+    it("should refund an order paid by gift card onto the card", async () => {
+      const { card, data } = await checkoutWithGiftCard(5000);
+
+      const { refund, giftCardCode } = await refundService.refund(data.orderId, {}, admin);
+
+      expect(refund.provider).toBe("gift_card");
+      expect(refund.amount).toBe(2380);
+      expect(refund.giftCardAmount).toBe(2380);
+      expect(giftCardCode).toBeUndefined();
+      expect(await balanceOf(card.id)).toBe(5000);
+      expect((await orderOf(data.orderId)).paymentStatus).toBe("refunded");
+      expect(stripe.createRefund).not.toHaveBeenCalled();
+    });
+
+    it("should refund a split order through the provider first, then onto the card", async () => {
+      const { card, data } = await checkoutWithGiftCard(1000, methods.checkout);
+      await markPaid(data.orderId);
+
+      const first = await refundService.refund(data.orderId, { amount: 1000 }, admin);
+      expect(first.refund.giftCardAmount).toBe(0);
+      expect(stripe.createRefund).toHaveBeenLastCalledWith("pi_test", 1000, first.refund.id);
+      expect(await balanceOf(card.id)).toBe(0);
+
+      // The provider only gets back what it took (1380); the rest goes onto the card
+      const rest = await refundService.refund(data.orderId, {}, admin);
+      expect(rest.refund.amount).toBe(1380);
+      expect(rest.refund.giftCardAmount).toBe(1000);
+      expect(stripe.createRefund).toHaveBeenLastCalledWith("pi_test", 380, rest.refund.id);
+      expect(await balanceOf(card.id)).toBe(1000);
+      expect((await orderOf(data.orderId)).paymentStatus).toBe("refunded");
+    });
+
+    it("should leave the gift card share alone when the provider refund fails", async () => {
+      const { card, data } = await checkoutWithGiftCard(1000, methods.checkout);
+      await markPaid(data.orderId);
+      vi.mocked(stripe.createRefund).mockRejectedValueOnce(new Error("card_declined"));
+
+      await expect(refundService.refund(data.orderId, {}, admin)).rejects.toThrow("card_declined");
+
+      expect(await balanceOf(card.id)).toBe(0);
+      const [failed] = await db.query.refunds.findMany({ where: eq(refunds.orderId, data.orderId) });
+      expect(failed.status).toBe("failed");
+
+      // The claim is released: the retry refunds all of it
+      const { refund } = await refundService.refund(data.orderId, {}, admin);
+      expect(refund.amount).toBe(2380);
+      expect(await balanceOf(card.id)).toBe(1000);
+    });
+
+    it("should refund a split order as credit and onto the card", async () => {
+      const { card, data } = await checkoutWithGiftCard(1000, methods.checkout);
+      await markPaid(data.orderId);
+
+      const { refund, giftCardCode } = await refundService.refund(data.orderId, { method: "gift_card" }, admin);
+
+      expect(refund.giftCardAmount).toBe(1000);
+      expect(await balanceOf(card.id)).toBe(1000);
+      const credit = await db.query.giftCards.findFirst({ where: eq(giftCards.code, giftCardCode!) });
+      expect(credit?.currentBalance).toBe(1380);
+      expect(stripe.createRefund).not.toHaveBeenCalled();
+    });
+  });
+});
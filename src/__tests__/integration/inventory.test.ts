@@ -0,0 +1,156 @@
+// Inventory Service Integration Tests
+// src/__tests__/integration/inventory.test.ts
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { and, eq } from "drizzle-orm";
+import type { Database } from "@/db";
+import { inventoryItems, products, stockMovements, warehouses } from "@/db/schema";
+import { InsufficientStockError } from "@/inventory/utils";
+import { setupServiceDatabase, teardownServiceDatabase, createProduct } from "./setup";
+
+describe("inventoryService", () => {
+  let db: Database;
+  let inventoryService: typeof import("@/inventory/inventory-service")["inventoryService"];
+  let main: string;
+  let outlet: string;
+
+  beforeAll(async () => {
+    db = await setupServiceDatabase();
+    ({ inventoryService } = await import("@/inventory/inventory-service"));
+
+    const [mainWarehouse, outletWarehouse] = await db.insert(warehouses).values([
+      { name: "Main", code: "MAIN", isDefault: true, priority: 0 },
+      { name: "Outlet", code: "OUTLET", priority: 1 },
+    ]).returning();
+    main = mainWarehouse.id;
+    outlet = outletWarehouse.id;
+  }, 120000);
+
+  afterAll(async () => {
+    await teardownServiceDatabase();
+  });
+
+  const stockQuantityOf = async (productId: string) =>
+    (await db.query.products.findFirst({ where: eq(products.id, productId) }))!.stockQuantity;
+
+  const itemIn = async (productId: string, warehouseId: string) =>
+    db.query.inventoryItems.findFirst({
+      where: and(eq(inventoryItems.productId, productId), eq(inventoryItems.warehouseId, warehouseId)),
+    });
+
+  describe("stockQuantity sync", () => {
+    it("should start the ledger from the product's stock", async () => {
+      const product = await createProduct(db, { stockQuantity: 10 });
+
+      const item = await inventoryService.adjustStock({ productId: product.id, quantity: 5, reason: "Restocking" });
+
+      expect(item.quantity).toBe(15);
+      expect(item.warehouseId).toBe(main);
+      expect(await stockQuantityOf(product.id)).toBe(15);
+    });
+
+    it("should sum the stock of all warehouses", async () => {
+      const product = await createProduct(db, { stockQuantity: 10 });
+      await inventoryService.setStock({ productId: product.id, quantity: 10, reason: "Stock take" });
+
+      await inventoryService.initializeInventory({ productId: product.id, sku: product.sku, quantity: 4, warehouseId: outlet });
+      expect(await stockQuantityOf(product.id)).toBe(14);
+
+      await inventoryService.adjustStock({ productId: product.id, quantity: -3, reason: "Damaged", warehouseId: outlet });
+      expect(await stockQuantityOf(product.id)).toBe(11);
+    });
+
+    it("should deduct completed reservations and leave open ones out", async () => {
+      const product = await createProduct(db, { stockQuantity: 10 });
+      const reservation = await inventoryService.reserveStock({ productId: product.id, quantity: 3, orderId: crypto.randomUUID() });
+
+      // Held, not sold: on hand stays, available drops
+      expect(await stockQuantityOf(product.id)).toBe(10);
+      expect((await inventoryService.getInventory(product.id))?.availableQuantity).toBe(7);
+
+      await inventoryService.completeReservation(reservation.id);
+      expect(await stockQuantityOf(product.id)).toBe(7);
+      expect((await inventoryService.getInventory(product.id))?.reservedQuantity).toBe(0);
+    });
+  });
+
+  describe("locking", () => {
+    it("should not oversell under concurrent reservations", async () => {
+      const product = await createProduct(db, { stockQuantity: 5 });
+      await inventoryService.setStock({ productId: product.id, quantity: 5, reason: "Stock take" });
+
+      const results = await Promise.allSettled(
+        Array.from({ length: 5 }, () =>
+          inventoryService.reserveStock({ productId: product.id, quantity: 2, orderId: crypto.randomUUID() })
+        )
+      );
+
+      const rejected = results.filter((result) => result.status === "rejected");
+      expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(2);
+      expect(rejected).toHaveLength(3);
+      for (const result of rejected) {
+        expect((result as PromiseRejectedResult).reason).toBeInstanceOf(InsufficientStockError);
+      }
+      expect((await inventoryService.getInventory(product.id))?.reservedQuantity).toBe(4);
+    });
+
+    it("should not lose concurrent adjustments", async () => {
+      const product = await createProduct(db, { stockQuantity: 0 });
+      await inventoryService.setStock({ productId: product.id, quantity: 0, reason: "Stock take" });
+
+      await Promise.all(
+        Array.from({ length: 5 }, () => inventoryService.adjustStock({ productId: product.id, quantity: 2, reason: "Delivery" }))
+      );
+
+      expect((await inventoryService.getInventory(product.id))?.quantity).toBe(10);
+      expect(await stockQuantityOf(product.id)).toBe(10);
+    });
+  });
+
+  describe("transferStock", () => {
+    it("should move stock between warehouses as a pair of movements", async () => {
+      const product = await createProduct(db, { stockQuantity: 10 });
+      await inventoryService.setStock({ productId: product.id, quantity: 10, reason: "Stock take" });
+
+      await inventoryService.transferStock({ productId: product.id, quantity: 4, fromWarehouseId: main, toWarehouseId: outlet });
+
+      const source = await itemIn(product.id, main);
+      const destination = await itemIn(product.id, outlet);
+      expect(source?.quantity).toBe(6);
+      expect(destination?.quantity).toBe(4);
+      expect(await stockQuantityOf(product.id)).toBe(10);
+
+      const movements = await db.query.stockMovements.findMany({
+        where: eq(stockMovements.type, "transferred"),
+      });
+      const pair = movements.filter((movement) => [source!.id, destination!.id].includes(movement.inventoryItemId));
+      expect(pair.map((movement) => movement.quantity).sort((a, b) => a - b)).toEqual([-4, 4]);
+      expect(pair[0].referenceId).toBe(pair[1].referenceId);
+    });
+
+    it("should not transfer reserved stock", async () => {
+      const product = await createProduct(db, { stockQuantity: 10 });
+      await inventoryService.reserveStock({ productId: product.id, quantity: 5, orderId: crypto.randomUUID(), warehouseId: main });
+
+      await expect(
+        inventoryService.transferStock({ productId: product.id, quantity: 6, fromWarehouseId: main, toWarehouseId: outlet })
+      ).rejects.toThrow(InsufficientStockError);
+      expect((await itemIn(product.id, main))?.quantity).toBe(10);
+    });
+
+    it("should run opposite transfers side by side", async () => {
+      const product = await createProduct(db, { stockQuantity: 10 });
+      await inventoryService.setStock({ productId: product.id, quantity: 10, reason: "Stock take" });
+      await inventoryService.transferStock({ productId: product.id, quantity: 5, fromWarehouseId: main, toWarehouseId: outlet });
+
+      await Promise.all([
+        inventoryService.transferStock({ productId: product.id, quantity: 2, fromWarehouseId: main, toWarehouseId: outlet }),
+        inventoryService.transferStock({ productId: product.id, quantity: 1, fromWarehouseId: outlet, toWarehouseId: main }),
+      ]);
+
+      expect((await itemIn(product.id, main))?.quantity).toBe(4);
+      expect((await itemIn(product.id, outlet))?.quantity).toBe(6);
+      expect(await stockQuantityOf(product.id)).toBe(10);
+    });
+  });
+});
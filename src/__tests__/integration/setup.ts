@@ -4,9 +4,14 @@
 import { PostgreSqlContainer, StartedPostgreSqlContainer } from "@testcontainers/postgresql";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
+import { Hono } from "hono";
+import { carts, cartItems, products } from "@/db/schema";
+import type { Database } from "@/db";
+import type { PaymentNextStep } from "@/payments";
 
 let container: StartedPostgreSqlContainer;
 let client: postgres.Sql;
+let serviceDb: Database | undefined;
 
 export async function setupTestDatabase() {
   // Start PostgreSQL container
@@ -103,3 +108,134 @@ export async function runMigrations(connectionString: string) {
 
   await sql.end();
 }
+
+// The app's own database module against the container, with the full schema
+// pushed. `@/db` connects when it is first imported, so services under test
+// are imported dynamically after this.
+export async function setupServiceDatabase(): Promise<Database> {
+  const setup = await setupTestDatabase();
+  const schema = await import("@/db/schema");
+  const { pushSchema } = await import("drizzle-kit/api");
+  const { apply } = await pushSchema(schema, setup.db);
+  await apply();
+
+  process.env.DATABASE_URL = setup.connectionString;
+  process.env.JWT_SECRET = "test-secret-key-that-is-at-least-32-characters-long";
+  process.env.NODE_ENV = "test";
+  process.env.MODE = "api"; // Vitest sets its own MODE
+  const { db } = await import("@/db");
+  serviceDb = db;
+  return db;
+}
+
+export async function teardownServiceDatabase() {
+  if (serviceDb) {
+    const { closeDatabase } = await import("@/db");
+    await closeDatabase();
+  }
+  await teardownTestDatabase();
+}
+
+// Active product at 19% with its stock on the product columns; the
+// inventory row is created from them on first use
+export async function createProduct(
+  db: Database,
+  overrides: Partial<typeof products.$inferInsert> = {}
+): Promise<typeof products.$inferSelect> {
+  const sku = `TEST-${crypto.randomUUID().slice(0, 8)}`;
+  const [product] = await db.insert(products).values({
+    sku,
+    slug: sku.toLowerCase(),
+    status: "active",
+    priceNet: 1000,
+    priceGross: 1190,
+    stockQuantity: 10,
+    ...overrides,
+  }).returning();
+  return product;
+}
+
+// Cart with the given products at their current prices
+export async function createCart(
+  db: Database,
+  items: Array<{ product: typeof products.$inferSelect; quantity: number }>
+): Promise<typeof carts.$inferSelect> {
+  const [cart] = await db.insert(carts).values({}).returning();
+  for (const { product, quantity } of items) {
+    await db.insert(cartItems).values({
+      cartId: cart.id,
+      productId: product.id,
+      quantity,
+      unitPriceNet: product.priceNet,
+      unitPriceGross: product.priceGross,
+    });
+  }
+  return cart;
+}
+
+export const testAddress = {
+  firstName: "Erika",
+  lastName: "Mustermann",
+  street: "Musterstr. 1",
+  postalCode: "10115",
+  city: "Berlin",
+  country: "DE",
+};
+
+// Cart and checkout routes as the storefront calls them
+export async function createShopApp(): Promise<Hono> {
+  const { cartRoutes } = await import("@/api/routes/cart");
+  const { checkoutRoutes } = await import("@/api/routes/checkout");
+  const { paypalRoutes } = await import("@/api/routes/paypal");
+  const app = new Hono();
+  app.route("/cart", cartRoutes);
+  app.route("/checkout", checkoutRoutes);
+  app.route("/paypal", paypalRoutes);
+  return app;
+}
+
+// Body of a shop API response, with the data of the route
+export interface ApiBody<T = unknown> {
+  data: T;
+  error?: { code: string; message: string };
+}
+
+// POST /checkout (fields the tests read)
+export interface CheckoutStarted {
+  reservationExpiresAt: string | null;
+}
+
+// POST /checkout/complete
+export interface OrderPlaced {
+  orderId: string;
+  orderNumber: string;
+  status: string;
+  total: number;
+  giftCardTotal: number;
+  amountDue: number;
+  currency: string;
+  nextStep: "payment" | "confirmation";
+  payment: PaymentNextStep | null;
+  paymentError?: string;
+}
+
+export function requestJson(app: Hono, method: string, path: string, body?: unknown) {
+  return app.request(path, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+// Body for POST /checkout/complete with the legal checkboxes ticked
+export function completeCheckoutBody(cartId: string, overrides: Record<string, unknown> = {}) {
+  return {
+    cartId,
+    email: "buyer@example.com",
+    shippingAddress: testAddress,
+    billingAddress: testAddress,
+    acceptedTerms: true,
+    acceptedCancellationPolicy: true,
+    ...overrides,
+  };
+}
@@ -0,0 +1,107 @@
+// Payment Webhook Integration Tests
+// src/__tests__/integration/webhooks.test.ts
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { eq } from "drizzle-orm";
+import type { Hono } from "hono";
+import type Stripe from "stripe";
+import type { Database } from "@/db";
+import { orders, paymentEvents, paymentMethods } from "@/db/schema";
+import {
+  setupServiceDatabase,
+  teardownServiceDatabase,
+  createProduct,
+  createCart,
+  createShopApp,
+  requestJson,
+  completeCheckoutBody,
+  testAddress,
+  type ApiBody,
+  type OrderPlaced,
+} from "./setup";
+
+describe("payment webhooks", () => {
+  let db: Database;
+  let app: Hono;
+  let inventoryService: typeof import("@/inventory/inventory-service")["inventoryService"];
+  let processWebhookEvent: typeof import("@/payments/webhooks")["processWebhookEvent"];
+  let paymentMethodId: string;
+
+  beforeAll(async () => {
+    db = await setupServiceDatabase();
+    app = await createShopApp();
+    ({ inventoryService } = await import("@/inventory/inventory-service"));
+    const webhooks = await import("@/payments/webhooks");
+    webhooks.registerDefaultHandlers();
+    processWebhookEvent = webhooks.processWebhookEvent;
+
+    const [method] = await db.insert(paymentMethods).values({ slug: "invoice", name: "Rechnung", provider: "invoice" }).returning();
+    paymentMethodId = method.id;
+  }, 120000);
+
+  afterAll(async () => {
+    await teardownServiceDatabase();
+  });
+
+  // Order waiting for its payment, with 2 of 5 in stock held
+  async function placeOrder() {
+    const product = await createProduct(db, { stockQuantity: 5 });
+    const cart = await createCart(db, [{ product, quantity: 2 }]);
+    await requestJson(app, "POST", "/checkout", { cartId: cart.id, email: "buyer@example.com", shippingAddress: testAddress });
+    const res = await requestJson(app, "POST", "/checkout/complete", completeCheckoutBody(cart.id, { paymentMethodId }));
+    expect(res.status).toBe(201);
+    return { product, orderId: (await res.json() as ApiBody<OrderPlaced>).data.orderId };
+  }
+
+  function stripeEvent(type: string, object: Record<string, unknown>): Stripe.Event {
+    return { id: `evt_${crypto.randomUUID()}`, type, data: { object } } as unknown as Stripe.Event;
+  }
+
+  const orderOf = async (orderId: string) => (await db.query.orders.findFirst({ where: eq(orders.id, orderId) }))!;
+
+  it("should cancel the order and release its stock when the session expires", async () => {
+    const { product, orderId } = await placeOrder();
+    expect((await inventoryService.getInventory(product.id))?.reservedQuantity).toBe(2);
+
+    const result = await processWebhookEvent(stripeEvent("checkout.session.expired", { metadata: { orderId } }));
+
+    expect(result).toMatchObject({ success: true, orderId, action: "cancel_order" });
+    const order = await orderOf(orderId);
+    expect(order.status).toBe("cancelled");
+    expect(order.paymentStatus).toBe("cancelled");
+    expect(await inventoryService.getActiveReservations(orderId)).toHaveLength(0);
+    const item = await inventoryService.getInventory(product.id);
+    expect(item?.reservedQuantity).toBe(0);
+    expect(item?.quantity).toBe(5);
+  });
+
+  it("should apply a redelivered event once", async () => {
+    const { product, orderId } = await placeOrder();
+    const event = stripeEvent("payment_intent.succeeded", { id: `pi_${crypto.randomUUID()}`, amount_received: 2380, metadata: { orderId } });
+
+    expect(await processWebhookEvent(event)).toMatchObject({ success: true, action: "mark_paid" });
+    expect(await processWebhookEvent(event)).toEqual({ success: true, action: "duplicate" });
+
+    expect((await orderOf(orderId)).paymentStatus).toBe("paid");
+    const claims = await db.select().from(paymentEvents).where(eq(paymentEvents.id, event.id));
+    expect(claims).toHaveLength(1);
+    expect(claims[0].action).toBe("mark_paid");
+    // The stock is sold once
+    expect((await inventoryService.getInventory(product.id))?.quantity).toBe(3);
+  });
+
+  it("should not book a payment over a different amount than is due", async () => {
+    const { orderId } = await placeOrder();
+    const event = stripeEvent("payment_intent.succeeded", { id: `pi_${crypto.randomUUID()}`, amount_received: 1190, metadata: { orderId } });
+
+    expect(await processWebhookEvent(event)).toMatchObject({ success: true, action: "amount_mismatch" });
+    expect((await orderOf(orderId)).paymentStatus).toBe("pending");
+  });
+
+  it("should leave a failed event open for the retry", async () => {
+    const event = stripeEvent("checkout.session.completed", { metadata: {} });
+
+    expect(await processWebhookEvent(event)).toMatchObject({ success: false });
+    expect(await db.select().from(paymentEvents).where(eq(paymentEvents.id, event.id))).toHaveLength(0);
+  });
+});
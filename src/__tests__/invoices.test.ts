@@ -0,0 +1,160 @@
+// Invoice and Credit Note Tests
+import { describe, it, expect } from "vitest";
+import {
+  buildCreditNoteSnapshot,
+  creditNoteToInvoiceData,
+} from "../invoices/credit-notes.js";
+import { generateInvoicePdf } from "../invoices/pdf-generator.js";
+import { orderToInvoiceData, storedOrderToInvoiceOrder } from "../invoices/order-mapper.js";
+import { createInvoiceToken, verifyInvoiceToken } from "../invoices/access.js";
+import type { RefundCalculation } from "../orders/types.js";
+
+const calculation: RefundCalculation = {
+  lines: [
+    { orderItemId: "shirt", quantity: 1, amount: 2000, taxAmount: 319, taxRate: 1900 },
+    { orderItemId: "book", quantity: 1, amount: 1070, taxAmount: 70, taxRate: 700 },
+  ],
+  shipping: { amount: 595, taxAmount: 95, taxRate: 1900 },
+  taxLines: [
+    { rate: 1900, net: 2181, tax: 414 },
+    { rate: 700, net: 1000, tax: 70 },
+  ],
+  total: 3665,
+  taxTotal: 484,
+};
+
+const items = [
+  { id: "shirt", name: "T-Shirt", sku: "TS-1" },
+  { id: "book", name: "Buch", sku: null },
+];
+
+const order = {
+  orderNumber: "SK-2024-000001",
+  createdAt: new Date("2024-03-01"),
+  email: "kunde@example.de",
+  billingAddress: {
+    firstName: "Max",
+    lastName: "Mustermann",
+    street: "Beispielweg",
+    streetNumber: "42",
+    postalCode: "10115",
+    city: "Berlin",
+    country: "DE",
+  },
+};
+
+describe("credit notes", () => {
+  it("should snapshot credited items with their names", () => {
+    const snapshot = buildCreditNoteSnapshot(calculation, items, {
+      invoice: { invoiceNumber: "RE-2024-000007", createdAt: new Date("2024-03-02") },
+    });
+    expect(snapshot.invoiceNumber).toBe("RE-2024-000007");
+    expect(snapshot.lines.map((line) => [line.description, line.sku])).toEqual([
+      ["T-Shirt", "TS-1"],
+      ["Buch", undefined],
+    ]);
+    expect(snapshot.shipping).toEqual(calculation.shipping);
+  });
+
+  it("should credit goodwill amounts per tax rate", () => {
+    const snapshot = buildCreditNoteSnapshot(calculation, items, { itemised: false });
+    expect(snapshot.lines).toEqual([
+      { description: "Gutschrift (19 % MwSt.)", quantity: 1, amount: 2595, taxAmount: 414, taxRate: 1900 },
+      { description: "Gutschrift (7 % MwSt.)", quantity: 1, amount: 1070, taxAmount: 70, taxRate: 700 },
+    ]);
+    expect(snapshot.shipping).toBeNull();
+  });
+
+  it("should map to the invoice layout with a tax breakdown", () => {
+    const data = creditNoteToInvoiceData({
+      creditNote: {
+        creditNoteNumber: "GS-2024-000001",
+        createdAt: new Date("2024-03-10"),
+        reason: "Retoure SK-2024-000001-R1",
+        subtotal: 3181,
+        taxTotal: 484,
+        total: 3665,
+        taxLines: calculation.taxLines,
+        data: buildCreditNoteSnapshot(calculation, items, {
+          invoice: { invoiceNumber: "RE-2024-000007", createdAt: new Date("2024-03-02") },
+        }),
+      },
+      order,
+    });
+
+    expect(data.documentType).toBe("credit_note");
+    expect(data.correctedInvoice?.invoiceNumber).toBe("RE-2024-000007");
+    expect(data.buyer).toMatchObject({ name: "Max Mustermann", address: "Beispielweg 42", zip: "10115" });
+    expect(data.items[0]).toMatchObject({ taxRate: 19, totalNet: 1681, totalGross: 2000 });
+    expect(data.shippingNet + data.subtotalNet).toBe(data.totalNet);
+    expect(data.taxBreakdown).toEqual([
+      { rate: 19, netAmount: 2181, taxAmount: 414 },
+      { rate: 7, netAmount: 1000, taxAmount: 70 },
+    ]);
+    expect(data.totalGross).toBe(3665);
+  });
+
+  it("should render the Gutschrift variant", async () => {
+    const data = creditNoteToInvoiceData({
+      creditNote: {
+        creditNoteNumber: "GS-2024-000002",
+        createdAt: new Date("2024-03-10"),
+        subtotal: 3181,
+        taxTotal: 484,
+        total: 3665,
+        taxLines: calculation.taxLines,
+        data: buildCreditNoteSnapshot(calculation, items),
+      },
+      order,
+      refundMethod: "Gutschein",
+    });
+
+    const pdf = await generateInvoicePdf(data);
+    expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+  });
+});
+
+describe("invoices", () => {
+  const stored = {
+    ...order,
+    id: "order-1",
+    paymentStatus: "partially_refunded",
+    paidAt: "2024-03-01T10:00:00.000Z",
+    subtotal: 6070,
+    shippingTotal: 595,
+    shippingTax: 95,
+    taxTotal: 874,
+    discountTotal: 0,
+    total: 6665,
+    customerVatId: "ATU12345678",
+    vatTreatment: "reverse_charge",
+    taxCountry: null,
+    items: [
+      { name: "T-Shirt", sku: "TS-1", quantity: 2, unitPriceNet: 1681, unitPriceGross: 2000, totalNet: 3361, totalGross: 4000, taxRate: 1900 },
+      { name: "Buch", sku: "B-1", quantity: 1, unitPriceNet: 1000, unitPriceGross: 1070, totalNet: 1000, totalGross: 1070, taxRate: 700 },
+      { name: "Beilage", sku: "B-2", quantity: 1, unitPriceNet: 0, unitPriceGross: 0, totalNet: 0, totalGross: 0, taxRate: 700, parentItemId: "x" },
+    ],
+  };
+
+  it("should map a stored order with its VAT details", () => {
+    const mapped = storedOrderToInvoiceOrder(stored, "Kreditkarte");
+    expect(mapped.items.map((item) => item.taxRate)).toEqual([19, 7, 7]);
+    expect(mapped.items[2].bundleComponent).toBe(true);
+    expect(mapped.shippingTaxRate).toBe(19);
+    expect(mapped.paymentStatus).toBe("paid");
+    expect(mapped.billingAddress).toMatchObject({ firstName: "Max", street: "Beispielweg 42", zip: "10115" });
+
+    const data = orderToInvoiceData({ order: mapped, invoiceNumber: "RE-2024-000001" });
+    expect(data.buyer.taxId).toBe("ATU12345678");
+    expect(data.taxNote).toBeDefined();
+    expect(data.totalGross).toBe(6665);
+  });
+
+  it("should bind download tokens to the order and its email", () => {
+    const token = createInvoiceToken("order-1", "Kunde@example.de", "secret");
+    expect(verifyInvoiceToken(token, "order-1", "kunde@example.de", "secret")).toBe(true);
+    expect(verifyInvoiceToken(token, "order-2", "kunde@example.de", "secret")).toBe(false);
+    expect(verifyInvoiceToken(token, "order-1", "kunde@example.de", "other")).toBe(false);
+    expect(verifyInvoiceToken("invalid", "order-1", "kunde@example.de", "secret")).toBe(false);
+  });
+});
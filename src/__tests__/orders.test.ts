@@ -0,0 +1,384 @@
+// Order State Machine and Shipment Tests
+import { describe, it, expect } from "vitest";
+import {
+  InvalidTransitionError,
+  canTransition,
+  planTransitions,
+  withImpliedStatus,
+} from "../orders/state-machine.js";
+import { ShipmentError, deriveFulfillmentStatus, resolveShipmentLines } from "../orders/shipments.js";
+import { RefundError, calculateRefund, effectiveLineTotals, planRefund, scaleRefund, splitRefund } from "../orders/refunds.js";
+import {
+  OrderEditError,
+  applyEditChanges,
+  assertEditable,
+  editRefundCalculation,
+  settlementFor,
+  stockChanges,
+  taxBreakdown,
+} from "../orders/edits.js";
+import type { EditableItem, EditableProduct, OrderStatusSnapshot, RefundableItem, ShippableItem } from "../orders/types.js";
+
+const order = (overrides: Partial<OrderStatusSnapshot> = {}): OrderStatusSnapshot => ({
+  status: "pending",
+  paymentStatus: "pending",
+  fulfillmentStatus: "unfulfilled",
+  ...overrides,
+});
+
+describe("orders", () => {
+  describe("canTransition", () => {
+    it("should follow the state machines", () => {
+      expect(canTransition("status", "pending", "paid")).toBe(true);
+      expect(canTransition("status", "cancelled", "processing")).toBe(false);
+      expect(canTransition("paymentStatus", "paid", "partially_refunded")).toBe(true);
+      expect(canTransition("paymentStatus", "refunded", "paid")).toBe(false);
+      expect(canTransition("fulfillmentStatus", "delivered", "returned")).toBe(true);
+      expect(canTransition("fulfillmentStatus", "unfulfilled", "delivered")).toBe(false);
+    });
+  });
+
+  describe("planTransitions", () => {
+    it("should list changed fields only", () => {
+      expect(planTransitions(order(), { status: "pending", paymentStatus: "paid" })).toEqual([
+        { field: "paymentStatus", from: "pending", to: "paid" },
+      ]);
+    });
+
+    it("should reject illegal and unknown states", () => {
+      expect(() => planTransitions(order({ status: "delivered" }), { status: "pending" }))
+        .toThrow(InvalidTransitionError);
+      expect(() => planTransitions(order(), { status: "lost" as never })).toThrow("Unknown status");
+    });
+
+    it("should not ship a cancelled order", () => {
+      expect(() => planTransitions(order({ status: "cancelled" }), { fulfillmentStatus: "shipped" }))
+        .toThrow("Cannot ship a cancelled order");
+      expect(() => planTransitions(order({ status: "shipped", fulfillmentStatus: "shipped" }), { status: "cancelled" }))
+        .toThrow(InvalidTransitionError);
+    });
+
+    it("should require a refund before cancelling a paid order", () => {
+      const paid = order({ status: "paid", paymentStatus: "paid" });
+      expect(() => planTransitions(paid, { status: "cancelled" })).toThrow("Refund the payment");
+      expect(planTransitions(paid, { status: "cancelled", paymentStatus: "refunded" })).toHaveLength(2);
+    });
+
+    it("should not mark unshipped orders as shipped", () => {
+      expect(() => planTransitions(order({ status: "paid" }), { status: "shipped" })).toThrow("Ship the order");
+    });
+  });
+
+  describe("withImpliedStatus", () => {
+    it("should follow payment and fulfilment", () => {
+      expect(withImpliedStatus(order(), { paymentStatus: "paid" }).status).toBe("paid");
+      expect(withImpliedStatus(order({ status: "paid" }), { fulfillmentStatus: "partially_shipped" }).status)
+        .toBe("processing");
+      expect(withImpliedStatus(order({ status: "processing" }), { fulfillmentStatus: "shipped" }).status)
+        .toBe("shipped");
+      expect(withImpliedStatus(order({ status: "shipped", fulfillmentStatus: "shipped" }), {
+        fulfillmentStatus: "unfulfilled",
+      }).status).toBe("processing");
+    });
+
+    it("should keep explicit and final statuses", () => {
+      expect(withImpliedStatus(order(), { status: "processing", paymentStatus: "paid" }).status).toBe("processing");
+      expect(withImpliedStatus(order({ status: "cancelled" }), { paymentStatus: "failed" }).status).toBeUndefined();
+    });
+  });
+
+  describe("shipments", () => {
+    const items: ShippableItem[] = [
+      { id: "shirt", parentItemId: null, quantity: 3 },
+      { id: "bundle", parentItemId: null, quantity: 2 },
+      { id: "bundle-mug", parentItemId: "bundle", quantity: 4 },
+    ];
+    const shipment = (status: string, lines: Array<[string, number]>) => ({
+      status,
+      items: lines.map(([orderItemId, quantity]) => ({ orderItemId, quantity })),
+    });
+
+    it("should ship everything still open by default", () => {
+      expect(resolveShipmentLines(items, [shipment("shipped", [["shirt", 1]])])).toEqual([
+        { orderItemId: "shirt", quantity: 2 },
+        { orderItemId: "bundle", quantity: 2 },
+        { orderItemId: "bundle-mug", quantity: 4 },
+      ]);
+    });
+
+    it("should ship bundle components with their share", () => {
+      expect(resolveShipmentLines(items, [], [{ orderItemId: "bundle", quantity: 1 }])).toEqual([
+        { orderItemId: "bundle", quantity: 1 },
+        { orderItemId: "bundle-mug", quantity: 2 },
+      ]);
+    });
+
+    it("should reject quantities that are not open", () => {
+      const shipped = [shipment("shipped", [["shirt", 2]]), shipment("cancelled", [["shirt", 1]])];
+      expect(resolveShipmentLines(items, shipped, [{ orderItemId: "shirt", quantity: 1 }])).toHaveLength(1);
+      expect(() => resolveShipmentLines(items, shipped, [{ orderItemId: "shirt", quantity: 2 }])).toThrow("Only 1");
+      expect(() => resolveShipmentLines(items, [], [{ orderItemId: "bundle-mug", quantity: 1 }])).toThrow(ShipmentError);
+      expect(() => resolveShipmentLines(items, [shipment("shipped", [["shirt", 3], ["bundle", 2]])]))
+        .toThrow("Nothing left to ship");
+    });
+
+    it("should derive the fulfilment status", () => {
+      expect(deriveFulfillmentStatus(items, [])).toBe("unfulfilled");
+      expect(deriveFulfillmentStatus(items, [shipment("cancelled", [["shirt", 3], ["bundle", 2]])])).toBe("unfulfilled");
+      expect(deriveFulfillmentStatus(items, [shipment("shipped", [["shirt", 3]])])).toBe("partially_shipped");
+      expect(deriveFulfillmentStatus(items, [
+        shipment("delivered", [["shirt", 3]]),
+        shipment("shipped", [["bundle", 2]]),
+      ])).toBe("shipped");
+      expect(deriveFulfillmentStatus(items, [
+        shipment("delivered", [["shirt", 3]]),
+        shipment("delivered", [["bundle", 2]]),
+      ])).toBe("delivered");
+    });
+  });
+
+  describe("refunds", () => {
+    const items: RefundableItem[] = [
+      { id: "shirt", parentItemId: null, quantity: 2, totalGross: 4000, discountAmount: 0, taxRate: 1900 },
+      { id: "book", parentItemId: null, quantity: 1, totalGross: 1070, discountAmount: 0, taxRate: 700 },
+      { id: "bundle-part", parentItemId: "shirt", quantity: 2, totalGross: 0, discountAmount: 0, taxRate: 1900 },
+    ];
+
+    it("should share order discounts across lines", () => {
+      const totals = effectiveLineTotals(items, 507);
+      expect(totals.get("shirt")).toBe(3600);
+      expect(totals.get("book")).toBe(963);
+    });
+
+    it("should refund returned quantities with their tax", () => {
+      const refund = calculateRefund(items, [{ orderItemId: "shirt", quantity: 1 }, { orderItemId: "book", quantity: 1 }], {
+        discountTotal: 0,
+      });
+      expect(refund.total).toBe(3070);
+      expect(refund.taxLines).toEqual([
+        { rate: 1900, net: 1681, tax: 319 },
+        { rate: 700, net: 1000, tax: 70 },
+      ]);
+      expect(refund.taxTotal).toBe(389);
+    });
+
+    it("should include shipping on request", () => {
+      const refund = calculateRefund(items, [{ orderItemId: "book", quantity: 1 }], {
+        discountTotal: 0,
+        shipping: { total: 595, tax: 95 },
+      });
+      expect(refund.shipping).toEqual({ amount: 595, taxAmount: 95, taxRate: 1900 });
+      expect(refund.total).toBe(1665);
+    });
+
+    it("should reject bundle components", () => {
+      expect(() => calculateRefund(items, [{ orderItemId: "bundle-part", quantity: 1 }], { discountTotal: 0 })).toThrow();
+    });
+
+    it("should scale a reduced refund across tax rates", () => {
+      const refund = calculateRefund(items, [{ orderItemId: "shirt", quantity: 2 }, { orderItemId: "book", quantity: 1 }], {
+        discountTotal: 0,
+      });
+      const scaled = scaleRefund(refund, 2535);
+      expect(scaled.total).toBe(2535);
+      expect(scaled.taxLines.reduce((sum, line) => sum + line.net + line.tax, 0)).toBe(2535);
+      expect(scaleRefund(refund, refund.total)).toBe(refund);
+    });
+
+    describe("planRefund", () => {
+      const totals = { total: 5665, discountTotal: 0, shippingTotal: 595, shippingTax: 95 };
+
+      it("should refund everything open including shipping by default", () => {
+        const plan = planRefund(items, totals, [], {});
+        expect(plan.calculation.total).toBe(5665);
+        expect(plan.claimed).toEqual([
+          { orderItemId: "shirt", quantity: 2 },
+          { orderItemId: "book", quantity: 1 },
+        ]);
+        expect(plan.shippingClaimed).toBe(true);
+      });
+
+      it("should leave out what was refunded before", () => {
+        const previous = [{ amount: 2595, lines: [{ orderItemId: "shirt", quantity: 1 }], shippingAmount: 595 }];
+        const plan = planRefund(items, totals, previous, {});
+        expect(plan.calculation.total).toBe(3070);
+        expect(plan.shippingClaimed).toBe(false);
+        expect(() => planRefund(items, totals, previous, { lines: [{ orderItemId: "shirt", quantity: 2 }] }))
+          .toThrow("Only 1");
+        expect(() => planRefund(items, totals, previous, { lines: [{ orderItemId: "book", quantity: 1 }], includeShipping: true }))
+          .toThrow("Shipping has already been refunded");
+      });
+
+      it("should cap line refunds by the amount", () => {
+        const plan = planRefund(items, totals, [], { lines: [{ orderItemId: "book", quantity: 1 }], amount: 500 });
+        expect(plan.calculation.total).toBe(500);
+        expect(plan.claimed).toEqual([{ orderItemId: "book", quantity: 1 }]);
+        expect(() => planRefund(items, totals, [], { lines: [{ orderItemId: "book", quantity: 1 }], amount: 2000 }))
+          .toThrow(RefundError);
+      });
+
+      it("should not claim items for goodwill refunds", () => {
+        const plan = planRefund(items, totals, [], { amount: 1000 });
+        expect(plan.calculation.total).toBe(1000);
+        expect(plan.claimed).toEqual([]);
+        expect(plan.shippingClaimed).toBe(false);
+      });
+
+      it("should stop at the amount paid", () => {
+        const previous = [{ amount: 5665, lines: [], shippingAmount: 0 }];
+        expect(() => planRefund(items, totals, previous, { amount: 100 })).toThrow("refunded in full");
+        expect(() => planRefund(items, totals, [{ amount: 5600, lines: [], shippingAmount: 0 }], { amount: 100 }))
+          .toThrow("At most 65");
+      });
+    });
+
+    describe("splitRefund", () => {
+      const paid = { payment: 3000, giftCards: 2665 };
+
+      it("should pay back the payment before the gift cards", () => {
+        expect(splitRefund(2000, paid, { payment: 0, giftCards: 0 })).toEqual({ payment: 2000, giftCards: 0 });
+        expect(splitRefund(5665, paid, { payment: 0, giftCards: 0 })).toEqual({ payment: 3000, giftCards: 2665 });
+        expect(splitRefund(1500, paid, { payment: 2000, giftCards: 0 })).toEqual({ payment: 1000, giftCards: 500 });
+      });
+
+      it("should refund orders paid by gift card onto the cards", () => {
+        expect(splitRefund(1000, { payment: 0, giftCards: 5665 }, { payment: 0, giftCards: 0 }))
+          .toEqual({ payment: 0, giftCards: 1000 });
+      });
+
+      it("should stop at what is still open", () => {
+        expect(() => splitRefund(700, paid, { payment: 3000, giftCards: 2000 })).toThrow("At most 665");
+      });
+    });
+  });
+
+  describe("edits", () => {
+    const items: EditableItem[] = [
+      { id: "shirt", parentItemId: null, productId: "p-shirt", sku: "TS-1", name: "T-Shirt", quantity: 2, unitPriceNet: 1681, unitPriceGross: 2000 },
+      { id: "box", parentItemId: null, productId: "p-box", sku: "BOX", name: "Box", quantity: 1, unitPriceNet: 2521, unitPriceGross: 3000 },
+      { id: "box-part", parentItemId: "box", productId: "p-part", sku: "PART", name: "Teil", quantity: 2, unitPriceNet: 0, unitPriceGross: 0 },
+    ];
+    const product = (overrides: Partial<EditableProduct>): EditableProduct => ({
+      id: "p-book",
+      sku: "B-1",
+      type: "simple",
+      status: "active",
+      parentId: null,
+      priceNet: 1000,
+      priceGross: 1070,
+      taxClassId: "reduced",
+      ...overrides,
+    });
+    const products = new Map([
+      ["p-shirt", product({ id: "p-shirt", sku: "TS-1", priceNet: 2000, priceGross: 2380, taxClassId: "standard" })],
+      ["p-book", product({})],
+      ["p-parent", product({ id: "p-parent", sku: "SHOE", type: "variant" })],
+    ]);
+
+    it("should only edit orders that have not shipped or been refunded", () => {
+      expect(() => assertEditable(order({ paymentStatus: "paid", status: "paid" }))).not.toThrow();
+      expect(() => assertEditable(order({ fulfillmentStatus: "partially_fulfilled" }))).toThrow(OrderEditError);
+      expect(() => assertEditable(order({ status: "cancelled" }))).toThrow("Cancelled");
+      expect(() => assertEditable(order({ paymentStatus: "partially_refunded" }))).toThrow("Refunded");
+      expect(() => assertEditable(order({ paymentStatus: "authorized" }))).toThrow(OrderEditError);
+    });
+
+    it("should not edit an order whose payment is open at the provider", () => {
+      // Invoice orders wait for their payment without one
+      expect(() => assertEditable(order())).not.toThrow();
+      expect(() => assertEditable({ ...order(), metadata: { stripeCheckoutSessionId: "cs_1" } })).toThrow("still open");
+      expect(() => assertEditable({ ...order({ paymentStatus: "failed" }), paymentReference: "pi_1" })).toThrow("still open");
+      expect(() => assertEditable({ ...order({ paymentStatus: "paid", status: "paid" }), paymentReference: "pi_1" })).not.toThrow();
+    });
+
+    it("should keep prices of kept lines and price added products today", () => {
+      const { lines, changes } = applyEditChanges(items, [
+        { type: "update", orderItemId: "shirt", quantity: 3 },
+        { type: "add", productId: "p-book", quantity: 1 },
+      ], products);
+
+      expect(lines.map((line) => [line.orderItemId, line.productId, line.quantity, line.unitPriceGross])).toEqual([
+        ["shirt", "p-shirt", 3, 2000],
+        ["box", "p-box", 1, 3000],
+        [undefined, "p-book", 1, 1070],
+      ]);
+      expect(lines[0].taxClassId).toBe("standard");
+      expect(changes.map((change) => [change.sku, change.from, change.to])).toEqual([
+        ["TS-1", 2, 3],
+        ["B-1", 0, 1],
+      ]);
+    });
+
+    it("should add to an existing line of the same product", () => {
+      const { lines } = applyEditChanges(items, [{ type: "add", productId: "p-shirt", quantity: 1 }], products);
+      expect(lines.filter((line) => line.productId === "p-shirt")).toHaveLength(1);
+      expect(lines[0]).toMatchObject({ orderItemId: "shirt", quantity: 3, unitPriceGross: 2000 });
+    });
+
+    it("should drop removed lines", () => {
+      const { lines, changes } = applyEditChanges(items, [{ type: "remove", orderItemId: "shirt" }], products);
+      expect(lines.map((line) => line.orderItemId)).toEqual(["box"]);
+      expect(changes).toEqual([expect.objectContaining({ orderItemId: "shirt", from: 2, to: 0 })]);
+    });
+
+    it("should reject invalid edits", () => {
+      expect(() => applyEditChanges(items, [{ type: "update", orderItemId: "box-part", quantity: 1 }], products))
+        .toThrow("part of a bundle");
+      expect(() => applyEditChanges(items, [{ type: "update", orderItemId: "missing", quantity: 1 }], products))
+        .toThrow("not found");
+      expect(() => applyEditChanges(items, [{ type: "add", productId: "p-parent", quantity: 1 }], products))
+        .toThrow("Select a variant");
+      expect(() => applyEditChanges(items, [{ type: "add", productId: "p-unknown", quantity: 1 }], products))
+        .toThrow(OrderEditError);
+      expect(() => applyEditChanges(items, [
+        { type: "remove", orderItemId: "shirt" },
+        { type: "remove", orderItemId: "box" },
+      ], products)).toThrow("cancel it instead");
+    });
+
+    it("should move stock by the difference per product", () => {
+      expect(stockChanges(
+        [{ productId: "a", quantity: 2 }, { productId: "b", quantity: 1 }, { productId: "c", quantity: 1 }],
+        [{ productId: "a", quantity: 3 }, { productId: "c", quantity: 1 }, { productId: "d", quantity: 2 }]
+      )).toEqual([
+        { productId: "a", quantity: 1 },
+        { productId: "b", quantity: -1 },
+        { productId: "d", quantity: 2 },
+      ]);
+    });
+
+    it("should settle differences only on paid orders", () => {
+      expect(settlementFor("paid", 1200)).toBe("charge");
+      expect(settlementFor("paid", -500)).toBe("refund");
+      expect(settlementFor("paid", 0)).toBe("none");
+      expect(settlementFor("pending", 1200)).toBe("none");
+    });
+
+    it("should break totals down by tax rate", () => {
+      const breakdown = taxBreakdown([
+        { parentItemId: null, totalGross: 4000, discountAmount: 400, taxAmount: 575, taxRate: 1900 },
+        { parentItemId: null, totalGross: 1070, discountAmount: 0, taxAmount: 70, taxRate: 700 },
+        { parentItemId: "x", totalGross: 0, discountAmount: 0, taxAmount: 0, taxRate: 700 },
+      ], { total: 595, tax: 95 });
+      expect(breakdown).toEqual([
+        { rate: 1900, net: 3525, tax: 670 },
+        { rate: 700, net: 1000, tax: 70 },
+      ]);
+    });
+
+    it("should credit the difference per tax rate", () => {
+      const calculation = editRefundCalculation(
+        [{ rate: 1900, net: 3861, tax: 734 }, { rate: 700, net: 1000, tax: 70 }],
+        [{ rate: 1900, net: 2181, tax: 414 }],
+        3071
+      );
+      expect(calculation.total).toBe(3071);
+      expect(calculation.taxLines).toEqual([
+        { rate: 1900, net: 1681, tax: 320 },
+        { rate: 700, net: 1000, tax: 70 },
+      ]);
+      expect(calculation.taxTotal).toBe(390);
+      expect(calculation.lines).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+// Return Tests
+import { describe, it, expect } from "vitest";
+import {
+  ReturnError,
+  assertReturnTransition,
+  isWithinWithdrawalPeriod,
+  resolveReturnLines,
+  returnableQuantities,
+  withdrawalDeadline,
+  withdrawalStart,
+} from "../returns/returns.js";
+
+describe("returns", () => {
+  describe("withdrawal period", () => {
+    const receivedAt = new Date(2026, 2, 2, 15, 30);
+
+    it("should end with the 14th day after receipt", () => {
+      const deadline = withdrawalDeadline(receivedAt);
+      expect(deadline.getDate()).toBe(16);
+      expect(isWithinWithdrawalPeriod(receivedAt, new Date(2026, 2, 16, 23, 0))).toBe(true);
+      expect(isWithinWithdrawalPeriod(receivedAt, new Date(2026, 2, 17, 0, 1))).toBe(false);
+    });
+
+    it("should not start before the goods arrived", () => {
+      expect(isWithinWithdrawalPeriod(null, new Date(2030, 0, 1))).toBe(true);
+    });
+
+    it("should start with the delivery of the last part, not with shipping", () => {
+      const later = new Date(2026, 2, 5, 10, 0);
+      expect(withdrawalStart([receivedAt, later])).toEqual(later);
+      // A part still on its way, or shipped without a delivery date
+      expect(withdrawalStart([receivedAt, null])).toBeNull();
+      expect(withdrawalStart([null])).toBeNull();
+      expect(withdrawalStart([])).toBeNull();
+    });
+  });
+
+  describe("returnable quantities", () => {
+    const shipped = new Map([["shirt", 3], ["mug", 1]]);
+
+    it("should subtract open and handled returns", () => {
+      const returnable = returnableQuantities(shipped, [
+        { status: "approved", items: [{ orderItemId: "shirt", quantity: 1 }] },
+        { status: "rejected", items: [{ orderItemId: "shirt", quantity: 2 }] },
+        { status: "requested", items: [{ orderItemId: "mug", quantity: 1 }] },
+      ]);
+      expect(returnable.get("shirt")).toBe(2);
+      expect(returnable.get("mug")).toBe(0);
+    });
+
+    it("should validate requested lines", () => {
+      expect(resolveReturnLines(shipped, [
+        { orderItemId: "shirt", quantity: 1 },
+        { orderItemId: "shirt", quantity: 1, reason: "defective" },
+      ])).toEqual([{ orderItemId: "shirt", quantity: 2 }]);
+      expect(() => resolveReturnLines(shipped, [{ orderItemId: "shirt", quantity: 4 }])).toThrow("Only 3");
+      expect(() => resolveReturnLines(shipped, [{ orderItemId: "hat", quantity: 1 }])).toThrow(ReturnError);
+      expect(() => resolveReturnLines(shipped, [])).toThrow("at least one");
+    });
+  });
+
+  describe("assertReturnTransition", () => {
+    it("should only refund requested returns once", () => {
+      expect(() => assertReturnTransition("requested", "approved")).not.toThrow();
+      expect(() => assertReturnTransition("approved", "approved")).toThrow(ReturnError);
+      expect(() => assertReturnTransition("received", "cancelled")).toThrow("Cannot change a received return");
+    });
+  });
+});
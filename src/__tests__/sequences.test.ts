@@ -0,0 +1,66 @@
+// Number Sequence Tests
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_SEQUENCES,
+  SequenceError,
+  advanceSequence,
+  formatSequenceNumber,
+  parseSequenceNumber,
+  validateFormat,
+} from "../sequences/sequences.js";
+
+describe("sequences", () => {
+  describe("formatSequenceNumber", () => {
+    it("should render the default document numbers", () => {
+      const values = { year: 2024, value: 42 };
+      expect(formatSequenceNumber(DEFAULT_SEQUENCES.order.format, { ...values, prefix: "SK" })).toBe("SK-2024-000042");
+      expect(formatSequenceNumber(DEFAULT_SEQUENCES.invoice.format, { ...values, prefix: "RE" })).toBe("RE-2024-000042");
+      expect(formatSequenceNumber(DEFAULT_SEQUENCES.credit_note.format, { ...values, prefix: "GS" }))
+        .toBe("GS-2024-000042");
+    });
+
+    it("should support short years and padding", () => {
+      expect(formatSequenceNumber("{prefix}{YY}/{NNNN}", { prefix: "R", year: 2025, value: 7 })).toBe("R25/0007");
+      expect(formatSequenceNumber("{NN}", { prefix: "", year: 2025, value: 1234 })).toBe("1234");
+    });
+  });
+
+  describe("parseSequenceNumber", () => {
+    it("should read the counter of numbers in the format", () => {
+      const values = { prefix: "SK", year: 2024 };
+      expect(parseSequenceNumber(DEFAULT_SEQUENCES.order.format, values, "SK-2024-000042")).toBe(42);
+      expect(parseSequenceNumber(DEFAULT_SEQUENCES.order.format, values, "SK-2024-1000042")).toBe(1000042);
+      expect(parseSequenceNumber("{prefix}{YY}/{NNNN}", { prefix: "R.", year: 2025 }, "R.25/0007")).toBe(7);
+    });
+
+    it("should ignore numbers of other years and prefixes", () => {
+      const values = { prefix: "SK", year: 2024 };
+      expect(parseSequenceNumber(DEFAULT_SEQUENCES.order.format, values, "SK-2023-000042")).toBeNull();
+      expect(parseSequenceNumber(DEFAULT_SEQUENCES.order.format, values, "RE-2024-000042")).toBeNull();
+      expect(parseSequenceNumber("{prefix}{YY}/{NNNN}", { prefix: "R.", year: 2025 }, "RX25/0007")).toBeNull();
+    });
+  });
+
+  describe("validateFormat", () => {
+    it("should require one number token and known tokens", () => {
+      expect(() => validateFormat("{prefix}-{YYYY}-{NNNNNN}")).not.toThrow();
+      expect(() => validateFormat("{prefix}-{YYYY}")).toThrow(SequenceError);
+      expect(() => validateFormat("{NNN}-{NNN}")).toThrow("exactly one number token");
+      expect(() => validateFormat("{prefix}-{MM}-{NNN}")).toThrow("Unknown token {MM}");
+    });
+  });
+
+  describe("advanceSequence", () => {
+    it("should count up within a year", () => {
+      expect(advanceSequence({ currentValue: 41, period: 2024 }, { resetYearly: true }, 2024))
+        .toEqual({ currentValue: 42, period: 2024 });
+    });
+
+    it("should start again in a new year unless continuous", () => {
+      expect(advanceSequence({ currentValue: 41, period: 2024 }, { resetYearly: true }, 2025))
+        .toEqual({ currentValue: 1, period: 2025 });
+      expect(advanceSequence({ currentValue: 41, period: 2024 }, { resetYearly: false }, 2025))
+        .toEqual({ currentValue: 42, period: 2025 });
+    });
+  });
+});
@@ -0,0 +1,141 @@
+// Shipping Rate Tests
+import { describe, it, expect } from "vitest";
+import {
+  calculateClassSurcharge,
+  calculateRates,
+  calculateShippingPrice,
+  findTierPrice,
+  selectZone,
+} from "../shipping/rates.js";
+import type { ShippingMethodRule, ShippingZoneRule } from "../shipping/types.js";
+
+const zone = (id: string, countries: string[], priority = 0, isActive = true): ShippingZoneRule => ({
+  id,
+  name: id,
+  countries,
+  priority,
+  isActive,
+});
+
+const method = (overrides: Partial<ShippingMethodRule> = {}): ShippingMethodRule => ({
+  id: "standard",
+  zoneId: "de",
+  slug: "standard",
+  name: "Standard",
+  type: "flat",
+  price: 495,
+  isActive: true,
+  position: 0,
+  ...overrides,
+});
+
+describe("shipping", () => {
+  describe("selectZone", () => {
+    const zones = [
+      zone("eu", ["DE", "AT", "FR"], 10),
+      zone("dach", ["de", "AT", "CH"], 1),
+      zone("world", ["*"], 0),
+      zone("old", ["DE"], -1, false),
+    ];
+
+    it("should prefer the zone with the lowest priority value", () => {
+      expect(selectZone(zones, "DE")?.id).toBe("dach");
+      expect(selectZone(zones, "fr")?.id).toBe("eu");
+    });
+
+    it("should fall back to the rest-of-world zone", () => {
+      expect(selectZone(zones, "US")?.id).toBe("world");
+      expect(selectZone(zones.slice(0, 2), "US")).toBeNull();
+    });
+  });
+
+  describe("findTierPrice", () => {
+    const tiers = [{ upTo: null, price: 1500 }, { upTo: 2000, price: 499 }, { upTo: 10000, price: 899 }];
+
+    it("should pick the first tier the value fits in", () => {
+      expect(findTierPrice(tiers, 2000)).toBe(499);
+      expect(findTierPrice(tiers, 2001)).toBe(899);
+      expect(findTierPrice(tiers, 50000)).toBe(1500);
+    });
+
+    it("should return null above the last bounded tier", () => {
+      expect(findTierPrice([{ upTo: 31500, price: 999 }], 32000)).toBeNull();
+    });
+  });
+
+  describe("calculateShippingPrice", () => {
+    const parcel = { weight: 2500, subtotal: 4000 };
+
+    it("should charge flat methods their price", () => {
+      expect(calculateShippingPrice(method(), parcel)).toBe(495);
+    });
+
+    it("should charge weight methods per started kilogram", () => {
+      expect(calculateShippingPrice(method({ type: "weight", price: 300, pricePerKg: 100 }), parcel)).toBe(600);
+    });
+
+    it("should price by the cart total with a rate table", () => {
+      const byPrice = method({ type: "price", rateTable: [{ upTo: 2999, price: 695 }, { upTo: null, price: 295 }] });
+      expect(calculateShippingPrice(byPrice, parcel)).toBe(295);
+      expect(calculateShippingPrice(byPrice, { ...parcel, subtotal: 1000 })).toBe(695);
+    });
+
+    it("should be free above the threshold", () => {
+      expect(calculateShippingPrice(method({ freeAbove: 4000 }), parcel)).toBe(0);
+      expect(calculateShippingPrice(method({ freeAbove: 4001 }), parcel)).toBe(495);
+    });
+
+    it("should offer free methods only from their minimum", () => {
+      expect(calculateShippingPrice(method({ type: "free" }), parcel)).toBe(0);
+      expect(calculateShippingPrice(method({ type: "free", freeAbove: 5000 }), parcel)).toBeNull();
+    });
+  });
+
+  describe("calculateClassSurcharge", () => {
+    const classRules = [
+      { classId: "bulky", surcharge: 1500, perItem: false, excluded: false },
+      { classId: "heavy", surcharge: 300, perItem: true, excluded: false },
+      { classId: "hazmat", surcharge: 0, perItem: false, excluded: true },
+    ];
+    const parcel = (classes: Array<{ classId: string; quantity: number }>) => ({ weight: 0, subtotal: 0, classes });
+
+    it("should add surcharges once or per unit", () => {
+      expect(calculateClassSurcharge(method({ classRules }), parcel([
+        { classId: "bulky", quantity: 2 },
+        { classId: "heavy", quantity: 3 },
+        { classId: "other", quantity: 1 },
+      ]))).toBe(2400);
+    });
+
+    it("should exclude methods that cannot carry a class", () => {
+      expect(calculateClassSurcharge(method({ classRules }), parcel([{ classId: "hazmat", quantity: 1 }]))).toBeNull();
+      expect(calculateClassSurcharge(method(), parcel([{ classId: "hazmat", quantity: 1 }]))).toBe(0);
+    });
+  });
+
+  describe("calculateRates", () => {
+    it("should list applicable methods by position", () => {
+      const rates = calculateRates([
+        method({ id: "express", position: 2, price: 1295 }),
+        method({ id: "parcel", position: 1, type: "weight", rateTable: [{ upTo: 2000, price: 499 }] }),
+        method({ id: "inactive", isActive: false }),
+        method({ id: "standard", position: 0 }),
+      ], { weight: 2500, subtotal: 4000 });
+
+      expect(rates.map((rate) => [rate.methodId, rate.price])).toEqual([
+        ["standard", 495],
+        ["express", 1295],
+      ]);
+    });
+
+    it("should charge surcharges on top of free shipping", () => {
+      const bulky = [{ classId: "bulky", surcharge: 1500, perItem: false, excluded: false }];
+      const rates = calculateRates(
+        [method({ freeAbove: 0, classRules: bulky }), method({ id: "express", classRules: [{ ...bulky[0], excluded: true }] })],
+        { weight: 0, subtotal: 4000, classes: [{ classId: "bulky", quantity: 1 }] }
+      );
+      expect(rates).toHaveLength(1);
+      expect(rates[0]).toMatchObject({ methodId: "standard", price: 1500, surcharge: 1500 });
+    });
+  });
+});
@@ -0,0 +1,183 @@
+// Tax Calculation Tests
+import { describe, it, expect } from "vitest";
+import {
+  allocate,
+  applyRates,
+  calculateTaxes,
+  classRatesAt,
+  formatTaxLineName,
+  resolveRates,
+  TaxConfigurationError,
+} from "../tax/calculator.js";
+import type { TaxRateRule } from "../tax/types.js";
+
+const rule = (rate: number, overrides: Partial<TaxRateRule> = {}): TaxRateRule => ({
+  name: "MwSt.",
+  rate,
+  country: "DE",
+  priority: 0,
+  compound: false,
+  ...overrides,
+});
+
+const standard = [rule(1900)];
+const reduced = [rule(700)];
+
+describe("tax", () => {
+  describe("allocate", () => {
+    it("should split without losing cents", () => {
+      const shares = allocate(100, [1, 1, 1]);
+      expect(shares.reduce((a, b) => a + b, 0)).toBe(100);
+      expect(shares).toEqual([34, 33, 33]);
+    });
+
+    it("should return zeros without weights", () => {
+      expect(allocate(100, [0, 0])).toEqual([0, 0]);
+    });
+  });
+
+  describe("resolveRates", () => {
+    const rules = [
+      rule(1900),
+      rule(0, { name: "Zollfrei", postalCode: "27498" }),
+      rule(800, { country: "CA", name: "PST", state: "ON", priority: 1 }),
+      rule(500, { country: "CA", name: "GST" }),
+    ];
+
+    it("should match the country", () => {
+      expect(resolveRates(rules, { country: "de", postalCode: "10115" })).toEqual([rule(1900)]);
+      expect(resolveRates(rules, { country: "FR" })).toEqual([]);
+    });
+
+    it("should prefer more specific regional rules", () => {
+      const rates = resolveRates(rules, { country: "DE", postalCode: "27498" });
+      expect(rates.map((r) => r.name)).toEqual(["Zollfrei"]);
+    });
+
+    it("should support postal code prefixes", () => {
+      const rates = resolveRates([rule(1900), rule(0, { postalCode: "274*" })], { country: "DE", postalCode: "27498" });
+      expect(rates).toHaveLength(1);
+      expect(rates[0].rate).toBe(0);
+    });
+  });
+
+  describe("classRatesAt", () => {
+    it("should take the destination's rates under OSS", () => {
+      const rules = [rule(700), rule(550, { country: "FR" })];
+      expect(classRatesAt("Ermäßigt", rules, { country: "FR" })).toEqual([rule(550, { country: "FR" })]);
+    });
+
+    it("should fail for an OSS destination the class has no rate for", () => {
+      const rules = [rule(700), rule(550, { country: "FR" })];
+      expect(() => classRatesAt("Ermäßigt", rules, { country: "AT" })).toThrow(TaxConfigurationError);
+      expect(() => classRatesAt("Ermäßigt", rules, { country: "AT" })).toThrow("Ermäßigt has no rate for AT");
+    });
+
+    it("should not tax a class without any rates", () => {
+      expect(classRatesAt("Steuerfrei", [], { country: "AT" })).toEqual([]);
+    });
+  });
+
+  describe("applyRates", () => {
+    it("should charge compound rates on top of earlier taxes", () => {
+      const taxes = applyRates(10000, [
+        rule(500, { name: "GST" }),
+        rule(1000, { name: "QST", priority: 1, compound: true }),
+      ]);
+      expect(taxes.map((t) => t.amount)).toEqual([500, 1000]);
+
+      const compound = applyRates(10000, [
+        rule(500, { name: "GST", compound: true }),
+        rule(1000, { name: "QST", priority: 1 }),
+      ]);
+      expect(compound.map((t) => t.amount)).toEqual([500, 1050]);
+    });
+  });
+
+  describe("calculateTaxes", () => {
+    it("should produce one tax line per rate", () => {
+      const result = calculateTaxes({
+        lines: [
+          { key: "book", netAmount: 2000, rates: reduced },
+          { key: "shirt", netAmount: 1000, rates: standard },
+        ],
+      });
+      expect(result.taxLines).toEqual([
+        { name: "MwSt.", rate: 700, amount: 140 },
+        { name: "MwSt.", rate: 1900, amount: 190 },
+      ]);
+      expect(result.subtotal).toBe(3330);
+      expect(result.taxTotal).toBe(330);
+      expect(result.total).toBe(3330);
+    });
+
+    it("should lower the tax of discounted lines", () => {
+      const result = calculateTaxes({
+        lines: [{ key: "shirt", netAmount: 10000, rates: standard }],
+        discountGross: 1190,
+      });
+      expect(result.lines[0].discountAmount).toBe(1190);
+      expect(result.lines[0].discountedTaxAmount).toBe(1710);
+      expect(result.taxTotal).toBe(1710);
+      expect(result.total).toBe(10710);
+    });
+
+    it("should keep line discounts on their line", () => {
+      const result = calculateTaxes({
+        lines: [
+          { key: "book", netAmount: 1000, rates: reduced, discountGross: 107 },
+          { key: "shirt", netAmount: 1000, rates: standard },
+        ],
+        discountGross: 100,
+      });
+      expect(result.lines.map((line) => line.discountAmount)).toEqual([107 + 45, 55]);
+      expect(result.lines[0].discountedTaxAmount).toBe(60);
+      expect(result.discountTotal).toBe(207);
+      expect(result.total).toBe(2260 - 207);
+    });
+
+    it("should split shipping tax by the value of the goods", () => {
+      const result = calculateTaxes({
+        lines: [
+          { key: "book", netAmount: 1000, rates: reduced },   // 1070 gross
+          { key: "shirt", netAmount: 1000, rates: standard }, // 1190 gross
+        ],
+        shippingGross: 500,
+      });
+      // 237 of 500 at 7%, 263 at 19%
+      expect(result.shipping.taxes).toEqual([
+        { name: "MwSt.", rate: 700, amount: 16 },
+        { name: "MwSt.", rate: 1900, amount: 42 },
+      ]);
+      expect(result.shipping.netAmount).toBe(442);
+      expect(result.taxTotal).toBe(70 + 190 + 16 + 42);
+      expect(result.total).toBe(2760);
+    });
+
+    it("should tax shipping at the fallback rates without goods value", () => {
+      const result = calculateTaxes({
+        lines: [],
+        shippingGross: 595,
+        fallbackRates: standard,
+      });
+      expect(result.shipping.taxAmount).toBe(95);
+    });
+
+    it("should not discount below zero", () => {
+      const result = calculateTaxes({
+        lines: [{ key: "shirt", netAmount: 1000, rates: standard }],
+        discountGross: 5000,
+      });
+      expect(result.discountTotal).toBe(1190);
+      expect(result.taxTotal).toBe(0);
+      expect(result.total).toBe(0);
+    });
+  });
+
+  describe("formatTaxLineName", () => {
+    it("should print the rate as a percentage", () => {
+      expect(formatTaxLineName({ name: "MwSt.", rate: 1900 })).toBe("MwSt. 19%");
+      expect(formatTaxLineName({ name: "MwSt.", rate: 550 })).toBe("MwSt. 5,5%");
+    });
+  });
+});
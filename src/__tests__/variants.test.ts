@@ -0,0 +1,136 @@
+// Product Variant Tests
+import { describe, it, expect } from "vitest";
+import {
+  cartesianProduct,
+  buildOptionCombinations,
+  combinationKey,
+  buildVariantSku,
+  buildVariantSlug,
+  formatVariantLabel,
+  isVariantAvailable,
+  buildVariantMatrix,
+} from "../variants/utils.js";
+import type { ProductOption, Variant } from "../variants/types.js";
+
+const options: ProductOption[] = [
+  {
+    id: "size",
+    name: "Größe",
+    position: 1,
+    values: [
+      { id: "m", value: "M", position: 1 },
+      { id: "s", value: "S", position: 0 },
+    ],
+  },
+  {
+    id: "colour",
+    name: "Farbe",
+    position: 0,
+    values: [
+      { id: "red", value: "Rot", position: 0 },
+      { id: "blue", value: "Blau", position: 1 },
+    ],
+  },
+];
+
+const variant = (id: string, valueIds: string[], overrides: Partial<Variant> = {}): Variant => ({
+  id,
+  sku: `SHIRT-${id}`,
+  slug: `shirt-${id}`,
+  status: "active",
+  options: valueIds.map((valueId) => {
+    const option = options.find((o) => o.values.some((v) => v.id === valueId))!;
+    const value = option.values.find((v) => v.id === valueId)!;
+    return { optionId: option.id, name: option.name, valueId, value: value.value };
+  }),
+  priceNet: 1000,
+  priceGross: 1190,
+  trackInventory: true,
+  allowBackorder: false,
+  availableQuantity: 5,
+  images: [],
+  ...overrides,
+});
+
+describe("variants", () => {
+  describe("cartesianProduct", () => {
+    it("should combine every element of each group", () => {
+      expect(cartesianProduct<number | string>([[1, 2], ["a", "b", "c"]])).toHaveLength(6);
+      expect(cartesianProduct<number | string>([[1, 2], ["a"]])).toEqual([[1, "a"], [2, "a"]]);
+    });
+
+    it("should return no combinations without groups or with an empty group", () => {
+      expect(cartesianProduct([])).toEqual([]);
+      expect(cartesianProduct([[1, 2], []])).toEqual([]);
+    });
+  });
+
+  describe("buildOptionCombinations", () => {
+    it("should follow option and value positions", () => {
+      const combinations = buildOptionCombinations(options);
+      expect(combinations.map((c) => c.map((o) => o.value))).toEqual([
+        ["Rot", "S"],
+        ["Rot", "M"],
+        ["Blau", "S"],
+        ["Blau", "M"],
+      ]);
+    });
+  });
+
+  describe("combinationKey", () => {
+    it("should not depend on the order of values", () => {
+      expect(combinationKey(["m", "red"])).toBe(combinationKey(["red", "m"]));
+    });
+  });
+
+  describe("buildVariantSku / buildVariantSlug", () => {
+    it("should append the option values", () => {
+      expect(buildVariantSku("SHIRT", ["Rot", "XL"])).toBe("SHIRT-ROT-XL");
+      expect(buildVariantSlug("shirt", ["Rot", "XL"])).toBe("shirt-rot-xl");
+    });
+
+    it("should transliterate umlauts and special characters", () => {
+      expect(buildVariantSku("SHIRT", ["Grün", "Weiß / Grau"])).toBe("SHIRT-GRUN-WEISS-GRAU");
+      expect(buildVariantSlug("shirt", ["Größe 42"])).toBe("shirt-grosse-42");
+    });
+  });
+
+  describe("formatVariantLabel", () => {
+    it("should join the option values", () => {
+      expect(formatVariantLabel([{ value: "Rot" }, { value: "M" }])).toBe("Rot / M");
+    });
+  });
+
+  describe("isVariantAvailable", () => {
+    it("should check stock, backorders and status", () => {
+      expect(isVariantAvailable(variant("a", [], { availableQuantity: 2 }), 2)).toBe(true);
+      expect(isVariantAvailable(variant("a", [], { availableQuantity: 1 }), 2)).toBe(false);
+      expect(isVariantAvailable(variant("a", [], { availableQuantity: 0, allowBackorder: true }))).toBe(true);
+      expect(isVariantAvailable(variant("a", [], { availableQuantity: 0, trackInventory: false }))).toBe(true);
+      expect(isVariantAvailable(variant("a", [], { status: "archived" }))).toBe(false);
+    });
+  });
+
+  describe("buildVariantMatrix", () => {
+    const matrix = buildVariantMatrix(options, [
+      variant("red-s", ["red", "s"]),
+      variant("red-m", ["red", "m"], { availableQuantity: 0 }),
+      variant("blue-s", ["blue", "s"], { status: "archived" }),
+    ]);
+
+    it("should list active variants with their options", () => {
+      expect(matrix.variants.map((v) => v.id)).toEqual(["red-s", "red-m"]);
+      expect(matrix.variants[0].options).toEqual({ Farbe: "Rot", "Größe": "S" });
+      expect(matrix.variants[1]).toMatchObject({ inStock: false, stockQuantity: 0 });
+    });
+
+    it("should mark values that only sold-out variants have as unavailable", () => {
+      expect(matrix.options.map((o) => o.name)).toEqual(["Farbe", "Größe"]);
+      expect(matrix.options[0].values).toEqual([{ value: "Rot", available: true }]);
+      expect(matrix.options[1].values).toEqual([
+        { value: "S", available: true },
+        { value: "M", available: false },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+// EU VAT Tests
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  determineVatTreatment,
+  getVatTreatmentNote,
+  isValidVatIdFormat,
+  isZeroRated,
+  ossThresholdReached,
+  parseVatId,
+} from "../tax/vat.js";
+import { resetVatIdVerifier, setVatIdVerifier, verifyVatId } from "../tax/vat-id-verifier.js";
+
+describe("vat", () => {
+  describe("parseVatId", () => {
+    it("should normalize spacing and case", () => {
+      expect(parseVatId("de 123.456-789")).toEqual({ prefix: "DE", country: "DE", number: "123456789" });
+    });
+
+    it("should map the Greek prefix to its country", () => {
+      expect(parseVatId("EL123456789")?.country).toBe("GR");
+    });
+
+    it("should check the format of the member state", () => {
+      expect(isValidVatIdFormat("ATU12345678")).toBe(true);
+      expect(isValidVatIdFormat("NL123456789B01")).toBe(true);
+      expect(isValidVatIdFormat("FRXX123456789")).toBe(true);
+      expect(isValidVatIdFormat("DE12345678")).toBe(false);
+      expect(isValidVatIdFormat("AT12345678")).toBe(false);
+      expect(isValidVatIdFormat("US123456789")).toBe(false);
+    });
+  });
+
+  describe("determineVatTreatment", () => {
+    const base = { storeCountry: "DE", ossApplies: false };
+
+    it("should charge the shop's VAT at home", () => {
+      expect(determineVatTreatment({ ...base, destinationCountry: "DE", ossApplies: true })).toBe("standard");
+    });
+
+    it("should charge destination VAT to EU consumers once OSS applies", () => {
+      expect(determineVatTreatment({ ...base, destinationCountry: "FR" })).toBe("standard");
+      expect(determineVatTreatment({ ...base, destinationCountry: "FR", ossApplies: true })).toBe("oss");
+    });
+
+    it("should zero-rate businesses with a VAT ID of another member state", () => {
+      expect(determineVatTreatment({ ...base, destinationCountry: "AT", buyerVatCountry: "AT" })).toBe("reverse_charge");
+      expect(determineVatTreatment({ ...base, destinationCountry: "AT", buyerVatCountry: "DE" })).toBe("standard");
+      expect(determineVatTreatment({ ...base, destinationCountry: "DE", buyerVatCountry: "AT" })).toBe("standard");
+    });
+
+    it("should zero-rate exports and exempt customers", () => {
+      expect(determineVatTreatment({ ...base, destinationCountry: "CH", buyerVatCountry: "AT" })).toBe("export");
+      expect(determineVatTreatment({ ...base, destinationCountry: "DE", taxExempt: true })).toBe("exempt");
+      expect(isZeroRated("export")).toBe(true);
+      expect(isZeroRated("oss")).toBe(false);
+    });
+  });
+
+  describe("ossThresholdReached", () => {
+    const threshold = 1000000;
+
+    it("should apply after a year above the threshold", () => {
+      expect(ossThresholdReached({ previousYear: 1000001, currentYear: 0, orderNet: 0, threshold })).toBe(true);
+    });
+
+    it("should apply from the order that crosses the threshold", () => {
+      expect(ossThresholdReached({ previousYear: 0, currentYear: 990000, orderNet: 10000, threshold })).toBe(false);
+      expect(ossThresholdReached({ previousYear: 0, currentYear: 990000, orderNet: 10001, threshold })).toBe(true);
+    });
+  });
+
+  describe("getVatTreatmentNote", () => {
+    it("should name the buyer's VAT ID for reverse charge", () => {
+      const note = getVatTreatmentNote("reverse_charge", { buyerVatId: "ATU12345678" });
+      expect(note).toContain("Reverse Charge");
+      expect(note).toContain("ATU12345678");
+    });
+
+    it("should not add a note to standard invoices", () => {
+      expect(getVatTreatmentNote("standard")).toBeNull();
+      expect(getVatTreatmentNote("export")).toContain("Ausfuhrlieferung");
+    });
+  });
+
+  describe("verifyVatId", () => {
+    afterEach(() => resetVatIdVerifier());
+
+    it("should reject malformed IDs without asking the verifier", async () => {
+      let calls = 0;
+      setVatIdVerifier({
+        async verify() {
+          calls++;
+          return { valid: true, source: "stub", checkedAt: new Date() };
+        },
+      });
+      expect((await verifyVatId("DE123")).valid).toBe(false);
+      expect(calls).toBe(0);
+    });
+
+    it("should use the configured verifier", async () => {
+      setVatIdVerifier({
+        async verify(vatId) {
+          return { valid: vatId.number === "12345678", source: "stub", checkedAt: new Date() };
+        },
+      });
+      expect(await verifyVatId("ATU 12345678")).toMatchObject({ valid: false, source: "stub" });
+      expect((await verifyVatId("DK12345678")).valid).toBe(true);
+    });
+  });
+});
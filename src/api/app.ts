@@ -17,6 +17,7 @@ import { paypalRoutes } from "./routes/paypal";
 import { paymentRoutes, stripeWebhookRoutes, registerDefaultHandlers } from "@/payments";
 import { invoiceRoutes } from "@/invoices";
 import { giftCardRoutes } from "@/giftcards";
+import { returnRoutes } from "@/returns";
 import { setupSwaggerUI } from "./docs/openapi";
 import { getMetrics } from "@/telemetry";
 import {
@@ -145,6 +146,10 @@ export function createApp() {
   api.use("/invoices/*", generalRateLimiter);
   api.route("/invoices", invoiceRoutes);
 
+  // Return routes - general rate limiting (customers only)
+  api.use("/returns/*", generalRateLimiter);
+  api.route("/returns", returnRoutes);
+
   // Upload routes - general rate limiting (admin only)
   api.use("/upload/*", generalRateLimiter);
   api.route("/upload", uploadRoutes);
@@ -376,9 +376,11 @@ export const openApiSpec = {
         properties: {
           id: { type: "string" },
           sku: { type: "string" },
-          name: { type: "string" },
-          price: { type: "number" },
-          options: { type: "object" },
+          slug: { type: "string" },
+          price: { type: "object", properties: { net: { type: "integer" }, gross: { type: "integer" } } },
+          options: { type: "object", additionalProperties: { type: "string" } },
+          inStock: { type: "boolean" },
+          stockQuantity: { type: "integer", nullable: true },
         },
       },
       ProductList: {
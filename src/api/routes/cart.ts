@@ -2,6 +2,10 @@ import { Hono } from "hono";
 import { eq, and, sql } from "drizzle-orm";
 import { db } from "@/db/index";
 import { carts, cartItems, products, productTranslations } from "@/db/schema/index";
+import { availabilityExtrasFor } from "@/inventory/availability";
+import { variantService } from "@/variants";
+import { taxService, isZeroRated, type VatContext } from "@/tax";
+import { discountService, describePromotions } from "@/discounts";
 
 const router = new Hono();
 
@@ -26,6 +30,7 @@ router.post("/", async (c) => {
       sessionId: cart.sessionId,
       items: [],
       subtotal: 0,
+      discountTotal: 0,
       taxTotal: 0,
       total: 0,
       currency: cart.currency,
@@ -45,6 +50,7 @@ router.get("/:id", async (c) => {
       items: {
         with: {
           product: {
+            extras: availabilityExtrasFor(id),
             with: {
               translations: {
                 where: eq(productTranslations.locale, locale),
@@ -69,12 +75,16 @@ router.get("/:id", async (c) => {
     }, 410);
   }
   
+  // Totals follow the promotions running right now
+  const pricing = await recalculateCart(cart.id);
+  
   // Transform items
   const items = cart.items.map((item) => {
     const translation = item.product?.translations[0];
     return {
       id: item.id,
       productId: item.productId,
+      variant: toVariantInfo(item.metadata),
       slug: item.product?.slug,
       sku: item.product?.sku,
       name: translation?.name || item.product?.sku || "Unknown",
@@ -87,7 +97,8 @@ router.get("/:id", async (c) => {
         net: item.unitPriceNet * item.quantity,
         gross: item.unitPriceGross * item.quantity,
       },
-      inStock: item.product ? (!item.product.trackInventory || item.product.stockQuantity >= item.quantity) : false,
+      discount: pricing?.lineDiscounts.get(item.id) ?? 0,
+      inStock: item.product ? (!item.product.trackInventory || item.product.availableQuantity >= item.quantity) : false,
     };
   });
   
@@ -98,9 +109,11 @@ router.get("/:id", async (c) => {
       id: cart.id,
       sessionId: cart.sessionId,
       items,
-      subtotal: cart.subtotal,
-      taxTotal: cart.taxTotal,
-      total: cart.total,
+      subtotal: pricing?.subtotal ?? cart.subtotal,
+      discountTotal: pricing?.discountTotal ?? cart.discountTotal,
+      taxTotal: pricing?.taxTotal ?? cart.taxTotal,
+      total: pricing?.total ?? cart.total,
+      promotions: describePromotions(pricing?.promotions),
       currency: cart.currency,
       itemCount,
     },
@@ -111,7 +124,7 @@ router.get("/:id", async (c) => {
 router.post("/:id/items", async (c) => {
   const cartId = c.req.param("id");
   const body = await c.req.json();
-  const { productId, quantity = 1 } = body;
+  const { productId, variantId, quantity = 1 } = body;
   
   if (!productId) {
     return c.json({
@@ -131,30 +144,52 @@ router.post("/:id/items", async (c) => {
   }
   
   // Check product exists and is active
-  const product = await db.query.products.findFirst({
+  const requested = await db.query.products.findFirst({
     where: and(eq(products.id, productId), eq(products.status, "active")),
+    extras: availabilityExtrasFor(cartId),
   });
   
-  if (!product) {
+  if (!requested) {
     return c.json({
       error: { code: "PRODUCT_NOT_FOUND", message: "Product not found or not available" },
     }, 404);
   }
   
+  // A product with variants is bought as one of its variants
+  const hasVariants = requested.type === "variant" && !requested.parentId;
+  if (hasVariants && !variantId) {
+    return c.json({
+      error: { code: "VARIANT_REQUIRED", message: "Select a variant of this product" },
+    }, 400);
+  }
+  
+  const product = hasVariants
+    ? await db.query.products.findFirst({
+        where: and(eq(products.id, variantId), eq(products.parentId, requested.id), eq(products.status, "active")),
+        extras: availabilityExtrasFor(cartId),
+      })
+    : requested;
+  
+  if (!product) {
+    return c.json({
+      error: { code: "VARIANT_NOT_FOUND", message: "Variant not found or not available" },
+    }, 404);
+  }
+  
   // Check stock
-  if (product.trackInventory && product.stockQuantity < quantity) {
+  if (product.trackInventory && product.availableQuantity < quantity) {
     return c.json({
       error: { 
         code: "INSUFFICIENT_STOCK", 
         message: "Not enough stock available",
-        available: product.stockQuantity,
+        available: product.availableQuantity,
       },
     }, 400);
   }
   
   // Check if item already in cart
   const existingItem = await db.query.cartItems.findFirst({
-    where: and(eq(cartItems.cartId, cartId), eq(cartItems.productId, productId)),
+    where: and(eq(cartItems.cartId, cartId), eq(cartItems.productId, product.id)),
   });
   
   if (existingItem) {
@@ -162,12 +197,12 @@ router.post("/:id/items", async (c) => {
     const newQuantity = existingItem.quantity + quantity;
     
     // Check stock for new quantity
-    if (product.trackInventory && product.stockQuantity < newQuantity) {
+    if (product.trackInventory && product.availableQuantity < newQuantity) {
       return c.json({
         error: { 
           code: "INSUFFICIENT_STOCK", 
           message: "Not enough stock available",
-          available: product.stockQuantity,
+          available: product.availableQuantity,
         },
       }, 400);
     }
@@ -177,21 +212,29 @@ router.post("/:id/items", async (c) => {
       .set({ quantity: newQuantity, updatedAt: new Date() })
       .where(eq(cartItems.id, existingItem.id));
   } else {
-    // Add new item
+    // Add new item; variants keep their parent and options for display
+    const options = product.parentId
+      ? (await variantService.getSelectedOptions([product.id])).get(product.id) ?? []
+      : [];
+    
     await db.insert(cartItems).values({
       cartId,
-      productId,
+      productId: product.id,
       quantity,
       unitPriceNet: product.priceNet,
       unitPriceGross: product.priceGross,
+      metadata: product.parentId ? {
+        parentId: product.parentId,
+        options: Object.fromEntries(options.map((option) => [option.name, option.value])),
+      } : undefined,
     });
   }
   
   // Recalculate cart totals
-  await recalculateCart(cartId);
+  const pricing = await recalculateCart(cartId);
   
   // Return updated cart
-  return getCartResponse(c, cartId);
+  return getCartResponse(c, cartId, pricing);
 });
 
 // Update item quantity
@@ -211,7 +254,9 @@ router.patch("/:id/items/:itemId", async (c) => {
   const item = await db.query.cartItems.findFirst({
     where: and(eq(cartItems.id, itemId), eq(cartItems.cartId, cartId)),
     with: {
-      product: true,
+      product: {
+        extras: availabilityExtrasFor(cartId),
+      },
     },
   });
   
@@ -226,12 +271,12 @@ router.patch("/:id/items/:itemId", async (c) => {
     await db.delete(cartItems).where(eq(cartItems.id, itemId));
   } else {
     // Check stock
-    if (item.product?.trackInventory && item.product.stockQuantity < quantity) {
+    if (item.product?.trackInventory && item.product.availableQuantity < quantity) {
       return c.json({
         error: { 
           code: "INSUFFICIENT_STOCK", 
           message: "Not enough stock available",
-          available: item.product.stockQuantity,
+          available: item.product.availableQuantity,
         },
       }, 400);
     }
@@ -244,10 +289,10 @@ router.patch("/:id/items/:itemId", async (c) => {
   }
   
   // Recalculate cart totals
-  await recalculateCart(cartId);
+  const pricing = await recalculateCart(cartId);
   
   // Return updated cart
-  return getCartResponse(c, cartId);
+  return getCartResponse(c, cartId, pricing);
 });
 
 // Remove item from cart
@@ -267,10 +312,10 @@ router.delete("/:id/items/:itemId", async (c) => {
   }
   
   // Recalculate cart totals
-  await recalculateCart(cartId);
+  const pricing = await recalculateCart(cartId);
   
   // Return updated cart
-  return getCartResponse(c, cartId);
+  return getCartResponse(c, cartId, pricing);
 });
 
 // Clear cart
@@ -283,41 +328,90 @@ router.delete("/:id", async (c) => {
   // Reset totals
   await db
     .update(carts)
-    .set({ subtotal: 0, taxTotal: 0, total: 0, updatedAt: new Date() })
+    .set({ subtotal: 0, discountTotal: 0, taxTotal: 0, total: 0, updatedAt: new Date() })
     .where(eq(carts.id, cartId));
   
   return c.json({ data: { success: true } });
 });
 
-// Helper: Recalculate cart totals
+// Helper: Variant details stored on a cart item
+function toVariantInfo(metadata: unknown) {
+  const data = metadata as { parentId?: string; options?: Record<string, string> } | null;
+  if (!data?.parentId) return null;
+  return {
+    parentId: data.parentId,
+    options: data.options ?? {},
+  };
+}
+
+type CartPricing = NonNullable<Awaited<ReturnType<typeof recalculateCart>>>;
+
+// Helper: Recalculate cart totals, with the automatic promotions the cart
+// qualifies for (a coupon is only applied at checkout)
 async function recalculateCart(cartId: string) {
-  const items = await db.query.cartItems.findMany({
-    where: eq(cartItems.cartId, cartId),
+  const cart = await db.query.carts.findFirst({
+    where: eq(carts.id, cartId),
+    with: {
+      items: {
+        with: {
+          product: { columns: { taxClassId: true } },
+        },
+      },
+    },
   });
-  
-  let subtotal = 0;
-  let taxTotal = 0;
-  
-  for (const item of items) {
-    const lineTotal = item.unitPriceGross * item.quantity;
-    const lineTax = (item.unitPriceGross - item.unitPriceNet) * item.quantity;
-    subtotal += lineTotal;
-    taxTotal += lineTax;
-  }
+  if (!cart) return null;
+  
+  // Taxed for the shop country until checkout knows the address
+  // (and with the VAT treatment checkout determined for it)
+  const metadata = cart.metadata as { shippingAddress?: Record<string, unknown>; vat?: VatContext } | null;
+  const taxInput = {
+    address: metadata?.vat?.taxAddress ?? taxService.getTaxAddress(metadata?.shippingAddress),
+    zeroRated: metadata?.vat ? isZeroRated(metadata.vat.treatment) : false,
+  };
+  const taxItems = (lineDiscounts?: Map<string, number>) => cart.items.map((item) => ({
+    key: item.id,
+    taxClassId: item.product?.taxClassId,
+    unitPriceNet: item.unitPriceNet,
+    quantity: item.quantity,
+    fallbackRate: taxService.impliedRate(item.unitPriceNet, item.unitPriceGross),
+    discountGross: lineDiscounts?.get(item.id),
+  }));
+  
+  // Promotions work on the line amounts the discount is taken off
+  const undiscounted = await taxService.calculate({ ...taxInput, items: taxItems() });
+  const { automatic, lineDiscounts } = await discountService.priceCart({
+    items: cart.items.map((item) => ({
+      key: item.id,
+      productId: item.productId,
+      quantity: item.quantity,
+      total: undiscounted.lines.find((line) => line.key === item.id)?.grossAmount ?? 0,
+    })),
+  });
+  const taxes = await taxService.calculate({ ...taxInput, items: taxItems(lineDiscounts) });
   
   await db
     .update(carts)
     .set({ 
-      subtotal, 
-      taxTotal, 
-      total: subtotal, 
+      subtotal: taxes.subtotal, 
+      discountTotal: taxes.discountTotal,
+      taxTotal: taxes.taxTotal, 
+      total: taxes.total, 
       updatedAt: new Date() 
     })
     .where(eq(carts.id, cartId));
+  
+  return {
+    subtotal: taxes.subtotal,
+    discountTotal: taxes.discountTotal,
+    taxTotal: taxes.taxTotal,
+    total: taxes.total,
+    lineDiscounts,
+    promotions: automatic,
+  };
 }
 
 // Helper: Get cart response
-async function getCartResponse(c: any, cartId: string) {
+async function getCartResponse(c: any, cartId: string, pricing: CartPricing | null) {
   const locale = c.req.header("Accept-Language")?.split(",")[0] || "de-DE";
   
   const cart = await db.query.carts.findFirst({
@@ -326,6 +420,7 @@ async function getCartResponse(c: any, cartId: string) {
       items: {
         with: {
           product: {
+            extras: availabilityExtrasFor(cartId),
             with: {
               translations: {
                 where: eq(productTranslations.locale, locale),
@@ -348,6 +443,7 @@ async function getCartResponse(c: any, cartId: string) {
     return {
       id: item.id,
       productId: item.productId,
+      variant: toVariantInfo(item.metadata),
       slug: item.product?.slug,
       name: translation?.name || item.product?.sku || "Unknown",
       quantity: item.quantity,
@@ -359,6 +455,7 @@ async function getCartResponse(c: any, cartId: string) {
         net: item.unitPriceNet * item.quantity,
         gross: item.unitPriceGross * item.quantity,
       },
+      discount: pricing?.lineDiscounts.get(item.id) ?? 0,
     };
   });
   
@@ -369,8 +466,10 @@ async function getCartResponse(c: any, cartId: string) {
       id: cart.id,
       items,
       subtotal: cart.subtotal,
+      discountTotal: cart.discountTotal,
       taxTotal: cart.taxTotal,
       total: cart.total,
+      promotions: describePromotions(pricing?.promotions),
       currency: cart.currency,
       itemCount,
     },
@@ -2,6 +2,7 @@ import { Hono } from "hono";
 import { eq, and, isNull, asc } from "drizzle-orm";
 import { db } from "@/db/index";
 import { categories, categoryTranslations, productCategories, products, productTranslations } from "@/db/schema/index";
+import { availabilityExtras } from "@/inventory/availability";
 
 const router = new Hono();
 
@@ -200,8 +201,10 @@ router.get("/:slug/products", async (c) => {
   const items = await db.query.products.findMany({
     where: and(
       eq(products.status, "active"),
+      isNull(products.parentId),
       // Would need inArray here
     ),
+    extras: availabilityExtras,
     with: {
       translations: {
         where: eq(productTranslations.locale, locale),
@@ -226,7 +229,7 @@ router.get("/:slug/products", async (c) => {
         gross: product.priceGross,
         currency: "EUR",
       },
-      inStock: !product.trackInventory || product.stockQuantity > 0,
+      inStock: !product.trackInventory || product.availableQuantity > 0,
     };
   });
   
@@ -1,14 +1,46 @@
 import { Hono } from "hono";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, asc, inArray } from "drizzle-orm";
 import { db } from "@/db/index";
-import { carts, cartItems, orders, orderItems, orderTaxLines, products, shippingMethods, paymentMethods, coupons } from "@/db/schema/index";
+import { carts, cartItems, customers, orders, orderItems, orderTaxLines, shipments, paymentMethods, products } from "@/db/schema/index";
+import { optionalAuth, type TokenPayload } from "@/auth";
+import { inventoryService, InsufficientStockError } from "@/inventory";
+import { bundleService } from "@/bundles";
+import { shippingService } from "@/shipping";
+import { sequenceService } from "@/sequences";
+import {
+  discountService,
+  describePromotions,
+  promotionGifts,
+  CouponError,
+  type CartPromotions,
+  type PriceCartInput,
+} from "@/discounts";
+import { createInvoiceToken } from "@/invoices";
+import { startOrderPayment, amountDue, type PaymentNextStep } from "@/payments";
+import { giftCardService, GiftCardError, isValidCodeFormat, normalizeCode as normalizeGiftCardCode } from "@/giftcards";
+import { orderService } from "@/orders";
+import { env } from "@/config/env";
+import { logger } from "@/config/logger";
+import {
+  taxService,
+  formatTaxLineName,
+  formatVatId,
+  getVatTreatmentNote,
+  isZeroRated,
+  parseVatId,
+  type TaxCalculation,
+  type VatContext,
+} from "@/tax";
 
 const router = new Hono();
 
+// Signed-in customers get their VAT status (exemption, VAT ID) applied
+router.use("*", optionalAuth);
+
 // Create checkout session from cart
 router.post("/", async (c) => {
   const body = await c.req.json();
-  const { cartId, email, shippingAddress, billingAddress } = body;
+  const { cartId, email, shippingAddress, billingAddress, vatId } = body;
   
   if (!cartId) {
     return c.json({
@@ -40,32 +72,72 @@ router.post("/", async (c) => {
     }, 400);
   }
   
-  // Check stock for all items
-  const stockIssues = [];
-  for (const item of cart.items) {
-    if (item.product?.trackInventory && item.product.stockQuantity < item.quantity) {
-      stockIssues.push({
-        productId: item.productId,
-        sku: item.product.sku,
-        requested: item.quantity,
-        available: item.product.stockQuantity,
-      });
+  // Automatic promotions on the prices at the delivery address; free gifts
+  // are held along with the cart
+  const { vat } = await resolveVat(c.get("user"), cart.items, vatId, shippingAddress, billingAddress);
+  const taxInput = { address: vat.taxAddress, zeroRated: isZeroRated(vat.treatment) };
+  const undiscounted = await taxService.calculate({ ...taxInput, items: taxItems(cart.items) });
+  const pricing = await discountService.priceCart({ items: promotionItems(cart.items, undiscounted) });
+  const gifts = promotionGifts(pricing.automatic);
+  
+  // Hold stock for the duration of the checkout (replaces earlier holds of this cart).
+  // Bundles are held through their components.
+  const stockLines = await bundleService.expandItems([
+    ...cart.items.map((item) => ({ productId: item.productId, quantity: item.quantity })),
+    ...gifts.map((gift) => ({ productId: gift.productId, quantity: gift.quantity })),
+  ]);
+  let reservations;
+  try {
+    reservations = await inventoryService.reserveItems(
+      cart.id,
+      stockLines,
+      undefined,
+      { country: shippingAddress?.country }
+    );
+  } catch (error) {
+    if (error instanceof InsufficientStockError) {
+      const line = stockLines.find((l) => l.productId === error.productId);
+      const item = cart.items.find((i) => i.productId === (line?.bundleId ?? error.productId));
+      const perUnit = line && item ? line.quantity / item.quantity : 1;
+      return c.json({
+        error: { 
+          code: "INSUFFICIENT_STOCK", 
+          message: "Some items are out of stock",
+          items: [{
+            productId: item?.productId ?? error.productId,
+            sku: item?.product?.sku,
+            requested: item?.quantity ?? error.requested,
+            available: Math.floor(error.available / perUnit),
+          }],
+        },
+      }, 400);
     }
+    throw error;
   }
   
-  if (stockIssues.length > 0) {
-    return c.json({
-      error: { 
-        code: "INSUFFICIENT_STOCK", 
-        message: "Some items are out of stock",
-        items: stockIssues,
-      },
-    }, 400);
+  // Taxes for the delivery address, before shipping and coupon
+  const taxes = await taxService.calculate({ ...taxInput, items: taxItems(cart.items, pricing.lineDiscounts) });
+  
+  // Later cart updates are taxed for this address too
+  if (shippingAddress?.country) {
+    await db
+      .update(carts)
+      .set({
+        metadata: { ...(cart.metadata as Record<string, unknown> | null), shippingAddress, vat },
+        subtotal: taxes.subtotal,
+        discountTotal: taxes.discountTotal,
+        taxTotal: taxes.taxTotal,
+        total: taxes.total,
+        updatedAt: new Date(),
+      })
+      .where(eq(carts.id, cart.id));
   }
   
-  // Get available shipping methods
-  const availableShipping = await db.query.shippingMethods.findMany({
-    where: eq(shippingMethods.isActive, true),
+  // Shipping methods that serve the address, priced for this cart
+  const shipping = await shippingService.getQuote({
+    country: taxService.getTaxAddress(shippingAddress).country,
+    items: cart.items.map((item) => ({ productId: item.productId, quantity: item.quantity })),
+    subtotal: taxes.subtotal - taxes.discountTotal,
   });
   
   // Get available payment methods
@@ -80,21 +152,36 @@ router.post("/", async (c) => {
       items: cart.items.map((item) => ({
         productId: item.productId,
         sku: item.product?.sku,
+        options: (item.metadata as { options?: Record<string, string> } | null)?.options ?? null,
         quantity: item.quantity,
         unitPrice: item.unitPriceGross,
         total: item.unitPriceGross * item.quantity,
+        discount: pricing.lineDiscounts.get(item.id) ?? 0,
+      })),
+      subtotal: taxes.subtotal,
+      discountTotal: taxes.discountTotal,
+      promotions: describePromotions(pricing.automatic),
+      taxTotal: taxes.taxTotal,
+      taxLines: taxes.taxLines.map((tax) => ({
+        name: formatTaxLineName(tax),
+        rate: tax.rate,
+        amount: tax.amount,
       })),
-      subtotal: cart.subtotal,
-      taxTotal: cart.taxTotal,
-      total: cart.total,
+      total: taxes.total,
+      vatTreatment: vat.treatment,
+      vatNote: getVatTreatmentNote(vat.treatment, {
+        buyerVatId: vat.buyerVatId,
+        destinationCountry: vat.taxAddress.country,
+      }),
       currency: cart.currency,
-      shippingMethods: availableShipping.map((m) => ({
-        id: m.id,
-        slug: m.slug,
-        name: m.name,
-        description: m.description,
-        price: m.price,
-        freeAbove: m.freeAbove,
+      shippingMethods: shipping.rates.map((rate) => ({
+        id: rate.methodId,
+        slug: rate.slug,
+        name: rate.name,
+        description: rate.description,
+        price: rate.price,
+        surcharge: rate.surcharge, // Included in price (bulky goods etc.)
+        freeAbove: rate.freeAbove,
       })),
       paymentMethods: availablePayment.map((m) => ({
         id: m.id,
@@ -104,6 +191,7 @@ router.post("/", async (c) => {
       })),
       requiresAddress: true,
       requiresEmail: true,
+      reservationExpiresAt: reservations[0]?.expiresAt ?? null,
     },
   }, 201);
 });
@@ -111,7 +199,7 @@ router.post("/", async (c) => {
 // Apply coupon
 router.post("/coupon", async (c) => {
   const body = await c.req.json();
-  const { cartId, code } = body;
+  const { cartId, code, email } = body;
   
   if (!code) {
     return c.json({
@@ -122,6 +210,13 @@ router.post("/coupon", async (c) => {
   // Get cart
   const cart = await db.query.carts.findFirst({
     where: eq(carts.id, cartId),
+    with: {
+      items: {
+        with: {
+          product: { columns: { taxClassId: true } },
+        },
+      },
+    },
   });
   
   if (!cart) {
@@ -130,68 +225,45 @@ router.post("/coupon", async (c) => {
     }, 404);
   }
   
-  // Find coupon
-  const coupon = await db.query.coupons.findFirst({
-    where: eq(coupons.code, code.toUpperCase()),
-  });
-  
-  if (!coupon) {
-    return c.json({
-      error: { code: "INVALID_COUPON", message: "Coupon not found" },
-    }, 400);
-  }
-  
-  if (!coupon.isActive) {
-    return c.json({
-      error: { code: "INVALID_COUPON", message: "Coupon is not active" },
-    }, 400);
-  }
-  
-  const now = new Date();
-  if (coupon.startsAt && coupon.startsAt > now) {
-    return c.json({
-      error: { code: "INVALID_COUPON", message: "Coupon is not yet valid" },
-    }, 400);
-  }
-  
-  if (coupon.expiresAt && coupon.expiresAt < now) {
-    return c.json({
-      error: { code: "INVALID_COUPON", message: "Coupon has expired" },
-    }, 400);
-  }
-  
-  if (coupon.usageLimit && coupon.usageCount >= coupon.usageLimit) {
-    return c.json({
-      error: { code: "INVALID_COUPON", message: "Coupon usage limit reached" },
-    }, 400);
-  }
-  
-  if (coupon.minPurchase && cart.subtotal < coupon.minPurchase) {
-    return c.json({
-      error: { 
-        code: "MIN_PURCHASE_NOT_MET", 
-        message: `Minimum purchase of ${(coupon.minPurchase / 100).toFixed(2)} EUR required`,
-      },
-    }, 400);
-  }
-  
-  // Calculate discount
-  let discount = 0;
-  if (coupon.type === "percentage") {
-    discount = Math.floor(cart.subtotal * coupon.value / 10000);
-    if (coupon.maxDiscount && discount > coupon.maxDiscount) {
-      discount = coupon.maxDiscount;
+  // Priced for the address and VAT treatment the checkout session determined
+  const metadata = cart.metadata as { shippingAddress?: Record<string, unknown>; vat?: VatContext } | null;
+  const taxInput = {
+    address: metadata?.vat?.taxAddress ?? taxService.getTaxAddress(metadata?.shippingAddress),
+    zeroRated: metadata?.vat ? isZeroRated(metadata.vat.treatment) : false,
+  };
+  const undiscounted = await taxService.calculate({ ...taxInput, items: taxItems(cart.items) });
+  
+  // Discount on the items the coupon applies to, after automatic promotions;
+  // free shipping is settled with the shipping method at /complete
+  const user = c.get("user");
+  let pricing: CartPromotions;
+  try {
+    pricing = await discountService.priceCart({
+      items: promotionItems(cart.items, undiscounted),
+      couponCode: code,
+      customerId: user?.role === "customer" ? user.sub : undefined,
+      email,
+    });
+  } catch (error) {
+    if (error instanceof CouponError) {
+      return c.json({
+        error: { code: error.code, message: error.message },
+      }, 400);
     }
-  } else if (coupon.type === "fixed") {
-    discount = Math.min(coupon.value, cart.subtotal);
+    throw error;
   }
+  const promotion = pricing.coupon!;
+  const taxes = await taxService.calculate({ ...taxInput, items: taxItems(cart.items, pricing.lineDiscounts) });
   
   return c.json({
     data: {
-      code: coupon.code,
-      type: coupon.type,
-      discount,
-      newTotal: cart.total - discount,
+      code: promotion.code,
+      type: promotion.type,
+      discount: promotion.discountTotal,
+      freeShipping: promotion.freeShipping,
+      items: promotion.lineDiscounts.map((line) => ({ itemId: line.key, discount: line.amount })),
+      promotions: describePromotions(pricing.automatic),
+      newTotal: taxes.total,
     },
   });
 });
@@ -207,9 +279,11 @@ router.post("/complete", async (c) => {
     shippingMethodId,
     paymentMethodId,
     couponCode,
+    giftCardCodes = [],
     acceptedTerms,
     acceptedCancellationPolicy,
     customerNote,
+    vatId,
   } = body;
   
   // Validate required fields
@@ -250,141 +324,344 @@ router.post("/complete", async (c) => {
     }, 400);
   }
   
-  // Get shipping method
-  let shippingTotal = 0;
-  if (shippingMethodId) {
-    const shippingMethod = await db.query.shippingMethods.findFirst({
-      where: eq(shippingMethods.id, shippingMethodId),
-    });
-    if (shippingMethod) {
-      shippingTotal = shippingMethod.price;
-      // Check for free shipping threshold
-      if (shippingMethod.freeAbove && cart.subtotal >= shippingMethod.freeAbove) {
-        shippingTotal = 0;
-      }
-    }
+  // Products that gained variants after being added must be re-selected
+  const withoutVariant = cart.items.filter((item) => item.product?.type === "variant" && !item.product.parentId);
+  if (withoutVariant.length > 0) {
+    return c.json({
+      error: {
+        code: "VARIANT_REQUIRED",
+        message: "Select a variant for every product",
+        items: withoutVariant.map((item) => ({ productId: item.productId, sku: item.product?.sku })),
+      },
+    }, 400);
   }
   
-  // Calculate discount
-  let discountTotal = 0;
-  if (couponCode) {
-    const coupon = await db.query.coupons.findFirst({
-      where: eq(coupons.code, couponCode.toUpperCase()),
+  // The payment is started with the method's provider once the order exists
+  const paymentMethod = paymentMethodId
+    ? await db.query.paymentMethods.findFirst({
+        where: and(eq(paymentMethods.id, paymentMethodId), eq(paymentMethods.isActive, true)),
+      })
+    : undefined;
+  if (paymentMethodId && !paymentMethod) {
+    return c.json({
+      error: { code: "INVALID_PAYMENT_METHOD", message: "Payment method is not available" },
+    }, 400);
+  }
+  
+  // Automatic promotions, then the coupon on the lines it applies to, on
+  // the prices at the delivery address
+  const user = c.get("user");
+  const { vat, customer } = await resolveVat(user, cart.items, vatId, shippingAddress, billingAddress);
+  const taxInput = { address: vat.taxAddress, zeroRated: isZeroRated(vat.treatment) };
+  const undiscounted = await taxService.calculate({ ...taxInput, items: taxItems(cart.items) });
+  let pricing: CartPromotions;
+  try {
+    pricing = await discountService.priceCart({
+      items: promotionItems(cart.items, undiscounted),
+      couponCode: couponCode || undefined,
+      customerId: user?.role === "customer" ? user.sub : undefined,
+      email,
     });
-    if (coupon && coupon.isActive) {
-      if (coupon.type === "percentage") {
-        discountTotal = Math.floor(cart.subtotal * coupon.value / 10000);
-        if (coupon.maxDiscount && discountTotal > coupon.maxDiscount) {
-          discountTotal = coupon.maxDiscount;
-        }
-      } else if (coupon.type === "fixed") {
-        discountTotal = Math.min(coupon.value, cart.subtotal);
-      }
-      
-      // Increment usage
-      await db
-        .update(coupons)
-        .set({ usageCount: coupon.usageCount + 1, updatedAt: new Date() })
-        .where(eq(coupons.id, coupon.id));
+  } catch (error) {
+    if (error instanceof CouponError) {
+      return c.json({
+        error: { code: error.code, message: error.message },
+      }, 400);
     }
+    throw error;
   }
+  const promotion = pricing.coupon;
   
-  // Calculate totals
-  const subtotal = cart.subtotal;
-  const taxTotal = cart.taxTotal;
-  const total = subtotal + shippingTotal - discountTotal;
+  // Shipping method must serve the address and be able to ship the cart
+  let shippingTotal = 0;
+  const shipping = await shippingService.getQuote({
+    country: taxService.getTaxAddress(shippingAddress).country,
+    items: cart.items.map((item) => ({ productId: item.productId, quantity: item.quantity })),
+    subtotal: undiscounted.subtotal - pricing.discountTotal, // Goods value after discounts
+  });
+  if (shippingMethodId) {
+    const rate = shipping.rates.find((r) => r.methodId === shippingMethodId);
+    if (!rate) {
+      return c.json({
+        error: { code: "INVALID_SHIPPING_METHOD", message: "Shipping method is not available for this address" },
+      }, 400);
+    }
+    shippingTotal = rate.price;
+  } else if (shipping.rates.length > 0) {
+    return c.json({
+      error: { code: "SHIPPING_METHOD_REQUIRED", message: "Select a shipping method" },
+    }, 400);
+  }
   
-  // Generate order number
-  const year = new Date().getFullYear();
-  const lastOrder = await db.query.orders.findFirst({
-    orderBy: desc(orders.createdAt),
-    columns: { orderNumber: true },
+  // Free shipping coupons waive the method's price
+  const shippingDiscount = pricing.freeShipping ? shippingTotal : 0;
+  shippingTotal -= shippingDiscount;
+  const lineDiscounts = pricing.lineDiscounts;
+  
+  // Free gifts ship as extra lines without a price
+  const gifts = promotionGifts(pricing.automatic);
+  const giftProducts = gifts.length > 0
+    ? await db.query.products.findMany({ where: inArray(products.id, gifts.map((gift) => gift.productId)) })
+    : [];
+  
+  // Calculate totals and taxes per rate for the delivery address
+  const taxes = await taxService.calculate({
+    ...taxInput,
+    items: taxItems(cart.items, lineDiscounts),
+    shippingGross: shippingTotal,
   });
+  const { subtotal, taxTotal, total, discountTotal } = taxes;
   
-  let nextNumber = 1;
-  if (lastOrder?.orderNumber) {
-    const match = lastOrder.orderNumber.match(/SK-(\d{4})-(\d+)/);
-    if (match && match[1] === String(year)) {
-      nextNumber = parseInt(match[2], 10) + 1;
+  // Gift cards are checked up front and redeemed with the order
+  if (!Array.isArray(giftCardCodes) || giftCardCodes.some((code) => typeof code !== "string" || !isValidCodeFormat(code))) {
+    return c.json({
+      error: { code: "INVALID_GIFT_CARD", message: "Invalid gift card code format" },
+    }, 400);
+  }
+  const giftCards: string[] = [...new Set((giftCardCodes as string[]).map((code) => normalizeGiftCardCode(code)))];
+  for (const code of giftCards) {
+    const validation = await giftCardService.validate(code);
+    if (!validation.valid) {
+      return c.json({
+        error: { code: "INVALID_GIFT_CARD", message: `${code}: ${validation.error}` },
+      }, 400);
     }
   }
-  const orderNumber = `SK-${year}-${String(nextNumber).padStart(6, "0")}`;
   
   // Create order in transaction
-  const order = await db.transaction(async (tx) => {
-    // Create order
-    const [newOrder] = await tx.insert(orders).values({
-      orderNumber,
-      email,
-      phone: shippingAddress.phone || billingAddress.phone,
-      billingAddress,
-      shippingAddress,
-      subtotal,
-      shippingTotal,
-      taxTotal,
-      discountTotal,
-      total,
-      currency: cart.currency,
-      shippingMethodId,
-      paymentMethodId,
-      acceptedTerms: true,
-      acceptedTermsAt: new Date(),
-      acceptedCancellationPolicy: true,
-      customerNote,
-      ipAddress: c.req.header("x-forwarded-for") || c.req.header("x-real-ip"),
-      userAgent: c.req.header("user-agent"),
-    }).returning();
-    
-    // Create order items
-    for (const item of cart.items) {
-      const taxRate = item.product ? Math.round((item.unitPriceGross - item.unitPriceNet) / item.unitPriceNet * 10000) : 1900;
-      const totalNet = item.unitPriceNet * item.quantity;
-      const totalGross = item.unitPriceGross * item.quantity;
-      const taxAmount = totalGross - totalNet;
+  let order: typeof orders.$inferSelect;
+  try {
+    order = await db.transaction(async (tx) => {
+      // Create order
+      // Numbered in the transaction so a rolled back order frees its number
+      let [newOrder] = await tx.insert(orders).values({
+        orderNumber: await sequenceService.next("order", tx),
+        customerId: customer?.id,
+        email,
+        phone: shippingAddress.phone || billingAddress.phone,
+        billingAddress,
+        shippingAddress,
+        subtotal,
+        shippingTotal,
+        shippingTax: taxes.shipping.taxAmount,
+        taxTotal,
+        discountTotal,
+        total,
+        couponId: promotion?.couponId,
+        couponCode: promotion?.code,
+        metadata: pricing.automatic.applied.length > 0
+          ? { promotions: describePromotions(pricing.automatic) }
+          : undefined,
+        vatTreatment: vat.treatment,
+        taxCountry: isZeroRated(vat.treatment) ? null : vat.taxAddress.country,
+        customerVatId: vat.buyerVatId,
+        currency: cart.currency,
+        shippingMethodId,
+        paymentMethodId,
+        acceptedTerms: true,
+        acceptedTermsAt: new Date(),
+        acceptedCancellationPolicy: true,
+        customerNote,
+        ipAddress: c.req.header("x-forwarded-for") || c.req.header("x-real-ip"),
+        userAgent: c.req.header("user-agent"),
+      }).returning();
       
-      await tx.insert(orderItems).values({
-        orderId: newOrder.id,
-        productId: item.productId,
-        sku: item.product?.sku || "UNKNOWN",
-        name: item.product?.sku || "Unknown Product", // Would get from translations
-        quantity: item.quantity,
-        unitPriceNet: item.unitPriceNet,
-        unitPriceGross: item.unitPriceGross,
-        totalNet,
-        totalGross,
-        taxRate,
-        taxAmount,
-      });
+      // Limits are checked again under lock; rolls the order back when the
+      // last use was taken in the meantime
+      if (promotion) {
+        await discountService.redeem({
+          couponId: promotion.couponId,
+          orderId: newOrder.id,
+          customerId: customer?.id,
+          email,
+          discountAmount: promotion.discountTotal + shippingDiscount,
+        }, tx);
+      }
+      
+      // Gift cards pay what is left after discounts, in the order given. They
+      // are a tender, not a discount: VAT stays on the full total.
+      let giftCardTotal = 0;
+      for (const code of giftCards) {
+        if (giftCardTotal >= total) break;
+        const redemption = await giftCardService.redeem({ code, amount: total - giftCardTotal, orderId: newOrder.id }, tx);
+        if (!redemption.success) {
+          throw new GiftCardError(`${code}: ${redemption.error}`);
+        }
+        giftCardTotal += redemption.amountUsed;
+      }
+      if (giftCardTotal > 0) {
+        [newOrder] = await tx
+          .update(orders)
+          .set({ giftCardTotal })
+          .where(eq(orders.id, newOrder.id))
+          .returning();
+      }
       
-      // Reduce stock
-      if (item.product?.trackInventory) {
+      // Remember a VAT ID that passed verification during checkout
+      const customerVatId = customer?.vatId ? parseVatId(customer.vatId) : null;
+      if (customer && !customer.vatIdVerified && customerVatId && formatVatId(customerVatId) === vat.buyerVatId) {
         await tx
-          .update(products)
-          .set({ 
-            stockQuantity: item.product.stockQuantity - item.quantity,
-            updatedAt: new Date(),
-          })
-          .where(eq(products.id, item.productId));
+          .update(customers)
+          .set({ vatIdVerified: true, updatedAt: new Date() })
+          .where(eq(customers.id, customer.id));
       }
-    }
     
-    // Add tax lines (simplified - single tax rate for now)
-    await tx.insert(orderTaxLines).values({
-      orderId: newOrder.id,
-      name: "MwSt. 19%",
-      rate: 1900,
-      amount: taxTotal,
-    });
+      // Move the checkout holds over to the order. Holds that expired in the
+      // meantime are taken again under lock, rolling back the order if oversold.
+      // Each line is held in the warehouse that will fulfil it.
+      const bundleComponents = await bundleService.getComponents(
+        [...cart.items.map((item) => item.productId), ...gifts.map((gift) => gift.productId)],
+        tx
+      );
+      const stockLines = await bundleService.expandItems([
+        ...cart.items.map((item) => ({ productId: item.productId, quantity: item.quantity })),
+        ...gifts.map((gift) => ({ productId: gift.productId, quantity: gift.quantity })),
+      ], tx);
+      await inventoryService.releaseReservations(cartId, tx);
+      const reservations = await inventoryService.reserveItems(newOrder.id, stockLines, tx, {
+        country: shippingAddress.country,
+      });
     
-    // Clear cart
-    await tx.delete(cartItems).where(eq(cartItems.cartId, cartId));
-    await tx
-      .update(carts)
-      .set({ subtotal: 0, taxTotal: 0, total: 0, updatedAt: new Date() })
-      .where(eq(carts.id, cartId));
+      // Create order items; a bundle line is followed by its components,
+      // which carry the stock and warehouse but no price
+      let stockIndex = 0;
+      const insertComponents = async (parentItemId: string, productId: string, quantity: number, taxRate: number) => {
+        for (const component of bundleComponents.get(productId) ?? []) {
+          await tx.insert(orderItems).values({
+            orderId: newOrder.id,
+            parentItemId,
+            productId: component.productId,
+            sku: component.sku,
+            name: component.name,
+            quantity: component.quantity * quantity,
+            unitPriceNet: 0,
+            unitPriceGross: 0,
+            totalNet: 0,
+            totalGross: 0,
+            taxRate,
+            taxAmount: 0,
+            warehouseId: reservations[stockIndex++]?.warehouseId,
+          });
+        }
+      };
+      
+      for (const item of cart.items) {
+        const line = taxes.lines.find((l) => l.key === item.id)!;
+        const taxRate = line.taxRate;
+      
+        const components = bundleComponents.get(item.productId);
+      
+        const [orderItem] = await tx.insert(orderItems).values({
+          orderId: newOrder.id,
+          productId: item.productId,
+          sku: item.product?.sku || "UNKNOWN",
+          name: item.product?.sku || "Unknown Product", // Would get from translations
+          quantity: item.quantity,
+          unitPriceNet: item.unitPriceNet,
+          unitPriceGross: Math.round(line.grossAmount / item.quantity),
+          totalNet: line.netAmount,
+          totalGross: line.grossAmount,
+          taxRate,
+          taxAmount: line.discountedTaxAmount, // After the line's share of the discount
+          discountAmount: line.discountAmount,
+          warehouseId: components ? undefined : reservations[stockIndex++]?.warehouseId,
+          metadata: item.metadata, // Variant parent and options
+        }).returning();
+        await insertComponents(orderItem.id, item.productId, item.quantity, taxRate);
+      }
+      
+      for (const gift of gifts) {
+        const product = giftProducts.find((p) => p.id === gift.productId);
+        const [giftItem] = await tx.insert(orderItems).values({
+          orderId: newOrder.id,
+          productId: gift.productId,
+          sku: product?.sku || "UNKNOWN",
+          name: product?.sku || "Unknown Product",
+          quantity: gift.quantity,
+          unitPriceNet: 0,
+          unitPriceGross: 0,
+          totalNet: 0,
+          totalGross: 0,
+          taxRate: 0,
+          taxAmount: 0,
+          warehouseId: bundleComponents.has(gift.productId) ? undefined : reservations[stockIndex++]?.warehouseId,
+          metadata: { promotionId: gift.promotionId, gift: true },
+        }).returning();
+        await insertComponents(giftItem.id, gift.productId, gift.quantity, 0);
+      }
+      
+      // Without a payment step the order is final right away
+      if (!paymentMethodId) {
+        await inventoryService.completeOrderReservations(newOrder.id, tx);
+      }
     
-    return newOrder;
-  });
+      // Tax per rate, including tax on shipping
+      if (taxes.taxLines.length > 0) {
+        await tx.insert(orderTaxLines).values(
+          taxes.taxLines.map((tax) => ({
+            orderId: newOrder.id,
+            name: formatTaxLineName(tax),
+            rate: tax.rate,
+            amount: tax.amount,
+          }))
+        );
+      }
+    
+      // Clear cart
+      await tx.delete(cartItems).where(eq(cartItems.cartId, cartId));
+      await tx
+        .update(carts)
+        .set({ subtotal: 0, discountTotal: 0, taxTotal: 0, total: 0, updatedAt: new Date() })
+        .where(eq(carts.id, cartId));
+    
+      return newOrder;
+    });
+  } catch (error) {
+    if (error instanceof InsufficientStockError) {
+      return c.json({
+        error: {
+          code: "INSUFFICIENT_STOCK",
+          message: error.message,
+          available: error.available,
+          requested: error.requested,
+        },
+      }, 409);
+    }
+    if (error instanceof CouponError) {
+      return c.json({
+        error: { code: error.code, message: error.message },
+      }, 409);
+    }
+    if (error instanceof GiftCardError) {
+      return c.json({
+        error: { code: "INVALID_GIFT_CARD", message: error.message },
+      }, 409);
+    }
+    throw error;
+  }
+  
+  // Fully covered by gift cards: paid right away, no provider involved
+  const due = amountDue(order);
+  if (order.giftCardTotal > 0 && due === 0) {
+    ({ order } = await orderService.transition(
+      order.id,
+      { paymentStatus: "paid" },
+      { actor: { type: "system", id: "checkout" }, reason: "Paid with gift cards" }
+    ));
+  }
+  
+  // The order stands if the provider fails; the storefront can start the
+  // payment again through /payments/checkout or /payments/intent
+  let payment: PaymentNextStep | null = null;
+  let paymentError: string | undefined;
+  if (paymentMethod && due > 0) {
+    try {
+      payment = await startOrderPayment(order.id, paymentMethod);
+    } catch (error) {
+      logger.error({ error, orderId: order.id, provider: paymentMethod.provider }, "Failed to start payment");
+      paymentError = "The payment could not be started";
+    }
+  }
   
   return c.json({
     data: {
@@ -392,9 +669,13 @@ router.post("/complete", async (c) => {
       orderNumber: order.orderNumber,
       status: order.status,
       total: order.total,
+      giftCardTotal: order.giftCardTotal,
+      amountDue: due,
       currency: order.currency,
-      // Payment redirect would go here
-      nextStep: paymentMethodId ? "payment" : "confirmation",
+      nextStep: paymentMethodId && due > 0 ? "payment" : "confirmation",
+      // Session URL or client secret, depending on the provider
+      payment,
+      paymentError,
     },
   }, 201);
 });
@@ -417,6 +698,10 @@ router.get("/order/:orderNumber", async (c) => {
     ),
     with: {
       items: true,
+      shipments: {
+        with: { items: true },
+        orderBy: [asc(shipments.shippedAt)],
+      },
     },
   });
   
@@ -429,27 +714,112 @@ router.get("/order/:orderNumber", async (c) => {
   return c.json({
     data: {
       orderNumber: order.orderNumber,
+      // For /invoices/order/:orderId without an account
+      orderId: order.id,
+      invoiceToken: createInvoiceToken(order.id, order.email, env.JWT_SECRET),
       status: order.status,
       paymentStatus: order.paymentStatus,
       fulfillmentStatus: order.fulfillmentStatus,
-      items: order.items.map((item) => ({
-        sku: item.sku,
-        name: item.name,
-        quantity: item.quantity,
-        total: item.totalGross,
-      })),
+      items: order.items
+        .filter((item) => !item.parentItemId)
+        .map((item) => ({
+          sku: item.sku,
+          name: item.name,
+          quantity: item.quantity,
+          total: item.totalGross,
+          components: order.items
+            .filter((component) => component.parentItemId === item.id)
+            .map((component) => ({
+              sku: component.sku,
+              name: component.name,
+              quantity: component.quantity,
+            })),
+        })),
       subtotal: order.subtotal,
       shippingTotal: order.shippingTotal,
       discountTotal: order.discountTotal,
       taxTotal: order.taxTotal,
       total: order.total,
+      vatTreatment: order.vatTreatment,
       currency: order.currency,
       shippingAddress: order.shippingAddress,
       createdAt: order.createdAt,
       trackingNumber: order.trackingNumber,
       trackingUrl: order.trackingUrl,
+      shipments: order.shipments
+        .filter((shipment) => shipment.status !== "cancelled")
+        .map((shipment) => ({
+          status: shipment.status,
+          carrierCode: shipment.carrierCode,
+          trackingNumber: shipment.trackingNumber,
+          trackingUrl: shipment.trackingUrl,
+          shippedAt: shipment.shippedAt,
+          deliveredAt: shipment.deliveredAt,
+          items: shipment.items.flatMap((line) => {
+            const item = order.items.find((orderItem) => orderItem.id === line.orderItemId);
+            return item && !item.parentItemId ? [{ sku: item.sku, name: item.name, quantity: line.quantity }] : [];
+          }),
+        })),
     },
   });
 });
 
+type TaxedCartItem = {
+  id: string;
+  productId: string;
+  quantity: number;
+  unitPriceNet: number;
+  unitPriceGross: number;
+  product?: { taxClassId: string | null } | null;
+};
+
+// Helper: Cart items as taxed, with the discount of each line incl. tax
+function taxItems(items: TaxedCartItem[], lineDiscounts?: Map<string, number>) {
+  return items.map((item) => ({
+    key: item.id,
+    taxClassId: item.product?.taxClassId,
+    unitPriceNet: item.unitPriceNet,
+    quantity: item.quantity,
+    fallbackRate: taxService.impliedRate(item.unitPriceNet, item.unitPriceGross),
+    discountGross: lineDiscounts?.get(item.id),
+  }));
+}
+
+// Helper: Cart items as promotions see them. Line values are the gross
+// amounts at the delivery address (net on zero-rated orders), the same
+// amounts the discounts are later taken off.
+function promotionItems(items: TaxedCartItem[], taxes: TaxCalculation): PriceCartInput["items"] {
+  return items.map((item) => ({
+    key: item.id,
+    productId: item.productId,
+    quantity: item.quantity,
+    total: taxes.lines.find((line) => line.key === item.id)?.grossAmount ?? 0,
+  }));
+}
+
+// Helper: VAT treatment of a checkout. Signed-in customers bring their
+// exemption and VAT ID; guests may enter a VAT ID, which is verified.
+async function resolveVat(
+  user: TokenPayload | null,
+  items: Array<{ unitPriceNet: number; quantity: number }>,
+  vatId: string | undefined,
+  shippingAddress?: Record<string, unknown>,
+  billingAddress?: Record<string, unknown>
+) {
+  const customer = user?.role === "customer"
+    ? await db.query.customers.findFirst({ where: eq(customers.id, user.sub) })
+    : undefined;
+
+  const customerVatId = customer?.vatId ?? undefined;
+  const enteredVatId = typeof vatId === "string" && vatId.trim() ? vatId : undefined;
+  const vat = await taxService.getVatContext({
+    address: taxService.getTaxAddress(shippingAddress, billingAddress),
+    orderNet: items.reduce((sum, item) => sum + item.unitPriceNet * item.quantity, 0),
+    taxExempt: customer?.taxExempt,
+    vatId: enteredVatId ?? customerVatId,
+    vatIdVerified: !enteredVatId && customer?.vatIdVerified,
+  });
+  return { vat, customer };
+}
+
 export { router as checkoutRoutes };
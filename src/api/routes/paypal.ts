@@ -4,9 +4,9 @@
 import { Hono } from "hono";
 import {
   createPayPalOrder,
-  capturePayPalOrder,
   getPayPalOrder,
 } from "@/payments/paypal";
+import { captureOrderPayPalPayment, OrderPaymentError } from "@/payments";
 import { env } from "@/config/env";
 
 const router = new Hono();
@@ -47,20 +47,27 @@ router.post("/orders", async (c) => {
   });
 });
 
-// Capture PayPal order after approval
+// Capture PayPal order after approval; the shop order is marked paid
 router.post("/orders/:paypalOrderId/capture", async (c) => {
   const paypalOrderId = c.req.param("paypalOrderId");
 
-  const result = await capturePayPalOrder(paypalOrderId);
+  try {
+    const { order, captureId } = await captureOrderPayPalPayment(paypalOrderId);
 
-  return c.json({
-    data: {
-      captureId: result.captureId,
-      status: result.status,
-      amount: result.amount,
-      currency: result.currency,
-    },
-  });
+    return c.json({
+      data: {
+        captureId,
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        paymentStatus: order.paymentStatus,
+      },
+    });
+  } catch (error) {
+    if (error instanceof OrderPaymentError) {
+      return c.json({ error: { code: "PAYMENT_NOT_CAPTURED", message: error.message } }, 409);
+    }
+    throw error;
+  }
 });
 
 // Get PayPal order status
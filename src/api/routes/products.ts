@@ -1,7 +1,9 @@
 import { Hono } from "hono";
-import { eq, and, like, desc, asc, sql, inArray } from "drizzle-orm";
+import { eq, and, or, like, desc, asc, sql, inArray, isNull } from "drizzle-orm";
 import { db } from "@/db/index";
-import { products, productTranslations, productCategories, categories } from "@/db/schema/index";
+import { products, productTranslations, productCategories, productImages, categories } from "@/db/schema/index";
+import { availabilityExtras, inStockSql } from "@/inventory/availability";
+import { variantService } from "@/variants";
 
 const router = new Hono();
 
@@ -19,8 +21,8 @@ router.get("/", async (c) => {
   const sortDesc = sortParam.startsWith("-");
   const sortField = sortDesc ? sortParam.slice(1) : sortParam;
   
-  // Build conditions
-  const conditions = [eq(products.status, "active")];
+  // Build conditions (variants are listed through their parent)
+  const conditions = [eq(products.status, "active"), isNull(products.parentId)];
   
   // Category filter
   if (query["filter[category]"]) {
@@ -62,7 +64,7 @@ router.get("/", async (c) => {
   
   // In stock filter
   if (query["filter[inStock]"] === "true") {
-    conditions.push(sql`(${products.trackInventory} = false OR ${products.stockQuantity} > 0)`);
+    conditions.push(inStockSql);
   }
   
   // Get locale from header or default
@@ -85,6 +87,7 @@ router.get("/", async (c) => {
   const [items, countResult] = await Promise.all([
     db.query.products.findMany({
       where: and(...conditions),
+      extras: availabilityExtras,
       with: {
         translations: {
           where: eq(productTranslations.locale, locale),
@@ -122,8 +125,8 @@ router.get("/", async (c) => {
         unit: product.basePriceUnit,
         reference: product.basePriceReference,
       } : null,
-      inStock: !product.trackInventory || product.stockQuantity > 0,
-      stockQuantity: product.trackInventory ? product.stockQuantity : null,
+      inStock: !product.trackInventory || product.availableQuantity > 0,
+      stockQuantity: product.trackInventory ? product.availableQuantity : null,
     };
   });
   
@@ -150,18 +153,28 @@ router.get("/:slug", async (c) => {
   const slug = c.req.param("slug");
   const locale = c.req.header("Accept-Language")?.split(",")[0] || "de-DE";
   
-  const product = await db.query.products.findFirst({
+  // A variant slug resolves to its parent with the variant preselected
+  const match = await db.query.products.findFirst({
     where: and(eq(products.slug, slug), eq(products.status, "active")),
+    columns: { id: true, parentId: true },
+  });
+  
+  const product = match && await db.query.products.findFirst({
+    where: and(eq(products.id, match.parentId ?? match.id), eq(products.status, "active")),
+    extras: availabilityExtras,
     with: {
       translations: {
         where: eq(productTranslations.locale, locale),
       },
+      images: {
+        orderBy: [asc(productImages.position)],
+      },
       categories: true,
       deliveryTime: true,
     },
   });
   
-  if (!product) {
+  if (!match || !product) {
     return c.json({
       error: { code: "NOT_FOUND", message: "Product not found" },
     }, 404);
@@ -175,6 +188,11 @@ router.get("/:slug", async (c) => {
     deliveryTimeText = `${product.deliveryTime.minDays}-${product.deliveryTime.maxDays} Werktage`;
   }
   
+  // Option axes and variants with their availability
+  const matrix = product.type === "variant"
+    ? await variantService.getVariantMatrix(product.id)
+    : null;
+  
   return c.json({
     data: {
       id: product.id,
@@ -195,9 +213,16 @@ router.get("/:slug", async (c) => {
         reference: product.basePriceReference,
         formatted: formatBasePrice(product.basePriceAmount, product.basePriceUnit, product.basePriceReference),
       } : null,
-      inStock: !product.trackInventory || product.stockQuantity > 0,
-      stockQuantity: product.trackInventory ? product.stockQuantity : null,
+      inStock: !product.trackInventory || product.availableQuantity > 0,
+      stockQuantity: product.trackInventory ? product.availableQuantity : null,
       deliveryTime: deliveryTimeText,
+      images: product.images.map((image) => ({
+        url: image.url,
+        alt: image.alt,
+      })),
+      options: matrix?.options ?? [],
+      variants: matrix?.variants ?? [],
+      selectedVariantId: match.parentId ? match.id : null,
       weight: product.weight,
       dimensions: product.length ? {
         length: product.length,
@@ -224,14 +249,16 @@ router.post("/search", async (c) => {
     size = 20,
   } = body;
   
-  // Build conditions
-  const conditions = [eq(products.status, "active")];
+  // Build conditions (variants are listed through their parent)
+  const conditions = [eq(products.status, "active"), isNull(products.parentId)];
   
   // Text search
   if (searchQuery) {
+    // Matches on a variant count for its parent
     const matchingProducts = await db
-      .select({ productId: productTranslations.productId })
+      .select({ productId: sql<string>`COALESCE(${products.parentId}, ${products.id})` })
       .from(productTranslations)
+      .innerJoin(products, eq(productTranslations.productId, products.id))
       .where(
         and(
           eq(productTranslations.locale, locale),
@@ -242,7 +269,10 @@ router.post("/search", async (c) => {
     if (matchingProducts.length > 0) {
       conditions.push(inArray(products.id, matchingProducts.map((p) => p.productId)));
     } else {
-      conditions.push(like(products.sku, `%${searchQuery}%`));
+      conditions.push(or(
+        like(products.sku, `%${searchQuery}%`),
+        sql`EXISTS (SELECT 1 FROM products pv WHERE pv.parent_id = ${products.id} AND pv.sku LIKE ${"%" + searchQuery + "%"})`
+      )!);
     }
   }
   
@@ -254,7 +284,7 @@ router.post("/search", async (c) => {
     conditions.push(sql`${products.priceGross} <= ${filters.priceMax}`);
   }
   if (filters.inStock) {
-    conditions.push(sql`(${products.trackInventory} = false OR ${products.stockQuantity} > 0)`);
+    conditions.push(inStockSql);
   }
   
   const offset = (page - 1) * size;
@@ -262,6 +292,7 @@ router.post("/search", async (c) => {
   const [items, countResult] = await Promise.all([
     db.query.products.findMany({
       where: and(...conditions),
+      extras: availabilityExtras,
       with: {
         translations: {
           where: eq(productTranslations.locale, locale),
@@ -290,7 +321,7 @@ router.post("/search", async (c) => {
         gross: product.priceGross,
         currency: "EUR",
       },
-      inStock: !product.trackInventory || product.stockQuantity > 0,
+      inStock: !product.trackInventory || product.availableQuantity > 0,
     };
   });
   
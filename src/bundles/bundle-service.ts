@@ -0,0 +1,226 @@
+// Bundle Service
+// src/bundles/bundle-service.ts
+
+import { eq, asc, inArray } from "drizzle-orm";
+import { db, type DbExecutor } from "@/db";
+import { products, productBundles, productBundleItems } from "@/db/schema";
+import { availabilityExtras } from "@/inventory/availability";
+import type {
+  Bundle,
+  BundleComponent,
+  BundleComponentInput,
+  BundleSettings,
+  BundlePricing,
+  BundleDiscountType,
+  StockLine,
+} from "./types.js";
+import { calculateBundlePrice, expandBundleLines, getBundleAvailability } from "./utils.js";
+
+function inTransaction<T>(executor: DbExecutor | undefined, fn: (tx: DbExecutor) => Promise<T>): Promise<T> {
+  return (executor ?? db).transaction(fn);
+}
+
+async function loadComponents(executor: DbExecutor, bundleIds: string[]): Promise<Map<string, BundleComponent[]>> {
+  const result = new Map<string, BundleComponent[]>();
+  if (bundleIds.length === 0) {
+    return result;
+  }
+
+  const rows = await executor.query.productBundleItems.findMany({
+    where: inArray(productBundleItems.bundleId, bundleIds),
+    with: {
+      component: {
+        extras: availabilityExtras,
+        with: { translations: true },
+      },
+    },
+    orderBy: [asc(productBundleItems.position)],
+  });
+
+  for (const row of rows) {
+    const components = result.get(row.bundleId) ?? [];
+    components.push({
+      productId: row.componentId,
+      sku: row.component.sku,
+      name: row.component.translations[0]?.name ?? row.component.sku,
+      quantity: row.quantity,
+      priceNet: row.component.priceNet,
+      priceGross: row.component.priceGross,
+      weight: row.component.weight,
+      shippingClassId: row.component.shippingClassId,
+      status: row.component.status,
+      trackInventory: row.component.trackInventory,
+      allowBackorder: row.component.allowBackorder,
+      availableQuantity: row.component.availableQuantity,
+    });
+    result.set(row.bundleId, components);
+  }
+  return result;
+}
+
+export const bundleService = {
+  /**
+   * Bundle settings with components, current price and availability
+   */
+  async getBundle(productId: string, executor: DbExecutor = db): Promise<Bundle | null> {
+    const product = await executor.query.products.findFirst({
+      where: eq(products.id, productId),
+      with: { bundle: true },
+    });
+    if (!product || product.type !== "bundle") {
+      return null;
+    }
+
+    const settings: BundleSettings = {
+      pricing: (product.bundle?.pricing ?? "fixed") as BundlePricing,
+      discountType: (product.bundle?.discountType ?? undefined) as BundleDiscountType | undefined,
+      discountValue: product.bundle?.discountValue ?? 0,
+    };
+    const components = (await loadComponents(executor, [productId])).get(productId) ?? [];
+
+    return {
+      productId,
+      ...settings,
+      components,
+      price: calculateBundlePrice(settings, { net: product.priceNet, gross: product.priceGross }, components),
+      availableQuantity: getBundleAvailability(components),
+    };
+  },
+
+  /**
+   * Define the components and pricing of a bundle. The product becomes a
+   * bundle; its stock is tracked only if a component limits it.
+   */
+  async setBundle(
+    productId: string,
+    input: BundleSettings & { components: BundleComponentInput[] },
+    tx?: DbExecutor
+  ): Promise<Bundle> {
+    return inTransaction(tx, async (t) => {
+      const product = await t.query.products.findFirst({
+        where: eq(products.id, productId),
+        columns: { id: true, parentId: true },
+      });
+      if (!product) {
+        throw new Error("Product not found");
+      }
+      if (product.parentId) {
+        throw new Error("A variant cannot be a bundle");
+      }
+      if (input.components.length === 0) {
+        throw new Error("A bundle needs at least one component");
+      }
+
+      const componentIds = input.components.map((component) => component.productId);
+      if (new Set(componentIds).size !== componentIds.length) {
+        throw new Error("Each component can only be listed once");
+      }
+      if (componentIds.includes(productId)) {
+        throw new Error("A bundle cannot contain itself");
+      }
+
+      const found = await t
+        .select({ id: products.id, type: products.type, parentId: products.parentId })
+        .from(products)
+        .where(inArray(products.id, componentIds));
+      for (const id of componentIds) {
+        const component = found.find((row) => row.id === id);
+        if (!component) {
+          throw new Error(`Component ${id} not found`);
+        }
+        if (component.type === "bundle") {
+          throw new Error("Bundles cannot contain other bundles");
+        }
+        if (component.type === "variant" && !component.parentId) {
+          throw new Error("Add a specific variant instead of the parent product");
+        }
+      }
+
+      const settings = {
+        pricing: input.pricing,
+        discountType: input.pricing === "components" ? input.discountType ?? null : null,
+        discountValue: input.pricing === "components" ? input.discountValue ?? 0 : 0,
+      };
+      await t
+        .insert(productBundles)
+        .values({ productId, ...settings })
+        .onConflictDoUpdate({
+          target: productBundles.productId,
+          set: { ...settings, updatedAt: new Date() },
+        });
+
+      await t.delete(productBundleItems).where(eq(productBundleItems.bundleId, productId));
+      await t.insert(productBundleItems).values(
+        input.components.map((component, position) => ({
+          bundleId: productId,
+          componentId: component.productId,
+          quantity: component.quantity,
+          position,
+        }))
+      );
+
+      const components = (await loadComponents(t, [productId])).get(productId) ?? [];
+      await t
+        .update(products)
+        .set({
+          type: "bundle",
+          trackInventory: getBundleAvailability(components) !== null,
+          updatedAt: new Date(),
+        })
+        .where(eq(products.id, productId));
+
+      await this.refreshPrice(productId, t);
+      return (await this.getBundle(productId, t))!;
+    });
+  },
+
+  /**
+   * Store the current component-based price on a bundle product, so
+   * listings and carts pick it up like any other price
+   */
+  async refreshPrice(bundleId: string, tx?: DbExecutor): Promise<void> {
+    const executor = tx ?? db;
+    const bundle = await this.getBundle(bundleId, executor);
+    if (!bundle || bundle.pricing !== "components") {
+      return;
+    }
+
+    await executor
+      .update(products)
+      .set({ priceNet: bundle.price.net, priceGross: bundle.price.gross, updatedAt: new Date() })
+      .where(eq(products.id, bundleId));
+  },
+
+  /**
+   * Re-price all bundles containing a product after its price changed
+   */
+  async refreshPricesForComponent(componentId: string, tx?: DbExecutor): Promise<void> {
+    const executor = tx ?? db;
+    const rows = await executor
+      .select({ bundleId: productBundleItems.bundleId })
+      .from(productBundleItems)
+      .where(eq(productBundleItems.componentId, componentId));
+
+    for (const row of rows) {
+      await this.refreshPrice(row.bundleId, executor);
+    }
+  },
+
+  /**
+   * Components of the given bundles; products that are not bundles are absent
+   */
+  async getComponents(bundleIds: string[], executor: DbExecutor = db): Promise<Map<string, BundleComponent[]>> {
+    return loadComponents(executor, bundleIds);
+  },
+
+  /**
+   * Stock lines for a set of order lines, with bundles replaced by their components
+   */
+  async expandItems(
+    items: Array<{ productId: string; quantity: number }>,
+    executor: DbExecutor = db
+  ): Promise<StockLine[]> {
+    const components = await loadComponents(executor, [...new Set(items.map((item) => item.productId))]);
+    return expandBundleLines(items, components);
+  },
+};
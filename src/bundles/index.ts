@@ -0,0 +1,6 @@
+// Bundles Module
+// src/bundles/index.ts
+
+export * from "./types.js";
+export * from "./utils.js";
+export { bundleService } from "./bundle-service.js";
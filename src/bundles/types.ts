@@ -0,0 +1,48 @@
+// Bundle Types
+// src/bundles/types.ts
+
+export type BundlePricing =
+  | "fixed"        // Bundle has its own price
+  | "components";  // Sum of component prices minus the bundle discount
+
+export type BundleDiscountType = "percentage" | "fixed";
+
+export interface BundleSettings {
+  pricing: BundlePricing;
+  discountType?: BundleDiscountType;
+  discountValue?: number; // Percentage in basis points or fixed in cents
+}
+
+export interface BundleComponentInput {
+  productId: string;
+  quantity: number;
+}
+
+export interface BundleComponent {
+  productId: string;
+  sku: string;
+  name: string;
+  quantity: number; // Per bundle
+  priceNet: number;
+  priceGross: number;
+  weight: number | null; // Grams
+  shippingClassId: string | null;
+  status: string;
+  trackInventory: boolean;
+  allowBackorder: boolean;
+  availableQuantity: number;
+}
+
+export interface Bundle extends BundleSettings {
+  productId: string;
+  components: BundleComponent[];
+  price: { net: number; gross: number };
+  availableQuantity: number | null; // null when no component limits it
+}
+
+// A quantity of a product to take from stock
+export interface StockLine {
+  productId: string;
+  quantity: number;
+  bundleId?: string; // Set for components of a bundle line
+}
@@ -0,0 +1,85 @@
+// Bundle Utilities
+// src/bundles/utils.ts
+
+import type { BundleComponent, BundleSettings, StockLine } from "./types.js";
+
+type PricedComponent = Pick<BundleComponent, "priceNet" | "priceGross" | "quantity">;
+type StockedComponent = Pick<BundleComponent, "status" | "trackInventory" | "allowBackorder" | "availableQuantity" | "quantity">;
+
+/**
+ * Price of one bundle. Fixed bundles keep their own price; otherwise the
+ * component prices are summed and the discount is taken off the gross
+ * amount, with the net amount reduced in proportion.
+ */
+export function calculateBundlePrice(
+  settings: BundleSettings,
+  fixedPrice: { net: number; gross: number },
+  components: PricedComponent[]
+): { net: number; gross: number } {
+  if (settings.pricing === "fixed") {
+    return fixedPrice;
+  }
+
+  const net = components.reduce((sum, c) => sum + c.priceNet * c.quantity, 0);
+  const gross = components.reduce((sum, c) => sum + c.priceGross * c.quantity, 0);
+
+  let discount = 0;
+  if (settings.discountType === "percentage") {
+    discount = Math.round((gross * (settings.discountValue ?? 0)) / 10000);
+  } else if (settings.discountType === "fixed") {
+    discount = settings.discountValue ?? 0;
+  }
+  discount = Math.min(Math.max(discount, 0), gross);
+
+  if (gross === 0) {
+    return { net: 0, gross: 0 };
+  }
+
+  const discountedGross = gross - discount;
+  return {
+    net: Math.round((net * discountedGross) / gross),
+    gross: discountedGross,
+  };
+}
+
+/**
+ * How many bundles the component stock allows. Components that are not
+ * tracked or allow backorders do not limit the bundle; null means no
+ * component does. An inactive component makes the bundle unavailable.
+ */
+export function getBundleAvailability(components: StockedComponent[]): number | null {
+  let available: number | null = null;
+
+  for (const component of components) {
+    if (component.status !== "active") {
+      return 0;
+    }
+    if (!component.trackInventory || component.allowBackorder) {
+      continue;
+    }
+    const bundles = Math.floor(Math.max(0, component.availableQuantity) / component.quantity);
+    available = available === null ? bundles : Math.min(available, bundles);
+  }
+
+  return available;
+}
+
+/**
+ * Replace bundle lines by their components, multiplied by the line quantity
+ */
+export function expandBundleLines(
+  lines: Array<{ productId: string; quantity: number }>,
+  componentsByBundle: Map<string, Array<{ productId: string; quantity: number }>>
+): StockLine[] {
+  return lines.flatMap((line) => {
+    const components = componentsByBundle.get(line.productId);
+    if (!components) {
+      return [{ productId: line.productId, quantity: line.quantity }];
+    }
+    return components.map((component) => ({
+      productId: component.productId,
+      quantity: component.quantity * line.quantity,
+      bundleId: line.productId,
+    }));
+  });
+}
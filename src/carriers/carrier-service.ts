@@ -0,0 +1,136 @@
+// Carrier Service
+// src/carriers/carrier-service.ts
+
+import { eq } from "drizzle-orm";
+import { env } from "@/config/env";
+import { logger } from "@/config/logger";
+import { db } from "@/db";
+import { orders, shippingMethods } from "@/db/schema";
+import { shippingService } from "@/shipping";
+import { storageService } from "@/storage";
+import { shipmentService, ShipmentError, type ShipmentLine, type StatusActor } from "@/orders";
+import type { CarrierParcel, TrackingInfo } from "./types.js";
+import { getCarrier } from "./registry.js";
+import { labelStorageKey, toCarrierAddress } from "./utils.js";
+
+type Order = typeof orders.$inferSelect;
+type Shipment = NonNullable<Awaited<ReturnType<typeof shipmentService.getById>>>;
+
+function carrierFor(code: string) {
+  return getCarrier(code, env.CARRIER_MODE === "sandbox");
+}
+
+export const carrierService = {
+  /**
+   * Buy a label for some or all open items of an order, store it and record
+   * the shipment. The carrier is the one of the order's shipping method
+   * unless given.
+   */
+  async shipOrder(orderId: string, input: {
+    items?: ShipmentLine[];
+    carrierCode?: string;
+    service?: string;
+    parcels?: CarrierParcel[];
+    notifyCustomer?: boolean;
+  } = {}, actor: StatusActor = { type: "system" }): Promise<{ order: Order; shipment: Shipment }> {
+    // Fails before paying for a label, e.g. for a cancelled order
+    const { order, items, lines } = await shipmentService.prepare(orderId, input.items);
+
+    const method = order.shippingMethodId
+      ? await db.query.shippingMethods.findFirst({ where: eq(shippingMethods.id, order.shippingMethodId) })
+      : undefined;
+    const carrierCode = input.carrierCode ?? method?.carrierCode;
+    if (!carrierCode) {
+      throw new Error("No carrier configured for the order's shipping method");
+    }
+    const carrier = carrierFor(carrierCode);
+
+    // One parcel with the weight of the shipped goods unless given
+    const parcels = input.parcels ?? [{
+      weight: (await shippingService.getParcel(lines.flatMap((line) => {
+        const item = items.find((orderItem) => orderItem.id === line.orderItemId);
+        return item?.productId && !item.parentItemId ? [{ productId: item.productId, quantity: line.quantity }] : [];
+      }))).weight,
+    }];
+
+    const label = await carrier.createShipment({
+      reference: order.orderNumber,
+      recipient: toCarrierAddress(order.shippingAddress as Record<string, unknown>, order.email),
+      parcels,
+      service: input.service,
+      config: (method?.carrierConfig as Record<string, unknown> | null) ?? undefined,
+    });
+
+    // The label is paid for from here on: cancel it if it cannot be recorded
+    try {
+      const labelKey = labelStorageKey(order.id, label.trackingNumber, label.label.format);
+      await storageService.upload(labelKey, label.label.content, {
+        contentType: label.label.mimeType,
+        acl: "private",
+        cacheControl: "private, no-store",
+      });
+
+      return await shipmentService.create(orderId, {
+        items: lines.filter((line) => items.some((item) => item.id === line.orderItemId && !item.parentItemId)),
+        carrierCode: label.carrierCode,
+        carrierShipmentId: label.shipmentId,
+        trackingNumber: label.trackingNumber,
+        trackingUrl: label.trackingUrl,
+        labelKey,
+        notifyCustomer: input.notifyCustomer,
+      }, actor);
+    } catch (error) {
+      await carrier.cancelShipment(label.shipmentId).catch((cancelError) => {
+        logger.error({ error: cancelError, orderId, shipmentId: label.shipmentId }, "Failed to cancel shipment");
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Cancel a shipment that has not been handed over yet, along with its
+   * label if one was bought
+   */
+  async cancelShipment(shipmentId: string, actor: StatusActor = { type: "system" }): Promise<{ order: Order; shipment: Shipment }> {
+    const shipment = await shipmentService.getById(shipmentId);
+    if (!shipment) {
+      throw new Error("Shipment not found");
+    }
+    if (shipment.status !== "shipped") {
+      throw new ShipmentError(`Shipment is ${shipment.status}`);
+    }
+
+    if (shipment.carrierCode && shipment.carrierShipmentId) {
+      await carrierFor(shipment.carrierCode).cancelShipment(shipment.carrierShipmentId);
+    }
+    if (shipment.labelKey) {
+      await storageService.delete(shipment.labelKey);
+    }
+
+    return shipmentService.cancel(shipmentId, actor);
+  },
+
+  async getTracking(shipmentId: string): Promise<TrackingInfo | null> {
+    const shipment = await shipmentService.getById(shipmentId);
+    if (!shipment?.carrierCode || !shipment.trackingNumber) {
+      return null;
+    }
+    // A voided label is not tracked; the shipment row knows when it was cancelled
+    if (shipment.status === "cancelled") {
+      return {
+        trackingNumber: shipment.trackingNumber,
+        status: "cancelled",
+        events: [{ status: "cancelled", description: "Sendung storniert", occurredAt: shipment.cancelledAt ?? shipment.updatedAt }],
+      };
+    }
+    return carrierFor(shipment.carrierCode).getTracking(shipment.trackingNumber);
+  },
+
+  /**
+   * Short-lived download link of the label
+   */
+  async getLabelUrl(shipmentId: string): Promise<string | null> {
+    const shipment = await shipmentService.getById(shipmentId);
+    return shipment?.labelKey ? storageService.getDownloadUrl(shipment.labelKey, 900) : null;
+  },
+};
@@ -0,0 +1,103 @@
+// Fake Carrier Adapter
+// src/carriers/fake-adapter.ts
+
+import { randomInt } from "node:crypto";
+import PDFDocument from "pdfkit";
+import type { CarrierAdapter, CarrierShipment, ShipmentRequest, TrackingEvent } from "./types.js";
+import { buildTrackingUrl, getCarrierName } from "./utils.js";
+
+function renderLabel(carrierName: string, trackingNumber: string, request: ShipmentRequest): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    // 4x6 inch label
+    const doc = new PDFDocument({ size: [288, 432], margin: 18 });
+    doc.on("data", (chunk) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const { recipient } = request;
+    const weight = request.parcels.reduce((sum, parcel) => sum + parcel.weight, 0);
+
+    doc.fontSize(16).text(`${carrierName} (SANDBOX)`);
+    doc.moveDown(0.5).fontSize(8).text(`Referenz: ${request.reference}`);
+    doc.text(`Gewicht: ${(weight / 1000).toLocaleString("de-DE")} kg`);
+    doc.moveDown().fontSize(11).text([
+      recipient.company,
+      recipient.name,
+      [recipient.street, recipient.streetNumber].filter(Boolean).join(" "),
+      recipient.addressLine2,
+      `${recipient.postalCode} ${recipient.city}`,
+      recipient.country,
+    ].filter(Boolean).join("\n"));
+    doc.moveDown().fontSize(14).text(trackingNumber, { align: "center" });
+    doc.fontSize(7).text("Kein gültiges Versandetikett", { align: "center" });
+    doc.end();
+  });
+}
+
+// Fake tracking numbers carry the time the label was made (Unix seconds),
+// so tracking needs nothing but the number
+const TRACKING_NUMBER = /^0034(\d{10})\d{6}$/;
+
+function labelledAt(trackingNumber: string): Date | null {
+  const match = TRACKING_NUMBER.exec(trackingNumber);
+  return match ? new Date(Number(match[1]) * 1000) : null;
+}
+
+/**
+ * Carrier without a remote API for development and tests. It keeps no state
+ * of its own: tracking reports "pre_transit" from the label's time in the
+ * tracking number, and cancellations are recorded on the shipment row.
+ * Takes the code of the carrier it stands in for, so tracking links point
+ * to that carrier.
+ */
+export function createFakeCarrier(code = "fake"): CarrierAdapter {
+  const name = getCarrierName(code);
+
+  return {
+    code,
+    name,
+
+    async createShipment(request): Promise<CarrierShipment> {
+      if (request.parcels.length === 0) {
+        throw new Error("Shipment has no parcels");
+      }
+      if (!request.recipient.postalCode || !request.recipient.city || !request.recipient.country) {
+        throw new Error("Recipient address is incomplete");
+      }
+
+      const seconds = String(Math.floor(Date.now() / 1000)).padStart(10, "0");
+      const trackingNumber = `0034${seconds}${String(randomInt(0, 1e6)).padStart(6, "0")}`;
+
+      return {
+        carrierCode: code,
+        shipmentId: `fake_${trackingNumber}`,
+        trackingNumber,
+        trackingUrl: buildTrackingUrl(code, trackingNumber) ?? `https://tracking.invalid/${trackingNumber}`,
+        label: {
+          content: await renderLabel(name, trackingNumber, request),
+          format: "pdf",
+          mimeType: "application/pdf",
+        },
+      };
+    },
+
+    async cancelShipment(shipmentId) {
+      if (!shipmentId.startsWith("fake_") || !labelledAt(shipmentId.slice("fake_".length))) {
+        throw new Error("Shipment not found");
+      }
+    },
+
+    async getTracking(trackingNumber) {
+      const occurredAt = labelledAt(trackingNumber);
+      if (!occurredAt) {
+        return { trackingNumber, status: "unknown", events: [] };
+      }
+      return {
+        trackingNumber,
+        status: "pre_transit",
+        events: [{ status: "pre_transit", description: "Sendungsdaten übermittelt", occurredAt }],
+      };
+    },
+  };
+}
@@ -0,0 +1,8 @@
+// Carriers Module
+// src/carriers/index.ts
+
+export * from "./types.js";
+export * from "./utils.js";
+export { createFakeCarrier } from "./fake-adapter.js";
+export { registerCarrier, unregisterCarrier, getCarrier, listCarriers } from "./registry.js";
+export { carrierService } from "./carrier-service.js";
@@ -0,0 +1,49 @@
+// Carrier Registry
+// src/carriers/registry.ts
+
+import type { CarrierAdapter } from "./types.js";
+import { createFakeCarrier } from "./fake-adapter.js";
+
+const adapters = new Map<string, CarrierAdapter>();
+const sandboxAdapters = new Map<string, CarrierAdapter>();
+
+/**
+ * Register the adapter for a carrier code (shippingMethods.carrierCode)
+ */
+export function registerCarrier(adapter: CarrierAdapter): void {
+  adapters.set(adapter.code.toLowerCase(), adapter);
+}
+
+export function unregisterCarrier(code: string): void {
+  adapters.delete(code.toLowerCase());
+}
+
+/**
+ * Adapter for a carrier code. In sandbox mode every code is served by a
+ * fake adapter standing in for that carrier; the fakes keep no state, so
+ * shipments survive restarts.
+ */
+export function getCarrier(code: string, sandbox = false): CarrierAdapter {
+  const key = code.toLowerCase();
+  if (sandbox) {
+    let adapter = sandboxAdapters.get(key);
+    if (!adapter) {
+      adapter = createFakeCarrier(key);
+      sandboxAdapters.set(key, adapter);
+    }
+    return adapter;
+  }
+
+  const adapter = adapters.get(key);
+  if (!adapter) {
+    throw new Error(`No carrier adapter registered for "${code}"`);
+  }
+  return adapter;
+}
+
+export function listCarriers(): string[] {
+  return [...adapters.keys()];
+}
+
+// Always available, also in live mode, for test shipping methods
+registerCarrier(createFakeCarrier("fake"));
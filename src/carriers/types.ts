@@ -0,0 +1,77 @@
+// Carrier Types
+// src/carriers/types.ts
+
+export interface CarrierAddress {
+  name: string;
+  company?: string;
+  street: string;
+  streetNumber?: string;
+  addressLine2?: string;
+  postalCode: string;
+  city: string;
+  country: string; // ISO 3166-1 alpha-2
+  email?: string;
+  phone?: string;
+}
+
+export interface CarrierParcel {
+  weight: number; // Grams
+  length?: number; // Centimetres
+  width?: number;
+  height?: number;
+}
+
+export interface ShipmentRequest {
+  reference: string; // Order number, printed on the label
+  recipient: CarrierAddress;
+  sender?: CarrierAddress; // Defaults to the adapter's configuration
+  parcels: CarrierParcel[];
+  service?: string; // Carrier product, e.g. "V01PAK"
+  config?: Record<string, unknown>; // shippingMethods.carrierConfig
+}
+
+export interface CarrierLabel {
+  content: Buffer;
+  format: "pdf" | "zpl";
+  mimeType: string;
+}
+
+export interface CarrierShipment {
+  carrierCode: string;
+  shipmentId: string; // Carrier reference, used to cancel
+  trackingNumber: string;
+  trackingUrl: string;
+  label: CarrierLabel;
+}
+
+export type TrackingStatus =
+  | "pre_transit"
+  | "in_transit"
+  | "out_for_delivery"
+  | "delivered"
+  | "exception"
+  | "cancelled"
+  | "unknown";
+
+export interface TrackingEvent {
+  status: TrackingStatus;
+  description: string;
+  location?: string;
+  occurredAt: Date;
+}
+
+export interface TrackingInfo {
+  trackingNumber: string;
+  status: TrackingStatus;
+  events: TrackingEvent[];
+  estimatedDelivery?: Date;
+}
+
+// Integration with a carrier's shipping API
+export interface CarrierAdapter {
+  readonly code: string;
+  readonly name: string;
+  createShipment(request: ShipmentRequest): Promise<CarrierShipment>;
+  cancelShipment(shipmentId: string): Promise<void>;
+  getTracking(trackingNumber: string): Promise<TrackingInfo>;
+}
@@ -0,0 +1,55 @@
+// Carrier Utilities
+// src/carriers/utils.ts
+
+// Public tracking pages per carrier
+const TRACKING_URLS: Record<string, string> = {
+  dhl: "https://www.dhl.de/de/privatkunden/pakete-empfangen/verfolgen.html?piececode={trackingNumber}",
+  dpd: "https://tracking.dpd.de/status/de_DE/parcel/{trackingNumber}",
+  gls: "https://gls-group.com/DE/de/paketverfolgung?match={trackingNumber}",
+  hermes: "https://www.myhermes.de/empfangen/sendungsverfolgung/sendungsinformation#{trackingNumber}",
+  ups: "https://www.ups.com/track?tracknum={trackingNumber}",
+};
+
+export const CARRIER_NAMES: Record<string, string> = {
+  dhl: "DHL",
+  dpd: "DPD",
+  gls: "GLS",
+  hermes: "Hermes",
+  ups: "UPS",
+};
+
+export function buildTrackingUrl(carrierCode: string, trackingNumber: string): string | null {
+  const template = TRACKING_URLS[carrierCode.toLowerCase()];
+  return template ? template.replace("{trackingNumber}", encodeURIComponent(trackingNumber)) : null;
+}
+
+export function getCarrierName(carrierCode: string): string {
+  return CARRIER_NAMES[carrierCode.toLowerCase()] ?? carrierCode.toUpperCase();
+}
+
+/**
+ * Shipping address of an order (as stored in orders.shippingAddress) in
+ * the form carriers expect
+ */
+export function toCarrierAddress(address: Record<string, unknown>, email?: string) {
+  const text = (key: string) => (typeof address[key] === "string" ? (address[key] as string) : undefined);
+  return {
+    name: [text("firstName"), text("lastName")].filter(Boolean).join(" "),
+    company: text("company"),
+    street: text("street") ?? "",
+    streetNumber: text("streetNumber"),
+    addressLine2: text("addressLine2"),
+    postalCode: text("postalCode") ?? text("zip") ?? "",
+    city: text("city") ?? "",
+    country: (text("country") ?? "").toUpperCase(),
+    email,
+    phone: text("phone"),
+  };
+}
+
+/**
+ * Storage key of a shipping label
+ */
+export function labelStorageKey(orderId: string, trackingNumber: string, format = "pdf"): string {
+  return `labels/${orderId}/${trackingNumber}.${format}`;
+}
@@ -52,6 +52,21 @@ export const env = createEnv({
     // CORS
     CORS_ORIGINS: z.string().optional(),
 
+    // Inventory: how the fulfilling warehouse is chosen per order line
+    FULFILMENT_STRATEGY: z.enum(["priority", "closest"]).default("priority"),
+
+    // Tax: country of the shop, used until the customer enters an address
+    STORE_COUNTRY: z.string().length(2).default("DE"),
+
+    // Tax: destination country VAT for EU consumers (One-Stop-Shop). "auto"
+    // applies it once cross-border sales exceed OSS_THRESHOLD (net cents).
+    VAT_OSS: z.enum(["auto", "always", "never"]).default("auto"),
+    OSS_THRESHOLD: z.coerce.number().int().nonnegative().default(1000000),
+
+    // Carriers: "sandbox" creates fake labels for every carrier code,
+    // "live" uses the registered carrier adapters
+    CARRIER_MODE: z.enum(["sandbox", "live"]).default("sandbox"),
+
     // Logging
     LOG_LEVEL: z
       .enum(["trace", "debug", "info", "warn", "error", "fatal"])
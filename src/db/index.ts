@@ -15,6 +15,10 @@ export const db = drizzle(client, { schema });
 
 // Export types
 export type Database = typeof db;
+export type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// Either the root connection or an open transaction
+export type DbExecutor = Database | Transaction;
 
 // Graceful shutdown
 export async function closeDatabase() {
@@ -15,6 +15,7 @@ export const carts = pgTable("carts", {
   
   // Totals (calculated)
   subtotal: integer("subtotal").notNull().default(0),
+  discountTotal: integer("discount_total").notNull().default(0), // Automatic promotions
   taxTotal: integer("tax_total").notNull().default(0),
   total: integer("total").notNull().default(0),
   
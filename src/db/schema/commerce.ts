@@ -1,4 +1,4 @@
-import { pgTable, uuid, varchar, text, integer, boolean, jsonb, index, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, uuid, varchar, text, integer, boolean, jsonb, index, timestamp, unique } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { timestamps } from "./common";
 
@@ -71,6 +71,10 @@ export const shippingMethods = pgTable("shipping_methods", {
   // Weight-based pricing
   pricePerKg: integer("price_per_kg"),
   
+  // Tiers for weight (grams) or price (cart total) methods:
+  // [{ upTo: 2000, price: 499 }, { upTo: null, price: 999 }]
+  rateTable: jsonb("rate_table"),
+  
   // Delivery time
   deliveryTimeId: uuid("delivery_time_id"),
   
@@ -95,6 +99,20 @@ export const shippingClasses = pgTable("shipping_classes", {
   ...timestamps,
 });
 
+// Surcharge or restriction of a shipping class on a shipping method
+export const shippingMethodClasses = pgTable("shipping_method_classes", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  methodId: uuid("method_id").notNull().references(() => shippingMethods.id, { onDelete: "cascade" }),
+  classId: uuid("class_id").notNull().references(() => shippingClasses.id, { onDelete: "cascade" }),
+  surcharge: integer("surcharge").notNull().default(0), // in cents
+  perItem: boolean("per_item").notNull().default(false), // Per unit instead of once per order
+  excluded: boolean("excluded").notNull().default(false), // Method cannot carry this class
+  ...timestamps,
+}, (table) => ({
+  methodClassUnique: unique("shipping_method_classes_method_class_unique").on(table.methodId, table.classId),
+  classIdx: index("shipping_method_classes_class_idx").on(table.classId),
+}));
+
 // Payment methods
 export const paymentMethods = pgTable("payment_methods", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -118,27 +136,43 @@ export const paymentMethods = pgTable("payment_methods", {
   ...timestamps,
 });
 
+// Batches of single-use codes for a campaign, generated or imported. Each
+// code is a coupon of its own carrying the batch's discount settings.
+export const couponBatches = pgTable("coupon_batches", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  source: varchar("source", { length: 20 }).notNull(), // generated, imported
+  prefix: varchar("prefix", { length: 50 }),
+  pattern: varchar("pattern", { length: 50 }), // X is a random character
+  ...timestamps,
+});
+
 // Coupons/Discounts
 export const coupons = pgTable("coupons", {
   id: uuid("id").primaryKey().defaultRandom(),
   code: varchar("code", { length: 100 }).notNull().unique(),
+  description: text("description"),
+  batchId: uuid("batch_id").references(() => couponBatches.id, { onDelete: "cascade" }),
   
   // Type
   type: varchar("type", { length: 50 }).notNull(), // percentage, fixed, free_shipping
   value: integer("value").notNull(), // percentage in basis points or fixed in cents
   
-  // Restrictions
-  minPurchase: integer("min_purchase"),
+  // Restrictions (see src/discounts/promotions.ts)
+  minPurchase: integer("min_purchase"), // Cart subtotal incl. tax
+  firstOrderOnly: boolean("first_order_only").notNull().default(false),
   maxDiscount: integer("max_discount"),
   usageLimit: integer("usage_limit"),
   usageLimitPerCustomer: integer("usage_limit_per_customer").default(1),
-  usageCount: integer("usage_count").notNull().default(0),
+  usageCount: integer("usage_count").notNull().default(0), // Active redemptions (coupon_redemptions)
   
   // Validity
   startsAt: timestamp("starts_at", { withTimezone: true }),
   expiresAt: timestamp("expires_at", { withTimezone: true }),
   
-  // Product/Category restrictions
+  // Product/Category restrictions; the discount is shared by the matching
+  // lines only. Variants match by their parent's categories as well.
   productIds: jsonb("product_ids"),
   categoryIds: jsonb("category_ids"),
   excludeProductIds: jsonb("exclude_product_ids"),
@@ -149,6 +183,40 @@ export const coupons = pgTable("coupons", {
   ...timestamps,
 }, (table) => ({
   codeIdx: index("coupons_code_idx").on(table.code),
+  batchIdx: index("coupons_batch_idx").on(table.batchId),
+}));
+
+// Automatic promotions, applied without a code when the cart matches
+export const promotions = pgTable("promotions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: varchar("name", { length: 255 }).notNull(), // Shown in the cart
+  description: text("description"),
+  
+  // Type and its settings (see src/discounts/automatic.ts)
+  type: varchar("type", { length: 50 }).notNull(), // buy_x_get_y, tiered_spend, free_gift, bundle_price
+  rule: jsonb("rule").notNull(),
+  
+  // Stacking: higher priority is applied first; a promotion that is not
+  // stackable only applies on its own
+  priority: integer("priority").notNull().default(0),
+  stackable: boolean("stackable").notNull().default(true),
+  combinesWithCoupons: boolean("combines_with_coupons").notNull().default(true),
+  
+  // Validity
+  startsAt: timestamp("starts_at", { withTimezone: true }),
+  expiresAt: timestamp("expires_at", { withTimezone: true }),
+  
+  // Product/Category restrictions, as for coupons
+  productIds: jsonb("product_ids"),
+  categoryIds: jsonb("category_ids"),
+  excludeProductIds: jsonb("exclude_product_ids"),
+  excludeCategoryIds: jsonb("exclude_category_ids"),
+  
+  isActive: boolean("is_active").notNull().default(true),
+  
+  ...timestamps,
+}, (table) => ({
+  activeIdx: index("promotions_active_idx").on(table.isActive, table.priority),
 }));
 
 // Relations
@@ -159,3 +227,37 @@ export const taxClassesRelations = relations(taxClasses, ({ many }) => ({
 export const shippingZonesRelations = relations(shippingZones, ({ many }) => ({
   methods: many(shippingMethods),
 }));
+
+export const shippingMethodsRelations = relations(shippingMethods, ({ one, many }) => ({
+  zone: one(shippingZones, {
+    fields: [shippingMethods.zoneId],
+    references: [shippingZones.id],
+  }),
+  classRules: many(shippingMethodClasses),
+}));
+
+export const shippingClassesRelations = relations(shippingClasses, ({ many }) => ({
+  methodRules: many(shippingMethodClasses),
+}));
+
+export const shippingMethodClassesRelations = relations(shippingMethodClasses, ({ one }) => ({
+  method: one(shippingMethods, {
+    fields: [shippingMethodClasses.methodId],
+    references: [shippingMethods.id],
+  }),
+  shippingClass: one(shippingClasses, {
+    fields: [shippingMethodClasses.classId],
+    references: [shippingClasses.id],
+  }),
+}));
+
+export const couponBatchesRelations = relations(couponBatches, ({ many }) => ({
+  coupons: many(coupons),
+}));
+
+export const couponsRelations = relations(coupons, ({ one }) => ({
+  batch: one(couponBatches, {
+    fields: [coupons.batchId],
+    references: [couponBatches.id],
+  }),
+}));
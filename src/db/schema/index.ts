@@ -7,3 +7,7 @@ export * from "./carts";
 export * from "./commerce";
 export * from "./admin";
 export * from "./giftcards";
+export * from "./inventory";
+export * from "./returns";
+export * from "./sequences";
+export * from "./payments";
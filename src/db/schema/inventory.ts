@@ -0,0 +1,133 @@
+// Inventory Schema
+// src/db/schema/inventory.ts
+
+import { pgTable, uuid, varchar, text, integer, boolean, jsonb, index, unique, timestamp } from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { timestamps } from "./common";
+import { products } from "./products";
+
+// Warehouses (stock locations)
+export const warehouses = pgTable("warehouses", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: varchar("name", { length: 255 }).notNull(),
+  code: varchar("code", { length: 50 }).notNull().unique(),
+  address: jsonb("address"), // { street, city, postalCode, country }
+  priority: integer("priority").notNull().default(0), // Lower value is preferred for fulfilment
+  isDefault: boolean("is_default").notNull().default(false),
+  isActive: boolean("is_active").notNull().default(true),
+  ...timestamps,
+});
+
+// Stock level per product/variant and warehouse
+export const inventoryItems = pgTable("inventory_items", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  productId: uuid("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  variantId: uuid("variant_id"),
+  warehouseId: uuid("warehouse_id").references(() => warehouses.id),
+  sku: varchar("sku", { length: 100 }).notNull(),
+
+  // Quantities (available = quantity - reserved)
+  quantity: integer("quantity").notNull().default(0),
+  reservedQuantity: integer("reserved_quantity").notNull().default(0),
+  lowStockThreshold: integer("low_stock_threshold").notNull().default(5),
+
+  trackInventory: boolean("track_inventory").notNull().default(true),
+  allowBackorder: boolean("allow_backorder").notNull().default(false),
+  location: varchar("location", { length: 100 }), // Bin/shelf within the warehouse
+
+  ...timestamps,
+}, (table) => ({
+  productIdx: index("inventory_items_product_idx").on(table.productId),
+  warehouseIdx: index("inventory_items_warehouse_idx").on(table.warehouseId),
+  productVariantWarehouseUnique: unique("inventory_items_product_variant_warehouse_unique")
+    .on(table.productId, table.variantId, table.warehouseId)
+    .nullsNotDistinct(),
+}));
+
+// Stock movement ledger (append-only)
+export const stockMovements = pgTable("stock_movements", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  inventoryItemId: uuid("inventory_item_id").notNull().references(() => inventoryItems.id, { onDelete: "cascade" }),
+  type: varchar("type", { length: 50 }).notNull(), // received, sold, returned, adjusted, reserved, ...
+  quantity: integer("quantity").notNull(),
+  previousQuantity: integer("previous_quantity").notNull(),
+  newQuantity: integer("new_quantity").notNull(),
+  reason: text("reason"),
+  referenceType: varchar("reference_type", { length: 50 }), // order, return, adjustment, transfer
+  referenceId: varchar("reference_id", { length: 255 }),
+  createdBy: varchar("created_by", { length: 255 }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  inventoryItemIdx: index("stock_movements_inventory_item_idx").on(table.inventoryItemId),
+  createdAtIdx: index("stock_movements_created_at_idx").on(table.createdAt),
+}));
+
+// Stock reservations (holds for pending orders)
+export const stockReservations = pgTable("stock_reservations", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  inventoryItemId: uuid("inventory_item_id").notNull().references(() => inventoryItems.id, { onDelete: "cascade" }),
+  orderId: varchar("order_id", { length: 255 }).notNull(),
+  quantity: integer("quantity").notNull(),
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("active"), // active, completed, cancelled, expired
+  ...timestamps,
+}, (table) => ({
+  inventoryItemIdx: index("stock_reservations_inventory_item_idx").on(table.inventoryItemId),
+  orderIdx: index("stock_reservations_order_idx").on(table.orderId),
+  statusExpiresIdx: index("stock_reservations_status_expires_idx").on(table.status, table.expiresAt),
+}));
+
+// Inventory alerts (low stock, out of stock)
+export const inventoryAlerts = pgTable("inventory_alerts", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  inventoryItemId: uuid("inventory_item_id").notNull().references(() => inventoryItems.id, { onDelete: "cascade" }),
+  type: varchar("type", { length: 50 }).notNull(), // low_stock, out_of_stock, overstock
+  threshold: integer("threshold").notNull(),
+  currentQuantity: integer("current_quantity").notNull(),
+  acknowledged: boolean("acknowledged").notNull().default(false),
+  acknowledgedBy: varchar("acknowledged_by", { length: 255 }),
+  acknowledgedAt: timestamp("acknowledged_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  inventoryItemIdx: index("inventory_alerts_inventory_item_idx").on(table.inventoryItemId),
+}));
+
+// Relations
+export const warehousesRelations = relations(warehouses, ({ many }) => ({
+  inventoryItems: many(inventoryItems),
+}));
+
+export const inventoryItemsRelations = relations(inventoryItems, ({ one, many }) => ({
+  product: one(products, {
+    fields: [inventoryItems.productId],
+    references: [products.id],
+  }),
+  warehouse: one(warehouses, {
+    fields: [inventoryItems.warehouseId],
+    references: [warehouses.id],
+  }),
+  movements: many(stockMovements),
+  reservations: many(stockReservations),
+  alerts: many(inventoryAlerts),
+}));
+
+export const stockMovementsRelations = relations(stockMovements, ({ one }) => ({
+  inventoryItem: one(inventoryItems, {
+    fields: [stockMovements.inventoryItemId],
+    references: [inventoryItems.id],
+  }),
+}));
+
+export const stockReservationsRelations = relations(stockReservations, ({ one }) => ({
+  inventoryItem: one(inventoryItems, {
+    fields: [stockReservations.inventoryItemId],
+    references: [inventoryItems.id],
+  }),
+}));
+
+export const inventoryAlertsRelations = relations(inventoryAlerts, ({ one }) => ({
+  inventoryItem: one(inventoryItems, {
+    fields: [inventoryAlerts.inventoryItemId],
+    references: [inventoryItems.id],
+  }),
+}));
@@ -1,8 +1,10 @@
-import { pgTable, uuid, varchar, text, integer, boolean, jsonb, index, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, uuid, varchar, text, integer, boolean, jsonb, index, unique, timestamp, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { timestamps } from "./common";
 import { customers } from "./customers";
 import { products } from "./products";
+import { warehouses } from "./inventory";
+import { coupons } from "./commerce";
 
 // Orders table
 export const orders = pgTable("orders", {
@@ -18,10 +20,22 @@ export const orders = pgTable("orders", {
   // Totals (in cents)
   subtotal: integer("subtotal").notNull().default(0),
   shippingTotal: integer("shipping_total").notNull().default(0),
+  shippingTax: integer("shipping_tax").notNull().default(0), // Tax contained in shippingTotal
   taxTotal: integer("tax_total").notNull().default(0),
   discountTotal: integer("discount_total").notNull().default(0),
+  giftCardTotal: integer("gift_card_total").notNull().default(0), // Part of total paid with gift cards (a tender, not a discount)
   total: integer("total").notNull().default(0),
   
+  // Coupon redeemed with the order; its discount is on the items
+  couponId: uuid("coupon_id").references(() => coupons.id, { onDelete: "set null" }),
+  couponCode: varchar("coupon_code", { length: 100 }),
+  
+  // VAT treatment (see src/tax/vat.ts), the country whose rates were charged
+  // and the buyer's verified VAT ID for reverse charge
+  vatTreatment: varchar("vat_treatment", { length: 20 }).notNull().default("standard"),
+  taxCountry: varchar("tax_country", { length: 2 }),
+  customerVatId: varchar("customer_vat_id", { length: 50 }),
+  
   // Currency
   currency: varchar("currency", { length: 3 }).notNull().default("EUR"),
   
@@ -41,6 +55,7 @@ export const orders = pgTable("orders", {
   shippingMethodId: uuid("shipping_method_id"),
   trackingNumber: varchar("tracking_number", { length: 255 }),
   trackingUrl: text("tracking_url"),
+  carrierCode: varchar("carrier_code", { length: 50 }), // Of the latest shipment, see shipments
   
   // Legal (German requirements)
   acceptedTerms: boolean("accepted_terms").notNull().default(false),
@@ -65,6 +80,7 @@ export const orders = pgTable("orders", {
 }, (table) => ({
   orderNumberIdx: index("orders_order_number_idx").on(table.orderNumber),
   customerIdx: index("orders_customer_idx").on(table.customerId),
+  couponIdx: index("orders_coupon_idx").on(table.couponId),
   statusIdx: index("orders_status_idx").on(table.status),
   createdAtIdx: index("orders_created_at_idx").on(table.createdAt),
 }));
@@ -91,12 +107,20 @@ export const orderItems = pgTable("order_items", {
   // Discount
   discountAmount: integer("discount_amount").notNull().default(0),
   
+  // Fulfilment source
+  warehouseId: uuid("warehouse_id").references(() => warehouses.id),
+  
+  // Bundle line this component belongs to
+  parentItemId: uuid("parent_item_id").references((): AnyPgColumn => orderItems.id, { onDelete: "cascade" }),
+  
   // Metadata
   metadata: jsonb("metadata"),
   
   ...timestamps,
 }, (table) => ({
   orderIdx: index("order_items_order_idx").on(table.orderId),
+  warehouseIdx: index("order_items_warehouse_idx").on(table.warehouseId),
+  parentItemIdx: index("order_items_parent_item_idx").on(table.parentItemId),
 }));
 
 // Tax breakdown per order
@@ -130,18 +154,186 @@ export const invoices = pgTable("invoices", {
   orderIdx: index("invoices_order_idx").on(table.orderId),
 }));
 
+// Credit notes (Gutschriften) correcting an invoice for refunded amounts
+export const creditNotes = pgTable("credit_notes", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orderId: uuid("order_id").notNull().references(() => orders.id),
+  invoiceId: uuid("invoice_id").references(() => invoices.id), // The invoice being corrected
+  creditNoteNumber: varchar("credit_note_number", { length: 50 }).notNull().unique(),
+  reason: text("reason"),
+  
+  // Credited amounts (in cents)
+  subtotal: integer("subtotal").notNull(), // Net
+  taxTotal: integer("tax_total").notNull(),
+  total: integer("total").notNull(), // Gross
+  taxLines: jsonb("tax_lines").notNull(), // [{ rate, net, tax }]
+  
+  // Snapshot of the credited lines
+  data: jsonb("data").notNull(),
+  
+  // PDF
+  pdfUrl: text("pdf_url"),
+  pdfGeneratedAt: timestamp("pdf_generated_at", { withTimezone: true }),
+  
+  status: varchar("status", { length: 50 }).notNull().default("final"),
+  
+  ...timestamps,
+}, (table) => ({
+  orderIdx: index("credit_notes_order_idx").on(table.orderId),
+  invoiceIdx: index("credit_notes_invoice_idx").on(table.invoiceId),
+}));
+
+// Refunds of an order's payment, made here or reported by the provider
+export const refunds = pgTable("refunds", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orderId: uuid("order_id").notNull().references(() => orders.id),
+  provider: varchar("provider", { length: 20 }).notNull(), // stripe, paypal, gift_card, manual
+  providerRefundId: varchar("provider_refund_id", { length: 255 }).unique(),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, succeeded, failed
+  
+  // Amounts (in cents)
+  amount: integer("amount").notNull(),
+  giftCardAmount: integer("gift_card_amount").notNull().default(0), // Part credited back onto the gift cards the order was paid with
+  shippingAmount: integer("shipping_amount").notNull().default(0),
+  currency: varchar("currency", { length: 3 }).notNull().default("EUR"),
+  lines: jsonb("lines").notNull(), // Refunded quantities: [{ orderItemId, quantity, amount, taxAmount, taxRate }]
+  
+  reason: text("reason"),
+  giftCardId: uuid("gift_card_id"), // Credit issued as a gift card
+  creditNoteId: uuid("credit_note_id").references(() => creditNotes.id),
+  // Pays back what an order edit took off the total (already deducted
+  // from orders.total, so it does not count as a refund of the order)
+  orderEditId: uuid("order_edit_id").references((): AnyPgColumn => orderEdits.id),
+  error: text("error"),
+  
+  // Who refunded: admin, customer, system or webhook (see StatusActor)
+  actorType: varchar("actor_type", { length: 50 }).notNull(),
+  actorId: varchar("actor_id", { length: 255 }),
+  
+  ...timestamps,
+}, (table) => ({
+  orderIdx: index("refunds_order_idx").on(table.orderId),
+}));
+
+// Changes to lines and addresses of an order after it was placed
+export const orderEdits = pgTable("order_edits", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orderId: uuid("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  
+  // What was changed: line changes ({ orderItemId?, productId, sku, name, from, to }) and addresses
+  changes: jsonb("changes").notNull(),
+  // Totals before and after: { subtotal, shippingTotal, taxTotal, discountTotal, total, taxLines }
+  before: jsonb("before").notNull(),
+  after: jsonb("after").notNull(),
+  
+  // Payment difference (in cents): positive is charged, negative refunded
+  totalDifference: integer("total_difference").notNull(),
+  settlement: varchar("settlement", { length: 20 }).notNull(), // none, charge, refund
+  paymentStatus: varchar("payment_status", { length: 20 }).notNull(), // not_required, pending, paid, refunded, failed
+  chargeUrl: text("charge_url"), // Payment link for the extra charge
+  chargeReference: varchar("charge_reference", { length: 255 }), // Checkout session, then payment intent
+  refundId: uuid("refund_id").references((): AnyPgColumn => refunds.id),
+  error: text("error"),
+  
+  reason: text("reason"),
+  actorType: varchar("actor_type", { length: 50 }).notNull(),
+  actorId: varchar("actor_id", { length: 255 }),
+  
+  ...timestamps,
+}, (table) => ({
+  orderIdx: index("order_edits_order_idx").on(table.orderId),
+  chargeReferenceIdx: index("order_edits_charge_reference_idx").on(table.chargeReference),
+}));
+
+// Coupon redemptions, written with the order under a lock on the coupon.
+// Released (not deleted) when the order is cancelled before payment.
+export const couponRedemptions = pgTable("coupon_redemptions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  couponId: uuid("coupon_id").notNull().references(() => coupons.id, { onDelete: "cascade" }),
+  orderId: uuid("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  customerId: uuid("customer_id").references(() => customers.id, { onDelete: "set null" }),
+  email: varchar("email", { length: 255 }).notNull(), // Lower case; guests are limited by email
+  discountAmount: integer("discount_amount").notNull(), // Goods plus waived shipping (cents)
+  releasedAt: timestamp("released_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  orderUnique: unique("coupon_redemptions_order_unique").on(table.orderId),
+  couponIdx: index("coupon_redemptions_coupon_idx").on(table.couponId),
+  customerIdx: index("coupon_redemptions_customer_idx").on(table.couponId, table.customerId),
+  emailIdx: index("coupon_redemptions_email_idx").on(table.couponId, table.email),
+}));
+
+// Status changes of an order, one row per changed dimension
+export const orderStatusHistory = pgTable("order_status_history", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orderId: uuid("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  field: varchar("field", { length: 50 }).notNull(), // status, paymentStatus, fulfillmentStatus
+  fromStatus: varchar("from_status", { length: 50 }).notNull(),
+  toStatus: varchar("to_status", { length: 50 }).notNull(),
+  actorType: varchar("actor_type", { length: 50 }).notNull(), // admin, customer, system, webhook
+  actorId: varchar("actor_id", { length: 255 }),
+  reason: text("reason"),
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  orderIdx: index("order_status_history_order_idx").on(table.orderId),
+  createdAtIdx: index("order_status_history_created_at_idx").on(table.createdAt),
+}));
+
+// Shipments: parcels with a part (or all) of an order's items
+export const shipments = pgTable("shipments", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orderId: uuid("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  status: varchar("status", { length: 20 }).notNull().default("shipped"), // shipped, delivered, cancelled
+  carrierCode: varchar("carrier_code", { length: 50 }),
+  carrierShipmentId: varchar("carrier_shipment_id", { length: 255 }),
+  trackingNumber: varchar("tracking_number", { length: 255 }),
+  trackingUrl: text("tracking_url"),
+  labelKey: text("label_key"), // Storage key of the label PDF
+  shippedAt: timestamp("shipped_at", { withTimezone: true }).defaultNow().notNull(),
+  deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+  cancelledAt: timestamp("cancelled_at", { withTimezone: true }),
+  ...timestamps,
+}, (table) => ({
+  orderIdx: index("shipments_order_idx").on(table.orderId),
+  trackingNumberIdx: index("shipments_tracking_number_idx").on(table.trackingNumber),
+}));
+
+// Order item quantities in a shipment. Bundle components are listed with
+// their share of the shipped bundles.
+export const shipmentItems = pgTable("shipment_items", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  shipmentId: uuid("shipment_id").notNull().references(() => shipments.id, { onDelete: "cascade" }),
+  orderItemId: uuid("order_item_id").notNull().references(() => orderItems.id, { onDelete: "cascade" }),
+  quantity: integer("quantity").notNull(),
+}, (table) => ({
+  shipmentIdx: index("shipment_items_shipment_idx").on(table.shipmentId),
+  orderItemIdx: index("shipment_items_order_item_idx").on(table.orderItemId),
+  shipmentItemUnique: unique("shipment_items_shipment_item_unique").on(table.shipmentId, table.orderItemId),
+}));
+
 // Relations
 export const ordersRelations = relations(orders, ({ one, many }) => ({
   customer: one(customers, {
     fields: [orders.customerId],
     references: [customers.id],
   }),
+  coupon: one(coupons, {
+    fields: [orders.couponId],
+    references: [coupons.id],
+  }),
   items: many(orderItems),
   taxLines: many(orderTaxLines),
   invoices: many(invoices),
+  creditNotes: many(creditNotes),
+  refunds: many(refunds),
+  edits: many(orderEdits),
+  couponRedemptions: many(couponRedemptions),
+  statusHistory: many(orderStatusHistory),
+  shipments: many(shipments),
 }));
 
-export const orderItemsRelations = relations(orderItems, ({ one }) => ({
+export const orderItemsRelations = relations(orderItems, ({ one, many }) => ({
   order: one(orders, {
     fields: [orderItems.orderId],
     references: [orders.id],
@@ -150,4 +342,84 @@ export const orderItemsRelations = relations(orderItems, ({ one }) => ({
     fields: [orderItems.productId],
     references: [products.id],
   }),
+  warehouse: one(warehouses, {
+    fields: [orderItems.warehouseId],
+    references: [warehouses.id],
+  }),
+  parentItem: one(orderItems, {
+    fields: [orderItems.parentItemId],
+    references: [orderItems.id],
+    relationName: "bundleComponents",
+  }),
+  components: many(orderItems, { relationName: "bundleComponents" }),
+}));
+
+export const orderStatusHistoryRelations = relations(orderStatusHistory, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderStatusHistory.orderId],
+    references: [orders.id],
+  }),
+}));
+
+export const shipmentsRelations = relations(shipments, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [shipments.orderId],
+    references: [orders.id],
+  }),
+  items: many(shipmentItems),
+}));
+
+export const shipmentItemsRelations = relations(shipmentItems, ({ one }) => ({
+  shipment: one(shipments, {
+    fields: [shipmentItems.shipmentId],
+    references: [shipments.id],
+  }),
+  orderItem: one(orderItems, {
+    fields: [shipmentItems.orderItemId],
+    references: [orderItems.id],
+  }),
+}));
+
+export const creditNotesRelations = relations(creditNotes, ({ one }) => ({
+  order: one(orders, {
+    fields: [creditNotes.orderId],
+    references: [orders.id],
+  }),
+  invoice: one(invoices, {
+    fields: [creditNotes.invoiceId],
+    references: [invoices.id],
+  }),
+}));
+
+export const refundsRelations = relations(refunds, ({ one }) => ({
+  order: one(orders, {
+    fields: [refunds.orderId],
+    references: [orders.id],
+  }),
+  creditNote: one(creditNotes, {
+    fields: [refunds.creditNoteId],
+    references: [creditNotes.id],
+  }),
+}));
+
+export const orderEditsRelations = relations(orderEdits, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderEdits.orderId],
+    references: [orders.id],
+  }),
+  refund: one(refunds, {
+    fields: [orderEdits.refundId],
+    references: [refunds.id],
+  }),
+}));
+
+export const couponRedemptionsRelations = relations(couponRedemptions, ({ one }) => ({
+  coupon: one(coupons, {
+    fields: [couponRedemptions.couponId],
+    references: [coupons.id],
+  }),
+  order: one(orders, {
+    fields: [couponRedemptions.orderId],
+    references: [orders.id],
+  }),
 }));
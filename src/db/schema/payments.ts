@@ -0,0 +1,16 @@
+import { pgTable, varchar, uuid, timestamp, index } from "drizzle-orm/pg-core";
+import { orders } from "./orders";
+
+// Provider events that have been processed (see src/payments/webhooks.ts).
+// An event is claimed before its handler runs, so retries and concurrent
+// deliveries of the same event are applied once.
+export const paymentEvents = pgTable("payment_events", {
+  id: varchar("id", { length: 255 }).primaryKey(), // Provider event ID, e.g. evt_...
+  provider: varchar("provider", { length: 50 }).notNull(), // stripe
+  type: varchar("type", { length: 100 }).notNull(),
+  orderId: uuid("order_id").references(() => orders.id, { onDelete: "set null" }),
+  action: varchar("action", { length: 50 }),
+  processedAt: timestamp("processed_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => ({
+  orderIdx: index("payment_events_order_idx").on(table.orderId),
+}));
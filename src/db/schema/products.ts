@@ -1,4 +1,4 @@
-import { pgTable, uuid, varchar, text, integer, boolean, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, uuid, varchar, text, integer, boolean, jsonb, index, unique } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { timestamps, money } from "./common";
 
@@ -98,6 +98,75 @@ export const productCategories = pgTable("product_categories", {
   pk: index("product_categories_pk").on(table.productId, table.categoryId),
 }));
 
+// Variant option groups of a parent product (e.g., Größe, Farbe)
+export const productOptions = pgTable("product_options", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  productId: uuid("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull(),
+  position: integer("position").notNull().default(0),
+  ...timestamps,
+}, (table) => ({
+  productIdx: index("product_options_product_idx").on(table.productId),
+  productNameUnique: unique("product_options_product_name_unique").on(table.productId, table.name),
+}));
+
+// Values of an option group (e.g., S, M, L)
+export const productOptionValues = pgTable("product_option_values", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  optionId: uuid("option_id").notNull().references(() => productOptions.id, { onDelete: "cascade" }),
+  value: varchar("value", { length: 100 }).notNull(),
+  position: integer("position").notNull().default(0),
+  ...timestamps,
+}, (table) => ({
+  optionIdx: index("product_option_values_option_idx").on(table.optionId),
+  optionValueUnique: unique("product_option_values_option_value_unique").on(table.optionId, table.value),
+}));
+
+// Option values that define a variant (child product)
+export const productVariantOptions = pgTable("product_variant_options", {
+  variantId: uuid("variant_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  optionValueId: uuid("option_value_id").notNull().references(() => productOptionValues.id, { onDelete: "cascade" }),
+}, (table) => ({
+  pk: index("product_variant_options_pk").on(table.variantId, table.optionValueId),
+  optionValueIdx: index("product_variant_options_value_idx").on(table.optionValueId),
+}));
+
+// Product images (per product or variant)
+export const productImages = pgTable("product_images", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  productId: uuid("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  storageKey: varchar("storage_key", { length: 500 }),
+  alt: varchar("alt", { length: 255 }),
+  position: integer("position").notNull().default(0),
+  ...timestamps,
+}, (table) => ({
+  productIdx: index("product_images_product_idx").on(table.productId),
+}));
+
+// Bundle settings (one row per bundle product)
+export const productBundles = pgTable("product_bundles", {
+  productId: uuid("product_id").primaryKey().references(() => products.id, { onDelete: "cascade" }),
+  pricing: varchar("pricing", { length: 50 }).notNull().default("fixed"), // fixed, components
+  discountType: varchar("discount_type", { length: 50 }), // percentage, fixed
+  discountValue: integer("discount_value").notNull().default(0), // percentage in basis points or fixed in cents
+  ...timestamps,
+});
+
+// Components of a bundle
+export const productBundleItems = pgTable("product_bundle_items", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  bundleId: uuid("bundle_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  componentId: uuid("component_id").notNull().references(() => products.id),
+  quantity: integer("quantity").notNull().default(1),
+  position: integer("position").notNull().default(0),
+  ...timestamps,
+}, (table) => ({
+  bundleIdx: index("product_bundle_items_bundle_idx").on(table.bundleId),
+  componentIdx: index("product_bundle_items_component_idx").on(table.componentId),
+  bundleComponentUnique: unique("product_bundle_items_bundle_component_unique").on(table.bundleId, table.componentId),
+}));
+
 // Delivery times (for German law)
 export const deliveryTimes = pgTable("delivery_times", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -122,7 +191,15 @@ export const productsRelations = relations(products, ({ one, many }) => ({
   parent: one(products, {
     fields: [products.parentId],
     references: [products.id],
+    relationName: "variants",
   }),
+  variants: many(products, { relationName: "variants" }),
+  options: many(productOptions),
+  optionValues: many(productVariantOptions),
+  images: many(productImages),
+  bundle: one(productBundles),
+  bundleItems: many(productBundleItems, { relationName: "bundleItems" }),
+  bundledIn: many(productBundleItems, { relationName: "bundleComponents" }),
   deliveryTime: one(deliveryTimes, {
     fields: [products.deliveryTimeId],
     references: [deliveryTimes.id],
@@ -176,3 +253,57 @@ export const productCategoriesRelations = relations(productCategories, ({ one })
     references: [categories.id],
   }),
 }));
+
+export const productOptionsRelations = relations(productOptions, ({ one, many }) => ({
+  product: one(products, {
+    fields: [productOptions.productId],
+    references: [products.id],
+  }),
+  values: many(productOptionValues),
+}));
+
+export const productOptionValuesRelations = relations(productOptionValues, ({ one, many }) => ({
+  option: one(productOptions, {
+    fields: [productOptionValues.optionId],
+    references: [productOptions.id],
+  }),
+  variants: many(productVariantOptions),
+}));
+
+export const productVariantOptionsRelations = relations(productVariantOptions, ({ one }) => ({
+  variant: one(products, {
+    fields: [productVariantOptions.variantId],
+    references: [products.id],
+  }),
+  optionValue: one(productOptionValues, {
+    fields: [productVariantOptions.optionValueId],
+    references: [productOptionValues.id],
+  }),
+}));
+
+export const productImagesRelations = relations(productImages, ({ one }) => ({
+  product: one(products, {
+    fields: [productImages.productId],
+    references: [products.id],
+  }),
+}));
+
+export const productBundlesRelations = relations(productBundles, ({ one }) => ({
+  product: one(products, {
+    fields: [productBundles.productId],
+    references: [products.id],
+  }),
+}));
+
+export const productBundleItemsRelations = relations(productBundleItems, ({ one }) => ({
+  bundle: one(products, {
+    fields: [productBundleItems.bundleId],
+    references: [products.id],
+    relationName: "bundleItems",
+  }),
+  component: one(products, {
+    fields: [productBundleItems.componentId],
+    references: [products.id],
+    relationName: "bundleComponents",
+  }),
+}));
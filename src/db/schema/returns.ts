@@ -0,0 +1,86 @@
+// Returns Schema
+// src/db/schema/returns.ts
+
+import { pgTable, uuid, varchar, text, integer, index, unique, timestamp } from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { timestamps } from "./common";
+import { customers } from "./customers";
+import { orders, orderItems, creditNotes, refunds } from "./orders";
+
+// Returns (RMA): requested by the customer, approved (and refunded),
+// then received and inspected
+export const returns = pgTable("returns", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  returnNumber: varchar("return_number", { length: 60 }).notNull().unique(),
+  orderId: uuid("order_id").notNull().references(() => orders.id),
+  customerId: uuid("customer_id").references(() => customers.id),
+  
+  status: varchar("status", { length: 20 }).notNull().default("requested"), // requested, approved, rejected, received, cancelled
+  reason: varchar("reason", { length: 50 }).notNull(),
+  customerNote: text("customer_note"),
+  adminNote: text("admin_note"),
+  
+  // Refund (in cents)
+  refundMethod: varchar("refund_method", { length: 20 }).notNull().default("original"), // original, gift_card
+  refundAmount: integer("refund_amount"),
+  refundId: uuid("refund_id").references(() => refunds.id),
+  creditNoteId: uuid("credit_note_id").references(() => creditNotes.id),
+  
+  approvedAt: timestamp("approved_at", { withTimezone: true }),
+  rejectedAt: timestamp("rejected_at", { withTimezone: true }),
+  refundedAt: timestamp("refunded_at", { withTimezone: true }),
+  receivedAt: timestamp("received_at", { withTimezone: true }),
+  cancelledAt: timestamp("cancelled_at", { withTimezone: true }),
+  
+  ...timestamps,
+}, (table) => ({
+  orderIdx: index("returns_order_idx").on(table.orderId),
+  customerIdx: index("returns_customer_idx").on(table.customerId),
+  statusIdx: index("returns_status_idx").on(table.status),
+}));
+
+// Returned quantities of order lines
+export const returnItems = pgTable("return_items", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  returnId: uuid("return_id").notNull().references(() => returns.id, { onDelete: "cascade" }),
+  orderItemId: uuid("order_item_id").notNull().references(() => orderItems.id),
+  quantity: integer("quantity").notNull(),
+  reason: varchar("reason", { length: 50 }),
+  condition: varchar("condition", { length: 20 }), // restock, damaged (set on inspection)
+  refundAmount: integer("refund_amount"), // Gross, in cents
+}, (table) => ({
+  returnIdx: index("return_items_return_idx").on(table.returnId),
+  returnItemUnique: unique("return_items_return_item_unique").on(table.returnId, table.orderItemId),
+}));
+
+// Relations
+export const returnsRelations = relations(returns, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [returns.orderId],
+    references: [orders.id],
+  }),
+  customer: one(customers, {
+    fields: [returns.customerId],
+    references: [customers.id],
+  }),
+  refund: one(refunds, {
+    fields: [returns.refundId],
+    references: [refunds.id],
+  }),
+  creditNote: one(creditNotes, {
+    fields: [returns.creditNoteId],
+    references: [creditNotes.id],
+  }),
+  items: many(returnItems),
+}));
+
+export const returnItemsRelations = relations(returnItems, ({ one }) => ({
+  return: one(returns, {
+    fields: [returnItems.returnId],
+    references: [returns.id],
+  }),
+  orderItem: one(orderItems, {
+    fields: [returnItems.orderItemId],
+    references: [orderItems.id],
+  }),
+}));
@@ -0,0 +1,18 @@
+import { pgTable, varchar, integer, boolean } from "drizzle-orm/pg-core";
+import { timestamps } from "./common";
+
+// Number ranges of orders and documents (see src/sequences). Numbers are
+// taken under a row lock in the transaction that creates the document, so
+// a range has no gaps.
+export const numberSequences = pgTable("number_sequences", {
+  key: varchar("key", { length: 50 }).primaryKey(), // order, invoice, credit_note
+  prefix: varchar("prefix", { length: 20 }).notNull(),
+  format: varchar("format", { length: 100 }).notNull(), // e.g. {prefix}-{YYYY}-{NNNNNN}
+  resetYearly: boolean("reset_yearly").notNull().default(true),
+  
+  // Last number issued, within the period (year) it was issued in
+  currentValue: integer("current_value").notNull().default(0),
+  period: integer("period").notNull(),
+  
+  ...timestamps,
+});
@@ -0,0 +1,222 @@
+// Automatic Promotions
+// src/discounts/automatic.ts
+
+import { allocate } from "../tax/calculator.js";
+import { eligibleLines } from "./promotions.js";
+import type {
+  AppliedPromotion,
+  AutomaticPromotionRule,
+  AutomaticPromotionType,
+  AutomaticPromotionsResult,
+  BundlePriceRule,
+  BuyXGetYRule,
+  FreeGiftRule,
+  PromotionGift,
+  PromotionLine,
+  PromotionLineDiscount,
+  TieredSpendRule,
+} from "./types.js";
+
+const PROMOTION_TYPES: AutomaticPromotionType[] = ["buy_x_get_y", "tiered_spend", "free_gift", "bundle_price"];
+
+interface RuleOutcome {
+  lineDiscounts: PromotionLineDiscount[];
+  gift: PromotionGift | null;
+}
+
+const NO_OUTCOME: RuleOutcome = { lineDiscounts: [], gift: null };
+
+/**
+ * Buy X get Y: of every buyQuantity + getQuantity eligible units, the
+ * getQuantity cheapest are discounted. Units are pooled over the lines, so
+ * "buy 3 pay 2" works across products of a category.
+ */
+export function buyXGetY(rule: BuyXGetYRule, lines: PromotionLine[]): PromotionLineDiscount[] {
+  const groupSize = rule.buyQuantity + rule.getQuantity;
+  if (rule.buyQuantity < 1 || rule.getQuantity < 1) {
+    return [];
+  }
+
+  const units = lines.flatMap((line) => {
+    const quantity = Math.max(line.quantity ?? 1, 1);
+    return allocate(line.total, Array(quantity).fill(1)).map((value) => ({ key: line.key, value }));
+  });
+  const freeUnits = Math.floor(units.length / groupSize) * rule.getQuantity;
+  if (freeUnits === 0) {
+    return [];
+  }
+
+  const percent = Math.min(rule.discountPercent ?? 10000, 10000);
+  const discounts = new Map<string, number>();
+  for (const unit of [...units].sort((a, b) => a.value - b.value).slice(0, freeUnits)) {
+    const amount = Math.floor((unit.value * percent) / 10000);
+    discounts.set(unit.key, (discounts.get(unit.key) ?? 0) + amount);
+  }
+  return lines
+    .filter((line) => (discounts.get(line.key) ?? 0) > 0)
+    .map((line) => ({ key: line.key, amount: discounts.get(line.key)! }));
+}
+
+// Discount of the highest tier the eligible value reaches, shared by the lines
+export function tieredSpend(rule: TieredSpendRule, lines: PromotionLine[]): PromotionLineDiscount[] {
+  const subtotal = lines.reduce((sum, line) => sum + line.total, 0);
+  const tier = [...(rule.tiers ?? [])]
+    .sort((a, b) => b.minSubtotal - a.minSubtotal)
+    .find((t) => subtotal >= t.minSubtotal);
+  if (!tier || subtotal === 0) {
+    return [];
+  }
+
+  const discountTotal = tier.type === "fixed"
+    ? Math.min(tier.value, subtotal)
+    : Math.floor((subtotal * Math.min(tier.value, 10000)) / 10000);
+  const shares = allocate(discountTotal, lines.map((line) => line.total));
+  return lines
+    .map((line, index) => ({ key: line.key, amount: shares[index] }))
+    .filter((line) => line.amount > 0);
+}
+
+/**
+ * Bundle price: every complete set of the products costs the fixed price.
+ * Sets are made of the most expensive units first; a set already cheaper
+ * than the price is not discounted.
+ */
+export function bundlePrice(rule: BundlePriceRule, lines: PromotionLine[]): PromotionLineDiscount[] {
+  const items = rule.items ?? [];
+  if (items.length === 0 || rule.price < 0) {
+    return [];
+  }
+
+  const unitsOf = (productId: string) => lines
+    .filter((line) => line.productId === productId)
+    .flatMap((line) => {
+      const quantity = Math.max(line.quantity ?? 1, 1);
+      return allocate(line.total, Array(quantity).fill(1)).map((value) => ({ key: line.key, value }));
+    })
+    .sort((a, b) => b.value - a.value);
+  const units = items.map((item) => ({ quantity: Math.max(item.quantity ?? 1, 1), units: unitsOf(item.productId) }));
+  const sets = Math.min(...units.map((item) => Math.floor(item.units.length / item.quantity)));
+
+  const discounts = new Map<string, number>();
+  for (let set = 0; set < sets; set++) {
+    const setUnits = units.flatMap((item) => item.units.slice(set * item.quantity, (set + 1) * item.quantity));
+    const value = setUnits.reduce((sum, unit) => sum + unit.value, 0);
+    if (value <= rule.price) {
+      continue;
+    }
+    const shares = allocate(value - rule.price, setUnits.map((unit) => unit.value));
+    setUnits.forEach((unit, index) => discounts.set(unit.key, (discounts.get(unit.key) ?? 0) + shares[index]));
+  }
+  return lines
+    .filter((line) => (discounts.get(line.key) ?? 0) > 0)
+    .map((line) => ({ key: line.key, amount: discounts.get(line.key)! }));
+}
+
+export function freeGift(rule: FreeGiftRule, lines: PromotionLine[]): PromotionGift | null {
+  const subtotal = lines.reduce((sum, line) => sum + line.total, 0);
+  if (lines.length === 0 || subtotal < rule.minSubtotal) {
+    return null;
+  }
+  return { productId: rule.productId, quantity: Math.max(rule.quantity ?? 1, 1) };
+}
+
+function evaluateRule(promotion: AutomaticPromotionRule, lines: PromotionLine[]): RuleOutcome {
+  const eligible = eligibleLines(promotion, lines).filter((line) => line.total > 0);
+  if (eligible.length === 0) {
+    return NO_OUTCOME;
+  }
+
+  switch (promotion.type as AutomaticPromotionType) {
+    case "buy_x_get_y":
+      return { lineDiscounts: buyXGetY(promotion.rule as BuyXGetYRule, eligible), gift: null };
+    case "tiered_spend":
+      return { lineDiscounts: tieredSpend(promotion.rule as TieredSpendRule, eligible), gift: null };
+    case "free_gift":
+      return { lineDiscounts: [], gift: freeGift(promotion.rule as FreeGiftRule, eligible) };
+    case "bundle_price":
+      return { lineDiscounts: bundlePrice(promotion.rule as BundlePriceRule, eligible), gift: null };
+    default:
+      return NO_OUTCOME;
+  }
+}
+
+/**
+ * Applies the active promotions by priority. Each one sees the line values
+ * left by those before it. A promotion that is not stackable applies only
+ * on its own: it is skipped once another one applied, and ends the run when
+ * it applies itself.
+ */
+export function applyAutomaticPromotions(
+  promotions: AutomaticPromotionRule[],
+  lines: PromotionLine[],
+  now: Date = new Date()
+): AutomaticPromotionsResult {
+  const remaining = new Map(lines.map((line) => [line.key, line.total]));
+  const applied: AppliedPromotion[] = [];
+
+  const candidates = promotions
+    .filter((p) => p.isActive && PROMOTION_TYPES.includes(p.type as AutomaticPromotionType))
+    .filter((p) => (!p.startsAt || p.startsAt <= now) && (!p.expiresAt || p.expiresAt >= now))
+    .sort((a, b) => b.priority - a.priority);
+
+  for (const promotion of candidates) {
+    if (!promotion.stackable && applied.length > 0) {
+      continue;
+    }
+
+    const outcome = evaluateRule(
+      promotion,
+      lines.map((line) => ({ ...line, total: remaining.get(line.key) ?? 0 }))
+    );
+    const discountTotal = outcome.lineDiscounts.reduce((sum, line) => sum + line.amount, 0);
+    if (discountTotal === 0 && !outcome.gift) {
+      continue;
+    }
+
+    for (const line of outcome.lineDiscounts) {
+      remaining.set(line.key, (remaining.get(line.key) ?? 0) - line.amount);
+    }
+    applied.push({
+      promotionId: promotion.id,
+      name: promotion.name,
+      description: promotion.description,
+      type: promotion.type as AutomaticPromotionType,
+      discountTotal,
+      lineDiscounts: outcome.lineDiscounts,
+      gift: outcome.gift,
+      combinesWithCoupons: promotion.combinesWithCoupons,
+    });
+
+    if (!promotion.stackable) {
+      break;
+    }
+  }
+
+  return {
+    applied,
+    discountTotal: applied.reduce((sum, promotion) => sum + promotion.discountTotal, 0),
+    lineDiscounts: lines
+      .map((line) => ({ key: line.key, amount: line.total - (remaining.get(line.key) ?? 0) }))
+      .filter((line) => line.amount > 0),
+  };
+}
+
+// Applied promotions as explained to the storefront
+export function describePromotions(result: AutomaticPromotionsResult | null | undefined) {
+  return (result?.applied ?? []).map((promotion) => ({
+    id: promotion.promotionId,
+    name: promotion.name,
+    description: promotion.description,
+    type: promotion.type,
+    discount: promotion.discountTotal,
+    items: promotion.lineDiscounts.map((line) => ({ itemId: line.key, discount: line.amount })),
+    gift: promotion.gift,
+  }));
+}
+
+// Gift lines to add to the order, per product
+export function promotionGifts(result: AutomaticPromotionsResult | null | undefined): Array<PromotionGift & { promotionId: string }> {
+  return (result?.applied ?? [])
+    .filter((promotion) => promotion.gift)
+    .map((promotion) => ({ promotionId: promotion.promotionId, ...promotion.gift! }));
+}
@@ -0,0 +1,173 @@
+// Coupon Batch Service
+// src/discounts/batch-service.ts
+
+import { eq, desc, inArray, like, sql } from "drizzle-orm";
+import { db, type DbExecutor } from "@/db";
+import { couponBatches, coupons } from "@/db/schema";
+import type { CouponBatchStats, CouponSettings } from "./types.js";
+import { DEFAULT_CODE_PATTERN, codeLikePattern, generateCouponCodes, parseCodeList, toCsv } from "./codes.js";
+
+type CouponBatch = typeof couponBatches.$inferSelect;
+
+// Rows per insert statement
+const CHUNK_SIZE = 1000;
+
+// Draws of replacement codes before a batch gives up
+const MAX_ROUNDS = 10;
+
+function inTransaction<T>(executor: DbExecutor | undefined, fn: (tx: DbExecutor) => Promise<T>): Promise<T> {
+  return (executor ?? db).transaction(fn);
+}
+
+// Insert codes that are not taken yet; returns the ones inserted
+async function insertCodes(batchId: string, codes: string[], settings: CouponSettings, tx: DbExecutor): Promise<string[]> {
+  const inserted: string[] = [];
+  for (let i = 0; i < codes.length; i += CHUNK_SIZE) {
+    const rows = await tx
+      .insert(coupons)
+      .values(codes.slice(i, i + CHUNK_SIZE).map((code) => ({ ...settings, code, batchId })))
+      .onConflictDoNothing({ target: coupons.code })
+      .returning({ code: coupons.code });
+    inserted.push(...rows.map((row) => row.code));
+  }
+  return inserted;
+}
+
+const statsColumns = {
+  batchId: coupons.batchId,
+  total: sql<number>`count(*)`,
+  used: sql<number>`count(*) filter (where ${coupons.usageCount} > 0)`,
+  active: sql<number>`count(*) filter (where ${coupons.isActive})`,
+};
+
+function toStats(row: { total: number; used: number; active: number } | undefined): CouponBatchStats {
+  const total = Number(row?.total ?? 0);
+  const used = Number(row?.used ?? 0);
+  return { total, used, unused: total - used, active: Number(row?.active ?? 0) };
+}
+
+export const couponBatchService = {
+  /**
+   * Generate a batch of codes. Codes already taken by other coupons are
+   * drawn again, so the batch always gets `count` codes. Throws when the
+   * pattern has no room left for them.
+   */
+  async generate(
+    input: { name: string; description?: string; count: number; prefix?: string; pattern?: string; settings: CouponSettings },
+    tx?: DbExecutor
+  ): Promise<{ batch: CouponBatch; count: number }> {
+    const pattern = input.pattern ?? DEFAULT_CODE_PATTERN;
+
+    return inTransaction(tx, async (t) => {
+      // Codes of earlier batches fill the same space
+      const [stored] = await t
+        .select({ count: sql<number>`count(*)` })
+        .from(coupons)
+        .where(like(coupons.code, codeLikePattern(pattern, input.prefix)));
+      const options = { pattern, prefix: input.prefix, existing: Number(stored?.count ?? 0) };
+
+      const [batch] = await t.insert(couponBatches).values({
+        name: input.name,
+        description: input.description,
+        source: "generated",
+        prefix: input.prefix,
+        pattern,
+      }).returning();
+
+      const inserted = new Set<string>();
+      for (let round = 0; inserted.size < input.count; round++) {
+        if (round === MAX_ROUNDS) {
+          throw new Error(`Pattern "${pattern}" has no room for ${input.count} more codes`);
+        }
+        const codes = generateCouponCodes(input.count - inserted.size, options, inserted);
+        for (const code of await insertCodes(batch.id, codes, input.settings, t)) {
+          inserted.add(code);
+        }
+      }
+      return { batch, count: inserted.size };
+    });
+  },
+
+  /**
+   * Import externally generated codes (one per line or a CSV with the code
+   * in the first column). Codes that exist already or are malformed are
+   * reported, not imported.
+   */
+  async import(
+    input: { name: string; description?: string; content: string; settings: CouponSettings },
+    tx?: DbExecutor
+  ): Promise<{ batch: CouponBatch; count: number; duplicates: string[]; invalid: string[] }> {
+    const { codes, invalid } = parseCodeList(input.content);
+    if (codes.length === 0) {
+      throw new Error("No valid codes in the import");
+    }
+
+    return inTransaction(tx, async (t) => {
+      const [batch] = await t.insert(couponBatches).values({
+        name: input.name,
+        description: input.description,
+        source: "imported",
+      }).returning();
+
+      const inserted = new Set(await insertCodes(batch.id, codes, input.settings, t));
+      return {
+        batch,
+        count: inserted.size,
+        duplicates: codes.filter((code) => !inserted.has(code)),
+        invalid,
+      };
+    });
+  },
+
+  async list(executor: DbExecutor = db): Promise<Array<CouponBatch & { stats: CouponBatchStats }>> {
+    const batches = await executor.query.couponBatches.findMany({
+      orderBy: [desc(couponBatches.createdAt)],
+    });
+    if (batches.length === 0) {
+      return [];
+    }
+
+    const stats = await executor
+      .select(statsColumns)
+      .from(coupons)
+      .where(inArray(coupons.batchId, batches.map((batch) => batch.id)))
+      .groupBy(coupons.batchId);
+    return batches.map((batch) => ({
+      ...batch,
+      stats: toStats(stats.find((row) => row.batchId === batch.id)),
+    }));
+  },
+
+  async getStats(batchId: string, executor: DbExecutor = db): Promise<CouponBatchStats> {
+    const [stats] = await executor
+      .select(statsColumns)
+      .from(coupons)
+      .where(eq(coupons.batchId, batchId))
+      .groupBy(coupons.batchId);
+    return toStats(stats);
+  },
+
+  // Switch all codes of the batch on or off
+  async setActive(batchId: string, isActive: boolean, executor: DbExecutor = db): Promise<number> {
+    const updated = await executor
+      .update(coupons)
+      .set({ isActive, updatedAt: new Date() })
+      .where(eq(coupons.batchId, batchId))
+      .returning({ id: coupons.id });
+    return updated.length;
+  },
+
+  // Codes of the batch with their state, as CSV
+  async exportCsv(batchId: string, executor: DbExecutor = db): Promise<string> {
+    const rows = await executor
+      .select({ code: coupons.code, usageCount: coupons.usageCount, isActive: coupons.isActive, createdAt: coupons.createdAt })
+      .from(coupons)
+      .where(eq(coupons.batchId, batchId))
+      .orderBy(coupons.code);
+
+    return toCsv(
+      ["code", "status", "usage_count", "active", "created_at"],
+      rows.map((row) => [row.code, row.usageCount > 0 ? "used" : "unused", row.usageCount, row.isActive, row.createdAt])
+    );
+  },
+};
@@ -0,0 +1,98 @@
+// Coupon Codes
+// src/discounts/codes.ts
+
+import { randomBytes } from "crypto";
+import { normalizeCode } from "./promotions.js";
+
+// Without 0/O and 1/I, as for gift card codes
+const CODE_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_FORMAT = /^[A-Z0-9][A-Z0-9_-]{2,99}$/;
+
+export const DEFAULT_CODE_PATTERN = "XXXX-XXXX";
+
+/**
+ * One code from a pattern: every X is a random character, anything else is
+ * kept as is (e.g. "XXXX-XXXX" with prefix "NEWS-" gives NEWS-7KQ2-M9TA)
+ */
+export function generateCouponCode(pattern: string = DEFAULT_CODE_PATTERN, prefix = ""): string {
+  const bytes = randomBytes(pattern.length);
+  const body = [...pattern]
+    .map((char, index) => (char === "X" ? CODE_CHARS[bytes[index] % CODE_CHARS.length] : char))
+    .join("");
+  return normalizeCode(`${prefix}${body}`);
+}
+
+// How many different codes a pattern can produce
+export function patternCapacity(pattern: string): number {
+  const slots = [...pattern].filter((char) => char === "X").length;
+  return Math.pow(CODE_CHARS.length, slots);
+}
+
+// LIKE pattern matching every code a pattern and prefix can produce
+export function codeLikePattern(pattern: string = DEFAULT_CODE_PATTERN, prefix = ""): string {
+  const escape = (text: string) => text.replace(/[\\%_]/g, "\\$&");
+  return normalizeCode(escape(prefix) + [...pattern].map((char) => (char === "X" ? "_" : escape(char))).join(""));
+}
+
+/**
+ * Distinct codes, none of them in `taken`. The pattern must leave plenty of
+ * room next to the `existing` codes stored for it, or finding free codes
+ * turns into guessing.
+ */
+export function generateCouponCodes(
+  count: number,
+  options: { pattern?: string; prefix?: string; existing?: number } = {},
+  taken: ReadonlySet<string> = new Set()
+): string[] {
+  const pattern = options.pattern ?? DEFAULT_CODE_PATTERN;
+  if (patternCapacity(pattern) < (count + taken.size + (options.existing ?? 0)) * 10) {
+    throw new Error(`Pattern "${pattern}" is too short for ${count} codes`);
+  }
+  if (!isValidCouponCode(generateCouponCode(pattern, options.prefix))) {
+    throw new Error(`Pattern "${pattern}" with prefix "${options.prefix ?? ""}" does not give valid codes`);
+  }
+
+  const codes = new Set<string>();
+  while (codes.size < count) {
+    const code = generateCouponCode(pattern, options.prefix);
+    if (!taken.has(code)) {
+      codes.add(code);
+    }
+  }
+  return [...codes];
+}
+
+export function isValidCouponCode(code: string): boolean {
+  return CODE_FORMAT.test(code);
+}
+
+/**
+ * Codes from an uploaded list: one per line or the first column of a CSV
+ * (an optional "code" header is skipped). Duplicates are dropped.
+ */
+export function parseCodeList(content: string): { codes: string[]; invalid: string[] } {
+  const codes = new Set<string>();
+  const invalid: string[] = [];
+
+  for (const [index, line] of content.split(/\r?\n/).entries()) {
+    const value = normalizeCode(line.split(/[,;\t]/)[0]?.replace(/^"|"$/g, "") ?? "");
+    if (!value || (index === 0 && value === "CODE")) {
+      continue;
+    }
+    if (isValidCouponCode(value)) {
+      codes.add(value);
+    } else {
+      invalid.push(value);
+    }
+  }
+  return { codes: [...codes], invalid };
+}
+
+function csvField(value: unknown): string {
+  const text = value instanceof Date ? value.toISOString() : String(value ?? "");
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
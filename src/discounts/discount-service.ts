@@ -1,336 +1,291 @@
 // Discount Service
 // src/discounts/discount-service.ts
 
+import { eq, and, or, inArray, isNull, sql } from "drizzle-orm";
+import { db, type DbExecutor } from "@/db";
+import { couponRedemptions, coupons, orders, products, productCategories, promotions } from "@/db/schema";
+import { availabilityExtras } from "@/inventory/availability";
 import type {
-  DiscountCode,
-  DiscountUsage,
-  ApplyDiscountInput,
-  DiscountResult,
-  CreateDiscountInput,
-  UpdateDiscountInput,
-  AppliedDiscount,
+  AutomaticPromotionsResult,
+  CartPromotions,
+  EvaluateCouponInput,
+  FreeGiftRule,
+  PriceCartInput,
+  PromotionLine,
+  PromotionResult,
+  RedeemCouponInput,
 } from "./types.js";
+import { CouponError, applyCoupon, checkRedeemable, normalizeCode } from "./promotions.js";
+import { applyAutomaticPromotions } from "./automatic.js";
+
+type Coupon = typeof coupons.$inferSelect;
+type Promotion = typeof promotions.$inferSelect;
+type CouponRedemption = typeof couponRedemptions.$inferSelect;
+
+/**
+ * Categories per product; variants are in the categories of their parent
+ */
+async function categoriesOf(productIds: string[], executor: DbExecutor): Promise<Map<string, string[]>> {
+  const result = new Map<string, string[]>(productIds.map((id) => [id, []]));
+  if (productIds.length === 0) {
+    return result;
+  }
+
+  const rows = await executor
+    .select({ id: products.id, parentId: products.parentId })
+    .from(products)
+    .where(inArray(products.id, productIds));
+  const parentOf = new Map(rows.map((row) => [row.id, row.parentId]));
+  const lookup = [...new Set([...productIds, ...rows.map((row) => row.parentId).filter((id): id is string => Boolean(id))])];
+
+  const assignments = await executor
+    .select({ productId: productCategories.productId, categoryId: productCategories.categoryId })
+    .from(productCategories)
+    .where(inArray(productCategories.productId, lookup));
+
+  for (const productId of productIds) {
+    const own = [productId, parentOf.get(productId)].filter(Boolean);
+    result.set(productId, [...new Set(
+      assignments.filter((row) => own.includes(row.productId)).map((row) => row.categoryId)
+    )]);
+  }
+  return result;
+}
 
-// In-memory store (replace with database in production)
-const discountCodes = new Map<string, DiscountCode>();
-const discountUsages: DiscountUsage[] = [];
+// Payment states of an order that was bought
+const PAID = ["paid", "partially_refunded", "refunded"];
+
+/**
+ * Whether the customer (or, for guests, the email) has bought before: an
+ * order paid or delivered. Orders waiting for their payment or cancelled
+ * do not count.
+ */
+async function hasPreviousOrder(customerId: string | null | undefined, email: string | undefined, executor: DbExecutor): Promise<boolean> {
+  const buyer = [
+    customerId ? eq(orders.customerId, customerId) : undefined,
+    email ? sql`lower(${orders.email}) = ${email.toLowerCase()}` : undefined,
+  ].filter(Boolean);
+  if (buyer.length === 0) {
+    return false;
+  }
+  const [previous] = await executor
+    .select({ id: orders.id })
+    .from(orders)
+    .where(and(or(...buyer), or(inArray(orders.paymentStatus, PAID), eq(orders.status, "delivered"))))
+    .limit(1);
+  return Boolean(previous);
+}
 
-function generateId(): string {
-  return crypto.randomUUID();
+// Active redemptions of a coupon, in total and by the customer (or email)
+async function countRedemptions(
+  couponId: string,
+  customerId: string | null | undefined,
+  email: string | undefined,
+  executor: DbExecutor
+): Promise<{ uses: number; customerUses: number }> {
+  const buyer = [
+    customerId ? eq(couponRedemptions.customerId, customerId) : undefined,
+    email ? eq(couponRedemptions.email, email.toLowerCase()) : undefined,
+  ].filter(Boolean);
+  const [counts] = await executor
+    .select({
+      uses: sql<number>`count(*)`,
+      customerUses: buyer.length > 0
+        ? sql<number>`count(*) filter (where ${or(...buyer)})`
+        : sql<number>`0`,
+    })
+    .from(couponRedemptions)
+    .where(and(eq(couponRedemptions.couponId, couponId), isNull(couponRedemptions.releasedAt)));
+  return { uses: Number(counts?.uses ?? 0), customerUses: Number(counts?.customerUses ?? 0) };
 }
 
-export const discountService = {
-  // Create a new discount code
-  async create(input: CreateDiscountInput): Promise<DiscountCode> {
-    const existing = await this.getByCode(input.code);
-    if (existing) {
-      throw new Error(`Discount code "${input.code}" already exists`);
-    }
+// Lines with the categories promotions are scoped by
+async function promotionLines(items: EvaluateCouponInput["items"], executor: DbExecutor): Promise<PromotionLine[]> {
+  const categories = await categoriesOf([...new Set(items.map((item) => item.productId))], executor);
+  return items.map((item) => ({
+    key: item.key,
+    productId: item.productId,
+    categoryIds: categories.get(item.productId) ?? [],
+    quantity: item.quantity,
+    total: item.total,
+  }));
+}
 
-    const discount: DiscountCode = {
-      id: generateId(),
-      code: input.code.toUpperCase().trim(),
-      description: input.description,
-      type: input.type,
-      value: input.value,
-      minOrderValue: input.minOrderValue,
-      maxDiscount: input.maxDiscount,
-      appliesTo: input.appliesTo ?? "all",
-      productIds: input.productIds,
-      categoryIds: input.categoryIds,
-      excludeProductIds: input.excludeProductIds,
-      excludeCategoryIds: input.excludeCategoryIds,
-      usageLimit: input.usageLimit,
-      usageLimitPerCustomer: input.usageLimitPerCustomer,
-      usageCount: 0,
-      firstOrderOnly: input.firstOrderOnly ?? false,
-      validFrom: input.validFrom,
-      validUntil: input.validUntil,
-      active: input.active ?? true,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+// Free gifts that cannot be shipped are left out rather than failing the order
+async function withAvailableGifts(active: Promotion[], executor: DbExecutor): Promise<Promotion[]> {
+  const giftIds = active
+    .filter((promotion) => promotion.type === "free_gift")
+    .map((promotion) => (promotion.rule as FreeGiftRule).productId)
+    .filter(Boolean);
+  if (giftIds.length === 0) {
+    return active;
+  }
+
+  const gifts = await executor.query.products.findMany({
+    where: and(inArray(products.id, [...new Set(giftIds)]), eq(products.status, "active")),
+    extras: availabilityExtras,
+  });
+  return active.filter((promotion) => {
+    if (promotion.type !== "free_gift") return true;
+    const rule = promotion.rule as FreeGiftRule;
+    const gift = gifts.find((product) => product.id === rule.productId);
+    return Boolean(gift) && (!gift!.trackInventory || gift!.availableQuantity >= Math.max(rule.quantity ?? 1, 1));
+  });
+}
+
+export const discountService = {
+  async getByCode(code: string, executor: DbExecutor = db): Promise<Coupon | undefined> {
+    return executor.query.coupons.findFirst({ where: eq(coupons.code, normalizeCode(code)) });
+  },
 
-    discountCodes.set(discount.id, discount);
-    return discount;
+  /**
+   * Discount of a coupon code on a cart or order. Throws CouponError when
+   * the code cannot be redeemed.
+   */
+  async evaluate(input: EvaluateCouponInput, executor: DbExecutor = db): Promise<PromotionResult> {
+    return this.evaluateLines(input, await promotionLines(input.items, executor), executor);
   },
 
-  // Update discount code
-  async update(input: UpdateDiscountInput): Promise<DiscountCode> {
-    const discount = discountCodes.get(input.id);
-    if (!discount) {
-      throw new Error("Discount not found");
+  async evaluateLines(
+    input: Omit<EvaluateCouponInput, "items">,
+    lines: PromotionLine[],
+    executor: DbExecutor = db
+  ): Promise<PromotionResult> {
+    const coupon = await this.getByCode(input.code, executor);
+    if (!coupon) {
+      throw new CouponError("Coupon not found");
     }
 
-    if (input.code && input.code !== discount.code) {
-      const existing = await this.getByCode(input.code);
-      if (existing) {
-        throw new Error(`Discount code "${input.code}" already exists`);
-      }
-    }
+    const usage = await countRedemptions(coupon.id, input.customerId, input.email, executor);
 
-    Object.assign(discount, {
-      ...input,
-      code: input.code?.toUpperCase().trim() ?? discount.code,
-      updatedAt: new Date(),
+    return applyCoupon({ ...coupon, usageCount: usage.uses }, lines, {
+      subtotal: lines.reduce((sum, line) => sum + line.total, 0),
+      shippingTotal: input.shippingTotal,
+      customerUses: usage.customerUses,
+      isFirstOrder: !(await hasPreviousOrder(input.customerId, input.email, executor)),
     });
-
-    return discount;
   },
 
-  // Delete discount code
-  async delete(id: string): Promise<void> {
-    discountCodes.delete(id);
+  async listActivePromotions(executor: DbExecutor = db): Promise<Promotion[]> {
+    return executor.query.promotions.findMany({
+      where: eq(promotions.isActive, true),
+      orderBy: (table, { desc }) => [desc(table.priority)],
+    });
   },
 
-  // Get discount by ID
-  async getById(id: string): Promise<DiscountCode | null> {
-    return discountCodes.get(id) || null;
+  // Automatic promotions the lines qualify for
+  async evaluateAutomatic(lines: PromotionLine[], executor: DbExecutor = db): Promise<AutomaticPromotionsResult> {
+    const active = await withAvailableGifts(await this.listActivePromotions(executor), executor);
+    return applyAutomaticPromotions(active, lines);
   },
 
-  // Get discount by code
-  async getByCode(code: string): Promise<DiscountCode | null> {
-    const normalizedCode = code.toUpperCase().trim();
-    for (const discount of discountCodes.values()) {
-      if (discount.code === normalizedCode) {
-        return discount;
+  /**
+   * Discounts of a cart: automatic promotions first, then the coupon on what
+   * they leave. Throws CouponError when the coupon cannot be redeemed, also
+   * when an applied promotion does not combine with coupons.
+   */
+  async priceCart(input: PriceCartInput, executor: DbExecutor = db): Promise<CartPromotions> {
+    const lines = await promotionLines(input.items, executor);
+    const automatic = await this.evaluateAutomatic(lines, executor);
+    const lineDiscounts = new Map(automatic.lineDiscounts.map((line) => [line.key, line.amount]));
+
+    let coupon: PromotionResult | null = null;
+    if (input.couponCode) {
+      const exclusive = automatic.applied.find((promotion) => !promotion.combinesWithCoupons);
+      if (exclusive) {
+        throw new CouponError(`Coupon cannot be combined with "${exclusive.name}"`, "COUPON_NOT_APPLICABLE");
       }
-    }
-    return null;
-  },
-
-  // Get all discount codes
-  async getAll(options?: {
-    active?: boolean;
-    type?: string;
-  }): Promise<DiscountCode[]> {
-    let discounts = Array.from(discountCodes.values());
-
-    if (options?.active !== undefined) {
-      discounts = discounts.filter(d => d.active === options.active);
-    }
-    if (options?.type) {
-      discounts = discounts.filter(d => d.type === options.type);
-    }
-
-    return discounts.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-  },
-
-  // Validate and apply discount
-  async applyDiscount(input: ApplyDiscountInput): Promise<DiscountResult> {
-    const discount = await this.getByCode(input.code);
-
-    if (!discount) {
-      return {
-        valid: false,
-        discountAmount: 0,
-        discountedTotal: input.cartTotal,
-        message: "Rabattcode nicht gefunden",
-      };
-    }
-
-    // Check if active
-    if (!discount.active) {
-      return {
-        valid: false,
-        discountAmount: 0,
-        discountedTotal: input.cartTotal,
-        message: "Rabattcode ist nicht aktiv",
-      };
-    }
-
-    // Check validity period
-    const now = new Date();
-    if (discount.validFrom && now < discount.validFrom) {
-      return {
-        valid: false,
-        discountAmount: 0,
-        discountedTotal: input.cartTotal,
-        message: "Rabattcode ist noch nicht gueltig",
-      };
-    }
-    if (discount.validUntil && now > discount.validUntil) {
-      return {
-        valid: false,
-        discountAmount: 0,
-        discountedTotal: input.cartTotal,
-        message: "Rabattcode ist abgelaufen",
-      };
-    }
-
-    // Check usage limit
-    if (discount.usageLimit && discount.usageCount >= discount.usageLimit) {
-      return {
-        valid: false,
-        discountAmount: 0,
-        discountedTotal: input.cartTotal,
-        message: "Rabattcode wurde bereits zu oft verwendet",
-      };
-    }
 
-    // Check per-customer usage limit
-    if (discount.usageLimitPerCustomer && input.customerId) {
-      const customerUsages = discountUsages.filter(
-        u => u.discountId === discount.id && u.customerId === input.customerId
+      coupon = await this.evaluateLines(
+        { ...input, code: input.couponCode },
+        lines.map((line) => ({ ...line, total: line.total - (lineDiscounts.get(line.key) ?? 0) })),
+        executor
       );
-      if (customerUsages.length >= discount.usageLimitPerCustomer) {
-        return {
-          valid: false,
-          discountAmount: 0,
-          discountedTotal: input.cartTotal,
-          message: "Sie haben diesen Rabattcode bereits verwendet",
-        };
+      for (const line of coupon.lineDiscounts) {
+        lineDiscounts.set(line.key, (lineDiscounts.get(line.key) ?? 0) + line.amount);
       }
     }
 
-    // Check first order only
-    if (discount.firstOrderOnly && !input.isFirstOrder) {
-      return {
-        valid: false,
-        discountAmount: 0,
-        discountedTotal: input.cartTotal,
-        message: "Rabattcode nur fuer Erstbestellungen gueltig",
-      };
-    }
-
-    // Check minimum order value
-    if (discount.minOrderValue && input.cartTotal < discount.minOrderValue) {
-      return {
-        valid: false,
-        discountAmount: 0,
-        discountedTotal: input.cartTotal,
-        message: `Mindestbestellwert: ${discount.minOrderValue.toFixed(2)} EUR`,
-      };
-    }
-
-    // Calculate discount
-    let discountAmount = 0;
-    let discountedShipping = input.shippingCost;
-    const appliedToItems: AppliedDiscount[] = [];
-
-    if (discount.type === "shipping") {
-      // Free shipping
-      discountAmount = input.shippingCost ?? 0;
-      discountedShipping = 0;
-    } else {
-      // Get applicable items
-      const applicableItems = this.getApplicableItems(input.cartItems, discount);
-      const applicableTotal = applicableItems.reduce((sum, item) => sum + item.totalPrice, 0);
-
-      if (applicableTotal === 0) {
-        return {
-          valid: false,
-          discountAmount: 0,
-          discountedTotal: input.cartTotal,
-          message: "Keine Produkte im Warenkorb sind rabattfaehig",
-        };
-      }
-
-      if (discount.type === "percentage") {
-        discountAmount = (applicableTotal * discount.value) / 100;
-      } else if (discount.type === "fixed") {
-        discountAmount = Math.min(discount.value, applicableTotal);
-      }
-
-      // Apply max discount cap
-      if (discount.maxDiscount && discountAmount > discount.maxDiscount) {
-        discountAmount = discount.maxDiscount;
-      }
-
-      // Calculate per-item discounts
-      for (const item of applicableItems) {
-        const itemDiscount = (item.totalPrice / applicableTotal) * discountAmount;
-        appliedToItems.push({
-          productId: item.productId,
-          variantId: item.variantId,
-          originalPrice: item.totalPrice,
-          discountedPrice: item.totalPrice - itemDiscount,
-          discountAmount: itemDiscount,
-        });
-      }
-    }
-
-    // Round to 2 decimal places
-    discountAmount = Math.round(discountAmount * 100) / 100;
-    const discountedTotal = Math.round((input.cartTotal - discountAmount) * 100) / 100;
-
     return {
-      valid: true,
-      discountCode: discount,
-      discountAmount,
-      discountedTotal: Math.max(0, discountedTotal),
-      discountedShipping,
-      appliedToItems,
+      automatic,
+      coupon,
+      discountTotal: automatic.discountTotal + (coupon?.discountTotal ?? 0),
+      lineDiscounts,
+      freeShipping: coupon?.freeShipping ?? false,
     };
   },
 
-  // Get items that the discount applies to
-  getApplicableItems(items: ApplyDiscountInput["cartItems"], discount: DiscountCode) {
-    return items.filter(item => {
-      // Check exclusions first
-      if (discount.excludeProductIds?.includes(item.productId)) {
-        return false;
-      }
-      if (item.categoryId && discount.excludeCategoryIds?.includes(item.categoryId)) {
-        return false;
-      }
+  /**
+   * Redeem a coupon for an order, in the transaction that places it. The
+   * coupon row is locked so concurrent orders see each other's redemptions;
+   * throws CouponError when a limit was reached in the meantime.
+   */
+  async redeem(input: RedeemCouponInput, tx: DbExecutor): Promise<CouponRedemption> {
+    const [coupon] = await tx
+      .select()
+      .from(coupons)
+      .where(eq(coupons.id, input.couponId))
+      .for("update");
+    if (!coupon) {
+      throw new CouponError("Coupon not found");
+    }
 
-      // Check inclusions
-      if (discount.appliesTo === "all") {
-        return true;
-      }
-      if (discount.appliesTo === "products" && discount.productIds) {
-        return discount.productIds.includes(item.productId);
-      }
-      if (discount.appliesTo === "categories" && discount.categoryIds && item.categoryId) {
-        return discount.categoryIds.includes(item.categoryId);
-      }
+    checkRedeemable(coupon, await countRedemptions(coupon.id, input.customerId, input.email, tx));
+    // Checked again under the coupon's lock: another order may have been paid since the cart was priced
+    if (coupon.firstOrderOnly && await hasPreviousOrder(input.customerId, input.email, tx)) {
+      throw new CouponError("Coupon is only valid for a first order");
+    }
 
-      return false;
-    });
+    const [redemption] = await tx.insert(couponRedemptions).values({
+      couponId: coupon.id,
+      orderId: input.orderId,
+      customerId: input.customerId ?? null,
+      email: input.email.toLowerCase(),
+      discountAmount: input.discountAmount,
+    }).returning();
+    await tx
+      .update(coupons)
+      .set({ usageCount: sql`${coupons.usageCount} + 1`, updatedAt: new Date() })
+      .where(eq(coupons.id, coupon.id));
+    return redemption;
   },
 
-  // Record discount usage
-  async recordUsage(discountId: string, orderId: string, customerId: string | undefined, discountAmount: number): Promise<void> {
-    const discount = discountCodes.get(discountId);
-    if (!discount) return;
-
-    discount.usageCount++;
-    discount.updatedAt = new Date();
+  // Give the coupon back, e.g. when the order is cancelled before payment
+  async releaseRedemption(orderId: string, tx: DbExecutor): Promise<void> {
+    const released = await tx
+      .update(couponRedemptions)
+      .set({ releasedAt: new Date() })
+      .where(and(eq(couponRedemptions.orderId, orderId), isNull(couponRedemptions.releasedAt)))
+      .returning();
+    for (const redemption of released) {
+      await tx
+        .update(coupons)
+        .set({ usageCount: sql`greatest(${coupons.usageCount} - 1, 0)`, updatedAt: new Date() })
+        .where(eq(coupons.id, redemption.couponId));
+    }
+  },
 
-    discountUsages.push({
-      id: generateId(),
-      discountId,
-      orderId,
-      customerId,
-      discountAmount,
-      usedAt: new Date(),
+  async listRedemptions(couponId: string, executor: DbExecutor = db): Promise<CouponRedemption[]> {
+    return executor.query.couponRedemptions.findMany({
+      where: eq(couponRedemptions.couponId, couponId),
+      orderBy: (table, { desc }) => [desc(table.createdAt)],
     });
   },
 
-  // Get usage statistics
-  async getUsageStats(discountId: string): Promise<{
-    totalUsages: number;
-    totalDiscountAmount: number;
-    usages: DiscountUsage[];
-  }> {
-    const usages = discountUsages.filter(u => u.discountId === discountId);
-    const totalDiscountAmount = usages.reduce((sum, u) => sum + u.discountAmount, 0);
-
+  // Active and released redemptions and the discount given
+  async getUsageStats(couponId: string, executor: DbExecutor = db): Promise<{ redemptions: number; released: number; discountTotal: number }> {
+    const [stats] = await executor
+      .select({
+        redemptions: sql<number>`count(*) filter (where ${couponRedemptions.releasedAt} is null)`,
+        released: sql<number>`count(*) filter (where ${couponRedemptions.releasedAt} is not null)`,
+        discountTotal: sql<number>`coalesce(sum(${couponRedemptions.discountAmount}) filter (where ${couponRedemptions.releasedAt} is null), 0)`,
+      })
+      .from(couponRedemptions)
+      .where(eq(couponRedemptions.couponId, couponId));
     return {
-      totalUsages: usages.length,
-      totalDiscountAmount,
-      usages: usages.sort((a, b) => b.usedAt.getTime() - a.usedAt.getTime()),
+      redemptions: Number(stats?.redemptions ?? 0),
+      released: Number(stats?.released ?? 0),
+      discountTotal: Number(stats?.discountTotal ?? 0),
     };
   },
-
-  // Generate random discount code
-  generateCode(length: number = 8): string {
-    const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
-    let code = "";
-    for (let i = 0; i < length; i++) {
-      code += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return code;
-  },
 };
@@ -2,5 +2,8 @@
 // src/discounts/index.ts
 
 export * from "./types.js";
+export * from "./promotions.js";
+export * from "./automatic.js";
+export * from "./codes.js";
 export { discountService } from "./discount-service.js";
-export { discountRoutes } from "./routes.js";
+export { couponBatchService } from "./batch-service.js";
@@ -0,0 +1,134 @@
+// Promotion Rules
+// src/discounts/promotions.ts
+
+import { allocate } from "../tax/calculator.js";
+import type {
+  CouponErrorCode,
+  CouponRule,
+  CouponType,
+  CouponUsage,
+  PromotionContext,
+  PromotionLine,
+  PromotionResult,
+  PromotionScope,
+} from "./types.js";
+
+export class CouponError extends Error {
+  constructor(message: string, public readonly code: CouponErrorCode = "INVALID_COUPON") {
+    super(message);
+    this.name = "CouponError";
+  }
+}
+
+const COUPON_TYPES: CouponType[] = ["percentage", "fixed", "free_shipping"];
+
+export function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function idList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((id): id is string => typeof id === "string") : [];
+}
+
+/**
+ * Whether the coupon can still be redeemed: active, in its validity period
+ * and within its usage limits. Checked again under lock when the order is
+ * placed, with the redemptions counted then.
+ */
+export function checkRedeemable(coupon: CouponRule, usage: CouponUsage, now: Date = new Date()): void {
+  if (!coupon.isActive || !COUPON_TYPES.includes(coupon.type as CouponType)) {
+    throw new CouponError("Coupon is not active");
+  }
+  if (coupon.startsAt && coupon.startsAt > now) {
+    throw new CouponError("Coupon is not yet valid");
+  }
+  if (coupon.expiresAt && coupon.expiresAt < now) {
+    throw new CouponError("Coupon has expired");
+  }
+  if (coupon.usageLimit && usage.uses >= coupon.usageLimit) {
+    throw new CouponError("Coupon usage limit reached");
+  }
+  if (coupon.usageLimitPerCustomer && usage.customerUses >= coupon.usageLimitPerCustomer) {
+    throw new CouponError("Coupon has already been used");
+  }
+}
+
+/**
+ * Whether the coupon can be redeemed at all: redeemable and the order's
+ * conditions met
+ */
+export function checkCoupon(coupon: CouponRule, context: PromotionContext): void {
+  checkRedeemable(coupon, { uses: coupon.usageCount, customerUses: context.customerUses }, context.now);
+
+  if (coupon.firstOrderOnly && !context.isFirstOrder) {
+    throw new CouponError("Coupon is only valid for a first order");
+  }
+  if (coupon.minPurchase && context.subtotal < coupon.minPurchase) {
+    throw new CouponError(
+      `Minimum purchase of ${(coupon.minPurchase / 100).toFixed(2)} EUR required`,
+      "MIN_PURCHASE_NOT_MET"
+    );
+  }
+}
+
+/**
+ * Lines a coupon or promotion applies to. Exclusions win; without product
+ * or category scope every line is included.
+ */
+export function eligibleLines(scope: PromotionScope, lines: PromotionLine[]): PromotionLine[] {
+  const productIds = idList(scope.productIds);
+  const categoryIds = idList(scope.categoryIds);
+  const excludeProductIds = idList(scope.excludeProductIds);
+  const excludeCategoryIds = idList(scope.excludeCategoryIds);
+  const scoped = productIds.length > 0 || categoryIds.length > 0;
+
+  return lines.filter((line) => {
+    if (excludeProductIds.includes(line.productId)) return false;
+    if (line.categoryIds.some((id) => excludeCategoryIds.includes(id))) return false;
+    if (!scoped) return true;
+    return productIds.includes(line.productId) || line.categoryIds.some((id) => categoryIds.includes(id));
+  });
+}
+
+/**
+ * Discount of a coupon on a cart or order, shared by the lines it applies
+ * to in proportion to their value
+ */
+export function applyCoupon(coupon: CouponRule, lines: PromotionLine[], context: PromotionContext): PromotionResult {
+  checkCoupon(coupon, context);
+
+  const eligible = eligibleLines(coupon, lines);
+  const eligibleTotal = eligible.reduce((sum, line) => sum + line.total, 0);
+  if (eligibleTotal === 0) {
+    throw new CouponError("Coupon does not apply to any item in the cart", "COUPON_NOT_APPLICABLE");
+  }
+
+  const type = coupon.type as CouponType;
+  let discountTotal = 0;
+  if (type === "percentage") {
+    discountTotal = Math.floor((eligibleTotal * Math.min(coupon.value, 10000)) / 10000);
+  } else if (type === "fixed") {
+    discountTotal = Math.min(coupon.value, eligibleTotal);
+  }
+  if (coupon.maxDiscount && discountTotal > coupon.maxDiscount) {
+    discountTotal = coupon.maxDiscount;
+  }
+
+  const shares = allocate(discountTotal, eligible.map((line) => line.total));
+  return {
+    couponId: coupon.id,
+    code: coupon.code,
+    type,
+    discountTotal,
+    lineDiscounts: eligible
+      .map((line, index) => ({ key: line.key, amount: shares[index] }))
+      .filter((line) => line.amount > 0),
+    freeShipping: type === "free_shipping",
+    shippingDiscount: type === "free_shipping" ? context.shippingTotal ?? 0 : 0,
+  };
+}
+
+// Discount per line key, for the tax calculation
+export function lineDiscountMap(result: PromotionResult | null): Map<string, number> {
+  return new Map((result?.lineDiscounts ?? []).map((line) => [line.key, line.amount]));
+}
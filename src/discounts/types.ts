@@ -1,99 +1,203 @@
 // Discount Types
 // src/discounts/types.ts
 
-export interface DiscountCode {
+export type CouponType = "percentage" | "fixed" | "free_shipping";
+
+// Product/category scope of a coupon or promotion; JSON columns hold lists of IDs
+export interface PromotionScope {
+  productIds: unknown;
+  categoryIds: unknown;
+  excludeProductIds: unknown;
+  excludeCategoryIds: unknown;
+}
+
+// Coupon as stored (coupons table)
+export interface CouponRule extends PromotionScope {
   id: string;
   code: string;
-  description?: string;
-  type: DiscountType;
-  value: number;
-  minOrderValue?: number;
-  maxDiscount?: number;
-  appliesTo: AppliesTo;
-  productIds?: string[];
-  categoryIds?: string[];
-  excludeProductIds?: string[];
-  excludeCategoryIds?: string[];
-  usageLimit?: number;
-  usageLimitPerCustomer?: number;
+  type: string;
+  value: number; // Percentage in basis points or fixed amount in cents
+  minPurchase: number | null;
+  maxDiscount: number | null;
+  usageLimit: number | null;
+  usageLimitPerCustomer: number | null;
   usageCount: number;
   firstOrderOnly: boolean;
-  validFrom?: Date;
-  validUntil?: Date;
-  active: boolean;
-  createdAt: Date;
-  updatedAt: Date;
+  startsAt: Date | null;
+  expiresAt: Date | null;
+  isActive: boolean;
 }
 
-export type DiscountType = "percentage" | "fixed" | "shipping";
+// Cart or order line as promotions see it
+export interface PromotionLine {
+  key: string;
+  productId: string;
+  categoryIds: string[]; // Including those of a variant's parent
+  quantity?: number; // Units, for buy X get Y
+  total: number; // Gross, before discounts
+}
 
-export type AppliesTo = "all" | "products" | "categories";
+// Active redemptions of a coupon
+export interface CouponUsage {
+  uses: number;
+  customerUses: number; // By this customer (or email)
+}
 
-export interface DiscountUsage {
-  id: string;
-  discountId: string;
-  orderId: string;
-  customerId?: string;
-  discountAmount: number;
-  usedAt: Date;
+export interface PromotionContext {
+  subtotal: number; // Gross value of the goods
+  shippingTotal?: number;
+  customerUses: number; // Active redemptions by this customer (or email)
+  isFirstOrder: boolean;
+  now?: Date;
 }
 
-export interface ApplyDiscountInput {
+export interface PromotionLineDiscount {
+  key: string;
+  amount: number;
+}
+
+export interface PromotionResult {
+  couponId: string;
   code: string;
-  cartTotal: number;
-  cartItems: CartItem[];
+  type: CouponType;
+  discountTotal: number; // On the goods, shared by lineDiscounts
+  lineDiscounts: PromotionLineDiscount[];
+  freeShipping: boolean;
+  shippingDiscount: number; // Shipping waived by free_shipping
+}
+
+export type CouponErrorCode = "INVALID_COUPON" | "MIN_PURCHASE_NOT_MET" | "COUPON_NOT_APPLICABLE";
+
+// Input of discountService.evaluate
+export interface EvaluateCouponInput {
+  code: string;
+  items: Array<{ key: string; productId: string; quantity?: number; total: number }>;
+  shippingTotal?: number;
   customerId?: string;
-  isFirstOrder?: boolean;
-  shippingCost?: number;
+  email?: string;
+}
+
+// Automatic promotions (promotions table), applied without a code
+
+export type AutomaticPromotionType = "buy_x_get_y" | "tiered_spend" | "free_gift" | "bundle_price";
+
+// Buy buyQuantity, get getQuantity of the cheapest eligible units discounted
+export interface BuyXGetYRule {
+  buyQuantity: number;
+  getQuantity: number;
+  discountPercent?: number; // Basis points on the units got, default 10000 (free)
 }
 
-export interface CartItem {
+export interface SpendTier {
+  minSubtotal: number; // Eligible value incl. tax
+  type: "percentage" | "fixed";
+  value: number; // Basis points or cents
+}
+
+// The highest tier reached applies
+export interface TieredSpendRule {
+  tiers: SpendTier[];
+}
+
+export interface FreeGiftRule {
+  minSubtotal: number;
   productId: string;
-  variantId?: string;
-  categoryId?: string;
-  quantity: number;
-  unitPrice: number;
-  totalPrice: number;
+  quantity?: number; // Default 1
 }
 
-export interface DiscountResult {
-  valid: boolean;
-  discountCode?: DiscountCode;
-  discountAmount: number;
-  discountedTotal: number;
-  discountedShipping?: number;
-  message?: string;
-  appliedToItems?: AppliedDiscount[];
+// A set of products sold together at a fixed price, e.g. shirt and cap for 30 €
+export interface BundlePriceRule {
+  items: Array<{ productId: string; quantity?: number }>; // Quantity default 1
+  price: number; // For the whole set, incl. tax
 }
 
-export interface AppliedDiscount {
+// Promotion as stored; rule holds the settings of its type
+export interface AutomaticPromotionRule extends PromotionScope {
+  id: string;
+  name: string;
+  description: string | null;
+  type: string;
+  rule: unknown;
+  priority: number; // Higher is applied first
+  stackable: boolean; // Applies together with other automatic promotions
+  combinesWithCoupons: boolean;
+  startsAt: Date | null;
+  expiresAt: Date | null;
+  isActive: boolean;
+}
+
+export interface PromotionGift {
   productId: string;
-  variantId?: string;
-  originalPrice: number;
-  discountedPrice: number;
+  quantity: number;
+}
+
+// An automatic promotion that applied, as explained to the storefront
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  description: string | null;
+  type: AutomaticPromotionType;
+  discountTotal: number;
+  lineDiscounts: PromotionLineDiscount[];
+  gift: PromotionGift | null;
+  combinesWithCoupons: boolean;
+}
+
+export interface AutomaticPromotionsResult {
+  applied: AppliedPromotion[];
+  discountTotal: number;
+  lineDiscounts: PromotionLineDiscount[]; // Summed over the applied promotions
+}
+
+// Automatic promotions and an optional coupon on top, as priced at checkout
+export interface CartPromotions {
+  automatic: AutomaticPromotionsResult;
+  coupon: PromotionResult | null;
+  discountTotal: number;
+  lineDiscounts: Map<string, number>;
+  freeShipping: boolean;
+}
+
+// Input of discountService.priceCart
+export interface PriceCartInput {
+  items: Array<{ key: string; productId: string; quantity: number; total: number }>;
+  couponCode?: string;
+  shippingTotal?: number;
+  customerId?: string;
+  email?: string;
+}
+
+// Input of discountService.redeem
+export interface RedeemCouponInput {
+  couponId: string;
+  orderId: string;
+  customerId?: string | null;
+  email: string;
   discountAmount: number;
 }
 
-export interface CreateDiscountInput {
-  code: string;
+// Discount settings every code of a coupon batch gets
+export interface CouponSettings {
   description?: string;
-  type: DiscountType;
+  type: CouponType;
   value: number;
-  minOrderValue?: number;
+  minPurchase?: number;
   maxDiscount?: number;
-  appliesTo?: AppliesTo;
+  usageLimit?: number | null;
+  usageLimitPerCustomer?: number | null;
+  firstOrderOnly?: boolean;
+  startsAt?: Date | null;
+  expiresAt?: Date | null;
   productIds?: string[];
   categoryIds?: string[];
   excludeProductIds?: string[];
   excludeCategoryIds?: string[];
-  usageLimit?: number;
-  usageLimitPerCustomer?: number;
-  firstOrderOnly?: boolean;
-  validFrom?: Date;
-  validUntil?: Date;
-  active?: boolean;
+  isActive?: boolean;
 }
 
-export interface UpdateDiscountInput extends Partial<CreateDiscountInput> {
-  id: string;
+export interface CouponBatchStats {
+  total: number;
+  used: number; // Codes with an active redemption
+  unused: number;
+  active: number;
 }
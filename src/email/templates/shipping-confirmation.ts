@@ -8,10 +8,12 @@ export interface ShippingConfirmationData {
   trackingUrl?: string;
   carrier: string;
   estimatedDelivery?: string;
+  // Only the items in this shipment
   items: Array<{
     name: string;
     quantity: number;
   }>;
+  partial?: boolean; // More shipments follow
   shippingAddress: {
     firstName: string;
     lastName: string;
@@ -31,7 +33,7 @@ const shippingConfirmationContent = `
         </mj-text>
         <mj-text padding-bottom="20px">
           Hallo {{customerName}},<br/><br/>
-          gute Nachrichten! Ihre Bestellung #{{orderNumber}} wurde versendet.
+          {{intro}}
         </mj-text>
         <mj-divider border-color="#e5e7eb" border-width="1px" />
       </mj-column>
@@ -90,7 +92,9 @@ const shippingConfirmationContent = `
 `;
 
 export function renderShippingConfirmation(data: ShippingConfirmationData): { html: string; text: string; subject: string } {
-  const subject = `Ihre Bestellung #${data.orderNumber} wurde versendet`;
+  const subject = data.partial
+    ? `Teillieferung zu Ihrer Bestellung #${data.orderNumber}`
+    : `Ihre Bestellung #${data.orderNumber} wurde versendet`;
 
   const trackingInfo = data.trackingNumber
     ? `Sendungsnummer: ${data.trackingNumber}`
@@ -109,6 +113,10 @@ export function renderShippingConfirmation(data: ShippingConfirmationData): { ht
       </mj-section>`
     : "";
 
+  const intro = data.partial
+    ? `gute Nachrichten! Ein Teil Ihrer Bestellung #${data.orderNumber} wurde versendet. Die uebrigen Artikel senden wir Ihnen separat.`
+    : `gute Nachrichten! Ihre Bestellung #${data.orderNumber} wurde versendet.`;
+
   const itemsList = data.items.map(item =>
     `<mj-text padding="5px 0">- ${item.name} (${item.quantity}x)</mj-text>`
   ).join("");
@@ -118,6 +126,7 @@ export function renderShippingConfirmation(data: ShippingConfirmationData): { ht
     customerName: data.customerName,
     orderNumber: data.orderNumber,
     carrier: data.carrier,
+    intro,
     trackingInfo,
     trackingButton,
     estimatedDeliverySection,
@@ -135,7 +144,9 @@ Ihre Bestellung #${data.orderNumber} wurde versendet
 
 Hallo ${data.customerName},
 
-gute Nachrichten! Ihre Bestellung wurde versendet.
+${data.partial
+  ? "gute Nachrichten! Ein Teil Ihrer Bestellung wurde versendet. Die uebrigen Artikel senden wir Ihnen separat."
+  : "gute Nachrichten! Ihre Bestellung wurde versendet."}
 
 Versanddienstleister: ${data.carrier}
 ${data.trackingNumber ? `Sendungsnummer: ${data.trackingNumber}` : ""}
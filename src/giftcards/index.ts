@@ -1,6 +1,6 @@
 // Gift Cards Module
 // src/giftcards/index.ts
 
-export { giftCardService } from "./service.js";
+export { giftCardService, GiftCardError } from "./service.js";
 export { generateCode, isValidCodeFormat, normalizeCode, formatGiftCardAmount } from "./utils.js";
 export { giftCardRoutes } from "./routes.js";
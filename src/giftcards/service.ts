@@ -1,11 +1,32 @@
 // Gift Card Service
 // src/giftcards/service.ts
 
-import { eq, and, gt, sql } from "drizzle-orm";
-import { db } from "@/db";
+import { eq, and, gt, inArray, sql } from "drizzle-orm";
+import { db, type DbExecutor } from "@/db";
 import { giftCards, giftCardTransactions, type GiftCardStatus } from "@/db/schema";
 import { generateCode } from "./utils";
 
+type GiftCard = typeof giftCards.$inferSelect;
+
+function inTransaction<T>(executor: DbExecutor | undefined, fn: (tx: DbExecutor) => Promise<T>): Promise<T> {
+  return (executor ?? db).transaction(fn);
+}
+
+// Why a card cannot be used right now, if it cannot
+function unusableReason(giftCard: GiftCard, now: Date = new Date()): string | null {
+  if (giftCard.status !== "active") return `Gift card is ${giftCard.status}`;
+  if (giftCard.expiresAt && giftCard.expiresAt < now) return "Gift card has expired";
+  if (giftCard.currentBalance <= 0) return "Gift card has no remaining balance";
+  return null;
+}
+
+export class GiftCardError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GiftCardError";
+  }
+}
+
 export interface CreateGiftCardInput {
   initialValue: number; // in cents
   currencyCode?: string;
@@ -33,34 +54,36 @@ export const giftCardService = {
   /**
    * Create a new gift card
    */
-  async create(input: CreateGiftCardInput): Promise<typeof giftCards.$inferSelect> {
-    const code = generateCode();
-    
-    const [giftCard] = await db.insert(giftCards).values({
-      code,
-      initialValue: input.initialValue,
-      currentBalance: input.initialValue,
-      currencyCode: input.currencyCode ?? "EUR",
-      status: "active",
-      recipientEmail: input.recipientEmail,
-      recipientName: input.recipientName,
-      personalMessage: input.personalMessage,
-      expiresAt: input.expiresAt,
-      purchasedByCustomerId: input.purchasedByCustomerId,
-      isDigital: input.isDigital ?? true,
-      activatedAt: new Date(),
-    }).returning();
-
-    // Record initial transaction
-    await db.insert(giftCardTransactions).values({
-      giftCardId: giftCard.id,
-      type: "purchase",
-      amount: input.initialValue,
-      balanceAfter: input.initialValue,
-      description: "Gift card created",
-    });
+  async create(input: CreateGiftCardInput, tx?: DbExecutor): Promise<typeof giftCards.$inferSelect> {
+    return inTransaction(tx, async (t) => {
+      const code = generateCode();
+
+      const [giftCard] = await t.insert(giftCards).values({
+        code,
+        initialValue: input.initialValue,
+        currentBalance: input.initialValue,
+        currencyCode: input.currencyCode ?? "EUR",
+        status: "active",
+        recipientEmail: input.recipientEmail,
+        recipientName: input.recipientName,
+        personalMessage: input.personalMessage,
+        expiresAt: input.expiresAt,
+        purchasedByCustomerId: input.purchasedByCustomerId,
+        isDigital: input.isDigital ?? true,
+        activatedAt: new Date(),
+      }).returning();
+
+      // Record initial transaction
+      await t.insert(giftCardTransactions).values({
+        giftCardId: giftCard.id,
+        type: "purchase",
+        amount: input.initialValue,
+        balanceAfter: input.initialValue,
+        description: "Gift card created",
+      });
 
-    return giftCard;
+      return giftCard;
+    });
   },
 
   /**
@@ -75,20 +98,15 @@ export const giftCardService = {
       return { valid: false, error: "Gift card not found" };
     }
 
-    if (giftCard.status !== "active") {
-      return { valid: false, error: `Gift card is ${giftCard.status}` };
-    }
-
-    if (giftCard.expiresAt && giftCard.expiresAt < new Date()) {
+    const error = unusableReason(giftCard);
+    if (error) {
       // Update status to expired
-      await db.update(giftCards)
-        .set({ status: "expired" })
-        .where(eq(giftCards.id, giftCard.id));
-      return { valid: false, error: "Gift card has expired" };
-    }
-
-    if (giftCard.currentBalance <= 0) {
-      return { valid: false, error: "Gift card has no remaining balance" };
+      if (giftCard.status === "active" && giftCard.expiresAt && giftCard.expiresAt < new Date()) {
+        await db.update(giftCards)
+          .set({ status: "expired" })
+          .where(eq(giftCards.id, giftCard.id));
+      }
+      return { valid: false, error };
     }
 
     return { valid: true, giftCard };
@@ -115,76 +133,130 @@ export const giftCardService = {
   },
 
   /**
-   * Redeem gift card (use balance for order)
+   * Redeem gift card (use balance for order). The card is locked while its
+   * balance is taken, so pass the order's transaction to make the redemption
+   * part of placing the order.
    */
-  async redeem(input: RedeemGiftCardInput): Promise<{ success: boolean; amountUsed: number; remainingBalance: number; error?: string }> {
-    const validation = await this.validate(input.code);
-    
-    if (!validation.valid || !validation.giftCard) {
-      return { success: false, amountUsed: 0, remainingBalance: 0, error: validation.error };
-    }
+  async redeem(input: RedeemGiftCardInput, tx?: DbExecutor): Promise<{ success: boolean; amountUsed: number; remainingBalance: number; giftCardId?: string; error?: string }> {
+    return inTransaction(tx, async (t) => {
+      const [giftCard] = await t
+        .select()
+        .from(giftCards)
+        .where(eq(giftCards.code, input.code.toUpperCase()))
+        .for("update");
+
+      const error = giftCard ? unusableReason(giftCard) : "Gift card not found";
+      if (!giftCard || error) {
+        return { success: false, amountUsed: 0, remainingBalance: 0, error: error ?? undefined };
+      }
+
+      const amountToUse = Math.min(input.amount, giftCard.currentBalance);
+      const newBalance = giftCard.currentBalance - amountToUse;
+
+      // Update balance
+      await t.update(giftCards)
+        .set({
+          currentBalance: newBalance,
+          status: newBalance === 0 ? "used" : "active",
+          updatedAt: new Date(),
+        })
+        .where(eq(giftCards.id, giftCard.id));
 
-    const giftCard = validation.giftCard;
-    const amountToUse = Math.min(input.amount, giftCard.currentBalance);
-    const newBalance = giftCard.currentBalance - amountToUse;
-
-    // Update balance
-    await db.update(giftCards)
-      .set({
-        currentBalance: newBalance,
-        status: newBalance === 0 ? "used" : "active",
-        updatedAt: new Date(),
-      })
-      .where(eq(giftCards.id, giftCard.id));
-
-    // Record transaction
-    await db.insert(giftCardTransactions).values({
-      giftCardId: giftCard.id,
-      orderId: input.orderId,
-      type: "redeem",
-      amount: -amountToUse,
-      balanceAfter: newBalance,
-      description: `Redeemed for order`,
-    });
+      // Record transaction
+      await t.insert(giftCardTransactions).values({
+        giftCardId: giftCard.id,
+        orderId: input.orderId,
+        type: "redeem",
+        amount: -amountToUse,
+        balanceAfter: newBalance,
+        description: `Redeemed for order`,
+      });
 
-    return {
-      success: true,
-      amountUsed: amountToUse,
-      remainingBalance: newBalance,
-    };
+      return {
+        success: true,
+        amountUsed: amountToUse,
+        remainingBalance: newBalance,
+        giftCardId: giftCard.id,
+      };
+    });
   },
 
   /**
    * Refund amount back to gift card
    */
-  async refund(giftCardId: string, amount: number, orderId: string): Promise<{ success: boolean; newBalance: number }> {
-    const giftCard = await this.getById(giftCardId);
-    
-    if (!giftCard) {
-      return { success: false, newBalance: 0 };
-    }
-
-    const newBalance = giftCard.currentBalance + amount;
-    const cappedBalance = Math.min(newBalance, giftCard.initialValue);
+  async refund(giftCardId: string, amount: number, orderId: string, tx?: DbExecutor): Promise<{ success: boolean; newBalance: number }> {
+    return inTransaction(tx, async (t) => {
+      const [giftCard] = await t
+        .select()
+        .from(giftCards)
+        .where(eq(giftCards.id, giftCardId))
+        .for("update");
+
+      if (!giftCard) {
+        return { success: false, newBalance: 0 };
+      }
+
+      const newBalance = giftCard.currentBalance + amount;
+      const cappedBalance = Math.min(newBalance, giftCard.initialValue);
+
+      await t.update(giftCards)
+        .set({
+          currentBalance: cappedBalance,
+          status: "active",
+          updatedAt: new Date(),
+        })
+        .where(eq(giftCards.id, giftCardId));
+
+      await t.insert(giftCardTransactions).values({
+        giftCardId,
+        orderId,
+        type: "refund",
+        amount: amount,
+        balanceAfter: cappedBalance,
+        description: "Order refund",
+      });
 
-    await db.update(giftCards)
-      .set({
-        currentBalance: cappedBalance,
-        status: "active",
-        updatedAt: new Date(),
-      })
-      .where(eq(giftCards.id, giftCardId));
-
-    await db.insert(giftCardTransactions).values({
-      giftCardId,
-      orderId,
-      type: "refund",
-      amount: amount,
-      balanceAfter: cappedBalance,
-      description: "Order refund",
+      return { success: true, newBalance: cappedBalance };
     });
+  },
+
+  /**
+   * Give back what an order took from gift cards and has not been refunded
+   * yet. Returns the amount given back.
+   */
+  async reverseForOrder(orderId: string, tx?: DbExecutor): Promise<number> {
+    return this.refundForOrder(orderId, Number.POSITIVE_INFINITY, tx);
+  },
 
-    return { success: true, newBalance: cappedBalance };
+  /**
+   * Credit up to `amount` back onto the gift cards an order was paid with,
+   * card by card. Returns the amount credited.
+   */
+  async refundForOrder(orderId: string, amount: number, tx?: DbExecutor): Promise<number> {
+    return inTransaction(tx, async (t) => {
+      const outstanding = await t
+        .select({
+          giftCardId: giftCardTransactions.giftCardId,
+          amount: sql<number>`-sum(${giftCardTransactions.amount})`.mapWith(Number),
+        })
+        .from(giftCardTransactions)
+        .where(and(
+          eq(giftCardTransactions.orderId, orderId),
+          inArray(giftCardTransactions.type, ["redeem", "refund"])
+        ))
+        .groupBy(giftCardTransactions.giftCardId);
+
+      let credited = 0;
+      for (const row of outstanding.filter((entry) => entry.amount > 0)) {
+        const share = Math.min(row.amount, amount - credited);
+        if (share <= 0) break;
+        const result = await this.refund(row.giftCardId, share, orderId, t);
+        if (result.success) {
+          credited += share;
+        }
+      }
+      return credited;
+    });
   },
 
   /**
@@ -0,0 +1,75 @@
+// Inventory Availability
+// src/inventory/availability.ts
+
+import { sql, type SQL } from "drizzle-orm";
+import { products } from "@/db/schema";
+
+// Quantity held by active reservations for a product, less the holds of
+// `holder` (a cart or order reference) when given. Written against the raw
+// tables so it can be embedded in relational queries, where drizzle
+// re-aliases every column reference to the product table.
+function heldSql(productId: SQL | typeof products.id, holder?: string): SQL {
+  const reserved = sql`(
+    SELECT COALESCE(SUM(ii.reserved_quantity), 0)
+    FROM inventory_items ii
+    WHERE ii.product_id = ${productId}
+  )`;
+  if (!holder) {
+    return reserved;
+  }
+  return sql`(${reserved} - (
+    SELECT COALESCE(SUM(sr.quantity), 0)
+    FROM stock_reservations sr
+    JOIN inventory_items si ON si.id = sr.inventory_item_id
+    WHERE si.product_id = ${productId}
+      AND si.track_inventory
+      AND sr.status = 'active'
+      AND sr.order_id = ${holder}
+  ))`;
+}
+
+export const reservedQuantitySql = sql<number>`${heldSql(products.id)}::int`;
+
+// On-hand stock minus active reservations. A parent product with variants
+// holds no stock itself; it offers what its active variants have left. A
+// bundle offers as many sets as its scarcest limiting component allows.
+function availableSql(holder?: string): SQL<number> {
+  return sql<number>`(CASE
+  WHEN EXISTS (SELECT 1 FROM products pv WHERE pv.parent_id = ${products.id})
+  THEN (
+    SELECT COALESCE(SUM(GREATEST(pv.stock_quantity - ${heldSql(sql.raw("pv.id"), holder)}, 0)), 0)::int
+    FROM products pv
+    WHERE pv.parent_id = ${products.id} AND pv.status = 'active'
+  )
+  WHEN EXISTS (SELECT 1 FROM product_bundle_items bi WHERE bi.bundle_id = ${products.id})
+  THEN (
+    SELECT COALESCE(MIN(CASE
+      WHEN pc.status <> 'active' THEN 0
+      ELSE GREATEST(pc.stock_quantity - ${heldSql(sql.raw("pc.id"), holder)}, 0) / bi.quantity
+    END), 0)::int
+    FROM product_bundle_items bi
+    JOIN products pc ON pc.id = bi.component_id
+    WHERE bi.bundle_id = ${products.id}
+      AND (pc.status <> 'active' OR (pc.track_inventory AND NOT pc.allow_backorder))
+  )
+  ELSE (${products.stockQuantity} - ${heldSql(products.id, holder)})::int
+END)`;
+}
+
+export const availableQuantitySql = availableSql();
+
+// Extras for relational product queries
+export const availabilityExtras = {
+  availableQuantity: sql<number>`${availableQuantitySql}`.as("available_quantity"),
+};
+
+// The same, counting the holds of `holder` as available: a cart in checkout
+// may keep what it has reserved
+export function availabilityExtrasFor(holder: string) {
+  return {
+    availableQuantity: sql<number>`${availableSql(holder)}`.as("available_quantity"),
+  };
+}
+
+// Filter for products that can be sold right now
+export const inStockSql = sql`(${products.trackInventory} = false OR ${availableQuantitySql} > 0)`;
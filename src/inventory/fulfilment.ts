@@ -0,0 +1,85 @@
+// Fulfilment Source Selection
+// src/inventory/fulfilment.ts
+
+import type { FulfilmentCandidate, FulfilmentStrategy } from "./types.js";
+import { canFulfil } from "./utils.js";
+
+// Approximate geographic centre (lat, lng) per country, used to rank
+// warehouses by distance to the shipping destination
+const COUNTRY_CENTROIDS: Record<string, [number, number]> = {
+  AT: [47.6, 14.1], BE: [50.6, 4.6], BG: [42.7, 25.5], CH: [46.8, 8.2],
+  CY: [35.0, 33.2], CZ: [49.8, 15.5], DE: [51.2, 10.4], DK: [56.0, 10.0],
+  EE: [58.7, 25.0], ES: [40.2, -3.6], FI: [64.5, 26.0], FR: [46.6, 2.4],
+  GB: [54.0, -2.5], GR: [39.1, 22.0], HR: [45.1, 15.2], HU: [47.2, 19.4],
+  IE: [53.2, -8.2], IS: [64.9, -18.6], IT: [42.8, 12.6], LI: [47.2, 9.6],
+  LT: [55.2, 23.9], LU: [49.8, 6.1], LV: [56.9, 24.6], MT: [35.9, 14.4],
+  NL: [52.2, 5.5], NO: [61.4, 8.8], PL: [52.1, 19.4], PT: [39.6, -8.0],
+  RO: [45.9, 24.9], SE: [62.2, 15.6], SI: [46.1, 14.8], SK: [48.7, 19.5],
+  US: [39.8, -98.6], CA: [56.1, -106.3],
+};
+
+/**
+ * Great-circle distance between two countries in km, or null if either is unknown
+ */
+export function countryDistance(from: string, to: string): number | null {
+  const a = COUNTRY_CENTROIDS[from.toUpperCase()];
+  const b = COUNTRY_CENTROIDS[to.toUpperCase()];
+  if (!a || !b) {
+    return null;
+  }
+  if (a === b) {
+    return 0;
+  }
+
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b[0] - a[0]);
+  const dLng = toRad(b[1] - a[1]);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a[0])) * Math.cos(toRad(b[0])) * Math.sin(dLng / 2) ** 2;
+
+  return Math.round(6371 * 2 * Math.asin(Math.sqrt(h)));
+}
+
+/**
+ * Order candidate warehouses by preference. With "closest", warehouses are
+ * ranked by distance to the destination country first; unknown countries
+ * sort last. Priority (lower first) and the default flag break ties.
+ */
+export function rankWarehouses<T extends FulfilmentCandidate>(
+  candidates: T[],
+  strategy: FulfilmentStrategy,
+  country?: string
+): T[] {
+  const distance = (candidate: T) => {
+    if (strategy !== "closest" || !country || !candidate.country) {
+      return Number.POSITIVE_INFINITY;
+    }
+    return countryDistance(candidate.country, country) ?? Number.POSITIVE_INFINITY;
+  };
+
+  return [...candidates].sort((a, b) => {
+    const byDistance = distance(a) - distance(b);
+    if (byDistance !== 0 && !Number.isNaN(byDistance)) {
+      return byDistance;
+    }
+    if (a.priority !== b.priority) {
+      return a.priority - b.priority;
+    }
+    return Number(b.isDefault) - Number(a.isDefault);
+  });
+}
+
+/**
+ * Pick the warehouse that fulfils an order line: the most preferred one that
+ * can ship the full quantity. Returns null if no single warehouse can.
+ */
+export function selectFulfilmentSource<T extends FulfilmentCandidate>(
+  candidates: T[],
+  quantity: number,
+  strategy: FulfilmentStrategy,
+  country?: string
+): T | null {
+  return rankWarehouses(candidates, strategy, country)
+    .find((candidate) => canFulfil(candidate, quantity)) ?? null;
+}
@@ -2,5 +2,8 @@
 // src/inventory/index.ts
 
 export * from "./types.js";
+export * from "./utils.js";
+export * from "./fulfilment.js";
 export { inventoryService } from "./inventory-service.js";
+export { warehouseService, type WarehouseInput } from "./warehouse-service.js";
 export { inventoryRoutes } from "./routes.js";
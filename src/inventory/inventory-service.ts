@@ -1,6 +1,18 @@
 // Inventory Service
 // src/inventory/inventory-service.ts
 
+import { eq, and, asc, desc, isNull, lt, or, sql } from "drizzle-orm";
+import { env } from "@/config/env";
+import { db, type DbExecutor } from "@/db";
+import {
+  products,
+  orderItems,
+  warehouses,
+  inventoryItems,
+  stockMovements,
+  stockReservations,
+  inventoryAlerts,
+} from "@/db/schema";
 import type {
   InventoryItem,
   StockMovement,
@@ -10,27 +22,300 @@ import type {
   ReserveStockInput,
   TransferStockInput,
   InventoryAlert,
+  StockLevel,
 } from "./types.js";
+import {
+  getAvailableQuantity,
+  canFulfil,
+  evaluateAlert,
+  getReservationExpiry,
+  InsufficientStockError,
+} from "./utils.js";
+import { selectFulfilmentSource } from "./fulfilment.js";
+
+type InventoryRow = typeof inventoryItems.$inferSelect;
+type ReservationRow = typeof stockReservations.$inferSelect;
+
+function toInventoryItem(row: InventoryRow): InventoryItem {
+  return {
+    id: row.id,
+    productId: row.productId,
+    variantId: row.variantId ?? undefined,
+    sku: row.sku,
+    quantity: row.quantity,
+    reservedQuantity: row.reservedQuantity,
+    availableQuantity: getAvailableQuantity(row),
+    lowStockThreshold: row.lowStockThreshold,
+    trackInventory: row.trackInventory,
+    allowBackorder: row.allowBackorder,
+    warehouseId: row.warehouseId ?? undefined,
+    location: row.location ?? undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function toReservation(row: ReservationRow, warehouseId?: string | null): StockReservation {
+  return {
+    id: row.id,
+    inventoryItemId: row.inventoryItemId,
+    orderId: row.orderId,
+    quantity: row.quantity,
+    expiresAt: row.expiresAt,
+    status: row.status as StockReservation["status"],
+    warehouseId: warehouseId ?? undefined,
+    createdAt: row.createdAt,
+  };
+}
+
+function toMovement(row: typeof stockMovements.$inferSelect): StockMovement {
+  return {
+    id: row.id,
+    inventoryItemId: row.inventoryItemId,
+    type: row.type as StockMovementType,
+    quantity: row.quantity,
+    previousQuantity: row.previousQuantity,
+    newQuantity: row.newQuantity,
+    reason: row.reason ?? undefined,
+    referenceType: (row.referenceType ?? undefined) as StockMovement["referenceType"],
+    referenceId: row.referenceId ?? undefined,
+    createdBy: row.createdBy ?? undefined,
+    createdAt: row.createdAt,
+  };
+}
+
+function toAlert(row: typeof inventoryAlerts.$inferSelect): InventoryAlert {
+  return {
+    id: row.id,
+    inventoryItemId: row.inventoryItemId,
+    type: row.type as InventoryAlert["type"],
+    threshold: row.threshold,
+    currentQuantity: row.currentQuantity,
+    acknowledged: row.acknowledged,
+    acknowledgedBy: row.acknowledgedBy ?? undefined,
+    acknowledgedAt: row.acknowledgedAt ?? undefined,
+    createdAt: row.createdAt,
+  };
+}
+
+// warehouseId: undefined matches any warehouse, null the unassigned row
+function itemCondition(productId: string, variantId?: string, warehouseId?: string | null) {
+  const conditions = [
+    eq(inventoryItems.productId, productId),
+    variantId ? eq(inventoryItems.variantId, variantId) : isNull(inventoryItems.variantId),
+  ];
+  if (warehouseId) {
+    conditions.push(eq(inventoryItems.warehouseId, warehouseId));
+  } else if (warehouseId === null) {
+    conditions.push(isNull(inventoryItems.warehouseId));
+  }
+  return and(...conditions);
+}
+
+// Run inside the caller's transaction (as a savepoint) or open a new one
+function inTransaction<T>(executor: DbExecutor | undefined, fn: (tx: DbExecutor) => Promise<T>): Promise<T> {
+  return (executor ?? db).transaction(fn);
+}
+
+// Warehouse used when an operation does not name one: the default warehouse,
+// or none while the shop has not set up any
+async function resolveWarehouseId(tx: DbExecutor, warehouseId?: string): Promise<string | null> {
+  if (warehouseId) {
+    return warehouseId;
+  }
+  const [warehouse] = await tx
+    .select({ id: warehouses.id })
+    .from(warehouses)
+    .where(and(eq(warehouses.isDefault, true), eq(warehouses.isActive, true)))
+    .limit(1);
+  return warehouse?.id ?? null;
+}
+
+// Lock an inventory row for the rest of the transaction
+async function lockItem(
+  tx: DbExecutor,
+  productId: string,
+  variantId?: string,
+  warehouseId?: string | null
+): Promise<InventoryRow | null> {
+  const [row] = await tx
+    .select()
+    .from(inventoryItems)
+    .where(itemCondition(productId, variantId, warehouseId))
+    .orderBy(asc(inventoryItems.createdAt))
+    .limit(1)
+    .for("update");
+  return row ?? null;
+}
 
-// In-memory store (replace with database in production)
-const inventoryItems = new Map<string, InventoryItem>();
-const stockMovements: StockMovement[] = [];
-const stockReservations = new Map<string, StockReservation>();
-const inventoryAlerts: InventoryAlert[] = [];
+async function lockItemById(tx: DbExecutor, id: string): Promise<InventoryRow | null> {
+  const [row] = await tx
+    .select()
+    .from(inventoryItems)
+    .where(eq(inventoryItems.id, id))
+    .for("update");
+  return row ?? null;
+}
 
-function generateId(): string {
-  return crypto.randomUUID();
+// Lock the inventory row in a warehouse (default if omitted), creating it on
+// first use. The first row of a product is seeded from its stock columns,
+// rows in further warehouses start empty.
+async function lockOrBootstrapItem(
+  tx: DbExecutor,
+  productId: string,
+  variantId?: string,
+  requestedWarehouseId?: string
+): Promise<InventoryRow> {
+  const warehouseId = await resolveWarehouseId(tx, requestedWarehouseId);
+  const existing = await lockItem(tx, productId, variantId, warehouseId);
+  if (existing) {
+    return existing;
+  }
+
+  const product = await tx.query.products.findFirst({
+    where: eq(products.id, productId),
+  });
+  if (!product) {
+    throw new Error(`Inventory not found for product ${productId}`);
+  }
+
+  const sibling = await tx.query.inventoryItems.findFirst({
+    where: itemCondition(productId, variantId),
+  });
+
+  const [created] = await tx
+    .insert(inventoryItems)
+    .values({
+      productId,
+      variantId,
+      warehouseId,
+      sku: sibling?.sku ?? product.sku,
+      quantity: sibling ? 0 : product.stockQuantity,
+      lowStockThreshold: sibling?.lowStockThreshold ?? product.lowStockThreshold ?? 5,
+      trackInventory: sibling?.trackInventory ?? product.trackInventory,
+      allowBackorder: sibling?.allowBackorder ?? product.allowBackorder,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (created && created.quantity !== 0) {
+    await insertMovement(tx, {
+      inventoryItemId: created.id,
+      type: "received",
+      quantity: created.quantity,
+      previousQuantity: 0,
+      newQuantity: created.quantity,
+      reason: "Initial stock (from product)",
+    });
+  }
+
+  // A concurrent request may have created the row first
+  const row = await lockItem(tx, productId, variantId, warehouseId);
+  if (!row) {
+    throw new Error(`Inventory not found for product ${productId}`);
+  }
+  return row;
 }
 
-function getInventoryKey(productId: string, variantId?: string): string {
-  return variantId ? `${productId}:${variantId}` : productId;
+// Lock the inventory row the fulfilment strategy picks for an order line.
+// Products without any inventory row yet are bootstrapped in the default warehouse.
+async function lockFulfilmentSource(
+  tx: DbExecutor,
+  productId: string,
+  variantId: string | undefined,
+  quantity: number,
+  country?: string
+): Promise<InventoryRow> {
+  const rows = await tx
+    .select({ item: inventoryItems, warehouse: warehouses })
+    .from(inventoryItems)
+    .leftJoin(warehouses, eq(inventoryItems.warehouseId, warehouses.id))
+    .where(and(
+      itemCondition(productId, variantId),
+      or(isNull(inventoryItems.warehouseId), eq(warehouses.isActive, true))
+    ))
+    .for("update", { of: inventoryItems });
+
+  const candidates = rows.map(({ item, warehouse }) => ({
+    ...item,
+    country: (warehouse?.address as { country?: string } | null)?.country,
+    priority: warehouse?.priority ?? 0,
+    isDefault: warehouse?.isDefault ?? false,
+  }));
+
+  const source = selectFulfilmentSource(candidates, quantity, env.FULFILMENT_STRATEGY, country);
+  if (source) {
+    return source;
+  }
+
+  if (rows.length > 0) {
+    // No single warehouse can ship the full quantity
+    const available = rows.reduce((max, { item }) => Math.max(max, getAvailableQuantity(item)), 0);
+    throw new InsufficientStockError(available, quantity, productId);
+  }
+  return lockOrBootstrapItem(tx, productId, variantId);
+}
+
+async function insertMovement(
+  tx: DbExecutor,
+  movement: Omit<StockMovement, "id" | "createdAt">
+): Promise<StockMovement> {
+  const [row] = await tx.insert(stockMovements).values(movement).returning();
+  return toMovement(row);
+}
+
+async function updateItem(
+  tx: DbExecutor,
+  id: string,
+  values: Partial<Pick<InventoryRow, "quantity" | "reservedQuantity">>
+): Promise<InventoryRow> {
+  const [row] = await tx
+    .update(inventoryItems)
+    .set({ ...values, updatedAt: new Date() })
+    .where(eq(inventoryItems.id, id))
+    .returning();
+  return row;
+}
+
+// Replace the open alert for an item with one matching its current level
+async function refreshAlerts(tx: DbExecutor, item: InventoryRow): Promise<void> {
+  await tx
+    .delete(inventoryAlerts)
+    .where(and(eq(inventoryAlerts.inventoryItemId, item.id), eq(inventoryAlerts.acknowledged, false)));
+
+  if (!item.trackInventory) {
+    return;
+  }
+
+  const alert = evaluateAlert(item);
+  if (alert) {
+    await tx.insert(inventoryAlerts).values({ inventoryItemId: item.id, ...alert });
+  }
+}
+
+// Keep products.stockQuantity equal to the on-hand total of its inventory rows
+async function syncProductStock(tx: DbExecutor, productId: string): Promise<void> {
+  await tx
+    .update(products)
+    .set({
+      stockQuantity: sql`(
+        SELECT COALESCE(SUM(${inventoryItems.quantity}), 0)::int
+        FROM ${inventoryItems}
+        WHERE ${inventoryItems.productId} = ${productId}
+      )`,
+      updatedAt: new Date(),
+    })
+    .where(eq(products.id, productId));
 }
 
 export const inventoryService = {
   // Get inventory for a product/variant
-  async getInventory(productId: string, variantId?: string): Promise<InventoryItem | null> {
-    const key = getInventoryKey(productId, variantId);
-    return inventoryItems.get(key) || null;
+  async getInventory(productId: string, variantId?: string, warehouseId?: string): Promise<InventoryItem | null> {
+    const row = await db.query.inventoryItems.findFirst({
+      where: itemCondition(productId, variantId, warehouseId),
+      orderBy: [asc(inventoryItems.createdAt)],
+    });
+    return row ? toInventoryItem(row) : null;
   },
 
   // Get all inventory items
@@ -39,19 +324,25 @@ export const inventoryService = {
     outOfStockOnly?: boolean;
     warehouseId?: string;
   }): Promise<InventoryItem[]> {
-    let items = Array.from(inventoryItems.values());
+    const available = sql`(${inventoryItems.quantity} - ${inventoryItems.reservedQuantity})`;
+    const conditions = [];
 
     if (options?.lowStockOnly) {
-      items = items.filter(i => i.availableQuantity <= i.lowStockThreshold && i.availableQuantity > 0);
+      conditions.push(sql`${available} <= ${inventoryItems.lowStockThreshold} AND ${available} > 0`);
     }
     if (options?.outOfStockOnly) {
-      items = items.filter(i => i.availableQuantity <= 0);
+      conditions.push(sql`${available} <= 0`);
     }
     if (options?.warehouseId) {
-      items = items.filter(i => i.warehouseId === options.warehouseId);
+      conditions.push(eq(inventoryItems.warehouseId, options.warehouseId));
     }
 
-    return items;
+    const rows = await db.query.inventoryItems.findMany({
+      where: conditions.length > 0 ? and(...conditions) : undefined,
+      orderBy: [asc(inventoryItems.sku)],
+    });
+
+    return rows.map(toInventoryItem);
   },
 
   // Initialize inventory for a product
@@ -65,208 +356,525 @@ export const inventoryService = {
     allowBackorder?: boolean;
     warehouseId?: string;
     location?: string;
-  }): Promise<InventoryItem> {
-    const key = getInventoryKey(input.productId, input.variantId);
-    
-    const item: InventoryItem = {
-      id: generateId(),
-      productId: input.productId,
-      variantId: input.variantId,
-      sku: input.sku,
-      quantity: input.quantity,
-      reservedQuantity: 0,
-      availableQuantity: input.quantity,
-      lowStockThreshold: input.lowStockThreshold ?? 5,
-      trackInventory: input.trackInventory ?? true,
-      allowBackorder: input.allowBackorder ?? false,
-      warehouseId: input.warehouseId,
-      location: input.location,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+  }, tx?: DbExecutor): Promise<InventoryItem> {
+    return inTransaction(tx, async (t) => {
+      const [row] = await t
+        .insert(inventoryItems)
+        .values({
+          productId: input.productId,
+          variantId: input.variantId,
+          warehouseId: await resolveWarehouseId(t, input.warehouseId),
+          sku: input.sku,
+          quantity: input.quantity,
+          lowStockThreshold: input.lowStockThreshold ?? 5,
+          trackInventory: input.trackInventory ?? true,
+          allowBackorder: input.allowBackorder ?? false,
+          location: input.location,
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      if (!row) {
+        throw new Error(`Inventory already exists for product ${input.productId}`);
+      }
 
-    inventoryItems.set(key, item);
-    
-    await this.recordMovement(item.id, "received", input.quantity, 0, input.quantity, "Initial stock");
-    await this.checkAlerts(item);
+      await insertMovement(t, {
+        inventoryItemId: row.id,
+        type: "received",
+        quantity: input.quantity,
+        previousQuantity: 0,
+        newQuantity: input.quantity,
+        reason: "Initial stock",
+      });
+      await refreshAlerts(t, row);
+      await syncProductStock(t, row.productId);
 
-    return item;
+      return toInventoryItem(row);
+    });
   },
 
   // Adjust stock (increase or decrease)
-  async adjustStock(adjustment: StockAdjustment): Promise<InventoryItem> {
-    const key = getInventoryKey(adjustment.productId, adjustment.variantId);
-    const item = inventoryItems.get(key);
+  async adjustStock(adjustment: StockAdjustment, tx?: DbExecutor): Promise<InventoryItem> {
+    return inTransaction(tx, async (t) => {
+      const item = await lockOrBootstrapItem(t, adjustment.productId, adjustment.variantId, adjustment.warehouseId);
 
-    if (!item) {
-      throw new Error(`Inventory not found for product ${adjustment.productId}`);
-    }
+      const previousQuantity = item.quantity;
+      const newQuantity = item.quantity + adjustment.quantity;
 
-    const previousQuantity = item.quantity;
-    const newQuantity = item.quantity + adjustment.quantity;
+      if (newQuantity < 0 && !item.allowBackorder) {
+        throw new InsufficientStockError(getAvailableQuantity(item), Math.abs(adjustment.quantity), item.productId);
+      }
 
-    if (newQuantity < 0 && !item.allowBackorder) {
-      throw new Error(`Insufficient stock. Available: ${item.availableQuantity}, Requested: ${Math.abs(adjustment.quantity)}`);
-    }
+      const updated = await updateItem(t, item.id, { quantity: newQuantity });
 
-    item.quantity = newQuantity;
-    item.availableQuantity = newQuantity - item.reservedQuantity;
-    item.updatedAt = new Date();
+      const movementType: StockMovementType = adjustment.quantity > 0 ? "received" : "adjusted";
+      await insertMovement(t, {
+        inventoryItemId: item.id,
+        type: movementType,
+        quantity: adjustment.quantity,
+        previousQuantity,
+        newQuantity,
+        reason: adjustment.reason,
+        referenceType: "adjustment",
+      });
+      await refreshAlerts(t, updated);
+      await syncProductStock(t, item.productId);
 
-    const movementType: StockMovementType = adjustment.quantity > 0 ? "received" : "adjusted";
-    await this.recordMovement(item.id, movementType, adjustment.quantity, previousQuantity, newQuantity, adjustment.reason);
-    await this.checkAlerts(item);
+      return toInventoryItem(updated);
+    });
+  },
 
-    return item;
+  // Set the on-hand quantity to an absolute value (stock take)
+  async setStock(input: StockAdjustment, tx?: DbExecutor): Promise<InventoryItem> {
+    return inTransaction(tx, async (t) => {
+      const item = await lockOrBootstrapItem(t, input.productId, input.variantId, input.warehouseId);
+      return this.adjustStock({ ...input, quantity: input.quantity - item.quantity }, t);
+    });
   },
 
-  // Reserve stock for an order
-  async reserveStock(input: ReserveStockInput): Promise<StockReservation> {
-    const key = getInventoryKey(input.productId, input.variantId);
-    const item = inventoryItems.get(key);
+  // Update tracking settings on all inventory rows of a product
+  async updateSettings(productId: string, settings: {
+    sku?: string;
+    lowStockThreshold?: number;
+    trackInventory?: boolean;
+    allowBackorder?: boolean;
+  }, tx?: DbExecutor): Promise<void> {
+    await (tx ?? db)
+      .update(inventoryItems)
+      .set({ ...settings, updatedAt: new Date() })
+      .where(eq(inventoryItems.productId, productId));
+  },
 
-    if (!item) {
-      throw new Error(`Inventory not found for product ${input.productId}`);
-    }
+  // Reserve stock for an order, in the given warehouse or the one chosen by the fulfilment strategy
+  async reserveStock(input: ReserveStockInput, tx?: DbExecutor): Promise<StockReservation> {
+    return inTransaction(tx, async (t) => {
+      const item = input.warehouseId
+        ? await lockOrBootstrapItem(t, input.productId, input.variantId, input.warehouseId)
+        : await lockFulfilmentSource(t, input.productId, input.variantId, input.quantity, input.country);
 
-    if (!item.trackInventory) {
-      // Return dummy reservation if not tracking
-      return {
-        id: generateId(),
-        inventoryItemId: item.id,
-        orderId: input.orderId,
-        quantity: input.quantity,
-        expiresAt: new Date(Date.now() + 30 * 60 * 1000),
-        status: "active",
-        createdAt: new Date(),
-      };
-    }
+      if (!canFulfil(item, input.quantity)) {
+        throw new InsufficientStockError(getAvailableQuantity(item), input.quantity, item.productId);
+      }
 
-    if (item.availableQuantity < input.quantity && !item.allowBackorder) {
-      throw new Error(`Insufficient stock. Available: ${item.availableQuantity}, Requested: ${input.quantity}`);
-    }
+      const [reservation] = await t
+        .insert(stockReservations)
+        .values({
+          inventoryItemId: item.id,
+          orderId: input.orderId,
+          quantity: input.quantity,
+          expiresAt: getReservationExpiry(input.expiresInMinutes),
+        })
+        .returning();
+
+      // Untracked items keep a reservation record but no counters
+      if (item.trackInventory) {
+        await updateItem(t, item.id, { reservedQuantity: item.reservedQuantity + input.quantity });
+        await insertMovement(t, {
+          inventoryItemId: item.id,
+          type: "reserved",
+          quantity: input.quantity,
+          previousQuantity: item.quantity,
+          newQuantity: item.quantity,
+          reason: `Order ${input.orderId}`,
+          referenceType: "order",
+          referenceId: input.orderId,
+        });
+      }
 
-    const reservation: StockReservation = {
-      id: generateId(),
-      inventoryItemId: item.id,
-      orderId: input.orderId,
-      quantity: input.quantity,
-      expiresAt: new Date(Date.now() + (input.expiresInMinutes ?? 30) * 60 * 1000),
-      status: "active",
-      createdAt: new Date(),
-    };
+      return toReservation(reservation, item.warehouseId);
+    });
+  },
 
-    stockReservations.set(reservation.id, reservation);
+  // Complete reservation (order confirmed/paid)
+  async completeReservation(reservationId: string, tx?: DbExecutor): Promise<void> {
+    await inTransaction(tx, async (t) => {
+      const [reservation] = await t
+        .select()
+        .from(stockReservations)
+        .where(eq(stockReservations.id, reservationId))
+        .for("update");
+
+      if (!reservation || reservation.status !== "active") {
+        throw new Error("Reservation not found or already processed");
+      }
 
-    item.reservedQuantity += input.quantity;
-    item.availableQuantity = item.quantity - item.reservedQuantity;
-    item.updatedAt = new Date();
+      const item = await lockItemById(t, reservation.inventoryItemId);
+      if (!item) {
+        throw new Error("Inventory item not found");
+      }
 
-    await this.recordMovement(item.id, "reserved", input.quantity, item.quantity, item.quantity, `Order ${input.orderId}`);
+      await t
+        .update(stockReservations)
+        .set({ status: "completed", updatedAt: new Date() })
+        .where(eq(stockReservations.id, reservationId));
 
-    return reservation;
+      if (!item.trackInventory) {
+        return;
+      }
+
+      // Deduct from actual stock
+      const newQuantity = item.quantity - reservation.quantity;
+      const updated = await updateItem(t, item.id, {
+        quantity: newQuantity,
+        reservedQuantity: item.reservedQuantity - reservation.quantity,
+      });
+
+      await insertMovement(t, {
+        inventoryItemId: item.id,
+        type: "sold",
+        quantity: -reservation.quantity,
+        previousQuantity: item.quantity,
+        newQuantity,
+        reason: `Order ${reservation.orderId}`,
+        referenceType: "order",
+        referenceId: reservation.orderId,
+      });
+      await refreshAlerts(t, updated);
+      await syncProductStock(t, item.productId);
+    });
   },
 
-  // Complete reservation (order confirmed/paid)
-  async completeReservation(reservationId: string): Promise<void> {
-    const reservation = stockReservations.get(reservationId);
-    if (!reservation || reservation.status !== "active") {
-      throw new Error("Reservation not found or already processed");
-    }
+  // Cancel reservation, returns false if it was no longer active
+  async cancelReservation(
+    reservationId: string,
+    tx?: DbExecutor,
+    status: "cancelled" | "expired" = "cancelled"
+  ): Promise<boolean> {
+    return inTransaction(tx, async (t) => {
+      const [reservation] = await t
+        .select()
+        .from(stockReservations)
+        .where(eq(stockReservations.id, reservationId))
+        .for("update");
+
+      if (!reservation || reservation.status !== "active") {
+        return false; // Already cancelled or completed
+      }
 
-    const item = Array.from(inventoryItems.values()).find(i => i.id === reservation.inventoryItemId);
-    if (!item) {
-      throw new Error("Inventory item not found");
-    }
+      await t
+        .update(stockReservations)
+        .set({ status, updatedAt: new Date() })
+        .where(eq(stockReservations.id, reservationId));
+
+      const item = await lockItemById(t, reservation.inventoryItemId);
+      if (item?.trackInventory) {
+        const updated = await updateItem(t, item.id, {
+          reservedQuantity: item.reservedQuantity - reservation.quantity,
+        });
+
+        await insertMovement(t, {
+          inventoryItemId: item.id,
+          type: "unreserved",
+          quantity: reservation.quantity,
+          previousQuantity: item.quantity,
+          newQuantity: item.quantity,
+          reason: `Order ${reservation.orderId} ${status}`,
+          referenceType: "order",
+          referenceId: reservation.orderId,
+        });
+        await refreshAlerts(t, updated);
+      }
 
-    // Deduct from actual stock
-    item.quantity -= reservation.quantity;
-    item.reservedQuantity -= reservation.quantity;
-    item.availableQuantity = item.quantity - item.reservedQuantity;
-    item.updatedAt = new Date();
+      return true;
+    });
+  },
 
-    reservation.status = "completed";
+  // Get active reservations held under an order (or checkout) reference
+  async getActiveReservations(orderId: string, tx?: DbExecutor): Promise<StockReservation[]> {
+    const rows = await (tx ?? db)
+      .select()
+      .from(stockReservations)
+      .where(and(eq(stockReservations.orderId, orderId), eq(stockReservations.status, "active")));
+    return rows.map((row) => toReservation(row));
+  },
 
-    await this.recordMovement(item.id, "sold", -reservation.quantity, item.quantity + reservation.quantity, item.quantity, `Order ${reservation.orderId}`);
-    await this.checkAlerts(item);
+  // Reserve a set of items under one reference, replacing any holds it already has.
+  // Returns one reservation per item, in input order.
+  async reserveItems(
+    orderId: string,
+    items: Array<{ productId: string; variantId?: string; quantity: number }>,
+    tx?: DbExecutor,
+    options?: { expiresInMinutes?: number; country?: string }
+  ): Promise<StockReservation[]> {
+    return inTransaction(tx, async (t) => {
+      await this.releaseReservations(orderId, t);
+
+      const reservations: StockReservation[] = [];
+      for (const item of items) {
+        reservations.push(await this.reserveStock({ ...item, ...options, orderId }, t));
+      }
+      return reservations;
+    });
   },
 
-  // Cancel reservation
-  async cancelReservation(reservationId: string): Promise<void> {
-    const reservation = stockReservations.get(reservationId);
-    if (!reservation || reservation.status !== "active") {
-      return; // Already cancelled or completed
-    }
+  // Release all active holds of a reference (payment failed, order cancelled)
+  async releaseReservations(
+    orderId: string,
+    tx?: DbExecutor,
+    status: "cancelled" | "expired" = "cancelled"
+  ): Promise<number> {
+    return inTransaction(tx, async (t) => {
+      const active = await this.getActiveReservations(orderId, t);
+
+      let released = 0;
+      for (const reservation of active) {
+        if (await this.cancelReservation(reservation.id, t, status)) {
+          released++;
+        }
+      }
+      return released;
+    });
+  },
 
-    const item = Array.from(inventoryItems.values()).find(i => i.id === reservation.inventoryItemId);
-    if (item) {
-      item.reservedQuantity -= reservation.quantity;
-      item.availableQuantity = item.quantity - item.reservedQuantity;
-      item.updatedAt = new Date();
+  // Keep the active holds of a reference until the given time, e.g. while
+  // the order's payment can still be made
+  async extendReservations(orderId: string, expiresAt: Date, tx?: DbExecutor): Promise<number> {
+    const extended = await (tx ?? db)
+      .update(stockReservations)
+      .set({ expiresAt, updatedAt: new Date() })
+      .where(and(eq(stockReservations.orderId, orderId), eq(stockReservations.status, "active")))
+      .returning({ id: stockReservations.id });
+    return extended.length;
+  },
 
-      await this.recordMovement(item.id, "unreserved", reservation.quantity, item.availableQuantity - reservation.quantity, item.availableQuantity, `Order ${reservation.orderId} cancelled`);
-    }
+  // Turn the holds of an order into sales. Items whose hold has lapsed in the
+  // meantime are deducted directly, since the customer has already paid.
+  async completeOrderReservations(orderId: string, tx?: DbExecutor): Promise<void> {
+    await inTransaction(tx, async (t) => {
+      // Stock for this order has already been committed (e.g. webhook retry)
+      const [sold] = await t
+        .select({ id: stockMovements.id })
+        .from(stockMovements)
+        .where(and(
+          eq(stockMovements.referenceType, "order"),
+          eq(stockMovements.referenceId, orderId),
+          eq(stockMovements.type, "sold")
+        ))
+        .limit(1);
+      if (sold) {
+        return;
+      }
 
-    reservation.status = "cancelled";
+      const lines = await t
+        .select({
+          id: orderItems.id,
+          productId: orderItems.productId,
+          quantity: orderItems.quantity,
+          warehouseId: orderItems.warehouseId,
+          parentItemId: orderItems.parentItemId,
+        })
+        .from(orderItems)
+        .where(eq(orderItems.orderId, orderId));
+
+      // Bundle lines hold no stock of their own; their components do
+      const bundleLineIds = new Set(lines.map((line) => line.parentItemId).filter(Boolean));
+      const items = lines.filter((line) => !bundleLineIds.has(line.id));
+
+      const active = await t
+        .select({ reservation: stockReservations, item: inventoryItems })
+        .from(stockReservations)
+        .innerJoin(inventoryItems, eq(stockReservations.inventoryItemId, inventoryItems.id))
+        .where(and(eq(stockReservations.orderId, orderId), eq(stockReservations.status, "active")));
+
+      const held = new Map<string, number>();
+      for (const { reservation, item } of active) {
+        await this.completeReservation(reservation.id, t);
+        held.set(item.productId, (held.get(item.productId) ?? 0) + reservation.quantity);
+      }
+
+      for (const item of items) {
+        if (!item.productId) continue; // Product deleted since
+        const covered = Math.min(held.get(item.productId) ?? 0, item.quantity);
+        held.set(item.productId, (held.get(item.productId) ?? 0) - covered);
+
+        if (item.quantity > covered) {
+          await this.deductStock({
+            productId: item.productId,
+            warehouseId: item.warehouseId ?? undefined,
+            quantity: item.quantity - covered,
+            orderId,
+            force: true,
+          }, t);
+        }
+      }
+    });
   },
 
-  // Process return
-  async processReturn(productId: string, variantId: string | undefined, quantity: number, orderId: string): Promise<InventoryItem> {
-    const key = getInventoryKey(productId, variantId);
-    const item = inventoryItems.get(key);
+  // Deduct stock for a sale without a prior reservation
+  async deductStock(input: {
+    productId: string;
+    variantId?: string;
+    warehouseId?: string;
+    quantity: number;
+    orderId: string;
+    force?: boolean; // Deduct even if it oversells (payment already taken)
+  }, tx?: DbExecutor): Promise<InventoryItem> {
+    return inTransaction(tx, async (t) => {
+      const item = await lockOrBootstrapItem(t, input.productId, input.variantId, input.warehouseId);
+
+      if (!item.trackInventory) {
+        return toInventoryItem(item);
+      }
 
-    if (!item) {
-      throw new Error(`Inventory not found for product ${productId}`);
-    }
+      if (!input.force && !canFulfil(item, input.quantity)) {
+        throw new InsufficientStockError(getAvailableQuantity(item), input.quantity, item.productId);
+      }
 
-    const previousQuantity = item.quantity;
-    item.quantity += quantity;
-    item.availableQuantity = item.quantity - item.reservedQuantity;
-    item.updatedAt = new Date();
+      const newQuantity = item.quantity - input.quantity;
+      const updated = await updateItem(t, item.id, { quantity: newQuantity });
 
-    await this.recordMovement(item.id, "returned", quantity, previousQuantity, item.quantity, `Return from order ${orderId}`);
+      await insertMovement(t, {
+        inventoryItemId: item.id,
+        type: "sold",
+        quantity: -input.quantity,
+        previousQuantity: item.quantity,
+        newQuantity,
+        reason: `Order ${input.orderId}`,
+        referenceType: "order",
+        referenceId: input.orderId,
+      });
+      await refreshAlerts(t, updated);
+      await syncProductStock(t, item.productId);
 
-    return item;
+      return toInventoryItem(updated);
+    });
   },
 
-  // Transfer stock between warehouses
-  async transferStock(input: TransferStockInput): Promise<void> {
-    // Implementation for multi-warehouse scenario
-    const key = getInventoryKey(input.productId, input.variantId);
-    const item = inventoryItems.get(key);
+  // Process return
+  async processReturn(
+    productId: string,
+    variantId: string | undefined,
+    quantity: number,
+    orderId: string,
+    tx?: DbExecutor,
+    warehouseId?: string
+  ): Promise<InventoryItem> {
+    return inTransaction(tx, async (t) => {
+      const item = await lockOrBootstrapItem(t, productId, variantId, warehouseId);
+
+      const newQuantity = item.quantity + quantity;
+      const updated = await updateItem(t, item.id, { quantity: newQuantity });
+
+      await insertMovement(t, {
+        inventoryItemId: item.id,
+        type: "returned",
+        quantity,
+        previousQuantity: item.quantity,
+        newQuantity,
+        reason: `Return from order ${orderId}`,
+        referenceType: "return",
+        referenceId: orderId,
+      });
+      await refreshAlerts(t, updated);
+      await syncProductStock(t, item.productId);
 
-    if (!item) {
-      throw new Error(`Inventory not found for product ${input.productId}`);
+      return toInventoryItem(updated);
+    });
+  },
+
+  // Transfer stock between warehouses, recorded as a pair of movements
+  async transferStock(input: TransferStockInput, tx?: DbExecutor): Promise<void> {
+    if (input.fromWarehouseId === input.toWarehouseId) {
+      throw new Error("Source and destination warehouse must differ");
     }
+    if (input.quantity <= 0) {
+      throw new Error("Transfer quantity must be positive");
+    }
+
+    await inTransaction(tx, async (t) => {
+      // Lock both rows in a stable order so opposite transfers cannot deadlock
+      const [firstId, secondId] = [input.fromWarehouseId, input.toWarehouseId].sort();
+      await lockItem(t, input.productId, input.variantId, firstId);
+      await lockItem(t, input.productId, input.variantId, secondId);
 
-    // For single warehouse, just record the movement
-    await this.recordMovement(
-      item.id,
-      "transferred",
-      input.quantity,
-      item.quantity,
-      item.quantity,
-      `Transfer from ${input.fromWarehouseId} to ${input.toWarehouseId}: ${input.reason || ""}`
-    );
+      const source = await lockItem(t, input.productId, input.variantId, input.fromWarehouseId);
+      if (!source) {
+        throw new Error(`No stock for product ${input.productId} in warehouse ${input.fromWarehouseId}`);
+      }
+      if (getAvailableQuantity(source) < input.quantity) {
+        throw new InsufficientStockError(getAvailableQuantity(source), input.quantity, input.productId);
+      }
+      const destination = await lockOrBootstrapItem(t, input.productId, input.variantId, input.toWarehouseId);
+
+      const transferId = crypto.randomUUID();
+      const reason = `Transfer ${input.fromWarehouseId} -> ${input.toWarehouseId}${input.reason ? `: ${input.reason}` : ""}`;
+
+      const updatedSource = await updateItem(t, source.id, { quantity: source.quantity - input.quantity });
+      const updatedDestination = await updateItem(t, destination.id, { quantity: destination.quantity + input.quantity });
+
+      await insertMovement(t, {
+        inventoryItemId: source.id,
+        type: "transferred",
+        quantity: -input.quantity,
+        previousQuantity: source.quantity,
+        newQuantity: updatedSource.quantity,
+        reason,
+        referenceType: "transfer",
+        referenceId: transferId,
+      });
+      await insertMovement(t, {
+        inventoryItemId: destination.id,
+        type: "transferred",
+        quantity: input.quantity,
+        previousQuantity: destination.quantity,
+        newQuantity: updatedDestination.quantity,
+        reason,
+        referenceType: "transfer",
+        referenceId: transferId,
+      });
+
+      await refreshAlerts(t, updatedSource);
+      await refreshAlerts(t, updatedDestination);
+    });
+  },
+
+  // Stock of a product in every warehouse
+  async getStockLevels(productId: string, variantId?: string): Promise<StockLevel[]> {
+    const rows = await db.query.inventoryItems.findMany({
+      where: itemCondition(productId, variantId),
+      with: {
+        warehouse: { columns: { id: true, name: true, code: true } },
+      },
+      orderBy: [asc(inventoryItems.createdAt)],
+    });
+
+    return rows.map((row) => ({
+      ...toInventoryItem(row),
+      warehouse: row.warehouse ?? undefined,
+    }));
   },
 
   // Check if product is in stock
   async isInStock(productId: string, variantId?: string, quantity: number = 1): Promise<boolean> {
-    const item = await this.getInventory(productId, variantId);
-    
-    if (!item || !item.trackInventory) {
+    const items = await db.query.inventoryItems.findMany({
+      where: itemCondition(productId, variantId),
+    });
+
+    if (items.length > 0) {
+      return items.some((item) => canFulfil(item, quantity));
+    }
+
+    // Not yet migrated to the ledger - fall back to the product columns
+    const product = await db.query.products.findFirst({
+      where: eq(products.id, productId),
+      columns: { trackInventory: true, allowBackorder: true, stockQuantity: true },
+    });
+
+    if (!product || !product.trackInventory) {
       return true; // Not tracked = always in stock
     }
 
-    return item.availableQuantity >= quantity || item.allowBackorder;
+    return product.stockQuantity >= quantity || product.allowBackorder;
   },
 
   // Get stock movements for an item
   async getStockMovements(inventoryItemId: string, limit: number = 50): Promise<StockMovement[]> {
-    return stockMovements
-      .filter(m => m.inventoryItemId === inventoryItemId)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
-      .slice(0, limit);
+    const rows = await db.query.stockMovements.findMany({
+      where: eq(stockMovements.inventoryItemId, inventoryItemId),
+      orderBy: [desc(stockMovements.createdAt)],
+      limit,
+    });
+    return rows.map(toMovement);
   },
 
   // Record stock movement
@@ -280,8 +888,7 @@ export const inventoryService = {
     referenceType?: StockMovement["referenceType"],
     referenceId?: string
   ): Promise<StockMovement> {
-    const movement: StockMovement = {
-      id: generateId(),
+    return insertMovement(db, {
       inventoryItemId,
       type,
       quantity,
@@ -290,74 +897,62 @@ export const inventoryService = {
       reason,
       referenceType,
       referenceId,
-      createdAt: new Date(),
-    };
-
-    stockMovements.push(movement);
-    return movement;
+    });
   },
 
   // Check and create alerts
   async checkAlerts(item: InventoryItem): Promise<void> {
-    // Remove old unacknowledged alerts for this item
-    const existingIndex = inventoryAlerts.findIndex(
-      a => a.inventoryItemId === item.id && !a.acknowledged
-    );
-    if (existingIndex !== -1) {
-      inventoryAlerts.splice(existingIndex, 1);
-    }
-
-    if (item.availableQuantity <= 0) {
-      inventoryAlerts.push({
-        id: generateId(),
-        inventoryItemId: item.id,
-        type: "out_of_stock",
-        threshold: 0,
-        currentQuantity: item.availableQuantity,
-        acknowledged: false,
-        createdAt: new Date(),
-      });
-    } else if (item.availableQuantity <= item.lowStockThreshold) {
-      inventoryAlerts.push({
-        id: generateId(),
-        inventoryItemId: item.id,
-        type: "low_stock",
-        threshold: item.lowStockThreshold,
-        currentQuantity: item.availableQuantity,
-        acknowledged: false,
-        createdAt: new Date(),
-      });
+    const row = await db.query.inventoryItems.findFirst({
+      where: eq(inventoryItems.id, item.id),
+    });
+    if (row) {
+      await refreshAlerts(db, row);
     }
   },
 
   // Get active alerts
   async getAlerts(acknowledged: boolean = false): Promise<InventoryAlert[]> {
-    return inventoryAlerts.filter(a => a.acknowledged === acknowledged);
+    const rows = await db.query.inventoryAlerts.findMany({
+      where: eq(inventoryAlerts.acknowledged, acknowledged),
+      orderBy: [desc(inventoryAlerts.createdAt)],
+    });
+    return rows.map(toAlert);
   },
 
   // Acknowledge alert
   async acknowledgeAlert(alertId: string, userId: string): Promise<void> {
-    const alert = inventoryAlerts.find(a => a.id === alertId);
-    if (alert) {
-      alert.acknowledged = true;
-      alert.acknowledgedBy = userId;
-      alert.acknowledgedAt = new Date();
-    }
+    await db
+      .update(inventoryAlerts)
+      .set({
+        acknowledged: true,
+        acknowledgedBy: userId,
+        acknowledgedAt: new Date(),
+      })
+      .where(eq(inventoryAlerts.id, alertId));
   },
 
-  // Cleanup expired reservations
-  async cleanupExpiredReservations(): Promise<number> {
-    const now = new Date();
-    let cleaned = 0;
-
-    for (const [id, reservation] of stockReservations) {
-      if (reservation.status === "active" && reservation.expiresAt < now) {
-        await this.cancelReservation(id);
-        reservation.status = "expired";
-        cleaned++;
+  // Release holds past their expiry, with the references (carts, orders)
+  // that lost one
+  async releaseExpiredReservations(): Promise<{ released: number; references: string[] }> {
+    const expired = await db
+      .select({ id: stockReservations.id, orderId: stockReservations.orderId })
+      .from(stockReservations)
+      .where(and(eq(stockReservations.status, "active"), lt(stockReservations.expiresAt, new Date())));
+
+    let released = 0;
+    const references = new Set<string>();
+    for (const reservation of expired) {
+      if (await this.cancelReservation(reservation.id, undefined, "expired")) {
+        released++;
+        references.add(reservation.orderId);
       }
     }
 
-    return cleaned;
+    return { released, references: [...references] };
+  },
+
+  // Cleanup expired reservations
+  async cleanupExpiredReservations(): Promise<number> {
+    return (await this.releaseExpiredReservations()).released;
   },
 };
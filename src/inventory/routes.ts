@@ -2,6 +2,7 @@
 // src/inventory/routes.ts
 
 import { Hono } from "hono";
+import { releaseExpiredHolds } from "@/payments";
 import { inventoryService } from "./inventory-service.js";
 
 export const inventoryRoutes = new Hono();
@@ -190,6 +191,7 @@ inventoryRoutes.post("/alerts/:id/acknowledge", async (c) => {
 
 // Cleanup expired reservations (should be called by cron job)
 inventoryRoutes.post("/maintenance/cleanup-reservations", async (c) => {
-  const cleaned = await inventoryService.cleanupExpiredReservations();
-  return c.json({ cleaned });
+  // Also closes the payments of orders that lost their holds
+  const { released, cancelled } = await releaseExpiredHolds();
+  return c.json({ cleaned: released, cancelledOrders: cancelled });
 });
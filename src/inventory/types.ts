@@ -50,6 +50,7 @@ export interface StockReservation {
   quantity: number;
   expiresAt: Date;
   status: "active" | "completed" | "cancelled" | "expired";
+  warehouseId?: string;
   createdAt: Date;
 }
 
@@ -63,6 +64,7 @@ export interface Warehouse {
     postalCode: string;
     country: string;
   };
+  priority: number;
   isDefault: boolean;
   isActive: boolean;
   createdAt: Date;
@@ -84,6 +86,7 @@ export interface InventoryAlert {
 export interface StockAdjustment {
   productId: string;
   variantId?: string;
+  warehouseId?: string;
   quantity: number;
   reason: string;
 }
@@ -94,6 +97,8 @@ export interface ReserveStockInput {
   quantity: number;
   orderId: string;
   expiresInMinutes?: number;
+  warehouseId?: string; // Otherwise chosen by the fulfilment strategy
+  country?: string;     // Shipping destination, for the "closest" strategy
 }
 
 export interface TransferStockInput {
@@ -104,3 +109,38 @@ export interface TransferStockInput {
   toWarehouseId: string;
   reason?: string;
 }
+
+export type FulfilmentStrategy = "priority" | "closest";
+
+// A warehouse holding stock for an order line
+export interface FulfilmentCandidate {
+  warehouseId: string | null;
+  country?: string;
+  priority: number;
+  isDefault: boolean;
+  quantity: number;
+  reservedQuantity: number;
+  trackInventory: boolean;
+  allowBackorder: boolean;
+}
+
+export interface StockLevel extends InventoryItem {
+  warehouse?: Pick<Warehouse, "id" | "name" | "code">;
+}
+
+export interface PickingListItem {
+  orderId: string;
+  orderNumber: string;
+  orderItemId: string;
+  productId: string | null;
+  sku: string;
+  name: string;
+  quantity: number;
+  location?: string;
+}
+
+export interface PickingList {
+  warehouse: Pick<Warehouse, "id" | "name" | "code">;
+  generatedAt: Date;
+  items: PickingListItem[];
+}
@@ -0,0 +1,70 @@
+// Inventory Utilities
+// src/inventory/utils.ts
+
+import type { InventoryItem, InventoryAlert } from "./types.js";
+
+// Default lifetime of a stock reservation
+export const DEFAULT_RESERVATION_MINUTES = 30;
+
+type StockLevel = Pick<InventoryItem, "quantity" | "reservedQuantity">;
+
+/**
+ * Quantity that can still be sold (on hand minus active reservations)
+ */
+export function getAvailableQuantity(item: StockLevel): number {
+  return item.quantity - item.reservedQuantity;
+}
+
+/**
+ * Check whether an item can cover the requested quantity
+ */
+export function canFulfil(
+  item: StockLevel & Pick<InventoryItem, "trackInventory" | "allowBackorder">,
+  quantity: number
+): boolean {
+  if (!item.trackInventory || item.allowBackorder) {
+    return true;
+  }
+  return getAvailableQuantity(item) >= quantity;
+}
+
+/**
+ * Determine which alert (if any) the current stock level should raise
+ */
+export function evaluateAlert(
+  item: StockLevel & Pick<InventoryItem, "lowStockThreshold">
+): Pick<InventoryAlert, "type" | "threshold" | "currentQuantity"> | null {
+  const available = getAvailableQuantity(item);
+
+  if (available <= 0) {
+    return { type: "out_of_stock", threshold: 0, currentQuantity: available };
+  }
+  if (available <= item.lowStockThreshold) {
+    return { type: "low_stock", threshold: item.lowStockThreshold, currentQuantity: available };
+  }
+  return null;
+}
+
+/**
+ * Calculate when a reservation created now should expire
+ */
+export function getReservationExpiry(
+  minutes: number = DEFAULT_RESERVATION_MINUTES,
+  now: Date = new Date()
+): Date {
+  return new Date(now.getTime() + minutes * 60 * 1000);
+}
+
+/**
+ * Thrown when a stock operation would oversell an item
+ */
+export class InsufficientStockError extends Error {
+  constructor(
+    public readonly available: number,
+    public readonly requested: number,
+    public readonly productId?: string
+  ) {
+    super(`Insufficient stock. Available: ${available}, Requested: ${requested}`);
+    this.name = "InsufficientStockError";
+  }
+}
@@ -0,0 +1,225 @@
+// Warehouse Service
+// src/inventory/warehouse-service.ts
+
+import { eq, and, asc, ne, inArray, isNull, sql } from "drizzle-orm";
+import { db } from "@/db";
+import { warehouses, inventoryItems, orders, orderItems, shipments, shipmentItems } from "@/db/schema";
+import type { Warehouse, PickingList } from "./types.js";
+
+type WarehouseRow = typeof warehouses.$inferSelect;
+
+export interface WarehouseInput {
+  name: string;
+  code: string;
+  address?: Warehouse["address"];
+  priority?: number;
+  isDefault?: boolean;
+  isActive?: boolean;
+}
+
+function toWarehouse(row: WarehouseRow): Warehouse {
+  return {
+    id: row.id,
+    name: row.name,
+    code: row.code,
+    address: (row.address as Warehouse["address"]) ?? undefined,
+    priority: row.priority,
+    isDefault: row.isDefault,
+    isActive: row.isActive,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+export const warehouseService = {
+  /**
+   * List warehouses, preferred fulfilment source first
+   */
+  async list(options?: { activeOnly?: boolean }): Promise<Warehouse[]> {
+    const rows = await db.query.warehouses.findMany({
+      where: options?.activeOnly ? eq(warehouses.isActive, true) : undefined,
+      orderBy: [asc(warehouses.priority), asc(warehouses.name)],
+    });
+    return rows.map(toWarehouse);
+  },
+
+  /**
+   * Get warehouse by ID
+   */
+  async getById(id: string): Promise<Warehouse | null> {
+    const row = await db.query.warehouses.findFirst({
+      where: eq(warehouses.id, id),
+    });
+    return row ? toWarehouse(row) : null;
+  },
+
+  /**
+   * Create a warehouse. The first warehouse becomes the default and takes
+   * over all stock that was not assigned to a warehouse yet.
+   */
+  async create(input: WarehouseInput): Promise<Warehouse> {
+    return db.transaction(async (tx) => {
+      const [existingDefault] = await tx
+        .select({ id: warehouses.id })
+        .from(warehouses)
+        .where(eq(warehouses.isDefault, true))
+        .limit(1);
+
+      const isDefault = input.isDefault || !existingDefault;
+      if (isDefault && existingDefault) {
+        await tx.update(warehouses).set({ isDefault: false, updatedAt: new Date() });
+      }
+
+      const [row] = await tx
+        .insert(warehouses)
+        .values({
+          name: input.name,
+          code: input.code.toUpperCase(),
+          address: input.address,
+          priority: input.priority ?? 0,
+          isDefault,
+          isActive: isDefault ? true : input.isActive ?? true,
+        })
+        .returning();
+
+      if (!existingDefault) {
+        await tx
+          .update(inventoryItems)
+          .set({ warehouseId: row.id, updatedAt: new Date() })
+          .where(isNull(inventoryItems.warehouseId));
+      }
+
+      return toWarehouse(row);
+    });
+  },
+
+  /**
+   * Update a warehouse
+   */
+  async update(id: string, input: Partial<WarehouseInput>): Promise<Warehouse> {
+    return db.transaction(async (tx) => {
+      const existing = await tx.query.warehouses.findFirst({
+        where: eq(warehouses.id, id),
+      });
+      if (!existing) {
+        throw new Error("Warehouse not found");
+      }
+
+      if (existing.isDefault && (input.isDefault === false || input.isActive === false)) {
+        throw new Error("Mark another warehouse as default first");
+      }
+      if (input.isDefault) {
+        await tx
+          .update(warehouses)
+          .set({ isDefault: false, updatedAt: new Date() })
+          .where(ne(warehouses.id, id));
+      }
+
+      const [row] = await tx
+        .update(warehouses)
+        .set({
+          ...input,
+          code: input.code?.toUpperCase(),
+          updatedAt: new Date(),
+        })
+        .where(eq(warehouses.id, id))
+        .returning();
+
+      return toWarehouse(row);
+    });
+  },
+
+  /**
+   * Delete an empty warehouse. Warehouses that still hold stock or were used
+   * for orders have to be deactivated instead.
+   */
+  async delete(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const existing = await tx.query.warehouses.findFirst({
+        where: eq(warehouses.id, id),
+      });
+      if (!existing) {
+        throw new Error("Warehouse not found");
+      }
+      if (existing.isDefault) {
+        throw new Error("The default warehouse cannot be deleted");
+      }
+
+      const [stock] = await tx
+        .select({
+          quantity: sql<number>`COALESCE(SUM(ABS(${inventoryItems.quantity}) + ${inventoryItems.reservedQuantity}), 0)::int`,
+        })
+        .from(inventoryItems)
+        .where(eq(inventoryItems.warehouseId, id));
+      if (stock.quantity > 0) {
+        throw new Error("Warehouse still holds stock; transfer it first");
+      }
+
+      const [usedByOrder] = await tx
+        .select({ id: orderItems.id })
+        .from(orderItems)
+        .where(eq(orderItems.warehouseId, id))
+        .limit(1);
+      if (usedByOrder) {
+        throw new Error("Warehouse has orders; deactivate it instead");
+      }
+
+      await tx.delete(inventoryItems).where(eq(inventoryItems.warehouseId, id));
+      await tx.delete(warehouses).where(eq(warehouses.id, id));
+    });
+  },
+
+  /**
+   * Open order lines to be picked from a warehouse, sorted by bin location
+   */
+  async getPickingList(warehouseId: string, options?: { includeUnpaid?: boolean }): Promise<PickingList> {
+    const warehouse = await this.getById(warehouseId);
+    if (!warehouse) {
+      throw new Error("Warehouse not found");
+    }
+
+    const conditions = [
+      eq(orderItems.warehouseId, warehouseId),
+      ne(orders.status, "cancelled"),
+      inArray(orders.fulfillmentStatus, ["unfulfilled", "partially_shipped"]),
+    ];
+    if (!options?.includeUnpaid) {
+      conditions.push(eq(orders.paymentStatus, "paid"));
+    }
+
+    const rows = await db
+      .select({
+        orderId: orders.id,
+        orderNumber: orders.orderNumber,
+        orderItemId: orderItems.id,
+        productId: orderItems.productId,
+        sku: orderItems.sku,
+        name: orderItems.name,
+        quantity: orderItems.quantity,
+        shipped: sql<number>`coalesce((
+          select sum(${shipmentItems.quantity}) from ${shipmentItems}
+          inner join ${shipments} on ${shipments.id} = ${shipmentItems.shipmentId}
+          where ${shipmentItems.orderItemId} = ${orderItems.id} and ${shipments.status} <> 'cancelled'
+        ), 0)`.mapWith(Number),
+        location: inventoryItems.location,
+      })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .leftJoin(inventoryItems, and(
+        eq(inventoryItems.productId, orderItems.productId),
+        eq(inventoryItems.warehouseId, orderItems.warehouseId),
+        isNull(inventoryItems.variantId)
+      ))
+      .where(and(...conditions))
+      .orderBy(asc(inventoryItems.location), asc(orderItems.sku), asc(orders.orderNumber));
+
+    return {
+      warehouse: { id: warehouse.id, name: warehouse.name, code: warehouse.code },
+      generatedAt: new Date(),
+      // Only what has not left with an earlier shipment
+      items: rows
+        .filter((row) => row.quantity > row.shipped)
+        .map(({ shipped, ...row }) => ({ ...row, quantity: row.quantity - shipped, location: row.location ?? undefined })),
+    };
+  },
+};
@@ -0,0 +1,17 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Invoice links in emails and on the order confirmation page carry a token
+// bound to the order and its email, so guests can download without an account
+function sign(orderId: string, email: string, secret: string): Buffer {
+  return createHmac("sha256", secret).update(`invoice:${orderId}:${email.toLowerCase()}`).digest();
+}
+
+export function createInvoiceToken(orderId: string, email: string, secret: string): string {
+  return sign(orderId, email, secret).toString("base64url");
+}
+
+export function verifyInvoiceToken(token: string, orderId: string, email: string, secret: string): boolean {
+  const expected = sign(orderId, email, secret);
+  const given = Buffer.from(token, "base64url");
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
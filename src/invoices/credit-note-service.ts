@@ -0,0 +1,201 @@
+import { eq, and, desc, sql } from "drizzle-orm";
+import { db, type DbExecutor } from "@/db";
+import { orders, orderItems, invoices, creditNotes, refunds } from "@/db/schema";
+import { storageService } from "@/storage";
+import { sequenceService } from "@/sequences";
+import { calculateRefund, scaleRefund } from "@/orders/refunds";
+import type { RefundCalculation } from "@/orders/types";
+import type { VatTreatment } from "@/tax/types";
+import { logger } from "@/config/logger";
+import { generateInvoicePdf } from "./pdf-generator.js";
+import { invoiceService } from "./invoice-service.js";
+import { EInvoiceError, generateEInvoice } from "./e-invoice.js";
+import {
+  CreditNoteError,
+  buildCreditNoteSnapshot,
+  creditNoteToInvoiceData,
+  type CreditNoteSnapshot,
+} from "./credit-notes.js";
+
+type CreditNote = typeof creditNotes.$inferSelect;
+
+const REFUND_METHODS: Record<string, string> = {
+  stripe: "Rückzahlung auf das ursprüngliche Zahlungsmittel",
+  paypal: "Rückzahlung auf Ihr PayPal-Konto",
+  gift_card: "Gutschein",
+};
+
+function inTransaction<T>(executor: DbExecutor | undefined, fn: (tx: DbExecutor) => Promise<T>): Promise<T> {
+  return (executor ?? db).transaction(fn);
+}
+
+async function insertCreditNote(
+  orderId: string,
+  invoice: typeof invoices.$inferSelect | undefined,
+  calculation: RefundCalculation,
+  options: { reason: string; itemised?: boolean },
+  tx: DbExecutor
+): Promise<CreditNote> {
+  const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+  const [creditNote] = await tx.insert(creditNotes).values({
+    orderId,
+    invoiceId: invoice?.id,
+    creditNoteNumber: await sequenceService.next("credit_note", tx),
+    reason: options.reason,
+    subtotal: calculation.total - calculation.taxTotal,
+    taxTotal: calculation.taxTotal,
+    total: calculation.total,
+    taxLines: calculation.taxLines,
+    data: buildCreditNoteSnapshot(calculation, items, { invoice, itemised: options.itemised }),
+  }).returning();
+  return creditNote;
+}
+
+export const creditNoteService = {
+  /**
+   * Issue a credit note for a refund, correcting the order's final invoice
+   */
+  async create(
+    orderId: string,
+    calculation: RefundCalculation,
+    options: { reason: string; itemised?: boolean },
+    tx?: DbExecutor
+  ): Promise<CreditNote> {
+    return inTransaction(tx, async (t) => {
+      const invoice = await t.query.invoices.findFirst({
+        where: and(eq(invoices.orderId, orderId), eq(invoices.status, "final")),
+        orderBy: desc(invoices.createdAt),
+      });
+      return insertCreditNote(orderId, invoice, calculation, options, t);
+    });
+  },
+
+  /**
+   * Cancel a final invoice (Storno). Final invoices cannot be edited; a
+   * credit note over what is still open on it reverses it instead.
+   */
+  async cancelInvoice(
+    invoiceId: string,
+    options: { reason?: string } = {},
+    tx?: DbExecutor
+  ): Promise<{ invoice: typeof invoices.$inferSelect; creditNote: CreditNote }> {
+    return inTransaction(tx, async (t) => {
+      const [invoice] = await t.select().from(invoices).where(eq(invoices.id, invoiceId)).for("update");
+      if (!invoice) {
+        throw new Error("Invoice not found");
+      }
+      if (invoice.status !== "final") {
+        throw new CreditNoteError(`Cannot cancel a ${invoice.status} invoice`);
+      }
+
+      const order = await t.query.orders.findFirst({ where: eq(orders.id, invoice.orderId) });
+      if (!order) {
+        throw new Error("Order not found");
+      }
+      const items = await t.select().from(orderItems).where(eq(orderItems.orderId, order.id));
+      const full = calculateRefund(
+        items,
+        items.filter((item) => !item.parentItemId).map((item) => ({ orderItemId: item.id, quantity: item.quantity })),
+        { discountTotal: order.discountTotal, shipping: { total: order.shippingTotal, tax: order.shippingTax } }
+      );
+
+      // Refunds already credited against the invoice are not reversed twice
+      const [{ credited }] = await t
+        .select({ credited: sql<number>`coalesce(sum(${creditNotes.total}), 0)`.mapWith(Number) })
+        .from(creditNotes)
+        .where(eq(creditNotes.invoiceId, invoiceId));
+      const open = full.total - credited;
+      if (open <= 0) {
+        throw new CreditNoteError("The invoice has been credited in full");
+      }
+
+      const creditNote = await insertCreditNote(order.id, invoice, scaleRefund(full, open), {
+        reason: options.reason ?? `Storno der Rechnung ${invoice.invoiceNumber}`,
+      }, t);
+      const [cancelled] = await t.update(invoices)
+        .set({ status: "cancelled", updatedAt: new Date() })
+        .where(eq(invoices.id, invoiceId))
+        .returning();
+      return { invoice: cancelled, creditNote };
+    });
+  },
+
+  /**
+   * Render a credit note in the invoice layout ("Gutschrift"), as
+   * ZUGFeRD for customers who receive their invoices that way
+   */
+  async renderPdf(creditNoteId: string): Promise<{ creditNote: CreditNote; pdf: Buffer }> {
+    const creditNote = await db.query.creditNotes.findFirst({ where: eq(creditNotes.id, creditNoteId) });
+    if (!creditNote) {
+      throw new Error("Credit note not found");
+    }
+    const order = await db.query.orders.findFirst({ where: eq(orders.id, creditNote.orderId) });
+    if (!order) {
+      throw new Error("Order not found");
+    }
+    const refund = await db.query.refunds.findFirst({ where: eq(refunds.creditNoteId, creditNoteId) });
+    const { format, buyerReference } = await invoiceService.eInvoiceFor(order);
+
+    const data = creditNoteToInvoiceData({
+      creditNote: {
+        ...creditNote,
+        taxLines: creditNote.taxLines as Array<{ rate: number; net: number; tax: number }>,
+        data: creditNote.data as CreditNoteSnapshot,
+      },
+      order: {
+        ...order,
+        billingAddress: order.billingAddress as Record<string, unknown>,
+        vatTreatment: order.vatTreatment as VatTreatment,
+      },
+      refundMethod: refund ? REFUND_METHODS[refund.provider] : undefined,
+      buyerReference,
+    });
+
+    let eInvoiceXml: string | undefined;
+    if (format === "zugferd") {
+      try {
+        eInvoiceXml = generateEInvoice(data, format, { currency: order.currency }).xml;
+      } catch (err) {
+        if (!(err instanceof EInvoiceError)) throw err;
+        logger.warn({ creditNoteId, violations: err.violations }, "Credit note issued without ZUGFeRD data");
+      }
+    }
+    const pdf = await generateInvoicePdf(data, { currency: order.currency, eInvoiceXml });
+    return { creditNote, pdf };
+  },
+
+  /**
+   * Download link of the credit note PDF, rendered and stored on first use
+   */
+  async getPdfUrl(creditNoteId: string): Promise<string> {
+    const existing = await db.query.creditNotes.findFirst({ where: eq(creditNotes.id, creditNoteId) });
+    if (!existing) {
+      throw new Error("Credit note not found");
+    }
+
+    const key = `credit-notes/${existing.creditNoteNumber}.pdf`;
+    if (!existing.pdfUrl) {
+      const { pdf } = await this.renderPdf(creditNoteId);
+      const upload = await storageService.upload(key, pdf, {
+        contentType: "application/pdf",
+        acl: "private",
+        cacheControl: "private, no-store",
+      });
+      await db.update(creditNotes)
+        .set({ pdfUrl: upload.url, pdfGeneratedAt: new Date(), updatedAt: new Date() })
+        .where(eq(creditNotes.id, creditNoteId));
+    }
+    return storageService.getDownloadUrl(key, 900);
+  },
+
+  async getById(creditNoteId: string, executor: DbExecutor = db): Promise<CreditNote | undefined> {
+    return executor.query.creditNotes.findFirst({ where: eq(creditNotes.id, creditNoteId) });
+  },
+
+  async listForOrder(orderId: string, executor: DbExecutor = db): Promise<CreditNote[]> {
+    return executor.query.creditNotes.findMany({
+      where: eq(creditNotes.orderId, orderId),
+      orderBy: desc(creditNotes.createdAt),
+    });
+  },
+};
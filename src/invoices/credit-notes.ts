@@ -0,0 +1,144 @@
+import { type InvoiceData } from "./types";
+import { DEFAULT_SELLER, toInvoiceBuyer } from "./order-mapper";
+import { getVatTreatmentNote } from "../tax/vat";
+import type { VatTreatment } from "../tax/types";
+import type { RefundCalculation } from "../orders/types";
+
+export class CreditNoteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CreditNoteError";
+  }
+}
+
+// A credited line as printed on the credit note
+export interface CreditNoteLine {
+  orderItemId?: string; // Not set for amounts credited without items (goodwill)
+  description: string;
+  sku?: string;
+  quantity: number;
+  amount: number; // Gross, in cents
+  taxAmount: number;
+  taxRate: number; // Basis points
+}
+
+// Snapshot stored in creditNotes.data
+export interface CreditNoteSnapshot {
+  invoiceNumber?: string;
+  invoiceDate?: string;
+  lines: CreditNoteLine[];
+  shipping: RefundCalculation["shipping"];
+}
+
+/**
+ * Snapshot of a refund for its credit note, with the item names as ordered.
+ * Refunds not tied to items (goodwill) are credited per tax rate.
+ */
+export function buildCreditNoteSnapshot(
+  calculation: RefundCalculation,
+  items: Array<{ id: string; name: string; sku?: string | null }>,
+  options: { invoice?: { invoiceNumber: string; createdAt: Date | string } | null; itemised?: boolean } = {}
+): CreditNoteSnapshot {
+  const { invoice, itemised = true } = options;
+  const lines: CreditNoteLine[] = itemised
+    ? calculation.lines.map((line) => {
+        const item = items.find((orderItem) => orderItem.id === line.orderItemId);
+        return { ...line, description: item?.name ?? "Artikel", sku: item?.sku ?? undefined };
+      })
+    : calculation.taxLines.map((line) => ({
+        description: `Gutschrift (${line.rate / 100} % MwSt.)`,
+        quantity: 1,
+        amount: line.net + line.tax,
+        taxAmount: line.tax,
+        taxRate: line.rate,
+      }));
+
+  return {
+    invoiceNumber: invoice?.invoiceNumber,
+    invoiceDate: invoice ? new Date(invoice.createdAt).toISOString() : undefined,
+    lines,
+    shipping: itemised ? calculation.shipping : null,
+  };
+}
+
+export interface CreditNoteToInvoiceParams {
+  creditNote: {
+    creditNoteNumber: string;
+    createdAt: Date | string;
+    reason?: string | null;
+    subtotal: number;
+    taxTotal: number;
+    total: number;
+    taxLines: Array<{ rate: number; net: number; tax: number }>;
+    data: CreditNoteSnapshot;
+  };
+  order: {
+    orderNumber: string;
+    createdAt: Date | string;
+    email: string;
+    billingAddress: Record<string, unknown>;
+    customerVatId?: string | null;
+    vatTreatment?: VatTreatment;
+    taxCountry?: string | null;
+  };
+  refundMethod?: string; // How the amount is paid back
+  buyerReference?: string;
+  seller?: typeof DEFAULT_SELLER;
+}
+
+/**
+ * Credit note in the invoice layout: positive amounts, credited to the buyer
+ */
+export function creditNoteToInvoiceData(params: CreditNoteToInvoiceParams): InvoiceData {
+  const { creditNote, order, refundMethod, buyerReference, seller } = params;
+  const { data } = creditNote;
+
+  const items = data.lines.map((line) => ({
+    description: line.description,
+    sku: line.sku,
+    quantity: line.quantity,
+    unitPrice: Math.round((line.amount - line.taxAmount) / line.quantity),
+    taxRate: line.taxRate / 100,
+    totalNet: line.amount - line.taxAmount,
+    totalGross: line.amount,
+  }));
+  const shippingNet = data.shipping ? data.shipping.amount - data.shipping.taxAmount : 0;
+
+  return {
+    documentType: "credit_note",
+    correctedInvoice: data.invoiceNumber
+      ? { invoiceNumber: data.invoiceNumber, invoiceDate: data.invoiceDate }
+      : undefined,
+    invoiceNumber: creditNote.creditNoteNumber,
+    invoiceDate: creditNote.createdAt,
+    orderNumber: order.orderNumber,
+    orderDate: order.createdAt,
+    buyerReference,
+    seller: seller || DEFAULT_SELLER,
+    buyer: toInvoiceBuyer(order.billingAddress, order.email, order.customerVatId),
+    items,
+    subtotalNet: items.reduce((sum, item) => sum + item.totalNet, 0),
+    subtotalGross: items.reduce((sum, item) => sum + item.totalGross, 0),
+    shippingNet,
+    shippingGross: data.shipping?.amount ?? 0,
+    shippingTaxRate: (data.shipping?.taxRate ?? 0) / 100,
+    taxBreakdown: creditNote.taxLines.map((line) => ({
+      rate: line.rate / 100,
+      netAmount: line.net,
+      taxAmount: line.tax,
+    })),
+    totalNet: creditNote.subtotal,
+    totalTax: creditNote.taxTotal,
+    totalGross: creditNote.total,
+    paymentMethod: refundMethod ?? "Erstattung",
+    paymentStatus: "refunded",
+    vatTreatment: order.vatTreatment,
+    taxNote: order.vatTreatment
+      ? getVatTreatmentNote(order.vatTreatment, {
+          buyerVatId: order.customerVatId,
+          destinationCountry: order.taxCountry ?? undefined,
+        }) ?? undefined
+      : undefined,
+    notes: creditNote.reason ?? undefined,
+  };
+}
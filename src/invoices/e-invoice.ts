@@ -0,0 +1,715 @@
+import { type InvoiceData } from "./types";
+
+// XRechnung (public sector, Leitweg-ID) in either syntax, or ZUGFeRD /
+// Factur-X: CII embedded into the PDF
+export type EInvoiceFormat = "xrechnung-cii" | "xrechnung-ubl" | "zugferd";
+
+export class EInvoiceError extends Error {
+  constructor(message: string, public readonly violations: string[] = []) {
+    super(message);
+    this.name = "EInvoiceError";
+  }
+}
+
+export const XRECHNUNG_CUSTOMIZATION_ID =
+  "urn:cen.eu:en16931:2017#compliant#urn:xeinkauf.de:kosit:xrechnung_3.0";
+export const EN16931_CUSTOMIZATION_ID = "urn:cen.eu:en16931:2017";
+export const PEPPOL_PROFILE_ID = "urn:fdc:peppol.eu:2017:poacc:billing:01:1.0";
+
+// Attachment name the ZUGFeRD 2.x / Factur-X standard prescribes
+export const FACTURX_FILENAME = "factur-x.xml";
+
+const COUNTRY_CODES: Record<string, string> = {
+  deutschland: "DE",
+  germany: "DE",
+  oesterreich: "AT",
+  österreich: "AT",
+  austria: "AT",
+  schweiz: "CH",
+  switzerland: "CH",
+  frankreich: "FR",
+  france: "FR",
+  niederlande: "NL",
+  netherlands: "NL",
+  belgien: "BE",
+  belgium: "BE",
+  italien: "IT",
+  italy: "IT",
+  spanien: "ES",
+  spain: "ES",
+  polen: "PL",
+  poland: "PL",
+};
+
+/**
+ * ISO 3166-1 alpha-2 code of an address country, which is stored either
+ * as a code or as a name
+ */
+export function toCountryCode(country: string | undefined): string | undefined {
+  const value = country?.trim();
+  if (!value) return undefined;
+  if (/^[A-Za-z]{2}$/.test(value)) return value.toUpperCase();
+  return COUNTRY_CODES[value.toLowerCase()];
+}
+
+/**
+ * E-invoice format of a customer. metadata.eInvoiceFormat overrides
+ * ("none" opts out); a Leitweg-ID means a public-sector buyer who needs
+ * XRechnung (CII unless metadata.eInvoiceSyntax is "ubl"); business
+ * customers with a VAT ID get ZUGFeRD.
+ */
+export function resolveEInvoiceFormat(customer: {
+  vatId?: string | null;
+  metadata?: unknown;
+}): EInvoiceFormat | null {
+  const metadata = (customer.metadata && typeof customer.metadata === "object"
+    ? customer.metadata
+    : {}) as Record<string, unknown>;
+
+  const override = metadata.eInvoiceFormat;
+  if (override === "none") return null;
+  if (override === "xrechnung-cii" || override === "xrechnung-ubl" || override === "zugferd") {
+    return override;
+  }
+
+  if (typeof metadata.leitwegId === "string" && metadata.leitwegId.trim()) {
+    return metadata.eInvoiceSyntax === "ubl" ? "xrechnung-ubl" : "xrechnung-cii";
+  }
+  return customer.vatId ? "zugferd" : null;
+}
+
+// Buyer reference (BT-10) of a customer: the Leitweg-ID where there is one
+export function buyerReferenceOf(metadata: unknown): string | undefined {
+  if (!metadata || typeof metadata !== "object") return undefined;
+  const { leitwegId, buyerReference } = metadata as Record<string, unknown>;
+  if (typeof leitwegId === "string" && leitwegId.trim()) return leitwegId.trim();
+  return typeof buyerReference === "string" && buyerReference.trim() ? buyerReference.trim() : undefined;
+}
+
+// ============================================================================
+// EN 16931 model
+// ============================================================================
+
+interface TaxCategory {
+  code: "S" | "Z" | "E" | "K" | "G"; // UNTDID 5305
+  rate: number; // Percent
+  exemptionReasonCode?: string;
+  exemptionReason?: string;
+}
+
+interface ModelLine {
+  id: string;
+  name: string;
+  sku?: string;
+  quantity: number;
+  netAmount: number; // Cents
+  unitPrice: string;
+  tax: TaxCategory;
+}
+
+interface ModelAllowanceCharge {
+  charge: boolean;
+  reason: string;
+  reasonCode: string; // UNTDID 5189 (allowances) / 7161 (charges)
+  amount: number;
+  tax: TaxCategory;
+}
+
+interface ModelTax extends TaxCategory {
+  basis: number;
+  amount: number;
+}
+
+export interface EInvoiceModel {
+  data: InvoiceData;
+  typeCode: "380" | "381"; // Commercial invoice / credit note
+  currency: string;
+  sellerCountry?: string;
+  buyerCountry?: string;
+  lines: ModelLine[];
+  allowanceCharges: ModelAllowanceCharge[];
+  taxes: ModelTax[];
+  totals: {
+    lineNet: number;
+    allowances: number;
+    charges: number;
+    taxBasis: number;
+    tax: number;
+    gross: number;
+    prepaid: number;
+    payable: number;
+  };
+}
+
+function taxCategory(data: InvoiceData, rate: number): TaxCategory {
+  switch (data.vatTreatment) {
+    case "reverse_charge":
+      return {
+        code: "K",
+        rate: 0,
+        exemptionReasonCode: "VATEX-EU-IC",
+        exemptionReason: data.taxNote ?? "Intra-community supply",
+      };
+    case "export":
+      return {
+        code: "G",
+        rate: 0,
+        exemptionReasonCode: "VATEX-EU-G",
+        exemptionReason: data.taxNote ?? "Export outside the EU",
+      };
+    case "exempt":
+      return { code: "E", rate: 0, exemptionReason: data.taxNote ?? "Steuerbefreit" };
+    default:
+      return rate === 0 ? { code: "Z", rate: 0 } : { code: "S", rate };
+  }
+}
+
+const taxKey = (tax: TaxCategory) => `${tax.code}:${tax.rate}`;
+
+function unitPrice(netAmount: number, quantity: number): string {
+  const cents = netAmount / quantity;
+  return Number.isInteger(cents) ? (cents / 100).toFixed(2) : (cents / 100).toFixed(4);
+}
+
+/**
+ * EN 16931 view of an invoice. Bundle components are priced on their
+ * bundle line and left out, shipping becomes a document level charge and
+ * the order discount an allowance per tax rate, split by the gross amount
+ * ordered at each rate. VAT is calculated per category from the net basis.
+ */
+export function buildEInvoiceModel(data: InvoiceData, currency = "EUR"): EInvoiceModel {
+  const lines: ModelLine[] = data.items
+    .filter((item) => !item.bundleComponent)
+    .map((item, index) => ({
+      id: String(index + 1),
+      name: item.description,
+      sku: item.sku,
+      quantity: item.quantity,
+      netAmount: item.totalNet,
+      unitPrice: unitPrice(item.totalNet, item.quantity),
+      tax: taxCategory(data, item.taxRate),
+    }));
+
+  const allowanceCharges: ModelAllowanceCharge[] = [];
+
+  if (data.discount && data.discount > 0) {
+    const grossByRate = new Map<number, number>();
+    for (const item of data.items.filter((entry) => !entry.bundleComponent)) {
+      grossByRate.set(item.taxRate, (grossByRate.get(item.taxRate) ?? 0) + item.totalGross);
+    }
+    const gross = [...grossByRate.values()].reduce((sum, value) => sum + value, 0);
+    const rates = [...grossByRate.keys()];
+
+    let remaining = data.discount;
+    rates.forEach((rate, index) => {
+      const share = index === rates.length - 1
+        ? remaining
+        : Math.round(data.discount! * (grossByRate.get(rate)! / gross));
+      remaining -= share;
+      const tax = taxCategory(data, rate);
+      allowanceCharges.push({
+        charge: false,
+        reason: data.discountDescription ?? "Rabatt",
+        reasonCode: "95",
+        amount: tax.code === "S" ? Math.round((share * 100) / (100 + rate)) : share,
+        tax,
+      });
+    });
+  }
+
+  if (data.shippingNet > 0) {
+    allowanceCharges.push({
+      charge: true,
+      reason: "Versand",
+      reasonCode: "FC",
+      amount: data.shippingNet,
+      tax: taxCategory(data, data.shippingTaxRate),
+    });
+  }
+
+  const taxMap = new Map<string, ModelTax>();
+  const addToBasis = (tax: TaxCategory, amount: number) => {
+    const existing = taxMap.get(taxKey(tax)) ?? { ...tax, basis: 0, amount: 0 };
+    existing.basis += amount;
+    taxMap.set(taxKey(tax), existing);
+  };
+  for (const line of lines) addToBasis(line.tax, line.netAmount);
+  for (const entry of allowanceCharges) addToBasis(entry.tax, entry.charge ? entry.amount : -entry.amount);
+
+  const taxes = [...taxMap.values()].map((tax) => ({
+    ...tax,
+    amount: Math.round((tax.basis * tax.rate) / 100),
+  }));
+
+  const lineNet = lines.reduce((sum, line) => sum + line.netAmount, 0);
+  const allowances = allowanceCharges.filter((entry) => !entry.charge).reduce((sum, entry) => sum + entry.amount, 0);
+  const charges = allowanceCharges.filter((entry) => entry.charge).reduce((sum, entry) => sum + entry.amount, 0);
+  const taxBasis = lineNet - allowances + charges;
+  const tax = taxes.reduce((sum, entry) => sum + entry.amount, 0);
+  const grossTotal = taxBasis + tax;
+
+  // Credit notes are paid out to the buyer; invoices settled online are
+  // prepaid, pending ones as far as gift cards covered them
+  const creditNote = data.documentType === "credit_note";
+  const prepaid = creditNote
+    ? 0
+    : data.paymentStatus !== "pending" ? grossTotal : Math.min(data.prepaidAmount ?? 0, grossTotal);
+
+  return {
+    data,
+    typeCode: creditNote ? "381" : "380",
+    currency,
+    sellerCountry: toCountryCode(data.seller.countryCode ?? data.seller.country),
+    buyerCountry: toCountryCode(data.buyer.country),
+    lines,
+    allowanceCharges,
+    taxes,
+    totals: {
+      lineNet,
+      allowances,
+      charges,
+      taxBasis,
+      tax,
+      gross: grossTotal,
+      prepaid,
+      payable: grossTotal - prepaid,
+    },
+  };
+}
+
+/**
+ * Business rules of EN 16931 (and the XRechnung CIUS on top) that depend on
+ * shop data rather than on the calculation. Returns the violated rules.
+ */
+export function validateEInvoice(model: EInvoiceModel, format: EInvoiceFormat): string[] {
+  const { data } = model;
+  const violations: string[] = [];
+  const require = (value: unknown, rule: string) => {
+    if (value === undefined || value === null || value === "") violations.push(rule);
+  };
+
+  require(data.invoiceNumber, "BR-02: Invoice number (BT-1) is missing");
+  require(data.seller.name, "BR-06: Seller name (BT-27) is missing");
+  require(model.sellerCountry, "BR-09: Seller country code (BT-40) is missing or unknown");
+  require(data.buyer.company || data.buyer.name, "BR-07: Buyer name (BT-44) is missing");
+  require(model.buyerCountry, "BR-11: Buyer country code (BT-55) is missing or unknown");
+  if (model.lines.length === 0) {
+    violations.push("BR-16: The invoice has no lines");
+  }
+  if (model.taxes.some((tax) => tax.code !== "E") && !data.seller.taxId) {
+    violations.push("BR-S-02: Seller VAT identifier (BT-31) is missing");
+  }
+  if (model.taxes.some((tax) => tax.code === "K") && !data.buyer.taxId) {
+    violations.push("BR-IC-02: Buyer VAT identifier (BT-48) is required for reverse charge");
+  }
+
+  if (format !== "zugferd") {
+    require(data.buyerReference, "BR-DE-15: Buyer reference / Leitweg-ID (BT-10) is missing");
+    require(data.seller.city, "BR-DE-3: Seller city (BT-37) is missing");
+    require(data.seller.zip, "BR-DE-4: Seller post code (BT-38) is missing");
+    require(data.seller.phone, "BR-DE-6: Seller contact telephone (BT-42) is missing");
+    require(data.seller.email, "BR-DE-7: Seller contact email (BT-43) is missing");
+    require(data.buyer.city, "BR-DE-8: Buyer city (BT-52) is missing");
+    require(data.buyer.zip, "BR-DE-9: Buyer post code (BT-53) is missing");
+    require(data.buyer.email, "PEPPOL-EN16931-R010: Buyer electronic address (BT-49) is missing");
+    if (model.totals.payable > 0 && !data.seller.iban) {
+      violations.push("BR-DE-23: Payee IBAN (BT-84) is missing for a credit transfer");
+    }
+  }
+  return violations;
+}
+
+// ============================================================================
+// XML
+// ============================================================================
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+type Attributes = Record<string, string | undefined>;
+
+function attributes(attrs: Attributes = {}): string {
+  return Object.entries(attrs)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(value!)}"`)
+    .join("");
+}
+
+// Text element, left out without a value
+function el(name: string, value: string | number | undefined | null, attrs?: Attributes): string {
+  if (value === undefined || value === null || value === "") return "";
+  return `<${name}${attributes(attrs)}>${escapeXml(String(value))}</${name}>`;
+}
+
+// Element with children, left out when none of them has content
+function node(name: string, children: string[], attrs?: Attributes): string {
+  const content = children.filter(Boolean).join("");
+  return content ? `<${name}${attributes(attrs)}>${content}</${name}>` : "";
+}
+
+const amount = (cents: number) => (cents / 100).toFixed(2);
+const percent = (rate: number) => rate.toFixed(2);
+
+function datePart(date: Date | string): { y: string; m: string; d: string } {
+  const value = typeof date === "string" ? new Date(date) : date;
+  return {
+    y: String(value.getFullYear()),
+    m: String(value.getMonth() + 1).padStart(2, "0"),
+    d: String(value.getDate()).padStart(2, "0"),
+  };
+}
+
+const ciiDate = (date: Date | string) => {
+  const { y, m, d } = datePart(date);
+  return `${y}${m}${d}`;
+};
+
+const isoDate = (date: Date | string) => {
+  const { y, m, d } = datePart(date);
+  return `${y}-${m}-${d}`;
+};
+
+function paymentTerms(data: InvoiceData, payable: number): string {
+  if (data.documentType === "credit_note") return "Der Betrag wird Ihnen erstattet.";
+  if (payable === 0) return `Bereits bezahlt per ${data.paymentMethod}.`;
+  return data.dueDate
+    ? `Zahlbar ohne Abzug bis ${isoDate(data.dueDate)}.`
+    : "Zahlbar ohne Abzug sofort nach Erhalt der Rechnung.";
+}
+
+function assertValid(model: EInvoiceModel, format: EInvoiceFormat): void {
+  const violations = validateEInvoice(model, format);
+  if (violations.length > 0) {
+    throw new EInvoiceError(`Invoice ${model.data.invoiceNumber} is not a valid e-invoice`, violations);
+  }
+}
+
+/**
+ * UN/CEFACT Cross Industry Invoice (D16B), used by XRechnung CII and as the
+ * XML part of ZUGFeRD / Factur-X (profile EN 16931)
+ */
+export function generateCiiXml(
+  data: InvoiceData,
+  options: { profile: "xrechnung" | "en16931"; currency?: string }
+): string {
+  const model = buildEInvoiceModel(data, options.currency);
+  assertValid(model, options.profile === "xrechnung" ? "xrechnung-cii" : "zugferd");
+  const { totals, currency } = model;
+  const buyerName = data.buyer.company || data.buyer.name;
+
+  // Element order of the D16B schema: the basis sits between the reason and the category
+  const headerTax = (tax: ModelTax) =>
+    node("ram:ApplicableTradeTax", [
+      el("ram:CalculatedAmount", amount(tax.amount)),
+      el("ram:TypeCode", "VAT"),
+      el("ram:ExemptionReason", tax.exemptionReason),
+      el("ram:BasisAmount", amount(tax.basis)),
+      el("ram:CategoryCode", tax.code),
+      el("ram:ExemptionReasonCode", tax.exemptionReasonCode),
+      el("ram:RateApplicablePercent", percent(tax.rate)),
+    ]);
+
+  const address = (party: { zip: string; address: string; city: string }, country?: string) =>
+    node("ram:PostalTradeAddress", [
+      el("ram:PostcodeCode", party.zip),
+      el("ram:LineOne", party.address),
+      el("ram:CityName", party.city),
+      el("ram:CountryID", country),
+    ]);
+
+  const lines = model.lines.map((line) =>
+    node("ram:IncludedSupplyChainTradeLineItem", [
+      node("ram:AssociatedDocumentLineDocument", [el("ram:LineID", line.id)]),
+      node("ram:SpecifiedTradeProduct", [el("ram:SellerAssignedID", line.sku), el("ram:Name", line.name)]),
+      node("ram:SpecifiedLineTradeAgreement", [
+        node("ram:NetPriceProductTradePrice", [el("ram:ChargeAmount", line.unitPrice)]),
+      ]),
+      node("ram:SpecifiedLineTradeDelivery", [el("ram:BilledQuantity", line.quantity, { unitCode: "H87" })]),
+      node("ram:SpecifiedLineTradeSettlement", [
+        node("ram:ApplicableTradeTax", [
+          el("ram:TypeCode", "VAT"),
+          el("ram:CategoryCode", line.tax.code),
+          el("ram:RateApplicablePercent", percent(line.tax.rate)),
+        ]),
+        node("ram:SpecifiedTradeSettlementLineMonetarySummation", [
+          el("ram:LineTotalAmount", amount(line.netAmount)),
+        ]),
+      ]),
+    ])
+  );
+
+  const settlement = node("ram:ApplicableHeaderTradeSettlement", [
+    el("ram:InvoiceCurrencyCode", currency),
+    totals.payable > 0 && data.seller.iban
+      ? node("ram:SpecifiedTradeSettlementPaymentMeans", [
+          el("ram:TypeCode", "58"), // SEPA credit transfer
+          node("ram:PayeePartyCreditorFinancialAccount", [
+            el("ram:IBANID", data.seller.iban.replace(/\s/g, "")),
+          ]),
+          node("ram:PayeeSpecifiedCreditorFinancialInstitution", [el("ram:BICID", data.seller.bic)]),
+        ])
+      : node("ram:SpecifiedTradeSettlementPaymentMeans", [
+          el("ram:TypeCode", "ZZZ"),
+          el("ram:Information", data.paymentMethod),
+        ]),
+    ...model.taxes.map(headerTax),
+    ...model.allowanceCharges.map((entry) =>
+      node("ram:SpecifiedTradeAllowanceCharge", [
+        node("ram:ChargeIndicator", [el("udt:Indicator", entry.charge ? "true" : "false")]),
+        el("ram:ActualAmount", amount(entry.amount)),
+        el("ram:ReasonCode", entry.reasonCode),
+        el("ram:Reason", entry.reason),
+        node("ram:CategoryTradeTax", [
+          el("ram:TypeCode", "VAT"),
+          el("ram:CategoryCode", entry.tax.code),
+          el("ram:RateApplicablePercent", percent(entry.tax.rate)),
+        ]),
+      ])
+    ),
+    node("ram:SpecifiedTradePaymentTerms", [
+      el("ram:Description", paymentTerms(data, totals.payable)),
+      data.dueDate && totals.payable > 0
+        ? node("ram:DueDateDateTime", [el("udt:DateTimeString", ciiDate(data.dueDate), { format: "102" })])
+        : "",
+    ]),
+    node("ram:SpecifiedTradeSettlementHeaderMonetarySummation", [
+      el("ram:LineTotalAmount", amount(totals.lineNet)),
+      el("ram:ChargeTotalAmount", amount(totals.charges)),
+      el("ram:AllowanceTotalAmount", amount(totals.allowances)),
+      el("ram:TaxBasisTotalAmount", amount(totals.taxBasis)),
+      el("ram:TaxTotalAmount", amount(totals.tax), { currencyID: currency }),
+      el("ram:GrandTotalAmount", amount(totals.gross)),
+      el("ram:TotalPrepaidAmount", amount(totals.prepaid)),
+      el("ram:DuePayableAmount", amount(totals.payable)),
+    ]),
+    data.correctedInvoice
+      ? node("ram:InvoiceReferencedDocument", [
+          el("ram:IssuerAssignedID", data.correctedInvoice.invoiceNumber),
+          data.correctedInvoice.invoiceDate
+            ? node("ram:FormattedIssueDateTime", [
+                el("qdt:DateTimeString", ciiDate(data.correctedInvoice.invoiceDate), { format: "102" }),
+              ])
+            : "",
+        ])
+      : "",
+  ]);
+
+  const body = node("rsm:CrossIndustryInvoice", [
+    node("rsm:ExchangedDocumentContext", [
+      options.profile === "xrechnung"
+        ? node("ram:BusinessProcessSpecifiedDocumentContextParameter", [el("ram:ID", PEPPOL_PROFILE_ID)])
+        : "",
+      node("ram:GuidelineSpecifiedDocumentContextParameter", [
+        el("ram:ID", options.profile === "xrechnung" ? XRECHNUNG_CUSTOMIZATION_ID : EN16931_CUSTOMIZATION_ID),
+      ]),
+    ]),
+    node("rsm:ExchangedDocument", [
+      el("ram:ID", data.invoiceNumber),
+      el("ram:TypeCode", model.typeCode),
+      node("ram:IssueDateTime", [el("udt:DateTimeString", ciiDate(data.invoiceDate), { format: "102" })]),
+      ...[data.taxNote, data.notes].map((note) => node("ram:IncludedNote", [el("ram:Content", note)])),
+    ]),
+    node("rsm:SupplyChainTradeTransaction", [
+      ...lines,
+      node("ram:ApplicableHeaderTradeAgreement", [
+        el("ram:BuyerReference", data.buyerReference),
+        node("ram:SellerTradeParty", [
+          el("ram:Name", data.seller.name),
+          node("ram:SpecifiedLegalOrganization", [el("ram:ID", data.seller.registrationNumber)]),
+          node("ram:DefinedTradeContact", [
+            el("ram:PersonName", data.seller.name),
+            node("ram:TelephoneUniversalCommunication", [el("ram:CompleteNumber", data.seller.phone)]),
+            node("ram:EmailURIUniversalCommunication", [el("ram:URIID", data.seller.email)]),
+          ]),
+          address(data.seller, model.sellerCountry),
+          node("ram:URIUniversalCommunication", [el("ram:URIID", data.seller.email, { schemeID: "EM" })]),
+          node("ram:SpecifiedTaxRegistration", [el("ram:ID", data.seller.taxId, { schemeID: "VA" })]),
+        ]),
+        node("ram:BuyerTradeParty", [
+          el("ram:Name", buyerName),
+          data.buyer.company
+            ? node("ram:DefinedTradeContact", [el("ram:PersonName", data.buyer.name)])
+            : "",
+          address(data.buyer, model.buyerCountry),
+          node("ram:URIUniversalCommunication", [el("ram:URIID", data.buyer.email, { schemeID: "EM" })]),
+          node("ram:SpecifiedTaxRegistration", [el("ram:ID", data.buyer.taxId, { schemeID: "VA" })]),
+        ]),
+        node("ram:BuyerOrderReferencedDocument", [el("ram:IssuerAssignedID", data.orderNumber)]),
+      ]),
+      node("ram:ApplicableHeaderTradeDelivery", [
+        node("ram:ActualDeliverySupplyChainEvent", [
+          node("ram:OccurrenceDateTime", [el("udt:DateTimeString", ciiDate(data.orderDate), { format: "102" })]),
+        ]),
+      ]),
+      settlement,
+    ]),
+  ], {
+    "xmlns:rsm": "urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100",
+    "xmlns:ram": "urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100",
+    "xmlns:qdt": "urn:un:unece:uncefact:data:standard:QualifiedDataType:100",
+    "xmlns:udt": "urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100",
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${body}\n`;
+}
+
+/**
+ * OASIS UBL 2.1 invoice or credit note following the XRechnung CIUS
+ */
+export function generateUblXml(data: InvoiceData, options: { currency?: string } = {}): string {
+  const model = buildEInvoiceModel(data, options.currency);
+  assertValid(model, "xrechnung-ubl");
+  const { totals, currency } = model;
+  const creditNote = model.typeCode === "381";
+  const root = creditNote ? "CreditNote" : "Invoice";
+  const cbcAmount = (name: string, cents: number) => el(`cbc:${name}`, amount(cents), { currencyID: currency });
+
+  const category = (name: string, tax: TaxCategory, withExemption = false) =>
+    node(`cac:${name}`, [
+      el("cbc:ID", tax.code),
+      el("cbc:Percent", percent(tax.rate)),
+      withExemption ? el("cbc:TaxExemptionReasonCode", tax.exemptionReasonCode) : "",
+      withExemption ? el("cbc:TaxExemptionReason", tax.exemptionReason) : "",
+      node("cac:TaxScheme", [el("cbc:ID", "VAT")]),
+    ]);
+
+  const party = (
+    name: string,
+    details: { legalName: string; address: string; zip: string; city: string; email?: string; taxId?: string },
+    country: string | undefined,
+    contact: string[]
+  ) =>
+    node(`cac:${name}`, [
+      node("cac:Party", [
+        el("cbc:EndpointID", details.email, { schemeID: "EM" }),
+        node("cac:PostalAddress", [
+          el("cbc:StreetName", details.address),
+          el("cbc:CityName", details.city),
+          el("cbc:PostalZone", details.zip),
+          node("cac:Country", [el("cbc:IdentificationCode", country)]),
+        ]),
+        details.taxId
+          ? node("cac:PartyTaxScheme", [
+              el("cbc:CompanyID", details.taxId),
+              node("cac:TaxScheme", [el("cbc:ID", "VAT")]),
+            ])
+          : "",
+        node("cac:PartyLegalEntity", [el("cbc:RegistrationName", details.legalName)]),
+        node("cac:Contact", contact),
+      ]),
+    ]);
+
+  const body = node(root, [
+    el("cbc:CustomizationID", XRECHNUNG_CUSTOMIZATION_ID),
+    el("cbc:ProfileID", PEPPOL_PROFILE_ID),
+    el("cbc:ID", data.invoiceNumber),
+    el("cbc:IssueDate", isoDate(data.invoiceDate)),
+    !creditNote && data.dueDate ? el("cbc:DueDate", isoDate(data.dueDate)) : "",
+    el(creditNote ? "cbc:CreditNoteTypeCode" : "cbc:InvoiceTypeCode", model.typeCode),
+    ...[data.taxNote, data.notes].map((note) => el("cbc:Note", note)),
+    el("cbc:DocumentCurrencyCode", currency),
+    el("cbc:BuyerReference", data.buyerReference),
+    node("cac:OrderReference", [el("cbc:ID", data.orderNumber)]),
+    data.correctedInvoice
+      ? node("cac:BillingReference", [
+          node("cac:InvoiceDocumentReference", [
+            el("cbc:ID", data.correctedInvoice.invoiceNumber),
+            data.correctedInvoice.invoiceDate ? el("cbc:IssueDate", isoDate(data.correctedInvoice.invoiceDate)) : "",
+          ]),
+        ])
+      : "",
+    party("AccountingSupplierParty", { ...data.seller, legalName: data.seller.name }, model.sellerCountry, [
+      el("cbc:Name", data.seller.name),
+      el("cbc:Telephone", data.seller.phone),
+      el("cbc:ElectronicMail", data.seller.email),
+    ]),
+    party(
+      "AccountingCustomerParty",
+      { ...data.buyer, legalName: data.buyer.company || data.buyer.name },
+      model.buyerCountry,
+      data.buyer.company ? [el("cbc:Name", data.buyer.name)] : []
+    ),
+    totals.payable > 0 && data.seller.iban
+      ? node("cac:PaymentMeans", [
+          el("cbc:PaymentMeansCode", "58"),
+          node("cac:PayeeFinancialAccount", [
+            el("cbc:ID", data.seller.iban.replace(/\s/g, "")),
+            node("cac:FinancialInstitutionBranch", [el("cbc:ID", data.seller.bic)]),
+          ]),
+        ])
+      : node("cac:PaymentMeans", [el("cbc:PaymentMeansCode", "ZZZ", { name: data.paymentMethod })]),
+    node("cac:PaymentTerms", [el("cbc:Note", paymentTerms(data, totals.payable))]),
+    ...model.allowanceCharges.map((entry) =>
+      node("cac:AllowanceCharge", [
+        el("cbc:ChargeIndicator", entry.charge ? "true" : "false"),
+        el("cbc:AllowanceChargeReasonCode", entry.reasonCode),
+        el("cbc:AllowanceChargeReason", entry.reason),
+        cbcAmount("Amount", entry.amount),
+        category("TaxCategory", entry.tax),
+      ])
+    ),
+    node("cac:TaxTotal", [
+      cbcAmount("TaxAmount", totals.tax),
+      ...model.taxes.map((tax) =>
+        node("cac:TaxSubtotal", [
+          cbcAmount("TaxableAmount", tax.basis),
+          cbcAmount("TaxAmount", tax.amount),
+          category("TaxCategory", tax, true),
+        ])
+      ),
+    ]),
+    node("cac:LegalMonetaryTotal", [
+      cbcAmount("LineExtensionAmount", totals.lineNet),
+      cbcAmount("TaxExclusiveAmount", totals.taxBasis),
+      cbcAmount("TaxInclusiveAmount", totals.gross),
+      cbcAmount("AllowanceTotalAmount", totals.allowances),
+      cbcAmount("ChargeTotalAmount", totals.charges),
+      cbcAmount("PrepaidAmount", totals.prepaid),
+      cbcAmount("PayableAmount", totals.payable),
+    ]),
+    ...model.lines.map((line) =>
+      node(`cac:${root}Line`, [
+        el("cbc:ID", line.id),
+        el(creditNote ? "cbc:CreditedQuantity" : "cbc:InvoicedQuantity", line.quantity, { unitCode: "H87" }),
+        cbcAmount("LineExtensionAmount", line.netAmount),
+        node("cac:Item", [
+          el("cbc:Name", line.name),
+          node("cac:SellersItemIdentification", [el("cbc:ID", line.sku)]),
+          category("ClassifiedTaxCategory", line.tax),
+        ]),
+        node("cac:Price", [el("cbc:PriceAmount", line.unitPrice, { currencyID: currency })]),
+      ])
+    ),
+  ], {
+    xmlns: `urn:oasis:names:specification:ubl:schema:xsd:${root}-2`,
+    "xmlns:cac": "urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2",
+    "xmlns:cbc": "urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2",
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${body}\n`;
+}
+
+/**
+ * E-invoice of an invoice or credit note in the given format, with the
+ * file name it is delivered under
+ */
+export function generateEInvoice(
+  data: InvoiceData,
+  format: EInvoiceFormat,
+  options: { currency?: string } = {}
+): { xml: string; filename: string } {
+  switch (format) {
+    case "xrechnung-ubl":
+      return { xml: generateUblXml(data, options), filename: `${data.invoiceNumber}.xml` };
+    case "xrechnung-cii":
+      return { xml: generateCiiXml(data, { ...options, profile: "xrechnung" }), filename: `${data.invoiceNumber}.xml` };
+    case "zugferd":
+      return { xml: generateCiiXml(data, { ...options, profile: "en16931" }), filename: FACTURX_FILENAME };
+  }
+}
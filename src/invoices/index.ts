@@ -1,4 +1,24 @@
 export { generateInvoicePdf } from "./pdf-generator";
-export { orderToInvoiceData, generateInvoiceNumber, type OrderToInvoiceParams } from "./order-mapper";
+export { orderToInvoiceData, toInvoiceBuyer, storedOrderToInvoiceOrder, type OrderToInvoiceParams, type StoredOrder } from "./order-mapper";
+export {
+  CreditNoteError,
+  buildCreditNoteSnapshot,
+  creditNoteToInvoiceData,
+  type CreditNoteLine,
+  type CreditNoteSnapshot,
+} from "./credit-notes";
+export {
+  EInvoiceError,
+  buildEInvoiceModel,
+  generateCiiXml,
+  generateEInvoice,
+  generateUblXml,
+  resolveEInvoiceFormat,
+  validateEInvoice,
+  type EInvoiceFormat,
+} from "./e-invoice";
+export { creditNoteService } from "./credit-note-service";
+export { invoiceService, invoiceStorageKey } from "./invoice-service";
+export { createInvoiceToken, verifyInvoiceToken } from "./access";
 export { invoiceRoutes } from "./routes";
 export { type InvoiceData, type InvoiceConfig, formatCurrency, formatDate } from "./types";
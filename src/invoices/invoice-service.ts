@@ -0,0 +1,147 @@
+import { eq, and, desc } from "drizzle-orm";
+import { logger } from "@/config/logger";
+import { db } from "@/db";
+import { customers, invoices, paymentMethods } from "@/db/schema";
+import { storageService } from "@/storage";
+import { generateInvoicePdf } from "./pdf-generator";
+import { orderToInvoiceData, storedOrderToInvoiceOrder, type StoredOrder } from "./order-mapper";
+import {
+  EInvoiceError,
+  buyerReferenceOf,
+  generateEInvoice,
+  resolveEInvoiceFormat,
+  type EInvoiceFormat,
+} from "./e-invoice";
+import type { InvoiceData } from "./types";
+
+type Invoice = typeof invoices.$inferSelect;
+type InvoiceSnapshot = StoredOrder & { customerId?: string | null; paymentMethodId?: string | null; currency?: string };
+
+export function invoiceStorageKey(invoiceNumber: string): string {
+  return `invoices/${invoiceNumber}.pdf`;
+}
+
+export const invoiceService = {
+  /**
+   * E-invoice format the buyer of an order receives, chosen per customer
+   * (Leitweg-ID or VAT ID); guest orders go by the VAT ID they entered
+   */
+  async eInvoiceFor(order: { customerId?: string | null; customerVatId?: string | null }): Promise<{
+    format: EInvoiceFormat | null;
+    buyerReference?: string;
+  }> {
+    const customer = order.customerId
+      ? await db.query.customers.findFirst({ where: eq(customers.id, order.customerId) })
+      : undefined;
+    return {
+      format: resolveEInvoiceFormat({ vatId: customer?.vatId ?? order.customerVatId, metadata: customer?.metadata }),
+      buyerReference: buyerReferenceOf(customer?.metadata),
+    };
+  },
+
+  // Invoice content of the order snapshot, so later changes to the order
+  // do not alter an issued invoice
+  async toInvoiceData(invoice: Invoice, buyerReference?: string): Promise<InvoiceData> {
+    const order = invoice.data as InvoiceSnapshot;
+    const method = order.paymentMethodId
+      ? await db.query.paymentMethods.findFirst({ where: eq(paymentMethods.id, order.paymentMethodId) })
+      : undefined;
+
+    return orderToInvoiceData({
+      order: storedOrderToInvoiceOrder(order, method?.name ?? "Vorkasse"),
+      invoiceNumber: invoice.invoiceNumber,
+      invoiceDate: invoice.createdAt,
+      buyerReference,
+    });
+  },
+
+  /**
+   * Render an invoice. ZUGFeRD customers get the PDF/A-3 with the CII XML
+   * embedded; if the XML cannot be built the plain PDF is issued instead.
+   */
+  async renderPdf(invoice: Invoice): Promise<Buffer> {
+    const order = invoice.data as InvoiceSnapshot;
+    const { format, buyerReference } = await this.eInvoiceFor(order);
+    const data = await this.toInvoiceData(invoice, buyerReference);
+
+    let eInvoiceXml: string | undefined;
+    if (format === "zugferd") {
+      try {
+        eInvoiceXml = generateEInvoice(data, format, { currency: order.currency }).xml;
+      } catch (err) {
+        if (!(err instanceof EInvoiceError)) throw err;
+        logger.warn({ invoiceId: invoice.id, violations: err.violations }, "Invoice issued without ZUGFeRD data");
+      }
+    }
+    return generateInvoicePdf(data, { currency: order.currency, eInvoiceXml });
+  },
+
+  /**
+   * XML e-invoice, in the customer's format or as EN 16931 CII for
+   * customers without one. Throws EInvoiceError when data is missing.
+   */
+  async renderXml(invoice: Invoice, format?: EInvoiceFormat): Promise<{ xml: string; filename: string }> {
+    const order = invoice.data as InvoiceSnapshot;
+    const resolved = await this.eInvoiceFor(order);
+    const data = await this.toInvoiceData(invoice, resolved.buyerReference);
+    return generateEInvoice(data, format ?? resolved.format ?? "zugferd", { currency: order.currency });
+  },
+
+  /**
+   * Render the PDF and store it; the invoice records where it is kept
+   */
+  async generatePdf(invoiceId: string): Promise<{ invoice: Invoice; pdf: Buffer }> {
+    const invoice = await db.query.invoices.findFirst({ where: eq(invoices.id, invoiceId) });
+    if (!invoice) {
+      throw new Error("Invoice not found");
+    }
+
+    const pdf = await this.renderPdf(invoice);
+    const upload = await storageService.upload(invoiceStorageKey(invoice.invoiceNumber), pdf, {
+      contentType: "application/pdf",
+      acl: "private",
+      cacheControl: "private, no-store",
+    });
+
+    const [updated] = await db
+      .update(invoices)
+      .set({ pdfUrl: upload.url, pdfGeneratedAt: new Date(), updatedAt: new Date() })
+      .where(eq(invoices.id, invoiceId))
+      .returning();
+    return { invoice: updated, pdf };
+  },
+
+  /**
+   * The stored PDF, generated on first request
+   */
+  async getPdf(invoice: Invoice): Promise<Buffer> {
+    if (invoice.pdfUrl) {
+      const cached = await storageService.getContent(invoiceStorageKey(invoice.invoiceNumber));
+      if (cached) return cached;
+      logger.warn({ invoiceId: invoice.id }, "Stored invoice PDF missing, generating it again");
+    }
+    return (await this.generatePdf(invoice.id)).pdf;
+  },
+
+  /**
+   * Presigned download link of the stored PDF
+   */
+  async getDownloadUrl(invoice: Invoice, expiresIn = 900): Promise<string> {
+    if (!invoice.pdfUrl) {
+      await this.generatePdf(invoice.id);
+    }
+    return storageService.getDownloadUrl(invoiceStorageKey(invoice.invoiceNumber), expiresIn);
+  },
+
+  // Latest issued invoice of an order
+  async findForOrder(orderId: string): Promise<Invoice | undefined> {
+    return db.query.invoices.findFirst({
+      where: and(eq(invoices.orderId, orderId), eq(invoices.status, "final")),
+      orderBy: desc(invoices.createdAt),
+    });
+  },
+
+  async findByNumber(invoiceNumber: string): Promise<Invoice | undefined> {
+    return db.query.invoices.findFirst({ where: eq(invoices.invoiceNumber, invoiceNumber) });
+  },
+};
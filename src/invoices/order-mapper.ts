@@ -1,13 +1,17 @@
 import { type InvoiceData } from "./types";
+import { getVatTreatmentNote } from "../tax/vat";
+import type { VatTreatment } from "../tax/types";
 
 // Default seller info - should be configured via env or settings
-const DEFAULT_SELLER = {
+export const DEFAULT_SELLER = {
   name: "Skibidoo GmbH",
   address: "Musterstrasse 123",
   zip: "12345",
   city: "Berlin",
   country: "Deutschland",
+  countryCode: "DE",
   email: "info@skibidoo.de",
+  phone: "+49 30 1234567",
   website: "www.skibidoo.de",
   taxId: "DE123456789",
   registrationNumber: "HRB 12345 B",
@@ -25,6 +29,7 @@ export interface OrderToInvoiceParams {
     paymentMethod: string;
     paymentStatus: "pending" | "paid" | "refunded";
     paidAt?: Date | string;
+    prepaidAmount?: number;
     items: Array<{
       productName: string;
       sku?: string;
@@ -34,6 +39,7 @@ export interface OrderToInvoiceParams {
       totalNet: number;
       totalGross: number;
       taxRate: number;
+      bundleComponent?: boolean;
     }>;
     shippingNet: number;
     shippingGross: number;
@@ -55,16 +61,19 @@ export interface OrderToInvoiceParams {
       country: string;
     };
     customerTaxId?: string;
+    vatTreatment?: VatTreatment;
+    taxCountry?: string;
   };
   invoiceNumber: string;
   invoiceDate?: Date;
   dueDate?: Date;
+  buyerReference?: string;
   seller?: typeof DEFAULT_SELLER;
   notes?: string;
 }
 
 export function orderToInvoiceData(params: OrderToInvoiceParams): InvoiceData {
-  const { order, invoiceNumber, invoiceDate, dueDate, seller, notes } = params;
+  const { order, invoiceNumber, invoiceDate, dueDate, buyerReference, seller, notes } = params;
 
   // Build tax breakdown
   const taxMap = new Map<number, { netAmount: number; taxAmount: number }>();
@@ -101,6 +110,7 @@ export function orderToInvoiceData(params: OrderToInvoiceParams): InvoiceData {
     dueDate,
     orderNumber: order.orderNumber,
     orderDate: order.createdAt,
+    buyerReference,
     seller: seller || DEFAULT_SELLER,
     buyer: {
       name: `${order.billingAddress.firstName} ${order.billingAddress.lastName}`,
@@ -120,6 +130,7 @@ export function orderToInvoiceData(params: OrderToInvoiceParams): InvoiceData {
       taxRate: item.taxRate,
       totalNet: item.totalNet,
       totalGross: item.totalGross,
+      bundleComponent: item.bundleComponent,
     })),
     subtotalNet: order.subtotalNet,
     subtotalGross: order.subtotalGross,
@@ -135,14 +146,127 @@ export function orderToInvoiceData(params: OrderToInvoiceParams): InvoiceData {
     paymentMethod: order.paymentMethod,
     paymentStatus: order.paymentStatus,
     paidAt: order.paidAt,
+    prepaidAmount: order.prepaidAmount,
+    vatTreatment: order.vatTreatment,
+    taxNote: order.vatTreatment
+      ? getVatTreatmentNote(order.vatTreatment, {
+          buyerVatId: order.customerTaxId,
+          destinationCountry: order.taxCountry,
+        }) ?? undefined
+      : undefined,
     notes,
   };
 }
 
-let invoiceCounter = 0;
+/**
+ * Buyer block of an order's billing address (as stored in
+ * orders.billingAddress)
+ */
+export function toInvoiceBuyer(
+  address: Record<string, unknown>,
+  email?: string,
+  taxId?: string | null
+): InvoiceData["buyer"] {
+  const text = (key: string) => (typeof address[key] === "string" ? (address[key] as string) : undefined);
+  return {
+    name: [text("firstName"), text("lastName")].filter(Boolean).join(" "),
+    company: text("company"),
+    address: [text("street"), text("streetNumber")].filter(Boolean).join(" "),
+    zip: text("postalCode") ?? text("zip") ?? "",
+    city: text("city") ?? "",
+    country: text("country") ?? "",
+    email,
+    taxId: taxId ?? undefined,
+  };
+}
+
+// An order as stored (orders row with its items), e.g. the snapshot in
+// invoices.data
+export interface StoredOrder {
+  id: string;
+  orderNumber: string;
+  createdAt: Date | string;
+  email: string;
+  paymentStatus: string;
+  paidAt?: Date | string | null;
+  subtotal: number;
+  shippingTotal: number;
+  shippingTax: number;
+  taxTotal: number;
+  discountTotal: number;
+  giftCardTotal?: number;
+  total: number;
+  billingAddress: unknown;
+  customerVatId?: string | null;
+  vatTreatment?: string;
+  taxCountry?: string | null;
+  items: Array<{
+    name: string;
+    sku?: string | null;
+    quantity: number;
+    unitPriceNet: number;
+    unitPriceGross: number;
+    totalNet: number;
+    totalGross: number;
+    taxRate: number; // Basis points
+    parentItemId?: string | null;
+  }>;
+}
+
+/**
+ * Invoice input of a stored order. Rates are stored in basis points and
+ * printed in percent; the buyer's VAT ID and the VAT treatment carry over.
+ */
+export function storedOrderToInvoiceOrder(order: StoredOrder, paymentMethod: string): OrderToInvoiceParams["order"] {
+  const buyer = toInvoiceBuyer((order.billingAddress ?? {}) as Record<string, unknown>);
+  const address = (order.billingAddress ?? {}) as Record<string, unknown>;
+  const text = (key: string) => (typeof address[key] === "string" ? (address[key] as string) : "");
 
-export function generateInvoiceNumber(prefix = "RE"): string {
-  const year = new Date().getFullYear();
-  const counter = String(++invoiceCounter).padStart(6, "0");
-  return `${prefix}-${year}-${counter}`;
+  const items = order.items.map((item) => ({
+    productName: item.name,
+    sku: item.sku ?? undefined,
+    quantity: item.quantity,
+    unitPriceNet: item.unitPriceNet,
+    unitPriceGross: item.unitPriceGross,
+    totalNet: item.totalNet,
+    totalGross: item.totalGross,
+    taxRate: item.taxRate / 100,
+    bundleComponent: Boolean(item.parentItemId),
+  }));
+  const shippingNet = order.shippingTotal - order.shippingTax;
+
+  return {
+    id: order.id,
+    orderNumber: order.orderNumber,
+    createdAt: order.createdAt,
+    email: order.email,
+    paymentMethod,
+    paymentStatus: order.paymentStatus === "refunded"
+      ? "refunded"
+      : ["paid", "partially_refunded"].includes(order.paymentStatus) ? "paid" : "pending",
+    paidAt: order.paidAt ?? undefined,
+    prepaidAmount: order.giftCardTotal || undefined,
+    items,
+    shippingNet,
+    shippingGross: order.shippingTotal,
+    shippingTaxRate: shippingNet > 0 ? Math.round((order.shippingTax / shippingNet) * 100) : 0,
+    discountTotal: order.discountTotal,
+    subtotalNet: items.reduce((sum, item) => sum + item.totalNet, 0),
+    subtotalGross: items.reduce((sum, item) => sum + item.totalGross, 0),
+    totalNet: order.total - order.taxTotal,
+    totalTax: order.taxTotal,
+    totalGross: order.total,
+    billingAddress: {
+      firstName: text("firstName"),
+      lastName: text("lastName"),
+      company: buyer.company,
+      street: buyer.address,
+      zip: buyer.zip,
+      city: buyer.city,
+      country: buyer.country,
+    },
+    customerTaxId: order.customerVatId ?? undefined,
+    vatTreatment: order.vatTreatment as VatTreatment | undefined,
+    taxCountry: order.taxCountry ?? undefined,
+  };
 }
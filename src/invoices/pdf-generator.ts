@@ -1,5 +1,6 @@
 import PDFDocument from "pdfkit";
 import { type InvoiceData, type InvoiceConfig, formatCurrency, formatDate, formatPercent } from "./types";
+import { FACTURX_FILENAME } from "./e-invoice";
 
 const DEFAULT_CONFIG: InvoiceConfig = {
   primaryColor: "#7c3aed",
@@ -12,6 +13,8 @@ export async function generateInvoicePdf(
   config: InvoiceConfig = {}
 ): Promise<Buffer> {
   const cfg = { ...DEFAULT_CONFIG, ...config };
+  const creditNote = data.documentType === "credit_note";
+  const title = creditNote ? "Gutschrift" : "Rechnung";
 
   return new Promise((resolve, reject) => {
     const chunks: Buffer[] = [];
@@ -19,16 +22,29 @@ export async function generateInvoicePdf(
       size: "A4",
       margin: 50,
       info: {
-        Title: `Rechnung ${data.invoiceNumber}`,
+        Title: `${title} ${data.invoiceNumber}`,
         Author: data.seller.name,
-        Subject: `Rechnung fuer Bestellung ${data.orderNumber}`,
+        Subject: `${title} fuer Bestellung ${data.orderNumber}`,
       },
+      // ZUGFeRD / Factur-X is a PDF/A-3 with the XML attached
+      ...(cfg.eInvoiceXml ? { subset: "PDF/A-3b" as const, pdfVersion: "1.7" as const } : {}),
     });
 
     doc.on("data", (chunk) => chunks.push(chunk));
     doc.on("end", () => resolve(Buffer.concat(chunks)));
     doc.on("error", reject);
 
+    // Fonts
+    let regularFont = "Helvetica";
+    let boldFont = "Helvetica-Bold";
+    if (cfg.fonts) {
+      doc.registerFont("InvoiceRegular", cfg.fonts.regular);
+      doc.registerFont("InvoiceBold", cfg.fonts.bold);
+      regularFont = "InvoiceRegular";
+      boldFont = "InvoiceBold";
+    }
+    doc.font(regularFont);
+
     // Colors
     const primaryColor = cfg.primaryColor!;
     const textColor = "#1f2937";
@@ -47,19 +63,29 @@ export async function generateInvoicePdf(
     y += 40;
 
     // Invoice Title
-    doc.fontSize(20).fillColor(textColor).text("RECHNUNG", leftCol, y);
+    doc.fontSize(20).fillColor(textColor).text(title.toUpperCase(), leftCol, y);
     y += 35;
 
     // Invoice details box
     doc.fontSize(10).fillColor(mutedColor);
-    doc.text("Rechnungsnummer:", leftCol, y);
+    doc.text(`${title}snummer:`, leftCol, y);
     doc.fillColor(textColor).text(data.invoiceNumber, leftCol + 110, y);
     y += 15;
 
-    doc.fillColor(mutedColor).text("Rechnungsdatum:", leftCol, y);
+    doc.fillColor(mutedColor).text(`${title}sdatum:`, leftCol, y);
     doc.fillColor(textColor).text(formatDate(data.invoiceDate, cfg.locale), leftCol + 110, y);
     y += 15;
 
+    // Credit notes name the invoice they correct
+    if (data.correctedInvoice) {
+      const invoiceDate = data.correctedInvoice.invoiceDate
+        ? ` vom ${formatDate(data.correctedInvoice.invoiceDate, cfg.locale)}`
+        : "";
+      doc.fillColor(mutedColor).text("Zur Rechnung:", leftCol, y);
+      doc.fillColor(textColor).text(`${data.correctedInvoice.invoiceNumber}${invoiceDate}`, leftCol + 110, y);
+      y += 15;
+    }
+
     doc.fillColor(mutedColor).text("Bestellnummer:", leftCol, y);
     doc.fillColor(textColor).text(data.orderNumber, leftCol + 110, y);
     y += 15;
@@ -96,14 +122,14 @@ export async function generateInvoicePdf(
     y += 20;
 
     // Buyer address
-    doc.fontSize(10).fillColor(mutedColor).text("Rechnungsempfaenger:", leftCol, y);
+    doc.fontSize(10).fillColor(mutedColor).text(`${title}sempfaenger:`, leftCol, y);
     y += 18;
 
     doc.fontSize(11).fillColor(textColor);
     if (data.buyer.company) {
-      doc.font("Helvetica-Bold").text(data.buyer.company, leftCol, y);
+      doc.font(boldFont).text(data.buyer.company, leftCol, y);
       y += 14;
-      doc.font("Helvetica");
+      doc.font(regularFont);
     }
     doc.text(data.buyer.name, leftCol, y);
     y += 14;
@@ -143,7 +169,17 @@ export async function generateInvoicePdf(
         y = 50;
       }
 
-      doc.font("Helvetica").text(item.description, colPos.desc, y, { width: 250 });
+      // Bundle parts are listed below the bundle without prices
+      if (item.bundleComponent) {
+        doc.fontSize(9).fillColor(mutedColor);
+        doc.font(regularFont).text(`– ${item.description}`, colPos.desc + 10, y, { width: 240 });
+        doc.text(String(item.quantity), colPos.qty, y);
+        doc.fontSize(10).fillColor(textColor);
+        y += 18;
+        continue;
+      }
+
+      doc.font(regularFont).text(item.description, colPos.desc, y, { width: 250 });
       if (item.sku) {
         doc.fontSize(8).fillColor(mutedColor).text(`Art.Nr.: ${item.sku}`, colPos.desc, y + 12);
         doc.fontSize(10).fillColor(textColor);
@@ -202,21 +238,30 @@ export async function generateInvoicePdf(
     y += 10;
 
     // Grand total
-    doc.fontSize(12).font("Helvetica-Bold").fillColor(textColor);
-    doc.text("Gesamtbetrag:", totalsX, y);
+    doc.fontSize(12).font(boldFont).fillColor(textColor);
+    doc.text(creditNote ? "Gutschriftsbetrag:" : "Gesamtbetrag:", totalsX, y);
     doc.text(formatCurrency(data.totalGross, cfg.currency, cfg.locale), totalsValueX, y);
     y += 20;
 
-    doc.font("Helvetica").fontSize(9).fillColor(mutedColor);
-    doc.text("(inkl. MwSt.)", totalsValueX, y);
+    doc.font(regularFont).fontSize(9).fillColor(mutedColor);
+    doc.text(data.taxNote && data.totalTax === 0 ? "(ohne MwSt.)" : "(inkl. MwSt.)", totalsValueX, y);
     y += 30;
 
+    // Legally required VAT note (reverse charge, tax-free export, OSS)
+    if (data.taxNote) {
+      doc.fontSize(9).fillColor(textColor).text(data.taxNote, leftCol, y, { width: pageWidth });
+      y += doc.heightOfString(data.taxNote, { width: pageWidth }) + 16;
+    }
+
     // Payment info
     doc.fontSize(10).fillColor(textColor);
-    doc.text(`Zahlungsart: ${data.paymentMethod}`, leftCol, y);
+    doc.text(`${creditNote ? "Erstattung" : "Zahlungsart"}: ${data.paymentMethod}`, leftCol, y);
     y += 14;
 
-    if (data.paymentStatus === "paid" && data.paidAt) {
+    if (creditNote) {
+      doc.fillColor("#059669").text("Der Betrag wird Ihnen erstattet.", leftCol, y);
+      y += 14;
+    } else if (data.paymentStatus === "paid" && data.paidAt) {
       doc.fillColor("#059669").text(`Bezahlt am ${formatDate(data.paidAt, cfg.locale)}`, leftCol, y);
       y += 14;
     } else if (data.paymentStatus === "pending") {
@@ -225,7 +270,7 @@ export async function generateInvoicePdf(
     }
 
     // Bank details
-    if (data.seller.iban && data.paymentStatus !== "paid") {
+    if (data.seller.iban && data.paymentStatus !== "paid" && !creditNote) {
       y += 10;
       doc.fillColor(textColor).fontSize(9);
       doc.text("Bankverbindung:", leftCol, y);
@@ -268,6 +313,61 @@ export async function generateInvoicePdf(
     // Page number
     doc.text(`Seite 1 von 1`, leftCol, footerY + 15, { width: pageWidth, align: "center" });
 
+    if (cfg.eInvoiceXml) {
+      embedFacturX(doc, cfg.eInvoiceXml, data.documentType === "credit_note" ? "Gutschrift" : "Rechnung");
+    }
+
     doc.end();
   });
 }
+
+/**
+ * Attach the CII XML as factur-x.xml and declare it in the XMP metadata,
+ * as ZUGFeRD 2.x / Factur-X requires for the EN 16931 profile
+ */
+function embedFacturX(doc: PDFKit.PDFDocument, xml: string, title: string): void {
+  const now = new Date();
+  // pdfkit writes the AFRelationship PDF/A-3 asks for, its typings lack it
+  const attachment = {
+    name: FACTURX_FILENAME,
+    type: "text/xml",
+    description: `${title} (Factur-X / ZUGFeRD)`,
+    relationship: "Alternative",
+    creationDate: now,
+    modifiedDate: now,
+  };
+  doc.file(Buffer.from(xml, "utf-8"), attachment);
+
+  doc.appendXML(`
+    <rdf:Description xmlns:fx="urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#" rdf:about="">
+      <fx:DocumentType>INVOICE</fx:DocumentType>
+      <fx:DocumentFileName>${FACTURX_FILENAME}</fx:DocumentFileName>
+      <fx:Version>1.0</fx:Version>
+      <fx:ConformanceLevel>EN 16931</fx:ConformanceLevel>
+    </rdf:Description>
+    <rdf:Description xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/"
+        xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#"
+        xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#" rdf:about="">
+      <pdfaExtension:schemas>
+        <rdf:Bag>
+          <rdf:li rdf:parseType="Resource">
+            <pdfaSchema:schema>Factur-X PDFA Extension Schema</pdfaSchema:schema>
+            <pdfaSchema:namespaceURI>urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#</pdfaSchema:namespaceURI>
+            <pdfaSchema:prefix>fx</pdfaSchema:prefix>
+            <pdfaSchema:property>
+              <rdf:Seq>
+                ${["DocumentFileName", "DocumentType", "Version", "ConformanceLevel"].map((name) => `
+                <rdf:li rdf:parseType="Resource">
+                  <pdfaProperty:name>${name}</pdfaProperty:name>
+                  <pdfaProperty:valueType>Text</pdfaProperty:valueType>
+                  <pdfaProperty:category>external</pdfaProperty:category>
+                  <pdfaProperty:description>${name} of the embedded Factur-X invoice</pdfaProperty:description>
+                </rdf:li>`).join("")}
+              </rdf:Seq>
+            </pdfaSchema:property>
+          </rdf:li>
+        </rdf:Bag>
+      </pdfaExtension:schemas>
+    </rdf:Description>
+  `);
+}
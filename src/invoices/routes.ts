@@ -1,7 +1,23 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
+import { eq } from "drizzle-orm";
+import { env } from "@/config/env";
+import { db } from "@/db";
+import { orders } from "@/db/schema";
+import { optionalAuth } from "@/auth";
 import { generateInvoicePdf } from "./pdf-generator";
-import { orderToInvoiceData, generateInvoiceNumber } from "./order-mapper";
+import { orderToInvoiceData } from "./order-mapper";
+import { DEFAULT_SEQUENCES, formatSequenceNumber } from "@/sequences";
 import { logger } from "@/config/logger";
+import { invoiceService } from "./invoice-service";
+import { verifyInvoiceToken } from "./access";
+import { EInvoiceError, type EInvoiceFormat } from "./e-invoice";
+
+const E_INVOICE_FORMATS: Record<string, EInvoiceFormat> = {
+  xrechnung: "xrechnung-cii",
+  "xrechnung-cii": "xrechnung-cii",
+  "xrechnung-ubl": "xrechnung-ubl",
+  zugferd: "zugferd",
+};
 
 export const invoiceRoutes = new Hono();
 
@@ -62,7 +78,11 @@ invoiceRoutes.get("/demo", async (c) => {
   try {
     const invoiceData = orderToInvoiceData({
       order: demoOrder,
-      invoiceNumber: generateInvoiceNumber(),
+      invoiceNumber: formatSequenceNumber(DEFAULT_SEQUENCES.invoice.format, {
+        prefix: DEFAULT_SEQUENCES.invoice.prefix,
+        year: new Date().getFullYear(),
+        value: 1,
+      }),
       notes: "Vielen Dank fuer Ihren Einkauf bei Skibidoo!",
     });
 
@@ -80,19 +100,79 @@ invoiceRoutes.get("/demo", async (c) => {
   }
 });
 
-// Generate invoice for order ID
-invoiceRoutes.get("/order/:orderId", async (c) => {
-  const orderId = c.req.param("orderId");
+async function canAccess(c: Context, order: { id: string; customerId: string | null; email: string }): Promise<boolean> {
+  const user = c.get("user");
+  if (user?.role === "admin") return true;
+  if (user) {
+    const owns = order.customerId
+      ? order.customerId === user.sub
+      : order.email.toLowerCase() === user.email.toLowerCase();
+    if (owns) return true;
+  }
+
+  const token = c.req.query("token");
+  return Boolean(token && verifyInvoiceToken(token, order.id, order.email, env.JWT_SECRET));
+}
+
+// Send the PDF, with ?format=url a presigned link to it, or with
+// ?format=xml the e-invoice (?syntax= picks a format other than the customer's)
+async function sendInvoice(c: Context, invoice: NonNullable<Awaited<ReturnType<typeof invoiceService.findByNumber>>>) {
+  if (c.req.query("format") === "url") {
+    return c.json({ data: { url: await invoiceService.getDownloadUrl(invoice), expiresIn: 900 } });
+  }
+
+  if (c.req.query("format") === "xml") {
+    const syntax = c.req.query("syntax");
+    if (syntax && !E_INVOICE_FORMATS[syntax]) {
+      return c.json({ error: { code: "INVALID_FORMAT", message: `Unknown e-invoice format: ${syntax}` } }, 400);
+    }
+    try {
+      const { xml, filename } = await invoiceService.renderXml(invoice, syntax ? E_INVOICE_FORMATS[syntax] : undefined);
+      return new Response(xml, {
+        headers: {
+          "Content-Type": "application/xml; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+          "Cache-Control": "private, no-store",
+        },
+      });
+    } catch (err) {
+      if (err instanceof EInvoiceError) {
+        return c.json({ error: { code: "E_INVOICE_INCOMPLETE", message: `${err.message}: ${err.violations.join("; ")}` } }, 422);
+      }
+      throw err;
+    }
+  }
+
+  const pdf = await invoiceService.getPdf(invoice);
+  return new Response(pdf, {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="rechnung-${invoice.invoiceNumber}.pdf"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
+
+// Latest invoice of an order
+invoiceRoutes.get("/order/:orderId", optionalAuth, async (c) => {
+  const order = await db.query.orders.findFirst({ where: eq(orders.id, c.req.param("orderId")) });
+  if (!order || !(await canAccess(c, order))) {
+    return c.json({ error: { code: "NOT_FOUND", message: "Order not found" } }, 404);
+  }
 
-  // TODO: Fetch order from database
-  // For now, return error
-  return c.json({ error: "Not implemented - requires order service integration" }, 501);
+  const invoice = await invoiceService.findForOrder(order.id);
+  if (!invoice) {
+    return c.json({ error: { code: "NOT_FOUND", message: "No invoice has been issued for this order" } }, 404);
+  }
+  return sendInvoice(c, invoice);
 });
 
 // Download invoice by invoice number
-invoiceRoutes.get("/download/:invoiceNumber", async (c) => {
-  const invoiceNumber = c.req.param("invoiceNumber");
-
-  // TODO: Fetch invoice from database
-  return c.json({ error: "Not implemented - requires invoice storage" }, 501);
+invoiceRoutes.get("/download/:invoiceNumber", optionalAuth, async (c) => {
+  const invoice = await invoiceService.findByNumber(c.req.param("invoiceNumber"));
+  const order = invoice && (await db.query.orders.findFirst({ where: eq(orders.id, invoice.orderId) }));
+  if (!invoice || !order || !(await canAccess(c, order))) {
+    return c.json({ error: { code: "NOT_FOUND", message: "Invoice not found" } }, 404);
+  }
+  return sendInvoice(c, invoice);
 });
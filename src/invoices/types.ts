@@ -1,5 +1,14 @@
+import type { VatTreatment } from "../tax/types";
+
 export interface InvoiceData {
-  // Invoice details
+  // Invoices by default; credit notes (Gutschriften) correct an invoice
+  documentType?: "invoice" | "credit_note";
+  correctedInvoice?: {
+    invoiceNumber: string;
+    invoiceDate?: Date | string;
+  };
+
+  // Invoice details (the credit note's number and date for credit notes)
   invoiceNumber: string;
   invoiceDate: Date | string;
   dueDate?: Date | string;
@@ -7,6 +16,7 @@ export interface InvoiceData {
   // Order reference
   orderNumber: string;
   orderDate: Date | string;
+  buyerReference?: string; // Leitweg-ID of public-sector buyers (BT-10)
 
   // Seller (Shop)
   seller: {
@@ -15,6 +25,7 @@ export interface InvoiceData {
     zip: string;
     city: string;
     country: string;
+    countryCode?: string; // ISO 3166-1 alpha-2, for e-invoices
     email?: string;
     phone?: string;
     website?: string;
@@ -46,6 +57,7 @@ export interface InvoiceData {
     taxRate: number; // e.g., 19 for 19%
     totalNet: number; // in cents
     totalGross: number; // in cents
+    bundleComponent?: boolean; // Part of the preceding bundle line, priced there
   }>;
 
   // Totals
@@ -72,6 +84,11 @@ export interface InvoiceData {
   paymentMethod: string;
   paymentStatus: "pending" | "paid" | "refunded";
   paidAt?: Date | string;
+  prepaidAmount?: number; // Settled with the order while the rest is pending (gift cards)
+
+  // VAT note required by the order's treatment (reverse charge, export, OSS)
+  vatTreatment?: VatTreatment;
+  taxNote?: string;
 
   // Notes
   notes?: string;
@@ -83,6 +100,14 @@ export interface InvoiceConfig {
   logoUrl?: string;
   currency?: string;
   locale?: string;
+  // CII XML to embed, which turns the PDF into a ZUGFeRD / Factur-X PDF/A-3
+  eInvoiceXml?: string;
+  // TrueType fonts to embed; PDF/A validators reject the standard fonts,
+  // which are referenced but not embedded
+  fonts?: {
+    regular: string;
+    bold: string;
+  };
 }
 
 export function formatCurrency(cents: number, currency = "EUR", locale = "de-DE"): string {
@@ -21,6 +21,14 @@ export async function processEmailJob(job: Job<EmailJobData>) {
         log.info({ orderId: templateData.orderId }, "Sending shipping notification");
         break;
         
+      case "order_cancelled":
+        log.info({ orderId: templateData.orderId }, "Sending order cancellation");
+        break;
+        
+      case "return_update":
+        log.info({ orderId: templateData.orderId, returnId: templateData.returnId }, "Sending return update");
+        break;
+        
       case "password_reset":
         log.info("Sending password reset email");
         break;
@@ -1,8 +1,6 @@
 import { Job } from "bullmq";
-import { eq } from "drizzle-orm";
 import { logger } from "@/config/logger";
-import { db } from "@/db";
-import { invoices, orders } from "@/db/schema";
+import { invoiceService } from "@/invoices";
 import type { InvoiceJobData } from "../queues";
 
 export async function processInvoiceJob(job: Job<InvoiceJobData>) {
@@ -10,53 +8,13 @@ export async function processInvoiceJob(job: Job<InvoiceJobData>) {
   log.info({ invoiceId: job.data.invoiceId }, "Processing invoice job");
   
   try {
-    const { orderId, invoiceId } = job.data;
+    const { invoiceId } = job.data;
     
-    // Get invoice and order data
-    const invoice = await db.query.invoices.findFirst({
-      where: eq(invoices.id, invoiceId),
-    });
+    const { invoice } = await invoiceService.generatePdf(invoiceId);
     
-    if (!invoice) {
-      throw new Error("Invoice not found");
-    }
+    log.info({ invoiceNumber: invoice.invoiceNumber, pdfUrl: invoice.pdfUrl }, "Invoice PDF generated");
     
-    const order = await db.query.orders.findFirst({
-      where: eq(orders.id, orderId),
-      with: {
-        items: true,
-        taxLines: true,
-      },
-    });
-    
-    if (!order) {
-      throw new Error("Order not found");
-    }
-    
-    // TODO: Generate PDF using puppeteer, pdfkit, or external service
-    // 1. Render HTML template with order/invoice data
-    // 2. Convert to PDF
-    // 3. Upload to S3/storage
-    // 4. Update invoice record with PDF URL
-    
-    log.info({ invoiceNumber: invoice.invoiceNumber }, "Generating PDF");
-    
-    // Simulate PDF generation
-    const pdfUrl = "https://storage.example.com/invoices/" + invoice.invoiceNumber + ".pdf";
-    
-    // Update invoice with PDF URL
-    await db
-      .update(invoices)
-      .set({
-        pdfUrl,
-        pdfGeneratedAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(invoices.id, invoiceId));
-    
-    log.info({ pdfUrl }, "Invoice PDF generated");
-    
-    return { success: true, pdfUrl };
+    return { success: true, pdfUrl: invoice.pdfUrl };
     
   } catch (error) {
     log.error({ error }, "Invoice job failed");
@@ -5,6 +5,9 @@ import { getPaymentIntent } from "@/payments/stripe";
 import { db } from "@/db";
 import { orders } from "@/db/schema";
 import { eq, and, inArray, lt } from "drizzle-orm";
+import { orderService, type PaymentStatus, type StatusActor } from "@/orders";
+
+const SYNC_ACTOR: StatusActor = { type: "system", id: "payment-sync" };
 
 export interface PaymentSyncJobData {
   type: "sync_pending" | "sync_single" | "reconcile";
@@ -85,13 +88,7 @@ async function syncPendingPayments(log: Logger, maxAgeMinutes = 60) {
       const newStatus = mapStripeStatusToOrderStatus(paymentIntent.status);
 
       if (newStatus !== order.paymentStatus) {
-        await db
-          .update(orders)
-          .set({
-            paymentStatus: newStatus,
-            updatedAt: new Date(),
-          })
-          .where(eq(orders.id, order.id));
+        await orderService.transition(order.id, { paymentStatus: newStatus }, { actor: SYNC_ACTOR });
 
         log.info(
           { orderId: order.id, oldStatus: order.paymentStatus, newStatus },
@@ -136,13 +133,7 @@ async function syncSinglePayment(
   }
 
   if (newStatus !== order.paymentStatus) {
-    await db
-      .update(orders)
-      .set({
-        paymentStatus: newStatus,
-        updatedAt: new Date(),
-      })
-      .where(eq(orders.id, orderId));
+    await orderService.transition(orderId, { paymentStatus: newStatus }, { actor: SYNC_ACTOR });
 
     log.info({ orderId, oldStatus: order.paymentStatus, newStatus }, "Updated payment status");
     return { success: true, updated: true, oldStatus: order.paymentStatus, newStatus };
@@ -228,7 +219,7 @@ async function reconcilePayments(log: Logger) {
   };
 }
 
-function mapStripeStatusToOrderStatus(stripeStatus: string): string {
+function mapStripeStatusToOrderStatus(stripeStatus: string): PaymentStatus {
   switch (stripeStatus) {
     case "succeeded":
       return "paid";
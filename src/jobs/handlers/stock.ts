@@ -5,6 +5,7 @@ import { db } from "@/db";
 import { products } from "@/db/schema";
 import type { StockJobData } from "../queues";
 import { addEmailJob } from "../queues";
+import { releaseExpiredHolds } from "@/payments";
 
 export async function processStockJob(job: Job<StockJobData>) {
   const log = logger.child({ jobId: job.id, jobName: job.name });
@@ -22,6 +23,10 @@ export async function processStockJob(job: Job<StockJobData>) {
         await checkLowStock(log);
         break;
         
+      case "expired_reservations":
+        await releaseExpiredReservations(log);
+        break;
+        
       case "restock":
         if (productId) {
           await restockProduct(log, productId);
@@ -83,6 +88,14 @@ async function checkLowStock(log: typeof logger) {
   log.info("Low stock check completed");
 }
 
+async function releaseExpiredReservations(log: typeof logger) {
+  log.info("Releasing expired stock reservations");
+  
+  const { released, cancelled } = await releaseExpiredHolds();
+  
+  log.info({ released, cancelled }, "Expired reservations released");
+}
+
 async function restockProduct(log: typeof logger, productId: string) {
   log.info({ productId }, "Processing restock");
   
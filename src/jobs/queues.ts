@@ -74,6 +74,8 @@ export interface EmailJobData {
   type:
     | "order_confirmation"
     | "shipping_notification"
+    | "order_cancelled"
+    | "return_update"
     | "password_reset"
     | "welcome"
     | "marketing";
@@ -89,7 +91,7 @@ export interface InvoiceJobData {
 }
 
 export interface StockJobData {
-  type: "sync" | "low_stock_alert" | "restock";
+  type: "sync" | "low_stock_alert" | "restock" | "expired_reservations";
   productId?: string;
 }
 
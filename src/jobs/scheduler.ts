@@ -38,6 +38,14 @@ const SCHEDULES = {
     data: { type: "low_stock_alert" },
   },
 
+  // Release expired stock reservations every 5 minutes
+  expiredReservations: {
+    queue: QUEUE_NAMES.STOCK,
+    name: "expired_reservations",
+    pattern: "*/5 * * * *", // Every 5 minutes
+    data: { type: "expired_reservations" },
+  },
+
   // Sync stock daily at 3am
   stockSync: {
     queue: QUEUE_NAMES.STOCK,
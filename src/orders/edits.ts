@@ -0,0 +1,241 @@
+// Order Edits
+// src/orders/edits.ts
+
+import type {
+  EditableItem,
+  EditableProduct,
+  EditedLine,
+  OrderEditChange,
+  OrderEditLineChange,
+  OrderEditSettlement,
+  RefundCalculation,
+  RefundTaxLine,
+} from "./types.js";
+
+export class OrderEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OrderEditError";
+  }
+}
+
+// Payments that are settled in full; edits to them charge or refund the difference
+const SETTLED_PAYMENTS = ["paid"];
+
+// Payments the customer may still complete at the provider, for the total
+// they were started with
+const OPEN_PAYMENTS = ["pending", "failed"];
+
+/**
+ * Orders can be edited until something has shipped. Refunded orders are
+ * not edited: their refunds refer to the lines as they are. Neither are
+ * orders with a payment open at the provider, which would still charge the
+ * old total.
+ */
+export function assertEditable(order: {
+  status: string;
+  paymentStatus: string;
+  fulfillmentStatus: string;
+  paymentReference?: string | null;
+  metadata?: unknown;
+}): void {
+  if (order.status === "cancelled") {
+    throw new OrderEditError("Cancelled orders cannot be edited");
+  }
+  if (order.fulfillmentStatus !== "unfulfilled") {
+    throw new OrderEditError(`Cannot edit an order that is ${order.fulfillmentStatus.replace("_", " ")}`);
+  }
+  if (["partially_refunded", "refunded"].includes(order.paymentStatus)) {
+    throw new OrderEditError("Refunded orders cannot be edited");
+  }
+  if (["authorized", "processing"].includes(order.paymentStatus)) {
+    throw new OrderEditError("Wait for the payment to complete before editing the order");
+  }
+  const metadata = order.metadata as { stripeCheckoutSessionId?: string; paypalOrderId?: string } | null | undefined;
+  const providerPayment = order.paymentReference || metadata?.stripeCheckoutSessionId || metadata?.paypalOrderId;
+  if (OPEN_PAYMENTS.includes(order.paymentStatus) && providerPayment) {
+    throw new OrderEditError("The order's payment is still open; wait until it completes or lapses before editing the order");
+  }
+}
+
+/**
+ * Lines of the order after the changes, with the quantity changes made.
+ * Bundle components follow their bundle line and are not edited directly.
+ */
+export function applyEditChanges(
+  items: EditableItem[],
+  changes: OrderEditChange[],
+  products: Map<string, EditableProduct>
+): { lines: EditedLine[]; changes: OrderEditLineChange[] } {
+  const lines: EditedLine[] = items
+    .filter((item) => !item.parentItemId)
+    .map((item) => {
+      if (!item.productId) {
+        throw new OrderEditError(`The product of order item ${item.sku} no longer exists`);
+      }
+      return {
+        orderItemId: item.id,
+        productId: item.productId,
+        sku: item.sku,
+        name: item.name,
+        quantity: item.quantity,
+        unitPriceNet: item.unitPriceNet,
+        unitPriceGross: item.unitPriceGross,
+        taxClassId: products.get(item.productId)?.taxClassId ?? null,
+        metadata: item.metadata,
+      };
+    });
+
+  const lineOf = (orderItemId: string) => {
+    const line = lines.find((candidate) => candidate.orderItemId === orderItemId);
+    if (!line) {
+      const component = items.some((item) => item.id === orderItemId);
+      throw new OrderEditError(component
+        ? `Order item ${orderItemId} is part of a bundle and cannot be edited on its own`
+        : `Order item ${orderItemId} not found`);
+    }
+    return line;
+  };
+
+  for (const change of changes) {
+    switch (change.type) {
+      case "update":
+        if (!Number.isInteger(change.quantity) || change.quantity < 0) {
+          throw new OrderEditError("Quantities must be whole numbers of at least 0");
+        }
+        lineOf(change.orderItemId).quantity = change.quantity;
+        break;
+      case "remove":
+        lineOf(change.orderItemId).quantity = 0;
+        break;
+      case "add": {
+        if (!Number.isInteger(change.quantity) || change.quantity <= 0) {
+          throw new OrderEditError("Added quantities must be whole numbers of at least 1");
+        }
+        const product = products.get(change.productId);
+        if (!product || product.status !== "active") {
+          throw new OrderEditError(`Product ${change.productId} not found or not available`);
+        }
+        if (product.type === "variant" && !product.parentId) {
+          throw new OrderEditError(`Select a variant of product ${product.sku}`);
+        }
+
+        const existing = lines.find((line) => line.productId === product.id);
+        if (existing) {
+          existing.quantity += change.quantity;
+        } else {
+          lines.push({
+            productId: product.id,
+            sku: product.sku,
+            name: product.sku, // Would get from translations
+            quantity: change.quantity,
+            unitPriceNet: product.priceNet,
+            unitPriceGross: product.priceGross,
+            taxClassId: product.taxClassId,
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  const edited = lines.filter((line) => line.quantity > 0);
+  if (edited.length === 0) {
+    throw new OrderEditError("An order needs at least one line; cancel it instead");
+  }
+
+  const lineChanges = lines
+    .map((line) => ({
+      orderItemId: line.orderItemId,
+      productId: line.productId,
+      sku: line.sku,
+      name: line.name,
+      from: items.find((item) => item.id === line.orderItemId)?.quantity ?? 0,
+      to: line.quantity,
+    }))
+    .filter((change) => change.from !== change.to);
+
+  return { lines: edited, changes: lineChanges };
+}
+
+/**
+ * Stock to take (positive) or put back (negative) per product, comparing
+ * the stock lines (bundles expanded) before and after an edit
+ */
+export function stockChanges(
+  before: Array<{ productId: string; quantity: number }>,
+  after: Array<{ productId: string; quantity: number }>
+): Array<{ productId: string; quantity: number }> {
+  const delta = new Map<string, number>();
+  for (const line of before) delta.set(line.productId, (delta.get(line.productId) ?? 0) - line.quantity);
+  for (const line of after) delta.set(line.productId, (delta.get(line.productId) ?? 0) + line.quantity);
+  return [...delta.entries()]
+    .filter(([, quantity]) => quantity !== 0)
+    .map(([productId, quantity]) => ({ productId, quantity }));
+}
+
+// How the payment difference of an edit is settled
+export function settlementFor(paymentStatus: string, difference: number): OrderEditSettlement {
+  if (difference === 0 || !SETTLED_PAYMENTS.includes(paymentStatus)) {
+    return "none";
+  }
+  return difference > 0 ? "charge" : "refund";
+}
+
+/**
+ * Net and tax per rate of an order's lines (after discounts) and shipping
+ */
+export function taxBreakdown(
+  items: Array<{ parentItemId: string | null; totalGross: number; discountAmount: number; taxAmount: number; taxRate: number }>,
+  shipping: { total: number; tax: number }
+): RefundTaxLine[] {
+  const byRate = new Map<number, RefundTaxLine>();
+  const add = (rate: number, gross: number, tax: number) => {
+    const line = byRate.get(rate) ?? { rate, net: 0, tax: 0 };
+    line.net += gross - tax;
+    line.tax += tax;
+    byRate.set(rate, line);
+  };
+
+  for (const item of items.filter((entry) => !entry.parentItemId)) {
+    add(item.taxRate, item.totalGross - item.discountAmount, item.taxAmount);
+  }
+  if (shipping.total > 0) {
+    // Shipping carries the rate of the goods; rounded back to a tenth percent
+    const rate = shipping.total > shipping.tax
+      ? Math.round((shipping.tax * 1000) / (shipping.total - shipping.tax)) * 10
+      : 0;
+    add(rate, shipping.total, shipping.tax);
+  }
+  return [...byRate.values()].sort((a, b) => b.rate - a.rate);
+}
+
+/**
+ * Credit for an edit that lowered the total: the difference per tax rate,
+ * with rounding differences on the net of the first rate
+ */
+export function editRefundCalculation(
+  before: RefundTaxLine[],
+  after: RefundTaxLine[],
+  amount: number
+): RefundCalculation {
+  const rates = [...new Set([...before, ...after].map((line) => line.rate))].sort((a, b) => b - a);
+  const taxLines = rates
+    .map((rate) => {
+      const was = before.find((line) => line.rate === rate) ?? { net: 0, tax: 0 };
+      const is = after.find((line) => line.rate === rate) ?? { net: 0, tax: 0 };
+      return { rate, net: was.net - is.net, tax: was.tax - is.tax };
+    })
+    .filter((line) => line.net !== 0 || line.tax !== 0);
+
+  const difference = amount - taxLines.reduce((sum, line) => sum + line.net + line.tax, 0);
+  if (taxLines.length > 0) taxLines[0].net += difference;
+
+  return {
+    lines: [],
+    shipping: null,
+    taxLines,
+    total: amount,
+    taxTotal: taxLines.reduce((sum, line) => sum + line.tax, 0),
+  };
+}
@@ -0,0 +1,12 @@
+// Orders Module
+// src/orders/index.ts
+
+export * from "./types.js";
+export * from "./state-machine.js";
+export * from "./shipments.js";
+export * from "./refunds.js";
+export * from "./edits.js";
+export { orderService } from "./order-service.js";
+export { shipmentService } from "./shipment-service.js";
+export { refundService } from "./refund-service.js";
+export { orderEditService } from "./order-edit-service.js";
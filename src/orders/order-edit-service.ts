@@ -0,0 +1,557 @@
+// Order Edit Service
+// src/orders/order-edit-service.ts
+
+import { eq, and, desc, inArray } from "drizzle-orm";
+import { logger } from "@/config/logger";
+import { env } from "@/config/env";
+import { db, type DbExecutor } from "@/db";
+import { customers, invoices, orders, orderItems, orderTaxLines, orderEdits, products } from "@/db/schema";
+import { inventoryService } from "@/inventory";
+import { bundleService } from "@/bundles";
+import { shippingService } from "@/shipping";
+import { variantService } from "@/variants";
+import { taxService, formatTaxLineName, isZeroRated } from "@/tax";
+import { webhookEvents } from "@/webhooks/webhook-service";
+import { createCheckoutSession } from "@/payments/stripe";
+import type {
+  EditedLine,
+  OrderEditLineChange,
+  OrderEditRequest,
+  OrderEditSettlement,
+  OrderTotals,
+  StatusActor,
+} from "./types.js";
+import {
+  OrderEditError,
+  applyEditChanges,
+  assertEditable,
+  editRefundCalculation,
+  settlementFor,
+  stockChanges,
+  taxBreakdown,
+} from "./edits.js";
+import { refundService } from "./refund-service.js";
+
+type Order = typeof orders.$inferSelect;
+type OrderItem = typeof orderItems.$inferSelect;
+type OrderEdit = typeof orderEdits.$inferSelect;
+
+const sameAddress = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * The order as it would be after the edit, priced as at checkout: VAT for
+ * the delivery address, the shipping method priced for the new contents,
+ * the discount shared across the lines. The order keeps its discount amount
+ * (the coupon is not evaluated again), up to the new subtotal.
+ */
+async function priceEdit(order: Order, request: OrderEditRequest, executor: DbExecutor) {
+  const items = await executor.select().from(orderItems).where(eq(orderItems.orderId, order.id));
+  const productIds = [...new Set([
+    ...items.map((item) => item.productId).filter((id): id is string => Boolean(id)),
+    ...(request.changes ?? []).flatMap((change) => (change.type === "add" ? [change.productId] : [])),
+  ])];
+  const rows = productIds.length > 0
+    ? await executor
+        .select({
+          id: products.id,
+          sku: products.sku,
+          type: products.type,
+          status: products.status,
+          parentId: products.parentId,
+          priceNet: products.priceNet,
+          priceGross: products.priceGross,
+          taxClassId: products.taxClassId,
+        })
+        .from(products)
+        .where(inArray(products.id, productIds))
+    : [];
+  const { lines, changes } = applyEditChanges(items, request.changes ?? [], new Map(rows.map((row) => [row.id, row])));
+
+  // Added variants keep their parent and options for display, as in the cart
+  const added = lines.filter((line) => !line.orderItemId);
+  const options = await variantService.getSelectedOptions(
+    added.filter((line) => rows.find((row) => row.id === line.productId)?.parentId).map((line) => line.productId),
+    executor
+  );
+  for (const line of added) {
+    const parentId = rows.find((row) => row.id === line.productId)?.parentId;
+    if (parentId) {
+      line.metadata = {
+        parentId,
+        options: Object.fromEntries((options.get(line.productId) ?? []).map((option) => [option.name, option.value])),
+      };
+    }
+  }
+
+  const shippingAddress = request.shippingAddress ?? (order.shippingAddress as Record<string, unknown>);
+  const billingAddress = request.billingAddress ?? (order.billingAddress as Record<string, unknown>);
+
+  // The buyer's VAT ID on the order was verified at checkout
+  const customer = order.customerId
+    ? await executor.query.customers.findFirst({ where: eq(customers.id, order.customerId) })
+    : undefined;
+  const vat = await taxService.getVatContext({
+    address: taxService.getTaxAddress(shippingAddress, billingAddress),
+    orderNet: lines.reduce((sum, line) => sum + line.unitPriceNet * line.quantity, 0),
+    taxExempt: customer?.taxExempt,
+    vatId: order.customerVatId ?? customer?.vatId,
+    vatIdVerified: Boolean(order.customerVatId) || customer?.vatIdVerified,
+  }, executor);
+
+  const taxItems = lines.map((line, index) => ({
+    key: String(index),
+    taxClassId: line.taxClassId,
+    unitPriceNet: line.unitPriceNet,
+    quantity: line.quantity,
+    fallbackRate: taxService.impliedRate(line.unitPriceNet, line.unitPriceGross),
+  }));
+  const goods = await taxService.calculate({
+    items: taxItems,
+    address: vat.taxAddress,
+    zeroRated: isZeroRated(vat.treatment),
+  }, executor);
+
+  const shippingMethodId = request.shippingMethodId ?? order.shippingMethodId;
+  let shippingTotal = 0;
+  if (shippingMethodId) {
+    const rate = await shippingService.getRate(shippingMethodId, {
+      country: taxService.getTaxAddress(shippingAddress).country,
+      items: lines.map((line) => ({ productId: line.productId, quantity: line.quantity })),
+      subtotal: goods.subtotal,
+    }, executor);
+    if (!rate) {
+      throw new OrderEditError("The shipping method is not available for the edited order");
+    }
+    shippingTotal = rate.price;
+  }
+
+  const taxes = await taxService.calculate({
+    items: taxItems,
+    address: vat.taxAddress,
+    zeroRated: isZeroRated(vat.treatment),
+    shippingGross: shippingTotal,
+    discountGross: Math.min(order.discountTotal, goods.subtotal),
+  }, executor);
+
+  return {
+    items,
+    lines,
+    changes,
+    taxes,
+    vat,
+    shippingMethodId,
+    shippingAddress,
+    billingAddress,
+    addressesChanged: !sameAddress(shippingAddress, order.shippingAddress) || !sameAddress(billingAddress, order.billingAddress),
+  };
+}
+
+function totalsOf(
+  order: Pick<Order, "subtotal" | "shippingTotal" | "shippingTax" | "taxTotal" | "discountTotal" | "total">,
+  items: Array<Pick<OrderItem, "parentItemId" | "totalGross" | "discountAmount" | "taxAmount" | "taxRate">>
+): OrderTotals {
+  return {
+    subtotal: order.subtotal,
+    shippingTotal: order.shippingTotal,
+    shippingTax: order.shippingTax,
+    taxTotal: order.taxTotal,
+    discountTotal: order.discountTotal,
+    total: order.total,
+    taxLines: taxBreakdown(items, { total: order.shippingTotal, tax: order.shippingTax }),
+  };
+}
+
+/**
+ * Write the edited lines the way checkout does: a bundle line followed by
+ * its components, which carry the stock and warehouse but no price. Kept
+ * lines keep their ids.
+ */
+async function writeLines(
+  order: Order,
+  lines: EditedLine[],
+  taxes: Awaited<ReturnType<typeof priceEdit>>["taxes"],
+  warehouses: Array<string | undefined>,
+  tx: DbExecutor
+): Promise<OrderItem[]> {
+  await tx.delete(orderItems).where(eq(orderItems.orderId, order.id));
+  const bundleComponents = await bundleService.getComponents(lines.map((line) => line.productId), tx);
+
+  const written: OrderItem[] = [];
+  let stockIndex = 0;
+  for (const [index, line] of lines.entries()) {
+    const taxed = taxes.lines.find((entry) => entry.key === String(index))!;
+    const components = bundleComponents.get(line.productId);
+
+    const [orderItem] = await tx.insert(orderItems).values({
+      id: line.orderItemId,
+      orderId: order.id,
+      productId: line.productId,
+      sku: line.sku,
+      name: line.name,
+      quantity: line.quantity,
+      unitPriceNet: line.unitPriceNet,
+      unitPriceGross: Math.round(taxed.grossAmount / line.quantity),
+      totalNet: taxed.netAmount,
+      totalGross: taxed.grossAmount,
+      taxRate: taxed.taxRate,
+      taxAmount: taxed.discountedTaxAmount,
+      discountAmount: taxed.discountAmount,
+      warehouseId: components ? undefined : warehouses[stockIndex++],
+      metadata: line.metadata,
+    }).returning();
+    written.push(orderItem);
+
+    for (const component of components ?? []) {
+      const [componentItem] = await tx.insert(orderItems).values({
+        orderId: order.id,
+        parentItemId: orderItem.id,
+        productId: component.productId,
+        sku: component.sku,
+        name: component.name,
+        quantity: component.quantity * line.quantity,
+        unitPriceNet: 0,
+        unitPriceGross: 0,
+        totalNet: 0,
+        totalGross: 0,
+        taxRate: taxed.taxRate,
+        taxAmount: 0,
+        warehouseId: warehouses[stockIndex++],
+      }).returning();
+      written.push(componentItem);
+    }
+  }
+  return written;
+}
+
+/**
+ * Move the order's stock to the edited lines. Unpaid orders hold stock:
+ * the holds are taken again for the new lines. Once the stock is sold
+ * (paid, or no payment step) the difference is deducted or put back.
+ * Returns the warehouse of each stock line.
+ */
+async function moveStock(
+  order: Order,
+  items: OrderItem[],
+  stockLines: Array<{ productId: string; quantity: number }>,
+  country: string,
+  tx: DbExecutor
+): Promise<Array<string | undefined>> {
+  const sold = order.paymentStatus === "paid" || !order.paymentMethodId;
+  if (!sold) {
+    const reservations = await inventoryService.reserveItems(order.id, stockLines, tx, { country });
+    return reservations.map((reservation) => reservation.warehouseId);
+  }
+
+  // Bundle lines hold no stock of their own; their components do
+  const bundleLineIds = new Set(items.map((item) => item.parentItemId).filter(Boolean));
+  const held = items.filter((item) => !bundleLineIds.has(item.id) && item.productId);
+  const warehouseOf = new Map(held.map((item) => [item.productId!, item.warehouseId ?? undefined]));
+
+  const changes = stockChanges(held.map((item) => ({ productId: item.productId!, quantity: item.quantity })), stockLines);
+  for (const change of changes) {
+    if (change.quantity > 0) {
+      const inventory = await inventoryService.deductStock({
+        productId: change.productId,
+        warehouseId: warehouseOf.get(change.productId),
+        quantity: change.quantity,
+        orderId: order.id,
+      }, tx);
+      warehouseOf.set(change.productId, warehouseOf.get(change.productId) ?? inventory.warehouseId);
+    } else {
+      await inventoryService.adjustStock({
+        productId: change.productId,
+        warehouseId: warehouseOf.get(change.productId),
+        quantity: -change.quantity,
+        reason: `Order ${order.orderNumber} edited`,
+      }, tx);
+    }
+  }
+  return stockLines.map((line) => warehouseOf.get(line.productId));
+}
+
+export const orderEditService = {
+  /**
+   * What an edit would change, without saving it
+   */
+  async preview(orderId: string, request: OrderEditRequest): Promise<{
+    before: OrderTotals;
+    after: OrderTotals;
+    changes: OrderEditLineChange[];
+    totalDifference: number;
+    settlement: OrderEditSettlement;
+  }> {
+    const order = await db.query.orders.findFirst({ where: eq(orders.id, orderId) });
+    if (!order) {
+      throw new Error("Order not found");
+    }
+    assertEditable(order);
+
+    const priced = await priceEdit(order, request, db);
+    const { taxes } = priced;
+    const after = {
+      subtotal: taxes.subtotal,
+      shippingTotal: taxes.shippingTotal,
+      shippingTax: taxes.shipping.taxAmount,
+      taxTotal: taxes.taxTotal,
+      discountTotal: taxes.discountTotal,
+      total: taxes.total,
+      taxLines: taxBreakdown(
+        priced.lines.map((line, index) => {
+          const taxed = taxes.lines.find((entry) => entry.key === String(index))!;
+          return {
+            parentItemId: null,
+            totalGross: taxed.grossAmount,
+            discountAmount: taxed.discountAmount,
+            taxAmount: taxed.discountedTaxAmount,
+            taxRate: taxed.taxRate,
+          };
+        }),
+        { total: taxes.shippingTotal, tax: taxes.shipping.taxAmount }
+      ),
+    };
+
+    return {
+      before: totalsOf(order, priced.items),
+      after,
+      changes: priced.changes,
+      totalDifference: after.total - order.total,
+      settlement: settlementFor(order.paymentStatus, after.total - order.total),
+    };
+  },
+
+  /**
+   * Edit the lines, addresses or shipping method of an order that has not
+   * shipped. Totals are recalculated as at checkout, stock follows the new
+   * lines and the edit is recorded. On a paid order a higher total gets a
+   * payment link for the difference and a lower one is refunded.
+   */
+  async apply(
+    orderId: string,
+    request: OrderEditRequest,
+    actor: StatusActor
+  ): Promise<{ order: Order; edit: OrderEdit }> {
+    const result = await db.transaction(async (t) => {
+      const [order] = await t.select().from(orders).where(eq(orders.id, orderId)).for("update");
+      if (!order) {
+        throw new Error("Order not found");
+      }
+      assertEditable(order);
+
+      // A final invoice is not changed; it is cancelled with a credit note first
+      const invoice = await t.query.invoices.findFirst({
+        where: and(eq(invoices.orderId, orderId), eq(invoices.status, "final")),
+        columns: { invoiceNumber: true },
+      });
+      if (invoice) {
+        throw new OrderEditError(`Cancel invoice ${invoice.invoiceNumber} before editing the order`);
+      }
+
+      const priced = await priceEdit(order, request, t);
+      const shippingMethodChanged = (priced.shippingMethodId ?? null) !== order.shippingMethodId;
+      if (priced.changes.length === 0 && !priced.addressesChanged && !shippingMethodChanged) {
+        throw new OrderEditError("Nothing to change");
+      }
+
+      const { taxes, vat } = priced;
+      const stockLines = await bundleService.expandItems(
+        priced.lines.map((line) => ({ productId: line.productId, quantity: line.quantity })),
+        t
+      );
+      const warehouses = await moveStock(
+        order,
+        priced.items,
+        stockLines,
+        String(priced.shippingAddress.country ?? ""),
+        t
+      );
+      const written = await writeLines(order, priced.lines, taxes, warehouses, t);
+
+      await t.delete(orderTaxLines).where(eq(orderTaxLines.orderId, orderId));
+      if (taxes.taxLines.length > 0) {
+        await t.insert(orderTaxLines).values(
+          taxes.taxLines.map((tax) => ({
+            orderId,
+            name: formatTaxLineName(tax),
+            rate: tax.rate,
+            amount: tax.amount,
+          }))
+        );
+      }
+
+      const [updated] = await t.update(orders)
+        .set({
+          subtotal: taxes.subtotal,
+          shippingTotal: taxes.shippingTotal,
+          shippingTax: taxes.shipping.taxAmount,
+          taxTotal: taxes.taxTotal,
+          discountTotal: taxes.discountTotal,
+          total: taxes.total,
+          vatTreatment: vat.treatment,
+          taxCountry: isZeroRated(vat.treatment) ? null : vat.taxAddress.country,
+          customerVatId: vat.buyerVatId ?? null,
+          shippingAddress: priced.shippingAddress,
+          billingAddress: priced.billingAddress,
+          shippingMethodId: priced.shippingMethodId,
+          updatedAt: new Date(),
+        })
+        .where(eq(orders.id, orderId))
+        .returning();
+
+      const totalDifference = updated.total - order.total;
+      const settlement = settlementFor(order.paymentStatus, totalDifference);
+      const [edit] = await t.insert(orderEdits).values({
+        orderId,
+        changes: {
+          lines: priced.changes,
+          shippingAddress: sameAddress(priced.shippingAddress, order.shippingAddress)
+            ? undefined
+            : { from: order.shippingAddress, to: priced.shippingAddress },
+          billingAddress: sameAddress(priced.billingAddress, order.billingAddress)
+            ? undefined
+            : { from: order.billingAddress, to: priced.billingAddress },
+          shippingMethodId: shippingMethodChanged
+            ? { from: order.shippingMethodId, to: priced.shippingMethodId }
+            : undefined,
+        },
+        before: totalsOf(order, priced.items),
+        after: totalsOf(updated, written),
+        totalDifference,
+        settlement,
+        paymentStatus: settlement === "none" ? "not_required" : "pending",
+        reason: request.reason,
+        actorType: actor.type,
+        actorId: actor.id,
+      }).returning();
+
+      return { order: updated, edit };
+    });
+
+    webhookEvents.orderUpdated(result.order as unknown as Record<string, unknown>).catch((error) => {
+      logger.error({ error, orderId }, "Failed to emit order webhooks");
+    });
+
+    // The edit stands either way; a failed settlement is recorded on it
+    let edit = result.edit;
+    if (edit.settlement === "refund") {
+      edit = await this.refundDifference(edit.id, actor, request.refundMethod);
+    } else if (edit.settlement === "charge") {
+      edit = await this.requestPayment(edit.id);
+    }
+    return { order: result.order, edit };
+  },
+
+  /**
+   * Refund what an edit took off a paid order
+   */
+  async refundDifference(
+    editId: string,
+    actor: StatusActor,
+    method: "original" | "gift_card" = "original"
+  ): Promise<OrderEdit> {
+    const edit = await this.getById(editId);
+    if (!edit) {
+      throw new Error("Order edit not found");
+    }
+    if (edit.settlement !== "refund" || !["pending", "failed"].includes(edit.paymentStatus)) {
+      throw new OrderEditError("Nothing to refund for this edit");
+    }
+
+    try {
+      const { refund } = await refundService.refundEdit(edit.orderId, {
+        orderEditId: edit.id,
+        calculation: editRefundCalculation(
+          (edit.before as OrderTotals).taxLines,
+          (edit.after as OrderTotals).taxLines,
+          -edit.totalDifference
+        ),
+        method,
+        reason: edit.reason ?? "Bestellung geändert",
+      }, actor);
+
+      const [updated] = await db.update(orderEdits)
+        .set({ paymentStatus: "refunded", refundId: refund.id, error: null, updatedAt: new Date() })
+        .where(eq(orderEdits.id, edit.id))
+        .returning();
+      return updated;
+    } catch (error) {
+      logger.error({ error, orderId: edit.orderId, orderEditId: edit.id }, "Failed to refund order edit");
+      const [updated] = await db.update(orderEdits)
+        .set({ paymentStatus: "failed", error: error instanceof Error ? error.message : String(error), updatedAt: new Date() })
+        .where(eq(orderEdits.id, edit.id))
+        .returning();
+      return updated;
+    }
+  },
+
+  /**
+   * Payment link for what an edit added to a paid order; the Stripe webhook
+   * marks the edit paid (see markPaid)
+   */
+  async requestPayment(editId: string): Promise<OrderEdit> {
+    const edit = await this.getById(editId);
+    if (!edit) {
+      throw new Error("Order edit not found");
+    }
+    if (edit.settlement !== "charge" || edit.paymentStatus !== "pending") {
+      throw new OrderEditError("Nothing to charge for this edit");
+    }
+    const order = await db.query.orders.findFirst({ where: eq(orders.id, edit.orderId) });
+    if (!order) {
+      throw new Error("Order not found");
+    }
+
+    const baseUrl = env.STOREFRONT_URL || "http://localhost:4001";
+    try {
+      const session = await createCheckoutSession({
+        orderId: order.id,
+        lineItems: [{ name: `Nachzahlung Bestellung ${order.orderNumber}`, amount: edit.totalDifference, quantity: 1 }],
+        customerEmail: order.email,
+        successUrl: `${baseUrl}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
+        cancelUrl: `${baseUrl}/account/orders/${order.orderNumber}`,
+        metadata: { orderEditId: edit.id },
+      });
+
+      const [updated] = await db.update(orderEdits)
+        .set({ chargeUrl: session.url, chargeReference: session.sessionId, error: null, updatedAt: new Date() })
+        .where(eq(orderEdits.id, edit.id))
+        .returning();
+      return updated;
+    } catch (error) {
+      // Stays pending; the link can be requested again
+      logger.error({ error, orderId: order.id, orderEditId: edit.id }, "Failed to create payment link for order edit");
+      const [updated] = await db.update(orderEdits)
+        .set({ error: error instanceof Error ? error.message : String(error), updatedAt: new Date() })
+        .where(eq(orderEdits.id, edit.id))
+        .returning();
+      return updated;
+    }
+  },
+
+  /**
+   * Record the payment of an edit's extra charge. Repeated events change
+   * nothing; returns null then.
+   */
+  async markPaid(editId: string, paymentReference?: string): Promise<OrderEdit | null> {
+    const [updated] = await db.update(orderEdits)
+      .set({
+        paymentStatus: "paid",
+        chargeReference: paymentReference,
+        error: null,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(orderEdits.id, editId), eq(orderEdits.settlement, "charge"), eq(orderEdits.paymentStatus, "pending")))
+      .returning();
+    return updated ?? null;
+  },
+
+  async getById(editId: string, executor: DbExecutor = db): Promise<OrderEdit | undefined> {
+    return executor.query.orderEdits.findFirst({ where: eq(orderEdits.id, editId) });
+  },
+
+  async listForOrder(orderId: string, executor: DbExecutor = db): Promise<OrderEdit[]> {
+    return executor.query.orderEdits.findMany({
+      where: eq(orderEdits.orderId, orderId),
+      orderBy: desc(orderEdits.createdAt),
+    });
+  },
+};
@@ -0,0 +1,183 @@
+// Order Service
+// src/orders/order-service.ts
+
+import { eq, asc } from "drizzle-orm";
+import { logger } from "@/config/logger";
+import { db, type DbExecutor } from "@/db";
+import { orders, orderStatusHistory } from "@/db/schema";
+import { inventoryService } from "@/inventory";
+import { discountService } from "@/discounts";
+import { giftCardService } from "@/giftcards";
+import { webhookEvents } from "@/webhooks/webhook-service";
+import { addEmailJob } from "@/jobs/queues";
+import type { StatusActor, StatusChanges, StatusTransition } from "./types.js";
+import { planTransitions, withImpliedStatus } from "./state-machine.js";
+
+type Order = typeof orders.$inferSelect;
+
+function inTransaction<T>(executor: DbExecutor | undefined, fn: (tx: DbExecutor) => Promise<T>): Promise<T> {
+  return (executor ?? db).transaction(fn);
+}
+
+const changed = (transitions: StatusTransition[], field: StatusTransition["field"], ...to: string[]) =>
+  transitions.some((t) => t.field === field && to.includes(t.to));
+
+// Timestamps set when a state is entered
+function timestampsFor(transitions: StatusTransition[], now: Date): Partial<Order> {
+  const stamps: Partial<Order> = {};
+  if (changed(transitions, "paymentStatus", "paid")) stamps.paidAt = now;
+  if (changed(transitions, "fulfillmentStatus", "shipped")) stamps.shippedAt = now;
+  if (changed(transitions, "fulfillmentStatus", "delivered")) stamps.deliveredAt = now;
+  if (changed(transitions, "status", "cancelled")) stamps.cancelledAt = now;
+  return stamps;
+}
+
+// Webhooks and emails, sent once the change is saved. Shipping
+// confirmations go out per shipment (see shipment-service.ts).
+async function notify(order: Order, transitions: StatusTransition[], notifyCustomer: boolean): Promise<void> {
+  const payload = order as unknown as Record<string, unknown>;
+  const events: Array<Promise<void>> = [webhookEvents.orderUpdated(payload)];
+  if (changed(transitions, "paymentStatus", "paid")) events.push(webhookEvents.orderPaid(payload));
+  if (changed(transitions, "paymentStatus", "refunded", "partially_refunded")) events.push(webhookEvents.orderRefunded(payload));
+  if (changed(transitions, "fulfillmentStatus", "shipped")) events.push(webhookEvents.orderShipped(payload));
+  if (changed(transitions, "fulfillmentStatus", "delivered")) events.push(webhookEvents.orderDelivered(payload));
+  if (changed(transitions, "status", "cancelled")) events.push(webhookEvents.orderCancelled(payload));
+
+  // Deliveries retry on their own; do not hold up the caller
+  Promise.all(events).catch((error) => {
+    logger.error({ error, orderId: order.id }, "Failed to emit order webhooks");
+  });
+
+  if (!notifyCustomer) {
+    return;
+  }
+
+  const address = order.shippingAddress as Record<string, unknown>;
+  const customerName = [address.firstName, address.lastName].filter(Boolean).join(" ");
+  const emails: Array<Parameters<typeof addEmailJob>[0]> = [];
+
+  if (changed(transitions, "status", "cancelled")) {
+    emails.push({
+      type: "order_cancelled",
+      to: order.email,
+      subject: `Ihre Bestellung ${order.orderNumber} wurde storniert`,
+      templateId: "order-cancelled",
+      templateData: { orderId: order.id, orderNumber: order.orderNumber, customerName },
+    });
+  }
+
+  for (const email of emails) {
+    await addEmailJob(email).catch((error) => {
+      logger.error({ error, orderId: order.id, type: email.type }, "Failed to queue order email");
+    });
+  }
+}
+
+export const orderService = {
+  /**
+   * Change the status, payment and/or fulfilment status of an order.
+   * Transitions are validated and recorded in the history; stock holds,
+   * coupons and gift cards are settled in the same transaction. Webhooks and
+   * customer emails go out afterwards. Other columns (tracking etc.) can be
+   * updated alongside.
+   */
+  async transition(
+    orderId: string,
+    changes: StatusChanges,
+    options: {
+      actor: StatusActor;
+      reason?: string;
+      metadata?: Record<string, unknown>;
+      notifyCustomer?: boolean;
+      fields?: Partial<Omit<Order, "id" | "status" | "paymentStatus" | "fulfillmentStatus">>;
+    },
+    tx?: DbExecutor
+  ): Promise<{ order: Order; transitions: StatusTransition[] }> {
+    const result = await inTransaction(tx, async (t) => {
+      const [current] = await t
+        .select()
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .for("update");
+      if (!current) {
+        throw new Error("Order not found");
+      }
+
+      const transitions = planTransitions(current, withImpliedStatus(current, changes));
+      if (transitions.length === 0 && !options.fields) {
+        return { order: current, transitions };
+      }
+
+      const now = new Date();
+      let [order] = await t
+        .update(orders)
+        .set({
+          ...options.fields,
+          ...Object.fromEntries(transitions.map((transition) => [transition.field, transition.to])),
+          ...timestampsFor(transitions, now),
+          updatedAt: now,
+        })
+        .where(eq(orders.id, orderId))
+        .returning();
+
+      if (transitions.length > 0) {
+        await t.insert(orderStatusHistory).values(
+          transitions.map((transition) => ({
+            orderId,
+            field: transition.field,
+            fromStatus: transition.from,
+            toStatus: transition.to,
+            actorType: options.actor.type,
+            actorId: options.actor.id,
+            reason: options.reason,
+            metadata: options.metadata,
+            createdAt: now,
+          }))
+        );
+      }
+
+      // Stock holds follow the payment and the order
+      if (changed(transitions, "paymentStatus", "paid")) {
+        await inventoryService.completeOrderReservations(orderId, t);
+      } else if (
+        changed(transitions, "status", "cancelled") ||
+        changed(transitions, "paymentStatus", "failed", "cancelled")
+      ) {
+        await inventoryService.releaseReservations(orderId, t);
+      }
+
+      // An order cancelled before it was ever paid gives its coupon back
+      if (changed(transitions, "status", "cancelled") && !current.paidAt) {
+        await discountService.releaseRedemption(orderId, t);
+      }
+
+      // Gift cards are given back only once the order cannot be paid any
+      // more; a failed attempt may still be retried on the same payment
+      if (
+        order.giftCardTotal > 0 &&
+        (changed(transitions, "status", "cancelled") || changed(transitions, "paymentStatus", "cancelled"))
+      ) {
+        const reversed = await giftCardService.reverseForOrder(orderId, t);
+        [order] = await t
+          .update(orders)
+          .set({ giftCardTotal: Math.max(order.giftCardTotal - reversed, 0) })
+          .where(eq(orders.id, orderId))
+          .returning();
+      }
+
+      return { order, transitions };
+    });
+
+    if (result.transitions.length > 0) {
+      await notify(result.order, result.transitions, options.notifyCustomer ?? true);
+    }
+    return result;
+  },
+
+  async getHistory(orderId: string, executor: DbExecutor = db) {
+    return executor.query.orderStatusHistory.findMany({
+      where: eq(orderStatusHistory.orderId, orderId),
+      orderBy: [asc(orderStatusHistory.createdAt)],
+    });
+  },
+};
@@ -0,0 +1,361 @@
+// Refund Service
+// src/orders/refund-service.ts
+
+import { eq, and, desc, inArray, isNull, sql } from "drizzle-orm";
+import { logger } from "@/config/logger";
+import { db, type DbExecutor } from "@/db";
+import { orders, orderItems, paymentMethods, refunds } from "@/db/schema";
+import { webhookEvents } from "@/webhooks/webhook-service";
+import { giftCardService } from "@/giftcards";
+import { creditNoteService } from "@/invoices";
+import { createRefund } from "@/payments/stripe";
+import { refundPayPalCapture } from "@/payments/paypal";
+import type { RefundCalculation, RefundProvider, RefundRequest, RefundSnapshot, StatusActor } from "./types.js";
+import { RefundError, planRefund, splitRefund } from "./refunds.js";
+import { orderService } from "./order-service.js";
+
+type Order = typeof orders.$inferSelect;
+type Refund = typeof refunds.$inferSelect;
+
+// Refunds that count against the order: made, or on their way
+const ACTIVE = ["pending", "succeeded"];
+
+function inTransaction<T>(executor: DbExecutor | undefined, fn: (tx: DbExecutor) => Promise<T>): Promise<T> {
+  return (executor ?? db).transaction(fn);
+}
+
+// Refunds of order edits paid back what the edit took off the total; they
+// only count where the provider's refunded total is compared
+async function activeRefunds(
+  orderId: string,
+  executor: DbExecutor,
+  options: { includeEdits?: boolean } = {}
+): Promise<Refund[]> {
+  return executor.select().from(refunds)
+    .where(and(
+      eq(refunds.orderId, orderId),
+      inArray(refunds.status, ACTIVE),
+      options.includeEdits ? undefined : isNull(refunds.orderEditId)
+    ));
+}
+
+function toSnapshot(refund: Refund): RefundSnapshot {
+  return {
+    amount: refund.amount,
+    lines: refund.lines as RefundSnapshot["lines"],
+    shippingAmount: refund.shippingAmount,
+  };
+}
+
+// How a refund of `amount` is shared between the order's payment and its
+// gift cards. Edit refunds paid back what is already off the total, so they
+// are added to what the payment covered, including one about to be made.
+async function shareOf(order: Order, amount: number, executor: DbExecutor, pendingEdit = 0) {
+  const made = await activeRefunds(order.id, executor, { includeEdits: true });
+  const edits = made.filter((refund) => refund.orderEditId).reduce((sum, refund) => sum + refund.amount, 0);
+  return splitRefund(amount, {
+    payment: order.total - order.giftCardTotal + edits + pendingEdit,
+    giftCards: order.giftCardTotal,
+  }, {
+    payment: made.reduce((sum, refund) => sum + refund.amount - refund.giftCardAmount, 0),
+    giftCards: made.reduce((sum, refund) => sum + refund.giftCardAmount, 0),
+  });
+}
+
+// Provider of the order's payment
+async function providerOf(order: Order, executor: DbExecutor): Promise<RefundProvider> {
+  const method = order.paymentMethodId
+    ? await executor.query.paymentMethods.findFirst({ where: eq(paymentMethods.id, order.paymentMethodId) })
+    : undefined;
+  if (!method || !order.paymentReference) {
+    throw new RefundError("The order has no payment to refund; refund it as gift card credit");
+  }
+  if (method.provider !== "stripe" && method.provider !== "paypal") {
+    throw new RefundError(`Refunds via ${method.provider} are not supported; refund it as gift card credit`);
+  }
+  return method.provider;
+}
+
+/**
+ * Book a refund that has gone out: credit note, payment status and
+ * `order.refunded`
+ */
+async function settle(
+  order: Order,
+  refund: Refund,
+  calculation: RefundCalculation,
+  actor: StatusActor,
+  tx: DbExecutor
+): Promise<Refund> {
+  const creditNote = await creditNoteService.create(order.id, calculation, {
+    reason: refund.reason ?? "Erstattung",
+    itemised: (refund.lines as unknown[]).length > 0,
+  }, tx);
+  const [settled] = await tx.update(refunds)
+    .set({ creditNoteId: creditNote.id, updatedAt: new Date() })
+    .where(eq(refunds.id, refund.id))
+    .returning();
+
+  // The edit lowered the order total; the order is still paid in full
+  if (refund.orderEditId) {
+    webhookEvents.orderRefunded({ ...order, refundId: refund.id, refundAmount: refund.amount }).catch((error) => {
+      logger.error({ error, orderId: order.id }, "Failed to emit order webhooks");
+    });
+    return settled;
+  }
+
+  const [{ refunded }] = await tx
+    .select({ refunded: sql<number>`coalesce(sum(${refunds.amount}), 0)`.mapWith(Number) })
+    .from(refunds)
+    .where(and(eq(refunds.orderId, order.id), eq(refunds.status, "succeeded"), isNull(refunds.orderEditId)));
+  const { order: updated, transitions } = await orderService.transition(
+    order.id,
+    { paymentStatus: refunded >= order.total ? "refunded" : "partially_refunded" },
+    { actor, reason: refund.reason ?? undefined, metadata: { refundId: refund.id, creditNoteId: creditNote.id } },
+    tx
+  );
+
+  // A further partial refund does not change the status; still announce it
+  if (transitions.length === 0) {
+    webhookEvents.orderRefunded({ ...updated, refundId: refund.id, refundAmount: refund.amount }).catch((error) => {
+      logger.error({ error, orderId: order.id }, "Failed to emit order webhooks");
+    });
+  }
+  return settled;
+}
+
+/**
+ * Send a claimed refund out: the payment share through the provider first,
+ * outside any transaction and keyed by the refund's ID, so a retry cannot pay
+ * it twice. Then the gift card share goes back onto the order's gift cards,
+ * or the payment share is issued as credit, together with the status.
+ * A refund that does not go out is marked failed, which releases the claimed
+ * amount; one that went out but was not booked stays pending.
+ */
+async function payOut(order: Order, refund: Refund): Promise<{ refund: Refund; giftCardCode?: string }> {
+  const payment = refund.amount - refund.giftCardAmount;
+  const fail = async (error: unknown) => {
+    await db.update(refunds)
+      .set({ status: "failed", error: error instanceof Error ? error.message : String(error), updatedAt: new Date() })
+      .where(eq(refunds.id, refund.id));
+  };
+
+  let providerRefundId: string | undefined;
+  try {
+    switch (payment > 0 ? refund.provider : null) {
+      case "stripe":
+        providerRefundId = (await createRefund(order.paymentReference!, payment, refund.id)).id;
+        break;
+      case "paypal":
+        providerRefundId = (await refundPayPalCapture(order.paymentReference!, payment, order.currency, refund.id)).refundId;
+        break;
+    }
+  } catch (error) {
+    await fail(error);
+    throw error;
+  }
+
+  try {
+    return await db.transaction(async (tx) => {
+      if (refund.giftCardAmount > 0) {
+        const credited = await giftCardService.refundForOrder(order.id, refund.giftCardAmount, tx);
+        if (credited < refund.giftCardAmount) {
+          throw new RefundError(`Only ${credited} could be credited back onto the order's gift cards`);
+        }
+      }
+
+      let giftCard: { id: string; code: string } | undefined;
+      if (payment > 0 && refund.provider === "gift_card") {
+        giftCard = await giftCardService.create({
+          initialValue: payment,
+          currencyCode: order.currency,
+          recipientEmail: order.email,
+          purchasedByCustomerId: order.customerId ?? undefined,
+        }, tx);
+      }
+
+      const [updated] = await tx.update(refunds)
+        .set({ status: "succeeded", providerRefundId, giftCardId: giftCard?.id, updatedAt: new Date() })
+        .where(eq(refunds.id, refund.id))
+        .returning();
+      return { refund: updated, giftCardCode: giftCard?.code };
+    });
+  } catch (error) {
+    if (!providerRefundId) {
+      // Nothing went out; release the claimed amount so the refund can be retried
+      await fail(error);
+      throw error;
+    }
+    // The money has gone out: keep the claim and the provider's ID for a person to look at
+    await db.update(refunds)
+      .set({ providerRefundId, error: error instanceof Error ? error.message : String(error), updatedAt: new Date() })
+      .where(eq(refunds.id, refund.id));
+    logger.error({ error, orderId: order.id, refundId: refund.id, providerRefundId }, "Refund made but not booked");
+    throw error;
+  }
+}
+
+export const refundService = {
+  /**
+   * Refund an order in full or in part, optionally by line and including
+   * shipping. The money goes back through the provider of the payment
+   * (Stripe or PayPal) or is issued as gift card credit; what the order paid
+   * with gift cards goes back onto those cards once the payment is paid back.
+   * A credit note is created and the payment status updated.
+   */
+  async refund(
+    orderId: string,
+    request: RefundRequest & { method?: "original" | "gift_card"; reason?: string },
+    actor: StatusActor
+  ): Promise<{ refund: Refund; giftCardCode?: string }> {
+    // Claim the amount first so parallel refunds cannot exceed the payment
+    const claimed = await db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for("update");
+      if (!order) {
+        throw new Error("Order not found");
+      }
+      if (!["paid", "partially_refunded"].includes(order.paymentStatus)) {
+        throw new RefundError(`Cannot refund an order with payment status ${order.paymentStatus}`);
+      }
+
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+      const previous = (await activeRefunds(orderId, tx)).map(toSnapshot);
+      const { calculation, claimed, shippingClaimed } = planRefund(items, order, previous, request);
+
+      const share = await shareOf(order, calculation.total, tx);
+      const provider = share.payment === 0 || request.method === "gift_card" ? "gift_card" : await providerOf(order, tx);
+      const [refund] = await tx.insert(refunds).values({
+        orderId,
+        provider,
+        amount: calculation.total,
+        giftCardAmount: share.giftCards,
+        shippingAmount: shippingClaimed ? calculation.shipping?.amount ?? 0 : 0,
+        currency: order.currency,
+        lines: claimed.length > 0 ? calculation.lines : [],
+        reason: request.reason,
+        actorType: actor.type,
+        actorId: actor.id,
+      }).returning();
+
+      return { order, calculation, refund };
+    });
+    const { order, calculation } = claimed;
+
+    const paid = await payOut(order, claimed.refund);
+    let refund = paid.refund;
+
+    try {
+      refund = await db.transaction((tx) => settle(order, refund, calculation, actor, tx));
+    } catch (error) {
+      // The money has gone out; this needs a person to look at
+      logger.error({ error, orderId, refundId: refund.id }, "Refund made but not booked");
+      throw error;
+    }
+
+    return { refund, giftCardCode: paid.giftCardCode };
+  },
+
+  /**
+   * Pay back what an order edit took off the total, through the payment's
+   * provider or as gift card credit, with a credit note over the difference.
+   * The payment status stays: the order is still paid in full.
+   */
+  async refundEdit(
+    orderId: string,
+    edit: { orderEditId: string; calculation: RefundCalculation; method?: "original" | "gift_card"; reason?: string },
+    actor: StatusActor
+  ): Promise<{ refund: Refund; giftCardCode?: string }> {
+    const claimed = await db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for("update");
+      if (!order) {
+        throw new Error("Order not found");
+      }
+
+      const share = await shareOf(order, edit.calculation.total, tx, edit.calculation.total);
+      const provider = share.payment === 0 || edit.method === "gift_card" ? "gift_card" : await providerOf(order, tx);
+      const [refund] = await tx.insert(refunds).values({
+        orderId,
+        provider,
+        amount: edit.calculation.total,
+        giftCardAmount: share.giftCards,
+        currency: order.currency,
+        lines: [],
+        reason: edit.reason,
+        orderEditId: edit.orderEditId,
+        actorType: actor.type,
+        actorId: actor.id,
+      }).returning();
+      return { order, refund };
+    });
+
+    const paid = await payOut(claimed.order, claimed.refund);
+    try {
+      const refund = await db.transaction((tx) => settle(claimed.order, paid.refund, edit.calculation, actor, tx));
+      return { refund, giftCardCode: paid.giftCardCode };
+    } catch (error) {
+      logger.error({ error, orderId, refundId: paid.refund.id }, "Refund made but not booked");
+      throw error;
+    }
+  },
+
+  /**
+   * Record refunds made at the provider (e.g. in the Stripe dashboard), as
+   * reported by its webhook with the total refunded so far. Repeated or late
+   * reports of refunds made here change nothing.
+   */
+  async recordProviderRefund(
+    orderId: string,
+    report: { provider: RefundProvider; totalRefunded: number; providerRefundId?: string },
+    actor: StatusActor,
+    tx?: DbExecutor
+  ): Promise<Refund | null> {
+    return inTransaction(tx, async (t) => {
+      const [order] = await t.select().from(orders).where(eq(orders.id, orderId)).for("update");
+      if (!order) {
+        throw new Error("Order not found");
+      }
+
+      const known = (await activeRefunds(orderId, t, { includeEdits: true }))
+        .filter((refund) => refund.provider === report.provider)
+        .reduce((sum, refund) => sum + refund.amount - refund.giftCardAmount, 0);
+      const missing = report.totalRefunded - known;
+      if (missing <= 0) {
+        return null;
+      }
+      if (report.providerRefundId) {
+        const existing = await t.query.refunds.findFirst({ where: eq(refunds.providerRefundId, report.providerRefundId) });
+        if (existing) return null;
+      }
+
+      // Not tied to lines or shipping: the tax follows what is still open
+      const items = await t.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+      const previous = (await activeRefunds(orderId, t)).map(toSnapshot);
+      const { calculation } = planRefund(items, order, previous, {
+        amount: missing,
+        includeShipping: !previous.some((refund) => refund.shippingAmount > 0),
+      });
+
+      const [refund] = await t.insert(refunds).values({
+        orderId,
+        provider: report.provider,
+        providerRefundId: report.providerRefundId,
+        status: "succeeded",
+        amount: missing,
+        currency: order.currency,
+        lines: [],
+        reason: "Erstattung beim Zahlungsanbieter",
+        actorType: actor.type,
+        actorId: actor.id,
+      }).returning();
+
+      return settle(order, refund, calculation, actor, t);
+    });
+  },
+
+  async listForOrder(orderId: string, executor: DbExecutor = db): Promise<Refund[]> {
+    return executor.query.refunds.findMany({
+      where: eq(refunds.orderId, orderId),
+      orderBy: desc(refunds.createdAt),
+    });
+  },
+};
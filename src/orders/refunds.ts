@@ -0,0 +1,212 @@
+// Refund Amounts
+// src/orders/refunds.ts
+
+import type {
+  RefundCalculation,
+  RefundLine,
+  RefundRequest,
+  RefundSnapshot,
+  RefundTaxLine,
+  RefundableItem,
+  ShipmentLine,
+} from "./types.js";
+
+export class RefundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RefundError";
+  }
+}
+
+// Tax contained in a gross amount
+const taxIn = (gross: number, rate: number) => Math.round((gross * rate) / (10000 + rate));
+
+/**
+ * What a line was paid for after discounts. Order discounts not yet
+ * allocated to lines are shared by their gross totals.
+ */
+export function effectiveLineTotals(items: RefundableItem[], discountTotal: number): Map<string, number> {
+  const lines = items.filter((item) => !item.parentItemId);
+  const allocated = lines.reduce((sum, item) => sum + item.discountAmount, 0);
+  const gross = lines.reduce((sum, item) => sum + item.totalGross - item.discountAmount, 0);
+  const rest = Math.max(0, discountTotal - allocated);
+
+  const totals = new Map<string, number>();
+  let remaining = rest;
+  lines.forEach((item, index) => {
+    const base = item.totalGross - item.discountAmount;
+    const share = index === lines.length - 1
+      ? remaining
+      : gross > 0 ? Math.min(remaining, Math.round((rest * base) / gross)) : 0;
+    remaining -= share;
+    totals.set(item.id, Math.max(0, base - share));
+  });
+  return totals;
+}
+
+/**
+ * Refund for returned quantities of top-level lines and optionally the
+ * shipping costs, with the tax contained per rate
+ */
+export function calculateRefund(
+  items: RefundableItem[],
+  lines: ShipmentLine[],
+  options: { discountTotal: number; shipping?: { total: number; tax: number } }
+): RefundCalculation {
+  const totals = effectiveLineTotals(items, options.discountTotal);
+
+  const refundLines: RefundLine[] = lines.map((line) => {
+    const item = items.find((candidate) => candidate.id === line.orderItemId && !candidate.parentItemId);
+    if (!item) {
+      throw new Error(`Order item ${line.orderItemId} cannot be refunded on its own`);
+    }
+    const amount = line.quantity === item.quantity
+      ? totals.get(item.id)!
+      : Math.round((totals.get(item.id)! * line.quantity) / item.quantity);
+    return {
+      orderItemId: item.id,
+      quantity: line.quantity,
+      amount,
+      taxAmount: taxIn(amount, item.taxRate),
+      taxRate: item.taxRate,
+    };
+  });
+
+  const shipping = options.shipping && options.shipping.total > 0
+    ? {
+        amount: options.shipping.total,
+        taxAmount: options.shipping.tax,
+        // Shipping carries the rate of the goods; rounded back to a tenth percent
+        taxRate: options.shipping.total > options.shipping.tax
+          ? Math.round((options.shipping.tax * 1000) / (options.shipping.total - options.shipping.tax)) * 10
+          : 0,
+      }
+    : null;
+
+  const byRate = new Map<number, RefundTaxLine>();
+  for (const entry of [...refundLines, ...(shipping ? [shipping] : [])]) {
+    const line = byRate.get(entry.taxRate) ?? { rate: entry.taxRate, net: 0, tax: 0 };
+    line.net += entry.amount - entry.taxAmount;
+    line.tax += entry.taxAmount;
+    byRate.set(entry.taxRate, line);
+  }
+  const taxLines = [...byRate.values()].sort((a, b) => b.rate - a.rate);
+
+  return {
+    lines: refundLines,
+    shipping,
+    taxLines,
+    total: refundLines.reduce((sum, line) => sum + line.amount, 0) + (shipping?.amount ?? 0),
+    taxTotal: taxLines.reduce((sum, line) => sum + line.tax, 0),
+  };
+}
+
+/**
+ * A refund reduced to a lower amount (e.g. a deduction for wear), shared
+ * across the lines and tax rates in proportion
+ */
+export function scaleRefund(calculation: RefundCalculation, amount: number): RefundCalculation {
+  if (amount === calculation.total || calculation.total === 0) {
+    return calculation;
+  }
+  const scale = (value: number) => Math.round((value * amount) / calculation.total);
+
+  const taxLines = calculation.taxLines.map((line) => ({ rate: line.rate, net: scale(line.net), tax: scale(line.tax) }));
+  // Rounding differences go to the net of the first rate
+  const difference = amount - taxLines.reduce((sum, line) => sum + line.net + line.tax, 0);
+  if (taxLines.length > 0) taxLines[0].net += difference;
+
+  return {
+    lines: calculation.lines.map((line) => ({ ...line, amount: scale(line.amount), taxAmount: scale(line.taxAmount) })),
+    shipping: calculation.shipping && {
+      ...calculation.shipping,
+      amount: scale(calculation.shipping.amount),
+      taxAmount: scale(calculation.shipping.taxAmount),
+    },
+    taxLines,
+    total: amount,
+    taxTotal: taxLines.reduce((sum, line) => sum + line.tax, 0),
+  };
+}
+
+/**
+ * Work out a refund against what has been refunded before:
+ * - without lines or amount, everything still open including shipping;
+ * - with lines, their value (and shipping on request), capped by the amount;
+ * - with an amount only, a goodwill refund shared across the open lines.
+ * Goodwill refunds claim no line quantities, so the items stay refundable.
+ */
+export function planRefund(
+  items: RefundableItem[],
+  order: { total: number; discountTotal: number; shippingTotal: number; shippingTax: number },
+  previous: RefundSnapshot[],
+  request: RefundRequest
+): { calculation: RefundCalculation; claimed: ShipmentLine[]; shippingClaimed: boolean } {
+  const remaining = order.total - previous.reduce((sum, refund) => sum + refund.amount, 0);
+  if (remaining <= 0) {
+    throw new RefundError("The order has been refunded in full");
+  }
+
+  const refunded = new Map<string, number>();
+  for (const line of previous.flatMap((refund) => refund.lines)) {
+    refunded.set(line.orderItemId, (refunded.get(line.orderItemId) ?? 0) + line.quantity);
+  }
+  const open = items
+    .filter((item) => !item.parentItemId && item.quantity > (refunded.get(item.id) ?? 0))
+    .map((item) => ({ orderItemId: item.id, quantity: item.quantity - (refunded.get(item.id) ?? 0) }));
+  const shippingRefunded = previous.some((refund) => refund.shippingAmount > 0);
+
+  for (const line of request.lines ?? []) {
+    const available = open.find((entry) => entry.orderItemId === line.orderItemId)?.quantity ?? 0;
+    if (line.quantity > available) {
+      throw new RefundError(`Only ${available} of order item ${line.orderItemId} can still be refunded`);
+    }
+  }
+  if (request.includeShipping && shippingRefunded) {
+    throw new RefundError("Shipping has already been refunded");
+  }
+
+  const full = !request.lines && request.amount === undefined;
+  const includeShipping = full ? !shippingRefunded : request.includeShipping ?? false;
+  const calculation = calculateRefund(items, request.lines ?? open, {
+    discountTotal: order.discountTotal,
+    shipping: includeShipping ? { total: order.shippingTotal, tax: order.shippingTax } : undefined,
+  });
+
+  const amount = request.amount ?? Math.min(calculation.total, remaining);
+  if (amount <= 0) {
+    throw new RefundError("Nothing to refund");
+  }
+  if (amount > remaining) {
+    throw new RefundError(`At most ${remaining} can still be refunded`);
+  }
+  if (amount > calculation.total) {
+    throw new RefundError(`The refund exceeds the value of the refunded items (${calculation.total})`);
+  }
+
+  const goodwill = !full && !request.lines;
+  return {
+    calculation: scaleRefund(calculation, amount),
+    claimed: goodwill ? [] : request.lines ?? open,
+    shippingClaimed: includeShipping,
+  };
+}
+
+/**
+ * Share a refund between the order's payment and the gift cards it was
+ * paid with. The payment is paid back first, up to what it covered; the
+ * rest goes back onto the gift cards.
+ */
+export function splitRefund(
+  amount: number,
+  paid: { payment: number; giftCards: number },
+  refunded: { payment: number; giftCards: number }
+): { payment: number; giftCards: number } {
+  const paymentOpen = Math.max(0, paid.payment - refunded.payment);
+  const giftCardsOpen = Math.max(0, paid.giftCards - refunded.giftCards);
+  if (amount > paymentOpen + giftCardsOpen) {
+    throw new RefundError(`At most ${paymentOpen + giftCardsOpen} can still be refunded`);
+  }
+  const payment = Math.min(amount, paymentOpen);
+  return { payment, giftCards: amount - payment };
+}
@@ -0,0 +1,235 @@
+// Shipment Service
+// src/orders/shipment-service.ts
+
+import { eq, desc } from "drizzle-orm";
+import { logger } from "@/config/logger";
+import { db, type DbExecutor } from "@/db";
+import { orders, orderItems, shipments, shipmentItems } from "@/db/schema";
+import { addEmailJob } from "@/jobs/queues";
+import { getCarrierName } from "@/carriers/utils";
+import type { ShipmentLine, StatusActor } from "./types.js";
+import { ShipmentError, deriveFulfillmentStatus, resolveShipmentLines } from "./shipments.js";
+import { orderService } from "./order-service.js";
+
+type Order = typeof orders.$inferSelect;
+type OrderItem = typeof orderItems.$inferSelect;
+type Shipment = typeof shipments.$inferSelect & { items: Array<typeof shipmentItems.$inferSelect> };
+
+function inTransaction<T>(executor: DbExecutor | undefined, fn: (tx: DbExecutor) => Promise<T>): Promise<T> {
+  return (executor ?? db).transaction(fn);
+}
+
+async function loadShipments(orderId: string, executor: DbExecutor): Promise<Shipment[]> {
+  return executor.query.shipments.findMany({
+    where: eq(shipments.orderId, orderId),
+    with: { items: true },
+    orderBy: [desc(shipments.shippedAt)],
+  });
+}
+
+/**
+ * Derive the order's fulfilment status from its shipments and keep its
+ * tracking columns on the latest active shipment
+ */
+async function syncOrder(
+  orderId: string,
+  actor: StatusActor,
+  options: { reason?: string; metadata?: Record<string, unknown> },
+  tx: DbExecutor
+): Promise<Order> {
+  const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+  const all = await loadShipments(orderId, tx);
+  const latest = all.find((shipment) => shipment.status !== "cancelled");
+
+  const { order } = await orderService.transition(
+    orderId,
+    { fulfillmentStatus: deriveFulfillmentStatus(items, all) },
+    {
+      actor,
+      reason: options.reason,
+      metadata: options.metadata,
+      fields: {
+        carrierCode: latest?.carrierCode ?? null,
+        trackingNumber: latest?.trackingNumber ?? null,
+        trackingUrl: latest?.trackingUrl ?? null,
+      },
+    },
+    tx
+  );
+  return order;
+}
+
+// Shipping confirmation listing only the items in this shipment
+async function notifyShipped(order: Order, shipment: Shipment, items: OrderItem[]): Promise<void> {
+  const address = order.shippingAddress as Record<string, unknown>;
+  const lines = shipment.items.flatMap((line) => {
+    const item = items.find((orderItem) => orderItem.id === line.orderItemId);
+    return item && !item.parentItemId ? [{ name: item.name, quantity: line.quantity }] : [];
+  });
+
+  await addEmailJob({
+    type: "shipping_notification",
+    to: order.email,
+    subject: order.fulfillmentStatus === "partially_shipped"
+      ? `Teillieferung zu Ihrer Bestellung ${order.orderNumber}`
+      : `Ihre Bestellung ${order.orderNumber} wurde versendet`,
+    templateId: "shipping-confirmation",
+    templateData: {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      shipmentId: shipment.id,
+      customerName: [address.firstName, address.lastName].filter(Boolean).join(" "),
+      carrier: shipment.carrierCode ? getCarrierName(shipment.carrierCode) : undefined,
+      trackingNumber: shipment.trackingNumber,
+      trackingUrl: shipment.trackingUrl,
+      items: lines,
+      partial: order.fulfillmentStatus === "partially_shipped",
+      shippingAddress: address,
+    },
+  }).catch((error) => {
+    // The shipment stands even if the email cannot be queued
+    logger.error({ error, orderId: order.id, shipmentId: shipment.id }, "Failed to queue shipping notification");
+  });
+}
+
+export const shipmentService = {
+  /**
+   * Lines a shipment would contain (the given quantities or everything still
+   * open), e.g. to weigh the parcel before buying a label
+   */
+  async prepare(orderId: string, requested?: ShipmentLine[], executor: DbExecutor = db): Promise<{
+    order: Order;
+    items: OrderItem[];
+    lines: ShipmentLine[];
+  }> {
+    const order = await executor.query.orders.findFirst({ where: eq(orders.id, orderId) });
+    if (!order) {
+      throw new Error("Order not found");
+    }
+    if (order.status === "cancelled") {
+      throw new ShipmentError("Cannot ship a cancelled order");
+    }
+
+    const items = await executor.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+    const lines = resolveShipmentLines(items, await loadShipments(orderId, executor), requested);
+    return { order, items, lines };
+  },
+
+  /**
+   * Record a shipment of some or all open items. The order's fulfilment
+   * status follows; the customer gets a confirmation for this shipment.
+   */
+  async create(
+    orderId: string,
+    input: {
+      items?: ShipmentLine[]; // Everything still open unless given
+      carrierCode?: string | null;
+      carrierShipmentId?: string | null;
+      trackingNumber?: string | null;
+      trackingUrl?: string | null;
+      labelKey?: string | null;
+      notifyCustomer?: boolean;
+    },
+    actor: StatusActor,
+    tx?: DbExecutor
+  ): Promise<{ order: Order; shipment: Shipment }> {
+    const result = await inTransaction(tx, async (t) => {
+      // Lock the order so concurrent shipments cannot ship the same items
+      await t.select({ id: orders.id }).from(orders).where(eq(orders.id, orderId)).for("update");
+      const { items, lines } = await this.prepare(orderId, input.items, t);
+
+      const [shipment] = await t
+        .insert(shipments)
+        .values({
+          orderId,
+          carrierCode: input.carrierCode,
+          carrierShipmentId: input.carrierShipmentId,
+          trackingNumber: input.trackingNumber,
+          trackingUrl: input.trackingUrl,
+          labelKey: input.labelKey,
+        })
+        .returning();
+      const rows = await t
+        .insert(shipmentItems)
+        .values(lines.map((line) => ({ shipmentId: shipment.id, ...line })))
+        .returning();
+
+      const order = await syncOrder(orderId, actor, { metadata: { shipmentId: shipment.id } }, t);
+      return { order, items, shipment: { ...shipment, items: rows } };
+    });
+
+    if (input.notifyCustomer !== false) {
+      await notifyShipped(result.order, result.shipment, result.items);
+    }
+    return { order: result.order, shipment: result.shipment };
+  },
+
+  async markDelivered(shipmentId: string, actor: StatusActor, tx?: DbExecutor): Promise<{ order: Order; shipment: Shipment }> {
+    return inTransaction(tx, async (t) => {
+      const shipment = await t.query.shipments.findFirst({ where: eq(shipments.id, shipmentId) });
+      if (!shipment) {
+        throw new Error("Shipment not found");
+      }
+      if (shipment.status !== "shipped") {
+        throw new ShipmentError(`Shipment is ${shipment.status}`);
+      }
+
+      const now = new Date();
+      await t
+        .update(shipments)
+        .set({ status: "delivered", deliveredAt: now, updatedAt: now })
+        .where(eq(shipments.id, shipmentId));
+
+      const order = await syncOrder(shipment.orderId, actor, { metadata: { shipmentId } }, t);
+      const [updated] = (await loadShipments(shipment.orderId, t)).filter((row) => row.id === shipmentId);
+      return { order, shipment: updated };
+    });
+  },
+
+  /**
+   * Cancel a shipment that has not been delivered; its items are open again.
+   * Carrier labels are cancelled by the caller (see carrierService).
+   */
+  async cancel(
+    shipmentId: string,
+    actor: StatusActor,
+    options: { reason?: string } = {},
+    tx?: DbExecutor
+  ): Promise<{ order: Order; shipment: Shipment }> {
+    return inTransaction(tx, async (t) => {
+      const shipment = await t.query.shipments.findFirst({ where: eq(shipments.id, shipmentId) });
+      if (!shipment) {
+        throw new Error("Shipment not found");
+      }
+      if (shipment.status !== "shipped") {
+        throw new ShipmentError(`Shipment is ${shipment.status}`);
+      }
+
+      const now = new Date();
+      await t
+        .update(shipments)
+        .set({ status: "cancelled", cancelledAt: now, updatedAt: now })
+        .where(eq(shipments.id, shipmentId));
+
+      const order = await syncOrder(
+        shipment.orderId,
+        actor,
+        { reason: options.reason ?? "Shipment cancelled", metadata: { shipmentId } },
+        t
+      );
+      const [updated] = (await loadShipments(shipment.orderId, t)).filter((row) => row.id === shipmentId);
+      return { order, shipment: updated };
+    });
+  },
+
+  async getById(shipmentId: string, executor: DbExecutor = db): Promise<Shipment | undefined> {
+    return executor.query.shipments.findFirst({
+      where: eq(shipments.id, shipmentId),
+      with: { items: true },
+    });
+  },
+
+  async listForOrder(orderId: string, executor: DbExecutor = db): Promise<Shipment[]> {
+    return loadShipments(orderId, executor);
+  },
+};
@@ -0,0 +1,103 @@
+// Shipment Lines
+// src/orders/shipments.ts
+
+import type { FulfillmentStatus, ShipmentLine, ShipmentSnapshot, ShippableItem } from "./types.js";
+
+export class ShipmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShipmentError";
+  }
+}
+
+/**
+ * Quantities per order item in shipments that have not been cancelled
+ */
+export function shippedQuantities(shipments: ShipmentSnapshot[]): Map<string, number> {
+  const shipped = new Map<string, number>();
+  for (const shipment of shipments) {
+    if (shipment.status === "cancelled") continue;
+    for (const line of shipment.items) {
+      shipped.set(line.orderItemId, (shipped.get(line.orderItemId) ?? 0) + line.quantity);
+    }
+  }
+  return shipped;
+}
+
+/**
+ * Lines of a new shipment: the requested quantities of top-level items, or
+ * everything still open. Bundle components are added with their share.
+ */
+export function resolveShipmentLines(
+  items: ShippableItem[],
+  shipments: ShipmentSnapshot[],
+  requested?: ShipmentLine[]
+): ShipmentLine[] {
+  const shipped = shippedQuantities(shipments);
+  const open = (item: ShippableItem) => item.quantity - (shipped.get(item.id) ?? 0);
+  const lines = items.filter((item) => !item.parentItemId);
+
+  let selected: ShipmentLine[];
+  if (requested) {
+    const quantities = new Map<string, number>();
+    for (const line of requested) {
+      quantities.set(line.orderItemId, (quantities.get(line.orderItemId) ?? 0) + line.quantity);
+    }
+    selected = [...quantities].map(([orderItemId, quantity]) => {
+      const item = lines.find((line) => line.id === orderItemId);
+      if (!item) {
+        throw new ShipmentError(`Order item ${orderItemId} cannot be shipped on its own`);
+      }
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        throw new ShipmentError(`Invalid quantity for order item ${orderItemId}`);
+      }
+      if (quantity > open(item)) {
+        throw new ShipmentError(`Only ${open(item)} of order item ${orderItemId} left to ship`);
+      }
+      return { orderItemId, quantity };
+    });
+  } else {
+    selected = lines
+      .filter((item) => open(item) > 0)
+      .map((item) => ({ orderItemId: item.id, quantity: open(item) }));
+  }
+
+  if (selected.length === 0) {
+    throw new ShipmentError("Nothing left to ship");
+  }
+
+  // Components hold the total for their bundle line, so a share of the
+  // bundles carries the same share of each component
+  const components = selected.flatMap((line) => {
+    const parent = lines.find((item) => item.id === line.orderItemId)!;
+    return items
+      .filter((item) => item.parentItemId === parent.id)
+      .map((component) => ({
+        orderItemId: component.id,
+        quantity: Math.round((component.quantity * line.quantity) / parent.quantity),
+      }));
+  });
+
+  return [...selected, ...components];
+}
+
+/**
+ * Fulfilment status of an order from its shipments: unfulfilled until the
+ * first shipment, partially shipped until every item has left, delivered
+ * once every shipment has arrived
+ */
+export function deriveFulfillmentStatus(items: ShippableItem[], shipments: ShipmentSnapshot[]): FulfillmentStatus {
+  const shipped = shippedQuantities(shipments);
+  const lines = items.filter((item) => !item.parentItemId);
+  const shippedLines = lines.filter((item) => (shipped.get(item.id) ?? 0) > 0);
+
+  if (shippedLines.length === 0) {
+    return "unfulfilled";
+  }
+  if (lines.some((item) => (shipped.get(item.id) ?? 0) < item.quantity)) {
+    return "partially_shipped";
+  }
+
+  const active = shipments.filter((shipment) => shipment.status !== "cancelled");
+  return active.every((shipment) => shipment.status === "delivered") ? "delivered" : "shipped";
+}
@@ -0,0 +1,125 @@
+// Order State Machine
+// src/orders/state-machine.ts
+
+import type {
+  OrderStatusSnapshot,
+  StatusChanges,
+  StatusField,
+  StatusTransition,
+} from "./types.js";
+
+// Allowed next states per current state
+export const ORDER_TRANSITIONS: Record<StatusField, Record<string, string[]>> = {
+  status: {
+    pending: ["paid", "processing", "shipped", "cancelled"],
+    paid: ["processing", "shipped", "cancelled"],
+    processing: ["shipped", "cancelled"],
+    shipped: ["processing", "delivered"], // Back to processing if the label is voided
+    delivered: [],
+    cancelled: [],
+  },
+  paymentStatus: {
+    pending: ["authorized", "processing", "paid", "failed", "cancelled"],
+    authorized: ["paid", "failed", "cancelled"],
+    processing: ["paid", "failed", "cancelled"],
+    failed: ["pending", "processing", "paid", "cancelled"],
+    paid: ["partially_refunded", "refunded"],
+    partially_refunded: ["partially_refunded", "refunded"],
+    refunded: [],
+    cancelled: [],
+  },
+  fulfillmentStatus: {
+    unfulfilled: ["partially_shipped", "shipped"],
+    partially_shipped: ["partially_shipped", "shipped", "unfulfilled"],
+    shipped: ["partially_shipped", "unfulfilled", "delivered", "returned"],
+    delivered: ["returned"],
+    returned: [],
+  },
+};
+
+/**
+ * Thrown for a status change the state machine does not allow
+ */
+export class InvalidTransitionError extends Error {
+  constructor(
+    public readonly field: StatusField,
+    public readonly from: string,
+    public readonly to: string,
+    reason?: string
+  ) {
+    super(reason ?? `Cannot change ${field} from "${from}" to "${to}"`);
+    this.name = "InvalidTransitionError";
+  }
+}
+
+export function canTransition(field: StatusField, from: string, to: string): boolean {
+  return ORDER_TRANSITIONS[field][from]?.includes(to) ?? false;
+}
+
+/**
+ * Transitions for a set of changes, validated against the state machines
+ * and against each other (e.g. a cancelled order cannot be shipped, a
+ * shipped one cannot be cancelled). Unchanged fields are left out.
+ */
+export function planTransitions(current: OrderStatusSnapshot, changes: StatusChanges): StatusTransition[] {
+  const next = { ...current, ...changes };
+  const transitions: StatusTransition[] = [];
+
+  for (const field of ["status", "paymentStatus", "fulfillmentStatus"] as const) {
+    const to = changes[field];
+    if (to === undefined || to === current[field]) continue;
+    if (!(to in ORDER_TRANSITIONS[field])) {
+      throw new InvalidTransitionError(field, current[field], to, `Unknown ${field} "${to}"`);
+    }
+    if (!canTransition(field, current[field], to)) {
+      throw new InvalidTransitionError(field, current[field], to);
+    }
+    transitions.push({ field, from: current[field], to });
+  }
+
+  const shipped = ["partially_shipped", "shipped", "delivered"].includes(next.fulfillmentStatus);
+  if (next.status === "cancelled" && shipped) {
+    const field = changes.status ? "status" : "fulfillmentStatus";
+    throw new InvalidTransitionError(
+      field, current[field], next[field],
+      changes.status ? "Cannot cancel an order that has been shipped" : "Cannot ship a cancelled order"
+    );
+  }
+  if (next.paymentStatus === "paid" && next.status === "cancelled" && changes.status === "cancelled") {
+    // Paid orders are cancelled through a refund first
+    throw new InvalidTransitionError("status", current.status, "cancelled", "Refund the payment before cancelling a paid order");
+  }
+  if ((next.status === "shipped" || next.status === "delivered") && !shipped && changes.status) {
+    throw new InvalidTransitionError("status", current.status, next.status, "Ship the order before marking it as shipped");
+  }
+
+  return transitions;
+}
+
+/**
+ * Order status changes implied by payment and fulfilment changes, e.g. a
+ * pending order becomes "paid" with its payment. Explicit changes win.
+ */
+export function withImpliedStatus(current: OrderStatusSnapshot, changes: StatusChanges): StatusChanges {
+  if (changes.status || current.status === "cancelled") {
+    return changes;
+  }
+
+  const implied = { ...changes };
+  if (changes.fulfillmentStatus === "delivered") {
+    implied.status = "delivered";
+  } else if (changes.fulfillmentStatus === "shipped") {
+    implied.status = "shipped";
+  } else if (changes.fulfillmentStatus === "partially_shipped" && current.status !== "processing") {
+    implied.status = "processing";
+  } else if (changes.fulfillmentStatus === "unfulfilled" && current.status === "shipped") {
+    implied.status = "processing";
+  } else if (changes.paymentStatus === "paid" && current.status === "pending") {
+    implied.status = "paid";
+  }
+
+  if (implied.status && (implied.status === current.status || !canTransition("status", current.status, implied.status))) {
+    delete implied.status;
+  }
+  return implied;
+}
@@ -0,0 +1,201 @@
+// Order Types
+// src/orders/types.ts
+
+export type OrderStatus =
+  | "pending"
+  | "paid"
+  | "processing"
+  | "shipped"
+  | "delivered"
+  | "cancelled";
+
+export type PaymentStatus =
+  | "pending"
+  | "authorized"
+  | "processing"
+  | "paid"
+  | "failed"
+  | "cancelled"
+  | "partially_refunded"
+  | "refunded";
+
+export type FulfillmentStatus =
+  | "unfulfilled"
+  | "partially_shipped"
+  | "shipped"
+  | "delivered"
+  | "returned";
+
+export type StatusField = "status" | "paymentStatus" | "fulfillmentStatus";
+
+export interface OrderStatusSnapshot {
+  status: string;
+  paymentStatus: string;
+  fulfillmentStatus: string;
+}
+
+export type StatusChanges = Partial<{
+  status: OrderStatus;
+  paymentStatus: PaymentStatus;
+  fulfillmentStatus: FulfillmentStatus;
+}>;
+
+// Who changed the status, as recorded in the history
+export interface StatusActor {
+  type: "admin" | "customer" | "system" | "webhook";
+  id?: string; // User id, job name or provider event id
+}
+
+export interface StatusTransition {
+  field: StatusField;
+  from: string;
+  to: string;
+}
+
+export type ShipmentStatus = "shipped" | "delivered" | "cancelled";
+
+// An order item quantity in a shipment
+export interface ShipmentLine {
+  orderItemId: string;
+  quantity: number;
+}
+
+export interface ShippableItem {
+  id: string;
+  parentItemId: string | null; // Bundle components ship with their bundle
+  quantity: number;
+}
+
+export interface ShipmentSnapshot {
+  status: string;
+  items: ShipmentLine[];
+}
+
+// Order line as needed to work out refund amounts
+export interface RefundableItem {
+  id: string;
+  parentItemId: string | null;
+  quantity: number;
+  totalGross: number;
+  discountAmount: number;
+  taxRate: number; // Basis points
+}
+
+export interface RefundLine {
+  orderItemId: string;
+  quantity: number;
+  amount: number; // Gross
+  taxAmount: number;
+  taxRate: number;
+}
+
+export interface RefundTaxLine {
+  rate: number;
+  net: number;
+  tax: number;
+}
+
+export interface RefundCalculation {
+  lines: RefundLine[];
+  shipping: { amount: number; taxAmount: number; taxRate: number } | null;
+  taxLines: RefundTaxLine[];
+  total: number;
+  taxTotal: number;
+}
+
+export type RefundProvider = "stripe" | "paypal" | "gift_card" | "manual";
+
+// A refund already made, as far as the remaining amounts are concerned
+export interface RefundSnapshot {
+  amount: number;
+  lines: Array<{ orderItemId: string; quantity: number }>; // Quantities claimed by the refund
+  shippingAmount: number;
+}
+
+export interface RefundRequest {
+  amount?: number; // Defaults to the value of the lines (everything open without lines)
+  lines?: ShipmentLine[];
+  includeShipping?: boolean;
+}
+
+// A change to the lines of a placed order. Quantities are absolute for
+// existing lines (0 removes the line); added products join an existing
+// line of the same product.
+export type OrderEditChange =
+  | { type: "add"; productId: string; quantity: number }
+  | { type: "update"; orderItemId: string; quantity: number }
+  | { type: "remove"; orderItemId: string };
+
+// Order line as it can be edited
+export interface EditableItem {
+  id: string;
+  parentItemId: string | null;
+  productId: string | null;
+  sku: string;
+  name: string;
+  quantity: number;
+  unitPriceNet: number;
+  unitPriceGross: number;
+  metadata?: unknown;
+}
+
+// Product as needed to price an edited line
+export interface EditableProduct {
+  id: string;
+  sku: string;
+  type: string;
+  status: string;
+  parentId: string | null;
+  priceNet: number;
+  priceGross: number;
+  taxClassId: string | null;
+}
+
+// Top-level line of the edited order. Kept lines keep their price as
+// ordered; added lines are priced as the product is today.
+export interface EditedLine {
+  orderItemId?: string;
+  productId: string;
+  sku: string;
+  name: string;
+  quantity: number;
+  unitPriceNet: number;
+  unitPriceGross: number;
+  taxClassId: string | null;
+  metadata?: unknown;
+}
+
+// Line quantity changed by an edit, as recorded in the edit history
+export interface OrderEditLineChange {
+  orderItemId?: string;
+  productId: string;
+  sku: string;
+  name: string;
+  from: number;
+  to: number;
+}
+
+// Edit of a placed order; addresses and shipping method stay as they are unless given
+export interface OrderEditRequest {
+  changes?: OrderEditChange[];
+  shippingAddress?: Record<string, unknown>;
+  billingAddress?: Record<string, unknown>;
+  shippingMethodId?: string;
+  refundMethod?: "original" | "gift_card"; // For a lower total on a paid order
+  reason?: string;
+}
+
+export type OrderEditSettlement = "none" | "charge" | "refund";
+
+export type OrderEditPaymentStatus = "not_required" | "pending" | "paid" | "refunded" | "failed";
+
+// Order totals before and after an edit
+export interface OrderTotals {
+  subtotal: number;
+  shippingTotal: number;
+  shippingTax: number;
+  taxTotal: number;
+  discountTotal: number;
+  total: number;
+  taxLines: RefundTaxLine[];
+}
@@ -1,4 +1,5 @@
-export { getStripe, createPaymentIntent, createCheckoutSession, getPaymentIntent, cancelPaymentIntent, createRefund, getCheckoutSession } from "./stripe";
+export { getStripe, createPaymentIntent, createCheckoutSession, getPaymentIntent, cancelPaymentIntent, createRefund, getCheckoutSession, expireCheckoutSession } from "./stripe";
 export { verifyWebhookSignature, processWebhookEvent, registerWebhookHandler, registerDefaultHandlers } from "./webhooks";
 export { stripeWebhookRoutes } from "./webhook-routes";
 export { paymentRoutes } from "./payment-routes";
+export { startOrderPayment, createOrderCheckoutSession, createOrderPaymentIntent, captureOrderPayPalPayment, releaseExpiredHolds, amountDue, OrderPaymentError, type PaymentNextStep } from "./order-payment";
@@ -0,0 +1,265 @@
+import { eq } from "drizzle-orm";
+import { db } from "@/db";
+import { orders, paymentMethods } from "@/db/schema";
+import { env } from "@/config/env";
+import { logger } from "@/config/logger";
+import { inventoryService } from "@/inventory";
+import { orderService, InvalidTransitionError } from "@/orders";
+import { createCheckoutSession, createPaymentIntent, expireCheckoutSession, cancelPaymentIntent } from "./stripe";
+import { createPayPalOrder, capturePayPalOrder, getPayPalOrder } from "./paypal";
+
+type Order = typeof orders.$inferSelect;
+type PaymentMethod = typeof paymentMethods.$inferSelect;
+
+// What the storefront does next to pay an order
+export type PaymentNextStep =
+  | { provider: "stripe"; type: "redirect"; url: string; sessionId: string }
+  | { provider: "stripe"; type: "client_secret"; clientSecret: string; paymentIntentId: string; publicKey?: string }
+  | { provider: "paypal"; type: "redirect"; url: string; paypalOrderId: string };
+
+// Stripe payments go through Checkout unless the method is configured for
+// the Payment Element (providerConfig.flow = "payment_intent")
+export type StripeFlow = "checkout_session" | "payment_intent";
+
+export class OrderPaymentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OrderPaymentError";
+  }
+}
+
+// Payments can be started while the order waits for one, or again after one failed
+const PAYABLE = ["pending", "failed"];
+
+// How long a started payment can be completed. The order's stock stays held
+// a little longer, so a payment made at the last moment still finds it.
+const PAYMENT_WINDOW_MINUTES = 60;
+const HOLD_GRACE_MINUTES = 5;
+
+function storefrontUrl(): string {
+  return env.STOREFRONT_URL || "http://localhost:4001";
+}
+
+function stripeFlowOf(method: PaymentMethod): StripeFlow {
+  const config = method.providerConfig as { flow?: string } | null;
+  return config?.flow === "payment_intent" ? "payment_intent" : "checkout_session";
+}
+
+// What is left for the provider once gift cards are taken off
+export function amountDue(order: Pick<Order, "total" | "giftCardTotal">): number {
+  return Math.max(order.total - order.giftCardTotal, 0);
+}
+
+async function loadPayableOrder(orderId: string): Promise<Order> {
+  const order = await db.query.orders.findFirst({ where: eq(orders.id, orderId) });
+  if (!order) {
+    throw new OrderPaymentError("Order not found");
+  }
+  if (order.status === "cancelled" || !PAYABLE.includes(order.paymentStatus)) {
+    throw new OrderPaymentError(`Order ${order.orderNumber} cannot be paid (${order.paymentStatus})`);
+  }
+  if (amountDue(order) === 0) {
+    throw new OrderPaymentError(`Order ${order.orderNumber} is paid with gift cards`);
+  }
+  return order;
+}
+
+function minutesFrom(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60 * 1000);
+}
+
+// Hold the order's stock until the payment can no longer be made
+async function holdUntil(order: Order, paymentExpiresAt: Date) {
+  await inventoryService.extendReservations(order.id, minutesFrom(paymentExpiresAt, HOLD_GRACE_MINUTES));
+}
+
+async function mergeMetadata(order: Order, metadata: Record<string, unknown>) {
+  await db
+    .update(orders)
+    .set({
+      metadata: { ...(order.metadata as Record<string, unknown> | null), ...metadata },
+      updatedAt: new Date(),
+    })
+    .where(eq(orders.id, order.id));
+}
+
+/**
+ * Stripe Checkout for what is due on the order. The payment intent, and with it the
+ * payment reference, exists once the session completes (see webhooks).
+ */
+export async function createOrderCheckoutSession(orderId: string): Promise<{ sessionId: string; url: string }> {
+  const order = await loadPayableOrder(orderId);
+  const baseUrl = storefrontUrl();
+
+  const session = await createCheckoutSession({
+    orderId: order.id,
+    lineItems: [{ name: `Bestellung ${order.orderNumber}`, amount: amountDue(order), quantity: 1 }],
+    customerEmail: order.email,
+    successUrl: `${baseUrl}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
+    cancelUrl: `${baseUrl}/checkout/cancel?order_id=${order.id}`,
+    metadata: { orderNumber: order.orderNumber },
+    expiresAt: minutesFrom(new Date(), PAYMENT_WINDOW_MINUTES),
+  });
+
+  await mergeMetadata(order, { stripeCheckoutSessionId: session.sessionId });
+  await holdUntil(order, session.expiresAt);
+  return { sessionId: session.sessionId, url: session.url };
+}
+
+/**
+ * Payment intent for what is due on the order, confirmed in the storefront with the
+ * client secret. Its ID is the order's payment reference from the start.
+ */
+export async function createOrderPaymentIntent(orderId: string): Promise<{ clientSecret: string; paymentIntentId: string }> {
+  const order = await loadPayableOrder(orderId);
+
+  const intent = await createPaymentIntent({
+    orderId: order.id,
+    amount: amountDue(order),
+    currency: order.currency.toLowerCase(),
+    customerEmail: order.email,
+    metadata: { orderNumber: order.orderNumber },
+  });
+
+  await db
+    .update(orders)
+    .set({ paymentReference: intent.paymentIntentId, updatedAt: new Date() })
+    .where(eq(orders.id, order.id));
+  await holdUntil(order, minutesFrom(new Date(), PAYMENT_WINDOW_MINUTES));
+  return { clientSecret: intent.clientSecret, paymentIntentId: intent.paymentIntentId };
+}
+
+/**
+ * Start the payment of a placed order with its payment method's provider.
+ * Returns null for methods paid outside the shop (invoice, prepayment).
+ */
+export async function startOrderPayment(orderId: string, method: PaymentMethod): Promise<PaymentNextStep | null> {
+  switch (method.provider) {
+    case "stripe": {
+      if (stripeFlowOf(method) === "payment_intent") {
+        const intent = await createOrderPaymentIntent(orderId);
+        return { provider: "stripe", type: "client_secret", ...intent, publicKey: env.STRIPE_PUBLIC_KEY };
+      }
+      const session = await createOrderCheckoutSession(orderId);
+      return { provider: "stripe", type: "redirect", url: session.url, sessionId: session.sessionId };
+    }
+    case "paypal": {
+      const order = await loadPayableOrder(orderId);
+      const baseUrl = storefrontUrl();
+      const paypalOrder = await createPayPalOrder({
+        orderId: order.id,
+        amount: amountDue(order),
+        currency: order.currency,
+        description: `Bestellung ${order.orderNumber}`,
+        returnUrl: `${baseUrl}/checkout/paypal/return`,
+        cancelUrl: `${baseUrl}/checkout/paypal/cancel`,
+      });
+      await mergeMetadata(order, { paypalOrderId: paypalOrder.paypalOrderId });
+      await holdUntil(order, minutesFrom(new Date(), PAYMENT_WINDOW_MINUTES));
+      return { provider: "paypal", type: "redirect", url: paypalOrder.approvalUrl, paypalOrderId: paypalOrder.paypalOrderId };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Capture an approved PayPal payment and mark its order paid, with the
+ * capture as the payment reference. Repeating it for a captured payment
+ * books the existing capture instead of capturing again.
+ */
+export async function captureOrderPayPalPayment(paypalOrderId: string): Promise<{ order: Order; captureId: string }> {
+  const paypalOrder = await getPayPalOrder(paypalOrderId);
+  const order = await db.query.orders.findFirst({ where: eq(orders.id, paypalOrder.referenceId) });
+  const metadata = order?.metadata as { paypalOrderId?: string } | null | undefined;
+  if (!order || metadata?.paypalOrderId !== paypalOrderId) {
+    throw new OrderPaymentError("Order not found");
+  }
+  if (order.paymentStatus === "paid" && order.paymentReference === paypalOrder.captureId) {
+    return { order, captureId: order.paymentReference! };
+  }
+
+  let captureId = paypalOrder.captureId;
+  if (!captureId) {
+    // Nothing is taken for an order that can no longer be paid, or for an
+    // amount that is not what is due (e.g. the order was edited since)
+    await loadPayableOrder(order.id);
+    if (paypalOrder.amount !== amountDue(order)) {
+      throw new OrderPaymentError(`The PayPal payment does not match the ${amountDue(order)} due on order ${order.orderNumber}`);
+    }
+    captureId = (await capturePayPalOrder(paypalOrderId)).captureId;
+  }
+
+  try {
+    const { order: paid } = await orderService.transition(
+      order.id,
+      { paymentStatus: "paid" },
+      { actor: { type: "system", id: "paypal" }, metadata: { paypalOrderId }, fields: { paymentReference: captureId } }
+    );
+    return { order: paid, captureId };
+  } catch (error) {
+    // Booked by a parallel request in the meantime
+    if (error instanceof InvalidTransitionError) {
+      const current = await db.query.orders.findFirst({ where: eq(orders.id, order.id) });
+      if (current?.paymentStatus === "paid" && current.paymentReference === captureId) {
+        return { order: current, captureId };
+      }
+    }
+    throw error;
+  }
+}
+
+// Close the payment running at the provider, so it can no longer be made
+async function closeProviderPayment(order: Order) {
+  const metadata = order.metadata as { stripeCheckoutSessionId?: string; paypalOrderId?: string } | null;
+  if (metadata?.stripeCheckoutSessionId) {
+    await expireCheckoutSession(metadata.stripeCheckoutSessionId);
+  } else if (order.paymentReference?.startsWith("pi_")) {
+    await cancelPaymentIntent(order.paymentReference);
+  }
+  // PayPal orders cannot be voided before approval; the capture checks the order instead
+}
+
+function hasProviderPayment(order: Order): boolean {
+  const metadata = order.metadata as { stripeCheckoutSessionId?: string; paypalOrderId?: string } | null;
+  return Boolean(metadata?.stripeCheckoutSessionId || metadata?.paypalOrderId || order.paymentReference);
+}
+
+/**
+ * Release stock holds past their expiry. Orders that lost their holds while
+ * a provider payment was still open get that payment closed and are
+ * cancelled, so a late payment cannot sell stock that was given back.
+ * Orders paid outside the shop (invoice, prepayment) are left alone.
+ */
+export async function releaseExpiredHolds(): Promise<{ released: number; cancelled: number }> {
+  const { released, references } = await inventoryService.releaseExpiredReservations();
+
+  let cancelled = 0;
+  for (const reference of references) {
+    const order = await db.query.orders.findFirst({ where: eq(orders.id, reference) });
+    if (!order || order.status === "cancelled" || !PAYABLE.includes(order.paymentStatus) || !hasProviderPayment(order)) {
+      continue;
+    }
+
+    try {
+      await closeProviderPayment(order);
+    } catch (error) {
+      // Usually paid in the meantime; the provider's webhook completes the order
+      logger.warn({ error, orderId: order.id }, "Could not close the payment of an order whose hold expired");
+      continue;
+    }
+
+    try {
+      await orderService.transition(
+        order.id,
+        { status: "cancelled", paymentStatus: "cancelled" },
+        { actor: { type: "system", id: "reservations" }, reason: "Payment not made before the stock hold expired" }
+      );
+      cancelled++;
+    } catch (error) {
+      logger.error({ error, orderId: order.id }, "Failed to cancel an order whose hold expired");
+    }
+  }
+
+  return { released, cancelled };
+}
@@ -148,6 +148,7 @@ export async function getPayPalOrder(paypalOrderId: string): Promise<{
   amount: number;
   currency: string;
   referenceId: string;
+  captureId?: string; // Once captured
 }> {
   const client = getClient();
   const ordersController = new OrdersController(client);
@@ -164,16 +165,19 @@ export async function getPayPalOrder(paypalOrderId: string): Promise<{
     amount: Math.round(parseFloat(purchaseUnit?.amount?.value || "0") * 100),
     currency: purchaseUnit?.amount?.currencyCode || "EUR",
     referenceId: purchaseUnit?.referenceId || "",
+    captureId: purchaseUnit?.payments?.captures?.[0]?.id,
   };
 }
 
 /**
- * Refund a PayPal capture
+ * Refund a PayPal capture. The same request ID returns the refund already
+ * made instead of a second one.
  */
 export async function refundPayPalCapture(
   captureId: string,
   amount?: number,
-  currency?: string
+  currency?: string,
+  requestId?: string
 ): Promise<{
   refundId: string;
   status: string;
@@ -183,6 +187,7 @@ export async function refundPayPalCapture(
 
   const response = await paymentsController.refundCapturedPayment({
     captureId,
+    paypalRequestId: requestId,
     body: amount
       ? {
           amount: {
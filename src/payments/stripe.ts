@@ -77,9 +77,11 @@ export async function cancelPaymentIntent(
   return stripe.paymentIntents.cancel(paymentIntentId);
 }
 
+// The same idempotency key returns the refund already made instead of a second one
 export async function createRefund(
   paymentIntentId: string,
-  amount?: number
+  amount?: number,
+  idempotencyKey?: string
 ): Promise<Stripe.Refund> {
   const stripe = getStripe();
 
@@ -91,7 +93,7 @@ export async function createRefund(
     refundParams.amount = amount;
   }
 
-  return stripe.refunds.create(refundParams);
+  return stripe.refunds.create(refundParams, idempotencyKey ? { idempotencyKey } : undefined);
 }
 
 export interface CreateCheckoutSessionParams {
@@ -108,11 +110,12 @@ export interface CreateCheckoutSessionParams {
   cancelUrl: string;
   shippingAmount?: number;
   metadata?: Record<string, string>;
+  expiresAt?: Date; // Between 30 minutes and 24 hours from now; Stripe's default is 24 hours
 }
 
 export async function createCheckoutSession(
   params: CreateCheckoutSessionParams
-): Promise<{ sessionId: string; url: string }> {
+): Promise<{ sessionId: string; url: string; expiresAt: Date }> {
   const stripe = getStripe();
 
   const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = params.lineItems.map(
@@ -154,6 +157,14 @@ export async function createCheckoutSession(
       orderId: params.orderId,
       ...params.metadata,
     },
+    // Payment intent events and charges carry the order as well
+    payment_intent_data: {
+      metadata: {
+        orderId: params.orderId,
+        ...params.metadata,
+      },
+    },
+    expires_at: params.expiresAt ? Math.floor(params.expiresAt.getTime() / 1000) : undefined,
     locale: "de",
     billing_address_collection: "required",
     shipping_address_collection: {
@@ -164,9 +175,18 @@ export async function createCheckoutSession(
   return {
     sessionId: session.id,
     url: session.url!,
+    expiresAt: new Date(session.expires_at * 1000),
   };
 }
 
+// Fails once the session has been completed
+export async function expireCheckoutSession(
+  sessionId: string
+): Promise<Stripe.Checkout.Session> {
+  const stripe = getStripe();
+  return stripe.checkout.sessions.expire(sessionId);
+}
+
 export async function getCheckoutSession(
   sessionId: string
 ): Promise<Stripe.Checkout.Session> {
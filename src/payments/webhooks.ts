@@ -1,5 +1,18 @@
 import Stripe from "stripe";
 import { getStripe } from "./stripe";
+import { eq } from "drizzle-orm";
+import { db } from "@/db";
+import { orders, paymentEvents } from "@/db/schema";
+import { logger } from "@/config/logger";
+import { amountDue } from "./order-payment";
+import {
+  orderService,
+  orderEditService,
+  refundService,
+  InvalidTransitionError,
+  RefundError,
+  type PaymentStatus,
+} from "@/orders";
 
 export type StripeWebhookEvent =
   | "checkout.session.completed"
@@ -46,7 +59,9 @@ export function verifyWebhookSignature(
 }
 
 /**
- * Process a verified webhook event
+ * Process a verified webhook event. Each event is applied once: it is
+ * claimed by its ID before the handler runs, and the claim is dropped
+ * again if the handler fails so Stripe's retry gets another go.
  */
 export async function processWebhookEvent(
   event: Stripe.Event
@@ -60,7 +75,75 @@ export async function processWebhookEvent(
     };
   }
 
-  return handler(event);
+  const [claimed] = await db
+    .insert(paymentEvents)
+    .values({ id: event.id, provider: "stripe", type: event.type })
+    .onConflictDoNothing()
+    .returning({ id: paymentEvents.id });
+  if (!claimed) {
+    return { success: true, action: "duplicate" };
+  }
+
+  let result: WebhookHandlerResult;
+  try {
+    result = await handler(event);
+  } catch (error) {
+    await db.delete(paymentEvents).where(eq(paymentEvents.id, event.id));
+    throw error;
+  }
+
+  if (!result.success) {
+    await db.delete(paymentEvents).where(eq(paymentEvents.id, event.id));
+  } else {
+    await db
+      .update(paymentEvents)
+      .set({ orderId: result.orderId, action: result.action })
+      .where(eq(paymentEvents.id, event.id));
+  }
+  return result;
+}
+
+/**
+ * Move the order's payment status; the order service settles the stock
+ * holds. Events arriving late or twice (e.g. a failure after the payment
+ * went through) are acknowledged without a change. The payment intent
+ * becomes the order's payment reference.
+ */
+async function updatePaymentStatus(
+  event: Stripe.Event,
+  orderId: string,
+  changes: { paymentStatus: PaymentStatus; status?: "cancelled" },
+  action: string,
+  paymentReference?: string
+): Promise<WebhookHandlerResult> {
+  try {
+    await orderService.transition(orderId, changes, {
+      actor: { type: "webhook", id: event.id },
+      metadata: { eventType: event.type },
+      fields: paymentReference ? { paymentReference } : undefined,
+    });
+  } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      return { success: true, orderId, action: "ignored" };
+    }
+    throw error;
+  }
+
+  return { success: true, orderId, action };
+}
+
+/**
+ * Whether a payment covers what is due on the order. A payment started
+ * before the order was edited carries the old amount; it is not booked and
+ * left for review instead.
+ */
+async function paysAmountDue(event: Stripe.Event, orderId: string, amount: number | null | undefined): Promise<boolean> {
+  const order = await db.query.orders.findFirst({ where: eq(orders.id, orderId) });
+  if (!order || amount === amountDue(order)) {
+    return true;
+  }
+  logger.error({ eventId: event.id, orderId, amount, due: amountDue(order) }, "Payment amount does not match the order");
+  return false;
 }
 
 /**
@@ -92,6 +175,21 @@ export const defaultHandlers = {
     const session = event.data.object as Stripe.Checkout.Session;
     const orderId = session.metadata?.orderId;
 
+    const paymentIntentId = typeof session.payment_intent === "string"
+      ? session.payment_intent
+      : session.payment_intent?.id;
+
+    // Payment for the difference of an order edit; the order stays paid.
+    // Delayed methods (SEPA) complete the session unpaid; the payment
+    // intent events settle those.
+    const orderEditId = session.metadata?.orderEditId;
+    if (orderEditId) {
+      const edit = session.payment_status === "unpaid"
+        ? null
+        : await orderEditService.markPaid(orderEditId, paymentIntentId);
+      return { success: true, orderId, action: edit ? "mark_edit_paid" : "ignored" };
+    }
+
     if (!orderId) {
       return {
         success: false,
@@ -99,13 +197,16 @@ export const defaultHandlers = {
       };
     }
 
-    // Payment successful - update order status
-    // This will be connected to the order service
-    return {
-      success: true,
-      orderId,
-      action: "mark_paid",
-    };
+    if (!(await paysAmountDue(event, orderId, session.amount_total))) {
+      return { success: true, orderId, action: "amount_mismatch" };
+    }
+
+    // The payment reference is known from here on (refunds, payment sync)
+    if (session.payment_status === "unpaid") {
+      return updatePaymentStatus(event, orderId, { paymentStatus: "processing" }, "mark_processing", paymentIntentId);
+    }
+
+    return updatePaymentStatus(event, orderId, { paymentStatus: "paid" }, "mark_paid", paymentIntentId);
   },
 
   /**
@@ -124,11 +225,13 @@ export const defaultHandlers = {
       };
     }
 
-    return {
-      success: true,
-      orderId,
-      action: "cancel_order",
-    };
+    // An unused payment link for an order edit; the order keeps its stock
+    if (session.metadata?.orderEditId) {
+      return { success: true, orderId, action: "ignored" };
+    }
+
+    // The order was never paid: cancelling it releases its stock
+    return updatePaymentStatus(event, orderId, { paymentStatus: "cancelled", status: "cancelled" }, "cancel_order");
   },
 
   /**
@@ -140,18 +243,24 @@ export const defaultHandlers = {
     const paymentIntent = event.data.object as Stripe.PaymentIntent;
     const orderId = paymentIntent.metadata?.orderId;
 
+    const orderEditId = paymentIntent.metadata?.orderEditId;
+    if (orderEditId) {
+      const edit = await orderEditService.markPaid(orderEditId, paymentIntent.id);
+      return { success: true, orderId, action: edit ? "mark_edit_paid" : "ignored" };
+    }
+
     if (!orderId) {
       return {
-        success: false,
-        error: "No orderId in payment intent metadata",
+        success: true,
+        action: "ignored",
       };
     }
 
-    return {
-      success: true,
-      orderId,
-      action: "mark_paid",
-    };
+    if (!(await paysAmountDue(event, orderId, paymentIntent.amount_received))) {
+      return { success: true, orderId, action: "amount_mismatch" };
+    }
+
+    return updatePaymentStatus(event, orderId, { paymentStatus: "paid" }, "mark_paid", paymentIntent.id);
   },
 
   /**
@@ -163,42 +272,81 @@ export const defaultHandlers = {
     const paymentIntent = event.data.object as Stripe.PaymentIntent;
     const orderId = paymentIntent.metadata?.orderId;
 
-    if (!orderId) {
+    // A failed attempt at an order edit's payment leaves the edit pending
+    if (!orderId || paymentIntent.metadata?.orderEditId) {
       return {
-        success: false,
-        error: "No orderId in payment intent metadata",
+        success: true,
+        action: "ignored",
       };
     }
 
-    return {
-      success: true,
-      orderId,
-      action: "mark_payment_failed",
-    };
+    // Releases the stock; a later successful attempt takes it again
+    return updatePaymentStatus(event, orderId, { paymentStatus: "failed" }, "mark_payment_failed", paymentIntent.id);
+  },
+
+  /**
+   * Handle canceled payment intent
+   */
+  async handlePaymentCanceled(
+    event: Stripe.Event
+  ): Promise<WebhookHandlerResult> {
+    const paymentIntent = event.data.object as Stripe.PaymentIntent;
+    const orderId = paymentIntent.metadata?.orderId;
+
+    if (!orderId || paymentIntent.metadata?.orderEditId) {
+      return {
+        success: true,
+        action: "ignored",
+      };
+    }
+
+    // The intent cannot be paid any more: cancelling the order releases its
+    // stock, coupon and gift cards
+    return updatePaymentStatus(event, orderId, { paymentStatus: "cancelled", status: "cancelled" }, "cancel_order");
   },
 
   /**
-   * Handle refund
+   * Handle refund. Refunds made here are already recorded; refunds made in
+   * the Stripe dashboard are booked from the charge's refunded total.
    */
   async handleChargeRefunded(
     event: Stripe.Event
   ): Promise<WebhookHandlerResult> {
     const charge = event.data.object as Stripe.Charge;
-    const orderId = charge.metadata?.orderId;
+    let orderId: string | undefined = charge.metadata?.orderId;
 
-    if (!orderId) {
+    if (!orderId && charge.payment_intent) {
       // Try to get from payment intent
+      const paymentIntentId = typeof charge.payment_intent === "string"
+        ? charge.payment_intent
+        : charge.payment_intent.id;
+      const order = await db.query.orders.findFirst({
+        where: eq(orders.paymentReference, paymentIntentId),
+        columns: { id: true },
+      });
+      orderId = order?.id;
+    }
+
+    if (!orderId) {
       return {
         success: true,
-        action: "refund_processed",
+        action: "ignored",
       };
     }
 
-    return {
-      success: true,
-      orderId,
-      action: "mark_refunded",
-    };
+    try {
+      const refund = await refundService.recordProviderRefund(orderId, {
+        provider: "stripe",
+        totalRefunded: charge.amount_refunded,
+        providerRefundId: charge.refunds?.data[0]?.id,
+      }, { type: "webhook", id: event.id });
+      return { success: true, orderId, action: refund ? "refund_recorded" : "ignored" };
+    } catch (error) {
+      if (error instanceof RefundError || error instanceof InvalidTransitionError) {
+        return { success: true, orderId, action: "ignored" };
+      }
+      throw error;
+    }
   },
 
   /**
@@ -236,6 +384,10 @@ export function registerDefaultHandlers(): void {
     "payment_intent.payment_failed",
     defaultHandlers.handlePaymentFailed
   );
+  registerWebhookHandler(
+    "payment_intent.canceled",
+    defaultHandlers.handlePaymentCanceled
+  );
   registerWebhookHandler(
     "charge.refunded",
     defaultHandlers.handleChargeRefunded
@@ -0,0 +1,7 @@
+// Returns Module
+// src/returns/index.ts
+
+export * from "./types.js";
+export * from "./returns.js";
+export { returnService } from "./return-service.js";
+export { returnRoutes } from "./routes.js";
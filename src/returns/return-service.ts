@@ -0,0 +1,362 @@
+// Return Service
+// src/returns/return-service.ts
+
+import { eq, and, desc } from "drizzle-orm";
+import { logger } from "@/config/logger";
+import { db, type DbExecutor } from "@/db";
+import { orders, orderItems, returns, returnItems } from "@/db/schema";
+import { addEmailJob } from "@/jobs/queues";
+import { inventoryService } from "@/inventory";
+import {
+  orderService,
+  refundService,
+  shipmentService,
+  shippedQuantities,
+  calculateRefund,
+  type StatusActor,
+} from "@/orders";
+import type { ItemCondition, RefundMethod, RequestReturnInput, ReturnStatus } from "./types.js";
+import {
+  ReturnError,
+  assertReturnTransition,
+  isWithinWithdrawalPeriod,
+  resolveReturnLines,
+  withdrawalDeadline,
+  withdrawalStart,
+  returnableQuantities,
+} from "./returns.js";
+
+type Order = typeof orders.$inferSelect;
+type Return = typeof returns.$inferSelect & { items: Array<typeof returnItems.$inferSelect> };
+
+async function loadReturn(returnId: string, executor: DbExecutor, lock = false): Promise<Return> {
+  if (lock) {
+    await executor.select({ id: returns.id }).from(returns).where(eq(returns.id, returnId)).for("update");
+  }
+  const ret = await executor.query.returns.findFirst({
+    where: eq(returns.id, returnId),
+    with: { items: true },
+  });
+  if (!ret) {
+    throw new Error("Return not found");
+  }
+  return ret;
+}
+
+// When the goods arrived: the withdrawal period starts with the last delivery
+async function receivedAt(order: Order, executor: DbExecutor): Promise<Date | null> {
+  const shipments = (await shipmentService.listForOrder(order.id, executor))
+    .filter((shipment) => shipment.status !== "cancelled");
+  if (shipments.length === 0) {
+    return withdrawalStart([order.deliveredAt]);
+  }
+  return withdrawalStart(shipments.map((shipment) => shipment.deliveredAt));
+}
+
+async function notifyCustomer(order: Order, ret: Return, extra: Record<string, unknown> = {}): Promise<void> {
+  await addEmailJob({
+    type: "return_update",
+    to: order.email,
+    subject: ret.status === "rejected"
+      ? `Ihre Retoure ${ret.returnNumber} wurde abgelehnt`
+      : `Ihre Retoure ${ret.returnNumber} wurde genehmigt`,
+    templateId: "return-update",
+    templateData: {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      returnId: ret.id,
+      returnNumber: ret.returnNumber,
+      status: ret.status,
+      refundAmount: ret.refundAmount,
+      refundMethod: ret.refundMethod,
+      note: ret.adminNote,
+      ...extra,
+    },
+  }).catch((error) => {
+    logger.error({ error, orderId: order.id, returnId: ret.id }, "Failed to queue return email");
+  });
+}
+
+export const returnService = {
+  /**
+   * Request a return of shipped items. Customers are held to the withdrawal
+   * period; admins can create returns after it (e.g. for warranty cases).
+   */
+  async request(
+    orderId: string,
+    input: RequestReturnInput,
+    options: { enforceDeadline?: boolean } = {}
+  ): Promise<Return> {
+    return db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for("update");
+      if (!order) {
+        throw new Error("Order not found");
+      }
+      if (order.status === "cancelled") {
+        throw new ReturnError("The order has been cancelled");
+      }
+      if (options.enforceDeadline !== false && !isWithinWithdrawalPeriod(await receivedAt(order, tx))) {
+        throw new ReturnError("The withdrawal period for this order has ended");
+      }
+
+      // Only top-level lines that have been shipped can come back
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+      const topLevel = new Set(items.filter((item) => !item.parentItemId).map((item) => item.id));
+      const shipped = new Map(
+        [...shippedQuantities(await shipmentService.listForOrder(orderId, tx))]
+          .filter(([orderItemId]) => topLevel.has(orderItemId))
+      );
+      const existing = await tx.query.returns.findMany({
+        where: eq(returns.orderId, orderId),
+        with: { items: true },
+      });
+      const lines = resolveReturnLines(returnableQuantities(shipped, existing), input.items);
+
+      const [ret] = await tx.insert(returns).values({
+        returnNumber: `${order.orderNumber}-R${existing.length + 1}`,
+        orderId,
+        customerId: order.customerId,
+        reason: input.reason,
+        customerNote: input.customerNote,
+        refundMethod: input.refundMethod ?? "original",
+      }).returning();
+      const rows = await tx.insert(returnItems).values(
+        lines.map((line) => ({
+          returnId: ret.id,
+          orderItemId: line.orderItemId,
+          quantity: line.quantity,
+          reason: line.reason ?? input.reason,
+        }))
+      ).returning();
+
+      return { ...ret, items: rows };
+    });
+  },
+
+  /**
+   * Approve a return and refund it, through the original payment or as gift
+   * card credit. A credit note is issued and `order.refunded` emitted.
+   */
+  async approve(
+    returnId: string,
+    input: { refundMethod?: RefundMethod; amount?: number; note?: string },
+    actor: StatusActor
+  ): Promise<Return> {
+    // Claim the return first so it cannot be refunded twice
+    const claimed = await db.transaction(async (tx) => {
+      const ret = await loadReturn(returnId, tx, true);
+      assertReturnTransition(ret.status, "approved");
+
+      const order = await tx.query.orders.findFirst({ where: eq(orders.id, ret.orderId) });
+      if (!order) {
+        throw new Error("Order not found");
+      }
+      if (!["paid", "partially_refunded"].includes(order.paymentStatus)) {
+        throw new ReturnError(`Cannot refund an order with payment status ${order.paymentStatus}`);
+      }
+
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, order.id));
+      const calculation = calculateRefund(items, ret.items, { discountTotal: order.discountTotal });
+      const amount = input.amount ?? calculation.total;
+      if (amount <= 0 || amount > calculation.total) {
+        throw new ReturnError(`The refund must be between 0.01 and ${(calculation.total / 100).toFixed(2)}`);
+      }
+
+      const now = new Date();
+      await tx.update(returns).set({
+        status: "approved",
+        refundMethod: input.refundMethod ?? ret.refundMethod,
+        refundAmount: amount,
+        adminNote: input.note ?? ret.adminNote,
+        approvedAt: now,
+        updatedAt: now,
+      }).where(eq(returns.id, returnId));
+      for (const line of calculation.lines) {
+        await tx.update(returnItems)
+          .set({ refundAmount: line.amount })
+          .where(and(eq(returnItems.returnId, returnId), eq(returnItems.orderItemId, line.orderItemId)));
+      }
+
+      return {
+        order,
+        amount,
+        lines: ret.items.map((item) => ({ orderItemId: item.orderItemId, quantity: item.quantity })),
+        returnNumber: ret.returnNumber,
+        method: (input.refundMethod ?? ret.refundMethod) as RefundMethod,
+      };
+    });
+    const { order } = claimed;
+
+    let result: Awaited<ReturnType<typeof refundService.refund>>;
+    try {
+      // Deductions (e.g. for wear) are credited pro rata across the lines
+      result = await refundService.refund(order.id, {
+        lines: claimed.lines,
+        amount: claimed.amount,
+        method: claimed.method,
+        reason: `Retoure ${claimed.returnNumber}`,
+      }, actor);
+    } catch (error) {
+      // Hand the return back so the refund can be retried
+      await db.update(returns)
+        .set({ status: "requested", approvedAt: null, updatedAt: new Date() })
+        .where(eq(returns.id, returnId));
+      throw error;
+    }
+
+    const ret = await db.transaction(async (tx) => {
+      const now = new Date();
+      await tx.update(returns).set({
+        refundId: result.refund.id,
+        creditNoteId: result.refund.creditNoteId,
+        refundedAt: now,
+        updatedAt: now,
+      }).where(eq(returns.id, returnId));
+      return loadReturn(returnId, tx);
+    });
+
+    await notifyCustomer(order, ret, result.giftCardCode ? { giftCardCode: result.giftCardCode } : {});
+    return ret;
+  },
+
+  async reject(returnId: string, input: { note?: string }): Promise<Return> {
+    const ret = await db.transaction(async (tx) => {
+      const ret = await loadReturn(returnId, tx, true);
+      assertReturnTransition(ret.status, "rejected");
+
+      const now = new Date();
+      await tx.update(returns)
+        .set({ status: "rejected", adminNote: input.note ?? ret.adminNote, rejectedAt: now, updatedAt: now })
+        .where(eq(returns.id, returnId));
+      return loadReturn(returnId, tx);
+    });
+
+    const order = await db.query.orders.findFirst({ where: eq(orders.id, ret.orderId) });
+    if (order) {
+      await notifyCustomer(order, ret);
+    }
+    return ret;
+  },
+
+  /**
+   * Withdraw a request that has not been handled yet
+   */
+  async cancel(returnId: string): Promise<Return> {
+    return db.transaction(async (tx) => {
+      const ret = await loadReturn(returnId, tx, true);
+      assertReturnTransition(ret.status, "cancelled");
+
+      const now = new Date();
+      await tx.update(returns)
+        .set({ status: "cancelled", cancelledAt: now, updatedAt: now })
+        .where(eq(returns.id, returnId));
+      return loadReturn(returnId, tx);
+    });
+  },
+
+  /**
+   * Book the goods in after inspection. Items in a sellable condition go back
+   * into stock (bundles as their components); damaged ones do not. Once all
+   * shipped goods are back, the order counts as returned.
+   */
+  async receive(
+    returnId: string,
+    input: { items: Array<{ orderItemId: string; condition: ItemCondition }>; note?: string },
+    actor: StatusActor
+  ): Promise<Return> {
+    return db.transaction(async (tx) => {
+      const ret = await loadReturn(returnId, tx, true);
+      assertReturnTransition(ret.status, "received");
+
+      const conditions = new Map(input.items.map((item) => [item.orderItemId, item.condition]));
+      const missing = ret.items.find((item) => !conditions.has(item.orderItemId));
+      if (missing) {
+        throw new ReturnError(`Inspect order item ${missing.orderItemId} of the return`);
+      }
+
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, ret.orderId));
+      for (const line of ret.items) {
+        const condition = conditions.get(line.orderItemId)!;
+        await tx.update(returnItems).set({ condition }).where(eq(returnItems.id, line.id));
+        if (condition !== "restock") continue;
+
+        const item = items.find((orderItem) => orderItem.id === line.orderItemId)!;
+        const components = items.filter((orderItem) => orderItem.parentItemId === item.id);
+        const stock = components.length > 0
+          ? components.map((component) => ({
+              productId: component.productId,
+              warehouseId: component.warehouseId,
+              quantity: Math.round((component.quantity * line.quantity) / item.quantity),
+            }))
+          : [{ productId: item.productId, warehouseId: item.warehouseId, quantity: line.quantity }];
+        for (const entry of stock) {
+          if (!entry.productId || entry.quantity <= 0) continue;
+          await inventoryService.processReturn(
+            entry.productId, undefined, entry.quantity, ret.orderId, tx, entry.warehouseId ?? undefined
+          );
+        }
+      }
+
+      const now = new Date();
+      await tx.update(returns)
+        .set({ status: "received", adminNote: input.note ?? ret.adminNote, receivedAt: now, updatedAt: now })
+        .where(eq(returns.id, returnId));
+
+      // Everything that was shipped has come back
+      const topLevel = new Set(items.filter((item) => !item.parentItemId).map((item) => item.id));
+      const shipped = [...shippedQuantities(await shipmentService.listForOrder(ret.orderId, tx))]
+        .filter(([orderItemId]) => topLevel.has(orderItemId));
+      const received = await tx.query.returns.findMany({
+        where: and(eq(returns.orderId, ret.orderId), eq(returns.status, "received")),
+        with: { items: true },
+      });
+      const back = returnableQuantities(new Map(shipped), received);
+      if (shipped.length > 0 && [...back.values()].every((quantity) => quantity <= 0)) {
+        await orderService.transition(
+          ret.orderId,
+          { fulfillmentStatus: "returned" },
+          { actor, reason: `Return ${ret.returnNumber}`, metadata: { returnId }, notifyCustomer: false },
+          tx
+        );
+      }
+
+      return loadReturn(returnId, tx);
+    });
+  },
+
+  /**
+   * When the goods arrived and until when they can be returned; no deadline
+   * while they are on their way
+   */
+  async getWithdrawalDeadline(orderId: string, executor: DbExecutor = db): Promise<{
+    receivedAt: Date | null;
+    deadline: Date | null;
+  }> {
+    const order = await executor.query.orders.findFirst({ where: eq(orders.id, orderId) });
+    if (!order) {
+      throw new Error("Order not found");
+    }
+    const received = await receivedAt(order, executor);
+    return { receivedAt: received, deadline: received ? withdrawalDeadline(received) : null };
+  },
+
+  async getById(returnId: string, executor: DbExecutor = db) {
+    return executor.query.returns.findFirst({
+      where: eq(returns.id, returnId),
+      with: { items: true, creditNote: true },
+    });
+  },
+
+  async list(filter: { status?: ReturnStatus; orderId?: string; customerId?: string } = {}, executor: DbExecutor = db) {
+    const conditions = [];
+    if (filter.status) conditions.push(eq(returns.status, filter.status));
+    if (filter.orderId) conditions.push(eq(returns.orderId, filter.orderId));
+    if (filter.customerId) conditions.push(eq(returns.customerId, filter.customerId));
+
+    return executor.query.returns.findMany({
+      where: conditions.length > 0 ? and(...conditions) : undefined,
+      with: { items: true },
+      orderBy: desc(returns.createdAt),
+    });
+  },
+};
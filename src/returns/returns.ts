@@ -0,0 +1,107 @@
+// Return Rules
+// src/returns/returns.ts
+
+import type { ReturnLineInput, ReturnSnapshot, ReturnStatus } from "./types.js";
+
+// Statutory withdrawal period for distance contracts (§ 355 BGB)
+export const WITHDRAWAL_PERIOD_DAYS = 14;
+
+export const RETURN_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ["approved", "rejected", "cancelled"],
+  approved: ["received"],
+  rejected: [],
+  received: [],
+  cancelled: [],
+};
+
+export class ReturnError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReturnError";
+  }
+}
+
+export function assertReturnTransition(from: string, to: ReturnStatus): void {
+  if (!RETURN_TRANSITIONS[from as ReturnStatus]?.includes(to)) {
+    throw new ReturnError(`Cannot change a ${from} return to ${to}`);
+  }
+}
+
+/**
+ * When the withdrawal period starts: with the delivery of the last part of
+ * the goods. Until every part has been delivered it has not started;
+ * shipping alone does not start it.
+ */
+export function withdrawalStart(deliveredAt: Array<Date | null>): Date | null {
+  if (deliveredAt.length === 0 || deliveredAt.some((date) => !date)) {
+    return null;
+  }
+  return (deliveredAt as Date[]).reduce((latest, date) => (date > latest ? date : latest));
+}
+
+/**
+ * Last day to withdraw: the period starts when the (last part of the) goods
+ * arrived and ends with the 14th day after
+ */
+export function withdrawalDeadline(receivedAt: Date): Date {
+  const deadline = new Date(receivedAt);
+  deadline.setDate(deadline.getDate() + WITHDRAWAL_PERIOD_DAYS);
+  deadline.setHours(23, 59, 59, 999);
+  return deadline;
+}
+
+/**
+ * Whether goods can still be returned. The period has not started for goods
+ * that have not arrived yet.
+ */
+export function isWithinWithdrawalPeriod(receivedAt: Date | null, now = new Date()): boolean {
+  return !receivedAt || now <= withdrawalDeadline(receivedAt);
+}
+
+/**
+ * Shipped quantities of top-level lines not yet claimed by another return
+ */
+export function returnableQuantities(
+  shipped: Map<string, number>,
+  returns: ReturnSnapshot[]
+): Map<string, number> {
+  const returnable = new Map(shipped);
+  for (const ret of returns) {
+    if (ret.status === "rejected" || ret.status === "cancelled") continue;
+    for (const item of ret.items) {
+      returnable.set(item.orderItemId, (returnable.get(item.orderItemId) ?? 0) - item.quantity);
+    }
+  }
+  return returnable;
+}
+
+/**
+ * Validate the lines of a return request against what can be returned
+ */
+export function resolveReturnLines(
+  returnable: Map<string, number>,
+  requested: ReturnLineInput[]
+): ReturnLineInput[] {
+  const lines = new Map<string, ReturnLineInput>();
+  for (const line of requested) {
+    const existing = lines.get(line.orderItemId);
+    lines.set(line.orderItemId, existing ? { ...existing, quantity: existing.quantity + line.quantity } : { ...line });
+  }
+
+  if (lines.size === 0) {
+    throw new ReturnError("Select at least one item to return");
+  }
+  for (const line of lines.values()) {
+    const available = returnable.get(line.orderItemId);
+    if (available === undefined) {
+      throw new ReturnError(`Order item ${line.orderItemId} cannot be returned`);
+    }
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      throw new ReturnError(`Invalid quantity for order item ${line.orderItemId}`);
+    }
+    if (line.quantity > available) {
+      throw new ReturnError(`Only ${Math.max(0, available)} of order item ${line.orderItemId} can be returned`);
+    }
+  }
+  return [...lines.values()];
+}
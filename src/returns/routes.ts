@@ -0,0 +1,135 @@
+// Return API Routes
+// src/returns/routes.ts
+
+import { Hono } from "hono";
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+import { db } from "@/db";
+import { orders } from "@/db/schema";
+import { requireAuth, type TokenPayload } from "@/auth";
+import { returnService } from "./return-service.js";
+import { ReturnError } from "./returns.js";
+
+export const returnRoutes = new Hono();
+
+returnRoutes.use("*", requireAuth);
+
+const reasonSchema = z.enum(["withdrawal", "defective", "damaged_in_transit", "wrong_item", "not_as_described", "other"]);
+
+const idSchema = z.string().uuid();
+
+const requestReturnSchema = z.object({
+  orderId: z.string().uuid(),
+  items: z.array(z.object({
+    orderItemId: z.string().uuid(),
+    quantity: z.number().int().positive(),
+    reason: reasonSchema.optional(),
+  })).min(1),
+  reason: reasonSchema,
+  customerNote: z.string().max(2000).optional(),
+  refundMethod: z.enum(["original", "gift_card"]).optional(),
+});
+
+// Orders of the signed-in customer, including guest orders with their email
+async function findOwnOrder(user: TokenPayload, orderId: string) {
+  if (!idSchema.safeParse(orderId).success) return null;
+  const order = await db.query.orders.findFirst({ where: eq(orders.id, orderId) });
+  if (!order) return null;
+  const owns = order.customerId ? order.customerId === user.sub : order.email.toLowerCase() === user.email.toLowerCase();
+  return owns ? order : null;
+}
+
+// Returns of the customer's own orders; malformed ids are simply not found
+async function findOwnReturn(user: TokenPayload, id: string) {
+  if (!idSchema.safeParse(id).success) return null;
+  const ret = await returnService.getById(id);
+  return ret && (await findOwnOrder(user, ret.orderId)) ? ret : null;
+}
+
+function toResponse(ret: Awaited<ReturnType<typeof returnService.request>>) {
+  return {
+    id: ret.id,
+    returnNumber: ret.returnNumber,
+    orderId: ret.orderId,
+    status: ret.status,
+    reason: ret.reason,
+    customerNote: ret.customerNote,
+    refundMethod: ret.refundMethod,
+    refundAmount: ret.refundAmount,
+    items: ret.items.map((item) => ({
+      orderItemId: item.orderItemId,
+      quantity: item.quantity,
+      reason: item.reason,
+    })),
+    createdAt: ret.createdAt,
+    approvedAt: ret.approvedAt,
+    refundedAt: ret.refundedAt,
+    receivedAt: ret.receivedAt,
+  };
+}
+
+// List the customer's returns
+returnRoutes.get("/", async (c) => {
+  const user = c.get("user")!;
+  const items = await returnService.list({ customerId: user.sub });
+  return c.json({ data: items.map(toResponse) });
+});
+
+// Request a return
+returnRoutes.post("/", async (c) => {
+  const user = c.get("user")!;
+  const result = requestReturnSchema.safeParse(await c.req.json().catch(() => ({})));
+  if (!result.success) {
+    return c.json({ error: { code: "INVALID_INPUT", message: result.error.issues[0]?.message ?? "Invalid input" } }, 400);
+  }
+
+  const { orderId, ...input } = result.data;
+  if (!(await findOwnOrder(user, orderId))) {
+    return c.json({ error: { code: "NOT_FOUND", message: "Order not found" } }, 404);
+  }
+
+  try {
+    const ret = await returnService.request(orderId, input);
+    return c.json({ data: toResponse(ret) }, 201);
+  } catch (error) {
+    if (error instanceof ReturnError) {
+      return c.json({ error: { code: "RETURN_NOT_POSSIBLE", message: error.message } }, 400);
+    }
+    throw error;
+  }
+});
+
+// Withdrawal deadline of an order
+returnRoutes.get("/order/:orderId/deadline", async (c) => {
+  const order = await findOwnOrder(c.get("user")!, c.req.param("orderId"));
+  if (!order) {
+    return c.json({ error: { code: "NOT_FOUND", message: "Order not found" } }, 404);
+  }
+
+  return c.json({ data: await returnService.getWithdrawalDeadline(order.id) });
+});
+
+returnRoutes.get("/:id", async (c) => {
+  const ret = await findOwnReturn(c.get("user")!, c.req.param("id"));
+  if (!ret) {
+    return c.json({ error: { code: "NOT_FOUND", message: "Return not found" } }, 404);
+  }
+  return c.json({ data: toResponse(ret) });
+});
+
+// Withdraw a request that has not been handled yet
+returnRoutes.post("/:id/cancel", async (c) => {
+  const ret = await findOwnReturn(c.get("user")!, c.req.param("id"));
+  if (!ret) {
+    return c.json({ error: { code: "NOT_FOUND", message: "Return not found" } }, 404);
+  }
+
+  try {
+    return c.json({ data: toResponse(await returnService.cancel(ret.id)) });
+  } catch (error) {
+    if (error instanceof ReturnError) {
+      return c.json({ error: { code: "INVALID_STATUS", message: error.message } }, 400);
+    }
+    throw error;
+  }
+});
@@ -0,0 +1,35 @@
+// Return Types
+// src/returns/types.ts
+
+export type ReturnStatus = "requested" | "approved" | "rejected" | "received" | "cancelled";
+
+export type ReturnReason =
+  | "withdrawal"     // Widerruf, no reason needed
+  | "defective"
+  | "damaged_in_transit"
+  | "wrong_item"
+  | "not_as_described"
+  | "other";
+
+export type RefundMethod = "original" | "gift_card";
+
+export type ItemCondition = "restock" | "damaged";
+
+export interface ReturnLineInput {
+  orderItemId: string;
+  quantity: number;
+  reason?: ReturnReason;
+}
+
+// A return as far as returnable quantities are concerned
+export interface ReturnSnapshot {
+  status: string;
+  items: Array<{ orderItemId: string; quantity: number }>;
+}
+
+export interface RequestReturnInput {
+  items: ReturnLineInput[];
+  reason: ReturnReason;
+  customerNote?: string;
+  refundMethod?: RefundMethod;
+}
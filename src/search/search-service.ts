@@ -38,6 +38,19 @@ export interface SearchResponse {
   suggestions?: string[];
 }
 
+// SKUs of a product's variants, so a variant SKU finds its parent
+const VARIANT_SKUS = "(SELECT string_agg(pv.sku, ' ') FROM products pv WHERE pv.parent_id = p.id)";
+
+// Stock left after active reservations; a parent offers its variants' stock,
+// a bundle what its scarcest limiting component allows
+const AVAILABLE_QUANTITY = `(CASE
+  WHEN EXISTS (SELECT 1 FROM products pv WHERE pv.parent_id = p.id)
+  THEN (SELECT COALESCE(SUM(GREATEST(pv.stock_quantity - COALESCE((SELECT SUM(ii.reserved_quantity) FROM inventory_items ii WHERE ii.product_id = pv.id), 0), 0)), 0) FROM products pv WHERE pv.parent_id = p.id AND pv.status = 'active')
+  WHEN EXISTS (SELECT 1 FROM product_bundle_items bi WHERE bi.bundle_id = p.id)
+  THEN (SELECT COALESCE(MIN(CASE WHEN pc.status <> 'active' THEN 0 ELSE GREATEST(pc.stock_quantity - COALESCE((SELECT SUM(ii.reserved_quantity) FROM inventory_items ii WHERE ii.product_id = pc.id), 0), 0) / bi.quantity END), 0) FROM product_bundle_items bi JOIN products pc ON pc.id = bi.component_id WHERE bi.bundle_id = p.id AND (pc.status <> 'active' OR (pc.track_inventory AND NOT pc.allow_backorder)))
+  ELSE p.stock_quantity - COALESCE((SELECT SUM(ii.reserved_quantity) FROM inventory_items ii WHERE ii.product_id = p.id), 0)
+END)`;
+
 export const searchService = {
   // Full-text search with ranking
   async search(options: SearchOptions): Promise<SearchResponse> {
@@ -68,7 +81,7 @@ export const searchService = {
     }
 
     // Build WHERE conditions
-    const conditions: string[] = ["p.status = 'active'"];
+    const conditions: string[] = ["p.status = 'active'", "p.parent_id IS NULL"];
 
     // Category filter
     if (categoryIds && categoryIds.length > 0) {
@@ -86,7 +99,9 @@ export const searchService = {
 
     // Stock filter
     if (inStock) {
-      conditions.push("(p.track_inventory = false OR p.stock_quantity > 0)");
+      conditions.push(
+        "(p.track_inventory = false OR " + AVAILABLE_QUANTITY + " > 0)"
+      );
     }
 
     const whereClause = conditions.join(" AND ");
@@ -103,7 +118,7 @@ export const searchService = {
           pt.description,
           ts_rank(
             setweight(to_tsvector('${searchLang}', COALESCE(pt.name, '')), 'A') ||
-            setweight(to_tsvector('${searchLang}', COALESCE(p.sku, '')), 'A') ||
+            setweight(to_tsvector('${searchLang}', COALESCE(p.sku, '') || ' ' || COALESCE(${VARIANT_SKUS}, '')), 'A') ||
             setweight(to_tsvector('${searchLang}', COALESCE(pt.short_description, '')), 'B') ||
             setweight(to_tsvector('${searchLang}', COALESCE(pt.description, '')), 'C'),
             to_tsquery('${searchLang}', '${searchQuery}')
@@ -117,7 +132,7 @@ export const searchService = {
         WHERE ${whereClause}
           AND (
             to_tsvector('${searchLang}', COALESCE(pt.name, '')) ||
-            to_tsvector('${searchLang}', COALESCE(p.sku, '')) ||
+            to_tsvector('${searchLang}', COALESCE(p.sku, '') || ' ' || COALESCE(${VARIANT_SKUS}, '')) ||
             to_tsvector('${searchLang}', COALESCE(pt.description, ''))
           ) @@ to_tsquery('${searchLang}', '${searchQuery}')
         ORDER BY rank DESC
@@ -134,7 +149,7 @@ export const searchService = {
       WHERE ${whereClause}
         AND (
           to_tsvector('${searchLang}', COALESCE(pt.name, '')) ||
-          to_tsvector('${searchLang}', COALESCE(p.sku, '')) ||
+          to_tsvector('${searchLang}', COALESCE(p.sku, '') || ' ' || COALESCE(${VARIANT_SKUS}, '')) ||
           to_tsvector('${searchLang}', COALESCE(pt.description, ''))
         ) @@ to_tsquery('${searchLang}', '${searchQuery}')
     `);
@@ -199,9 +214,11 @@ export const searchService = {
       FROM products p
       LEFT JOIN product_translations pt ON pt.product_id = p.id AND pt.locale = ${locale}
       WHERE p.status = 'active'
+        AND p.parent_id IS NULL
         AND (
           pt.name ILIKE ${searchPattern}
           OR p.sku ILIKE ${searchPattern}
+          OR EXISTS (SELECT 1 FROM products pv WHERE pv.parent_id = p.id AND pv.sku ILIKE ${searchPattern})
           OR pt.description ILIKE ${searchPattern}
         )
       ORDER BY
@@ -244,6 +261,7 @@ export const searchService = {
       JOIN products p ON p.id = pt.product_id
       WHERE pt.locale = ${locale}
         AND p.status = 'active'
+        AND p.parent_id IS NULL
         AND pt.name ILIKE ${searchPattern}
       ORDER BY pt.name
       LIMIT ${limit}
@@ -260,6 +278,7 @@ export const searchService = {
       JOIN products p ON p.id = pt.product_id
       WHERE pt.locale = ${locale}
         AND p.status = 'active'
+        AND p.parent_id IS NULL
       ORDER BY p.created_at DESC
       LIMIT ${limit}
     `);
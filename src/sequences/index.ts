@@ -0,0 +1,6 @@
+// Sequences Module
+// src/sequences/index.ts
+
+export * from "./types.js";
+export * from "./sequences.js";
+export { sequenceService } from "./sequence-service.js";
@@ -0,0 +1,144 @@
+// Sequence Service
+// src/sequences/sequence-service.ts
+
+import { eq, asc, desc, like, sql } from "drizzle-orm";
+import { db, type DbExecutor } from "@/db";
+import { creditNotes, invoices, numberSequences, orders } from "@/db/schema";
+import type { SequenceConfig, SequenceKey } from "./types.js";
+import {
+  DEFAULT_SEQUENCES,
+  SequenceError,
+  advanceSequence,
+  formatSequenceNumber,
+  parseSequenceNumber,
+  validateFormat,
+} from "./sequences.js";
+
+type Sequence = typeof numberSequences.$inferSelect;
+
+// Where the numbers of each sequence end up
+const NUMBERED = {
+  order: { table: orders, column: orders.orderNumber },
+  invoice: { table: invoices, column: invoices.invoiceNumber },
+  credit_note: { table: creditNotes, column: creditNotes.creditNoteNumber },
+};
+
+function inTransaction<T>(executor: DbExecutor | undefined, fn: (tx: DbExecutor) => Promise<T>): Promise<T> {
+  return (executor ?? db).transaction(fn);
+}
+
+// Highest number of the year issued before the sequence row existed,
+// e.g. by a release that numbered records without sequences
+async function highestIssued(key: SequenceKey, config: SequenceConfig, year: number, executor: DbExecutor): Promise<number> {
+  const { table, column } = NUMBERED[key];
+  const values = { prefix: config.prefix, year };
+  const [last] = await executor
+    .select({ number: column })
+    .from(table)
+    .where(like(column, formatSequenceNumber(config.format.replace(/\{N+\}/, "%"), { ...values, value: 0 })))
+    .orderBy(desc(sql`length(${column})`), desc(column))
+    .limit(1);
+  return last ? parseSequenceNumber(config.format, values, last.number) ?? 0 : 0;
+}
+
+// Lock a sequence row, creating it with the defaults on first use. A new
+// row continues after the numbers already issued for its key.
+async function lockSequence(key: SequenceKey, tx: DbExecutor): Promise<Sequence> {
+  const [existing] = await tx.select().from(numberSequences).where(eq(numberSequences.key, key)).for("update");
+  if (existing) {
+    return existing;
+  }
+
+  const period = new Date().getFullYear();
+  await tx
+    .insert(numberSequences)
+    .values({
+      key,
+      ...DEFAULT_SEQUENCES[key],
+      currentValue: await highestIssued(key, DEFAULT_SEQUENCES[key], period, tx),
+      period,
+    })
+    .onConflictDoNothing();
+  const [sequence] = await tx.select().from(numberSequences).where(eq(numberSequences.key, key)).for("update");
+  return sequence;
+}
+
+export const sequenceService = {
+  /**
+   * Take the next number of a sequence. Must run in the transaction that
+   * creates the numbered record: the row lock serialises concurrent callers
+   * until it commits, and a rollback hands the number back, so the range
+   * stays gapless.
+   */
+  async next(key: SequenceKey, tx: DbExecutor): Promise<string> {
+    const sequence = await lockSequence(key, tx);
+    const year = new Date().getFullYear();
+    const next = advanceSequence(sequence, sequence, year);
+
+    await tx
+      .update(numberSequences)
+      .set({ currentValue: next.currentValue, period: next.period, updatedAt: new Date() })
+      .where(eq(numberSequences.key, key));
+    return formatSequenceNumber(sequence.format, { prefix: sequence.prefix, year, value: next.currentValue });
+  },
+
+  /**
+   * Change the prefix or format of a sequence. `currentValue` continues a
+   * range started elsewhere (e.g. when migrating) and cannot go back.
+   */
+  async configure(
+    key: SequenceKey,
+    input: Partial<SequenceConfig> & { currentValue?: number },
+    tx?: DbExecutor
+  ): Promise<Sequence> {
+    return inTransaction(tx, async (t) => {
+      const sequence = await lockSequence(key, t);
+      if (input.format !== undefined) {
+        validateFormat(input.format);
+      }
+      if (input.prefix !== undefined && /[{}]/.test(input.prefix)) {
+        throw new SequenceError("The prefix cannot contain braces");
+      }
+      const year = new Date().getFullYear();
+      const issued = sequence.resetYearly && sequence.period !== year ? 0 : sequence.currentValue;
+      if (input.currentValue !== undefined && input.currentValue < issued) {
+        throw new SequenceError(`Numbers up to ${issued} have been issued already`);
+      }
+
+      const [updated] = await t
+        .update(numberSequences)
+        .set({
+          ...input,
+          ...(input.currentValue !== undefined ? { period: year } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(numberSequences.key, key))
+        .returning();
+      return updated;
+    });
+  },
+
+  /**
+   * All sequences with the number each would issue next
+   */
+  async list(): Promise<Array<Sequence & { nextNumber: string }>> {
+    const stored = await db.select().from(numberSequences).orderBy(asc(numberSequences.key));
+    const year = new Date().getFullYear();
+
+    return Promise.all((Object.keys(DEFAULT_SEQUENCES) as SequenceKey[]).map(async (key) => {
+      const sequence = stored.find((row) => row.key === key) ?? {
+        key,
+        ...DEFAULT_SEQUENCES[key],
+        currentValue: await highestIssued(key, DEFAULT_SEQUENCES[key], year, db),
+        period: year,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      const next = advanceSequence(sequence, sequence, year);
+      return {
+        ...sequence,
+        nextNumber: formatSequenceNumber(sequence.format, { prefix: sequence.prefix, year, value: next.currentValue }),
+      };
+    }));
+  },
+};
@@ -0,0 +1,86 @@
+// Number Sequences
+// src/sequences/sequences.ts
+
+import type { SequenceConfig, SequenceKey, SequenceState } from "./types.js";
+
+export const DEFAULT_SEQUENCES: Record<SequenceKey, SequenceConfig> = {
+  order: { prefix: "SK", format: "{prefix}-{YYYY}-{NNNNNN}", resetYearly: true },
+  invoice: { prefix: "RE", format: "{prefix}-{YYYY}-{NNNNNN}", resetYearly: true },
+  credit_note: { prefix: "GS", format: "{prefix}-{YYYY}-{NNNNNN}", resetYearly: true },
+};
+
+export class SequenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SequenceError";
+  }
+}
+
+const NUMBER_TOKEN = /\{(N+)\}/g;
+
+/**
+ * Check a format template: exactly one number token, known tokens only
+ */
+export function validateFormat(format: string): void {
+  const numberTokens = format.match(NUMBER_TOKEN) ?? [];
+  if (numberTokens.length !== 1) {
+    throw new SequenceError("The format needs exactly one number token such as {NNNNNN}");
+  }
+  const unknown = format.replace(NUMBER_TOKEN, "").match(/\{(?!prefix\}|YYYY\}|YY\})[^}]*\}/);
+  if (unknown) {
+    throw new SequenceError(`Unknown token ${unknown[0]} in format`);
+  }
+}
+
+/**
+ * Render a number from a format template, e.g. SK-2024-000042
+ */
+export function formatSequenceNumber(
+  format: string,
+  values: { prefix: string; year: number; value: number }
+): string {
+  return format
+    .replace(NUMBER_TOKEN, (_, digits: string) => String(values.value).padStart(digits.length, "0"))
+    .replace(/\{YYYY\}/g, String(values.year))
+    .replace(/\{YY\}/g, String(values.year % 100).padStart(2, "0"))
+    .replace(/\{prefix\}/g, values.prefix);
+}
+
+/**
+ * The counter in a number rendered from a format template, or null when the
+ * number was not rendered from it for this prefix and year
+ */
+export function parseSequenceNumber(
+  format: string,
+  values: { prefix: string; year: number },
+  number: string
+): number | null {
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const pattern = format
+    .split(/(\{prefix\}|\{YYYY\}|\{YY\}|\{N+\})/)
+    .map((part) => {
+      if (part === "{prefix}") return escape(values.prefix);
+      if (part === "{YYYY}") return String(values.year);
+      if (part === "{YY}") return String(values.year % 100).padStart(2, "0");
+      if (/^\{N+\}$/.test(part)) return "(\\d+)";
+      return escape(part);
+    })
+    .join("");
+  const match = number.match(new RegExp(`^${pattern}$`));
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * The next number of a sequence; yearly sequences start again at 1 in a
+ * new year
+ */
+export function advanceSequence(
+  state: SequenceState,
+  config: Pick<SequenceConfig, "resetYearly">,
+  year: number
+): SequenceState {
+  if (config.resetYearly && state.period !== year) {
+    return { currentValue: 1, period: year };
+  }
+  return { currentValue: state.currentValue + 1, period: year };
+}
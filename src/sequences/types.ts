@@ -0,0 +1,16 @@
+// Sequence Types
+// src/sequences/types.ts
+
+export type SequenceKey = "order" | "invoice" | "credit_note";
+
+export interface SequenceConfig {
+  prefix: string;
+  // Tokens: {prefix}, {YYYY}, {YY}, and {N…} for the zero-padded number
+  format: string;
+  resetYearly: boolean;
+}
+
+export interface SequenceState {
+  currentValue: number; // Last number issued
+  period: number; // Year of the last number
+}
@@ -0,0 +1,6 @@
+// Shipping Module
+// src/shipping/index.ts
+
+export * from "./types.js";
+export * from "./rates.js";
+export { shippingService } from "./shipping-service.js";
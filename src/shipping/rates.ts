@@ -0,0 +1,116 @@
+// Shipping Rates
+// src/shipping/rates.ts
+
+import type {
+  ShippingMethodRule,
+  ShippingParcel,
+  ShippingRate,
+  ShippingRateTier,
+  ShippingZoneRule,
+} from "./types.js";
+
+/**
+ * Zone for a destination country: the active zone listing the country with
+ * the lowest priority value, else a "*" zone
+ */
+export function selectZone<T extends ShippingZoneRule>(zones: T[], country: string): T | null {
+  const code = country.toUpperCase();
+  const active = zones
+    .filter((zone) => zone.isActive)
+    .sort((a, b) => a.priority - b.priority);
+  const countries = (zone: T) => zone.countries.map((c) => c.toUpperCase());
+
+  return active.find((zone) => countries(zone).includes(code)) ??
+    active.find((zone) => countries(zone).includes("*")) ??
+    null;
+}
+
+/**
+ * Price of the tier a value falls into, null if it exceeds every tier
+ */
+export function findTierPrice(tiers: ShippingRateTier[], value: number): number | null {
+  const sorted = [...tiers].sort((a, b) =>
+    (a.upTo ?? Number.POSITIVE_INFINITY) - (b.upTo ?? Number.POSITIVE_INFINITY)
+  );
+  const tier = sorted.find((t) => t.upTo === null || value <= t.upTo);
+  return tier ? tier.price : null;
+}
+
+/**
+ * Shipping class surcharges of a method for a parcel, null if the method
+ * excludes one of the parcel's classes
+ */
+export function calculateClassSurcharge(method: ShippingMethodRule, parcel: ShippingParcel): number | null {
+  let surcharge = 0;
+  for (const { classId, quantity } of parcel.classes ?? []) {
+    const rule = method.classRules?.find((r) => r.classId === classId);
+    if (!rule) continue;
+    if (rule.excluded) {
+      return null;
+    }
+    surcharge += rule.perItem ? rule.surcharge * quantity : rule.surcharge;
+  }
+  return surcharge;
+}
+
+/**
+ * Base price of a method for a parcel, before class surcharges; null if
+ * the method cannot ship it (too heavy for its rate table, or a free
+ * method below its minimum). Weight methods without a rate table charge
+ * per started kilogram.
+ */
+export function calculateShippingPrice(method: ShippingMethodRule, parcel: ShippingParcel): number | null {
+  const tiers = method.rateTable?.length ? method.rateTable : null;
+  const reachesFree = method.freeAbove != null && parcel.subtotal >= method.freeAbove;
+
+  let price: number | null;
+  switch (method.type) {
+    case "free":
+      return method.freeAbove == null || reachesFree ? 0 : null;
+    case "weight":
+      price = tiers
+        ? findTierPrice(tiers, parcel.weight)
+        : method.price + Math.ceil(parcel.weight / 1000) * (method.pricePerKg ?? 0);
+      break;
+    case "price":
+      price = tiers ? findTierPrice(tiers, parcel.subtotal) : method.price;
+      break;
+    default:
+      price = method.price;
+  }
+
+  if (price === null) {
+    return null;
+  }
+  return reachesFree ? 0 : Math.max(0, price);
+}
+
+/**
+ * Methods of a zone that can ship the parcel, with their prices. Class
+ * surcharges still apply when the base price is free.
+ */
+export function calculateRates(methods: ShippingMethodRule[], parcel: ShippingParcel): ShippingRate[] {
+  return methods
+    .filter((method) => method.isActive)
+    .sort((a, b) => a.position - b.position)
+    .flatMap((method) => {
+      const surcharge = calculateClassSurcharge(method, parcel);
+      const price = surcharge === null ? null : calculateShippingPrice(method, parcel);
+      if (price === null || surcharge === null) {
+        return [];
+      }
+      return [{
+        methodId: method.id,
+        zoneId: method.zoneId,
+        slug: method.slug,
+        name: method.name,
+        description: method.description ?? null,
+        type: method.type,
+        price: price + surcharge,
+        surcharge,
+        freeAbove: method.freeAbove ?? null,
+        deliveryTimeId: method.deliveryTimeId ?? null,
+        carrierCode: method.carrierCode ?? null,
+      }];
+    });
+}
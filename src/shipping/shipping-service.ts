@@ -0,0 +1,103 @@
+// Shipping Service
+// src/shipping/shipping-service.ts
+
+import { eq, inArray } from "drizzle-orm";
+import { db, type DbExecutor } from "@/db";
+import { products, shippingMethods, shippingZones } from "@/db/schema";
+import { bundleService } from "@/bundles";
+import type { ShippingItemInput, ShippingQuote, ShippingRate, ShippingRateTier } from "./types.js";
+import { calculateRates, selectZone } from "./rates.js";
+
+export const shippingService = {
+  /**
+   * Weight (grams) and shipping classes of cart lines. Bundles without a
+   * weight or class of their own take those of their components.
+   */
+  async getParcel(
+    items: ShippingItemInput[],
+    executor: DbExecutor = db
+  ): Promise<{ weight: number; classes: Array<{ classId: string; quantity: number }> }> {
+    const ids = [...new Set(items.map((item) => item.productId))];
+    if (ids.length === 0) {
+      return { weight: 0, classes: [] };
+    }
+
+    const rows = await executor
+      .select({ id: products.id, type: products.type, weight: products.weight, shippingClassId: products.shippingClassId })
+      .from(products)
+      .where(inArray(products.id, ids));
+    const byId = new Map(rows.map((row) => [row.id, row]));
+
+    const bundleIds = rows
+      .filter((row) => row.type === "bundle" && (row.weight == null || row.shippingClassId == null))
+      .map((row) => row.id);
+    const components = await bundleService.getComponents(bundleIds, executor);
+
+    let weight = 0;
+    const classes = new Map<string, number>();
+    const addClass = (classId: string | null, quantity: number) => {
+      if (classId) classes.set(classId, (classes.get(classId) ?? 0) + quantity);
+    };
+
+    for (const item of items) {
+      const product = byId.get(item.productId);
+      const parts = components.get(item.productId) ?? [];
+      weight += item.quantity * (product?.weight ??
+        parts.reduce((total, c) => total + (c.weight ?? 0) * c.quantity, 0));
+
+      if (product?.shippingClassId || parts.length === 0) {
+        addClass(product?.shippingClassId ?? null, item.quantity);
+      } else {
+        parts.forEach((c) => addClass(c.shippingClassId, c.quantity * item.quantity));
+      }
+    }
+
+    return { weight, classes: [...classes].map(([classId, quantity]) => ({ classId, quantity })) };
+  },
+
+  /**
+   * Shipping methods available for a destination, priced for the cart
+   * including shipping class surcharges
+   */
+  async getQuote(input: {
+    country: string;
+    items: ShippingItemInput[];
+    subtotal: number; // Goods value incl. tax
+  }, executor: DbExecutor = db): Promise<ShippingQuote> {
+    const zones = await executor.query.shippingZones.findMany({
+      where: eq(shippingZones.isActive, true),
+    });
+    const zone = selectZone(
+      zones.map((z) => ({ ...z, countries: (z.countries as string[] | null) ?? [] })),
+      input.country
+    );
+    const { weight, classes } = await this.getParcel(input.items, executor);
+    if (!zone) {
+      return { zone: null, weight, classes, rates: [] };
+    }
+
+    const methods = await executor.query.shippingMethods.findMany({
+      where: eq(shippingMethods.zoneId, zone.id),
+      with: { classRules: true },
+    });
+    const rates = calculateRates(
+      methods.map((m) => ({ ...m, rateTable: m.rateTable as ShippingRateTier[] | null })),
+      { weight, subtotal: input.subtotal, classes }
+    );
+
+    return { zone: { id: zone.id, name: zone.name }, weight, classes, rates };
+  },
+
+  /**
+   * Price of one method for a destination; null if the method does not
+   * serve that address or cannot ship the cart
+   */
+  async getRate(
+    methodId: string,
+    input: { country: string; items: ShippingItemInput[]; subtotal: number },
+    executor: DbExecutor = db
+  ): Promise<ShippingRate | null> {
+    const quote = await this.getQuote(input, executor);
+    return quote.rates.find((rate) => rate.methodId === methodId) ?? null;
+  },
+};
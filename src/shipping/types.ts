@@ -0,0 +1,77 @@
+// Shipping Types
+// src/shipping/types.ts
+
+export type ShippingMethodType = "flat" | "weight" | "price" | "free";
+
+// Tier of a rate table; upTo is inclusive, null for "and above"
+export interface ShippingRateTier {
+  upTo: number | null;
+  price: number;
+}
+
+export interface ShippingZoneRule {
+  id: string;
+  name: string;
+  countries: string[]; // ISO codes, "*" for the rest of the world
+  priority: number;    // Lower wins
+  isActive: boolean;
+}
+
+// Surcharge or restriction of a shipping class on a method
+export interface ShippingClassRule {
+  classId: string;
+  surcharge: number; // Cents
+  perItem: boolean;  // Per unit instead of once per order
+  excluded: boolean; // Method cannot carry the class
+}
+
+export interface ShippingMethodRule {
+  id: string;
+  zoneId: string;
+  slug: string;
+  name: string;
+  description?: string | null;
+  type: string;
+  price: number;
+  freeAbove?: number | null;
+  pricePerKg?: number | null;
+  rateTable?: ShippingRateTier[] | null;
+  classRules?: ShippingClassRule[];
+  deliveryTimeId?: string | null;
+  carrierCode?: string | null;
+  isActive: boolean;
+  position: number;
+}
+
+// What a shipment's price depends on
+export interface ShippingParcel {
+  weight: number;   // Grams
+  subtotal: number; // Goods value incl. tax, in cents
+  classes?: Array<{ classId: string; quantity: number }>; // Units per shipping class
+}
+
+export interface ShippingItemInput {
+  productId: string;
+  quantity: number;
+}
+
+export interface ShippingRate {
+  methodId: string;
+  zoneId: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  type: string;
+  price: number;     // Including surcharges
+  surcharge: number; // Shipping class surcharges
+  freeAbove: number | null;
+  deliveryTimeId: string | null;
+  carrierCode: string | null;
+}
+
+export interface ShippingQuote {
+  zone: { id: string; name: string } | null;
+  weight: number;
+  classes: Array<{ classId: string; quantity: number }>;
+  rates: ShippingRate[];
+}
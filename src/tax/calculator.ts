@@ -0,0 +1,235 @@
+// Tax Calculator
+// src/tax/calculator.ts
+
+import type {
+  AppliedTax,
+  TaxAddress,
+  TaxCalculation,
+  TaxCalculationInput,
+  TaxRateRule,
+} from "./types.js";
+
+export class TaxConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TaxConfigurationError";
+  }
+}
+
+/**
+ * Split an amount in proportion to the weights without losing cents
+ * (largest remainder method)
+ */
+export function allocate(amount: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+  if (amount === 0 || totalWeight === 0) {
+    return weights.map(() => 0);
+  }
+
+  const exact = weights.map((weight) => (amount * Math.max(0, weight)) / totalWeight);
+  const shares = exact.map(Math.floor);
+  let remainder = amount - shares.reduce((sum, share) => sum + share, 0);
+
+  const order = exact
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+  for (const { index } of order) {
+    if (remainder <= 0) break;
+    shares[index] += 1;
+    remainder -= 1;
+  }
+  return shares;
+}
+
+function matchesPostalCode(pattern: string, postalCode?: string): boolean {
+  if (!postalCode) {
+    return false;
+  }
+  const normalized = postalCode.replace(/\s/g, "").toUpperCase();
+  const rule = pattern.replace(/\s/g, "").toUpperCase();
+  return rule.endsWith("*") ? normalized.startsWith(rule.slice(0, -1)) : normalized === rule;
+}
+
+/**
+ * Rates that apply at an address. Rules for a region (state, postal code,
+ * city) replace the country-wide rules when they match.
+ */
+export function resolveRates(rules: TaxRateRule[], address: TaxAddress): TaxRateRule[] {
+  const country = address.country.toUpperCase();
+  const matching = rules.filter((rule) =>
+    rule.country.toUpperCase() === country &&
+    (!rule.state || rule.state === address.state) &&
+    (!rule.postalCode || matchesPostalCode(rule.postalCode, address.postalCode)) &&
+    (!rule.city || rule.city.toLowerCase() === address.city?.toLowerCase())
+  );
+  if (matching.length === 0) {
+    return [];
+  }
+
+  const specificity = (rule: TaxRateRule) =>
+    (rule.state ? 1 : 0) + (rule.postalCode ? 2 : 0) + (rule.city ? 2 : 0);
+  const best = Math.max(...matching.map(specificity));
+
+  return matching
+    .filter((rule) => specificity(rule) === best)
+    .sort((a, b) => a.priority - b.priority);
+}
+
+/**
+ * Rates of a tax class at an address, from its rules in all countries.
+ * A class without any rules is not taxed; one with rules elsewhere but none
+ * in the destination country (e.g. an OSS country that was not set up)
+ * fails instead of being charged no VAT.
+ */
+export function classRatesAt(taxClass: string, rules: TaxRateRule[], address: TaxAddress): TaxRateRule[] {
+  const country = address.country.toUpperCase();
+  if (rules.length > 0 && !rules.some((rule) => rule.country.toUpperCase() === country)) {
+    throw new TaxConfigurationError(`Tax class ${taxClass} has no rate for ${country}`);
+  }
+  return resolveRates(rules, address);
+}
+
+/**
+ * Tax on a net amount. Compound rates are charged on the amount including
+ * the taxes before them.
+ */
+export function applyRates(netAmount: number, rates: TaxRateRule[]): AppliedTax[] {
+  let base = netAmount;
+  const applied: AppliedTax[] = [];
+
+  for (const rate of [...rates].sort((a, b) => a.priority - b.priority)) {
+    const amount = Math.round((base * rate.rate) / 10000);
+    applied.push({ name: rate.name, rate: rate.rate, amount });
+    if (rate.compound) {
+      base += amount;
+    }
+  }
+  return applied;
+}
+
+/**
+ * Combined rate in basis points, as stored on order items
+ */
+export function combinedRate(rates: TaxRateRule[]): number {
+  return rates.reduce((sum, rate) => sum + rate.rate, 0);
+}
+
+function addTaxes(target: Map<string, AppliedTax>, taxes: AppliedTax[]): void {
+  for (const tax of taxes) {
+    const key = `${tax.name}|${tax.rate}`;
+    const existing = target.get(key);
+    if (existing) {
+      existing.amount += tax.amount;
+    } else {
+      target.set(key, { ...tax });
+    }
+  }
+}
+
+// Taxes contained in a gross amount, split like the taxes of a reference line
+function taxesWithin(grossAmount: number, reference: { grossAmount: number; taxes: AppliedTax[] }): AppliedTax[] {
+  if (reference.grossAmount === 0) {
+    return reference.taxes.map((tax) => ({ ...tax, amount: 0 }));
+  }
+  return reference.taxes.map((tax) => ({
+    ...tax,
+    amount: Math.round((grossAmount * tax.amount) / reference.grossAmount),
+  }));
+}
+
+/**
+ * Taxes of an order. Lines are taxed on their net amount. Discounts lower
+ * the tax of their line; the order discount is spread over the lines by
+ * value. Shipping follows the
+ * goods: it is split by the discounted line values and taxed at their rates.
+ */
+export function calculateTaxes(input: TaxCalculationInput): TaxCalculation {
+  const lines = input.lines.map((line) => {
+    const taxes = applyRates(line.netAmount, line.rates);
+    const taxAmount = taxes.reduce((sum, tax) => sum + tax.amount, 0);
+    return {
+      key: line.key,
+      netAmount: line.netAmount,
+      taxAmount,
+      grossAmount: line.netAmount + taxAmount,
+      taxRate: combinedRate(line.rates),
+      taxes,
+    };
+  });
+
+  // Line discounts first; the order discount is spread over what remains
+  const subtotal = lines.reduce((sum, line) => sum + line.grossAmount, 0);
+  const lineDiscounts = lines.map((line, index) =>
+    Math.min(Math.max(0, input.lines[index].discountGross ?? 0), line.grossAmount)
+  );
+  const remaining = lines.map((line, index) => line.grossAmount - lineDiscounts[index]);
+  const orderDiscount = Math.min(
+    Math.max(0, input.discountGross ?? 0),
+    remaining.reduce((sum, value) => sum + value, 0)
+  );
+  const orderShares = allocate(orderDiscount, remaining);
+  const discountShares = lineDiscounts.map((discount, index) => discount + orderShares[index]);
+  const discountTotal = discountShares.reduce((sum, share) => sum + share, 0);
+
+  const taxedLines = lines.map((line, index) => {
+    const discountAmount = discountShares[index];
+    const taxes = taxesWithin(line.grossAmount - discountAmount, line);
+    return {
+      key: line.key,
+      netAmount: line.netAmount,
+      taxAmount: line.taxAmount,
+      grossAmount: line.grossAmount,
+      taxRate: line.taxRate,
+      discountAmount,
+      discountedTaxAmount: taxes.reduce((sum, tax) => sum + tax.amount, 0),
+      taxes,
+    };
+  });
+
+  // Shipping
+  const shippingTotal = Math.max(0, input.shippingGross ?? 0);
+  const shippingTaxes = new Map<string, AppliedTax>();
+  const discountedValues = lines.map((line, index) => line.grossAmount - discountShares[index]);
+  if (shippingTotal > 0 && discountedValues.some((value) => value > 0)) {
+    const portions = allocate(shippingTotal, discountedValues);
+    lines.forEach((line, index) => addTaxes(shippingTaxes, taxesWithin(portions[index], line)));
+  } else if (shippingTotal > 0 && input.fallbackRates?.length) {
+    const reference = applyRates(10000, input.fallbackRates);
+    const referenceGross = 10000 + reference.reduce((sum, tax) => sum + tax.amount, 0);
+    addTaxes(shippingTaxes, taxesWithin(shippingTotal, { grossAmount: referenceGross, taxes: reference }));
+  }
+  const shippingTaxList = [...shippingTaxes.values()];
+  const shippingTax = shippingTaxList.reduce((sum, tax) => sum + tax.amount, 0);
+
+  // Per-rate totals
+  const totals = new Map<string, AppliedTax>();
+  taxedLines.forEach((line) => addTaxes(totals, line.taxes));
+  addTaxes(totals, shippingTaxList);
+  const taxLines = [...totals.values()]
+    .filter((tax) => tax.amount !== 0)
+    .sort((a, b) => a.rate - b.rate || a.name.localeCompare(b.name));
+
+  return {
+    lines: taxedLines,
+    shipping: {
+      grossAmount: shippingTotal,
+      netAmount: shippingTotal - shippingTax,
+      taxAmount: shippingTax,
+      taxes: shippingTaxList.filter((tax) => tax.amount !== 0),
+    },
+    taxLines,
+    subtotal,
+    discountTotal,
+    shippingTotal,
+    taxTotal: taxLines.reduce((sum, tax) => sum + tax.amount, 0),
+    total: subtotal - discountTotal + shippingTotal,
+  };
+}
+
+/**
+ * Label of a tax line as printed on orders and invoices, e.g. "MwSt. 19%"
+ */
+export function formatTaxLineName(tax: Pick<AppliedTax, "name" | "rate">): string {
+  const percent = (tax.rate / 100).toLocaleString("de-DE", { maximumFractionDigits: 2 });
+  return `${tax.name} ${percent}%`;
+}
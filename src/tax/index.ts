@@ -0,0 +1,8 @@
+// Tax Module
+// src/tax/index.ts
+
+export * from "./types.js";
+export * from "./calculator.js";
+export * from "./vat.js";
+export { verifyVatId, setVatIdVerifier, resetVatIdVerifier, viesVerifier } from "./vat-id-verifier.js";
+export { taxService } from "./tax-service.js";
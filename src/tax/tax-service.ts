@@ -0,0 +1,251 @@
+// Tax Service
+// src/tax/tax-service.ts
+
+import { eq, and, ne, gte, inArray, sql } from "drizzle-orm";
+import { env } from "@/config/env";
+import { db, type DbExecutor } from "@/db";
+import { orders, taxClasses, taxRates } from "@/db/schema";
+import { logger } from "@/config/logger";
+import type { AppliedTax, TaxAddress, TaxCalculation, TaxItemInput, TaxRateRule, VatContext } from "./types.js";
+import { applyRates, calculateTaxes, classRatesAt } from "./calculator.js";
+import { EU_COUNTRIES, determineVatTreatment, formatVatId, isEuCountry, ossThresholdReached, parseVatId } from "./vat.js";
+import { verifyVatId } from "./vat-id-verifier.js";
+
+type RateRow = typeof taxRates.$inferSelect;
+
+function toRule(row: RateRow): TaxRateRule {
+  return {
+    id: row.id,
+    name: row.name,
+    rate: row.rate,
+    country: row.country,
+    state: row.state,
+    postalCode: row.postalCode,
+    city: row.city,
+    priority: row.priority,
+    compound: row.compound,
+  };
+}
+
+// Rate implied by a product's stored net and gross price, for shops that
+// have not set up tax classes yet
+function impliedRule(fallbackRate: number, country: string): TaxRateRule {
+  return { name: "MwSt.", rate: fallbackRate, country, priority: 0, compound: false };
+}
+
+export const taxService = {
+  /**
+   * Address taxes are based on: the shipping address, else the billing
+   * address, else the shop's own country
+   */
+  getTaxAddress(...addresses: Array<Record<string, unknown> | null | undefined>): TaxAddress {
+    const address = addresses.find((a) => typeof a?.country === "string" && a.country.length === 2);
+    if (!address) {
+      return { country: env.STORE_COUNTRY };
+    }
+    return {
+      country: String(address.country).toUpperCase(),
+      state: typeof address.state === "string" ? address.state : undefined,
+      postalCode: typeof address.postalCode === "string"
+        ? address.postalCode
+        : typeof address.zip === "string" ? address.zip : undefined,
+      city: typeof address.city === "string" ? address.city : undefined,
+    };
+  },
+
+  /**
+   * Default tax class, used for products without one
+   */
+  async getDefaultClassId(executor: DbExecutor = db): Promise<string | null> {
+    const [row] = await executor
+      .select({ id: taxClasses.id })
+      .from(taxClasses)
+      .where(eq(taxClasses.isDefault, true))
+      .limit(1);
+    return row?.id ?? null;
+  },
+
+  /**
+   * Rates per tax class at an address. Classes without any rate are mapped
+   * to an empty list (not taxed); unknown classes are absent. Throws
+   * TaxConfigurationError for a class without a rate in the address's country.
+   */
+  async getRates(
+    taxClassIds: string[],
+    address: TaxAddress,
+    executor: DbExecutor = db
+  ): Promise<Map<string, TaxRateRule[]>> {
+    const result = new Map<string, TaxRateRule[]>();
+    const ids = [...new Set(taxClassIds)];
+    if (ids.length === 0) {
+      return result;
+    }
+
+    const [classes, rows] = await Promise.all([
+      executor.select({ id: taxClasses.id, name: taxClasses.name }).from(taxClasses).where(inArray(taxClasses.id, ids)),
+      executor.select().from(taxRates).where(inArray(taxRates.taxClassId, ids)),
+    ]);
+
+    for (const { id, name } of classes) {
+      result.set(id, classRatesAt(name, rows.filter((row) => row.taxClassId === id).map(toRule), address));
+    }
+    return result;
+  },
+
+  /**
+   * Taxes of a single net amount in a tax class
+   */
+  async calculateAmount(
+    taxClassId: string,
+    address: TaxAddress,
+    netAmount: number,
+    executor: DbExecutor = db
+  ): Promise<{ rates: AppliedTax[]; taxAmount: number; grossAmount: number }> {
+    const rates = (await this.getRates([taxClassId], address, executor)).get(taxClassId) ?? [];
+    const applied = applyRates(netAmount, rates);
+    const taxAmount = applied.reduce((sum, tax) => sum + tax.amount, 0);
+    return { rates: applied, taxAmount, grossAmount: netAmount + taxAmount };
+  },
+
+  /**
+   * Taxes and totals of a cart or order. Items are taxed by their tax class
+   * (or the default class); shipping and the discount are given incl. tax.
+   */
+  async calculate(input: {
+    items: Array<TaxItemInput & { fallbackRate?: number }>;
+    address: TaxAddress;
+    shippingGross?: number;
+    discountGross?: number;
+    zeroRated?: boolean; // Reverse charge, export or exempt: no VAT at all
+  }, executor: DbExecutor = db): Promise<TaxCalculation> {
+    if (input.zeroRated) {
+      return calculateTaxes({
+        lines: input.items.map((item) => ({
+          key: item.key,
+          netAmount: item.unitPriceNet * item.quantity,
+          rates: [],
+          discountGross: item.discountGross,
+        })),
+        shippingGross: input.shippingGross,
+        discountGross: input.discountGross,
+      });
+    }
+
+    const defaultClassId = await this.getDefaultClassId(executor);
+    const classIds = input.items
+      .map((item) => item.taxClassId ?? defaultClassId)
+      .filter((id): id is string => Boolean(id));
+    const rates = await this.getRates(defaultClassId ? [...classIds, defaultClassId] : classIds, input.address, executor);
+
+    const lines = input.items.map((item) => {
+      const classId = item.taxClassId ?? defaultClassId;
+      const classRates = classId ? rates.get(classId) : undefined;
+      return {
+        key: item.key,
+        netAmount: item.unitPriceNet * item.quantity,
+        rates: classRates ?? (item.fallbackRate ? [impliedRule(item.fallbackRate, input.address.country)] : []),
+        discountGross: item.discountGross,
+      };
+    });
+
+    const defaultRates = defaultClassId ? rates.get(defaultClassId) : undefined;
+    return calculateTaxes({
+      lines,
+      shippingGross: input.shippingGross,
+      discountGross: input.discountGross,
+      fallbackRates: defaultRates ?? lines.find((line) => line.rates.length > 0)?.rates,
+    });
+  },
+
+  /**
+   * Whether EU consumers are charged the VAT of their own country
+   * (One-Stop-Shop), given the net value of the order at hand
+   */
+  async ossApplies(orderNet: number, executor: DbExecutor = db): Promise<boolean> {
+    if (env.VAT_OSS !== "auto") {
+      return env.VAT_OSS === "always";
+    }
+
+    // Cross-border sales to EU consumers since the start of last year
+    const year = new Date().getFullYear();
+    const country = sql`upper(${orders.shippingAddress}->>'country')`;
+    const rows = await executor
+      .select({
+        year: sql<number>`extract(year from ${orders.createdAt})::int`,
+        net: sql<number>`coalesce(sum(${orders.total} - ${orders.taxTotal}), 0)::int`,
+      })
+      .from(orders)
+      .where(and(
+        gte(orders.createdAt, new Date(year - 1, 0, 1)),
+        ne(orders.status, "cancelled"),
+        inArray(orders.vatTreatment, ["standard", "oss"]),
+        sql`${country} in (${sql.join(EU_COUNTRIES.map((code) => sql`${code}`), sql`, `)})`,
+        sql`${country} <> ${env.STORE_COUNTRY.toUpperCase()}`
+      ))
+      .groupBy(sql`1`);
+
+    const netOf = (y: number) => Number(rows.find((row) => Number(row.year) === y)?.net ?? 0);
+    return ossThresholdReached({
+      previousYear: netOf(year - 1),
+      currentYear: netOf(year),
+      orderNet,
+      threshold: env.OSS_THRESHOLD,
+    });
+  },
+
+  /**
+   * VAT treatment of an order and the address its rates are taken from.
+   * Unverified VAT IDs are checked with the verifier when they would lead
+   * to reverse charge; the buyer is charged VAT if that fails.
+   */
+  async getVatContext(input: {
+    address: TaxAddress;
+    orderNet: number;
+    taxExempt?: boolean;
+    vatId?: string | null;
+    vatIdVerified?: boolean;
+  }, executor: DbExecutor = db): Promise<VatContext> {
+    const store = env.STORE_COUNTRY.toUpperCase();
+    const destination = input.address.country.toUpperCase();
+    const crossBorderEu = destination !== store && isEuCountry(destination);
+
+    let buyerVatId: string | undefined;
+    const parts = input.vatId ? parseVatId(input.vatId) : null;
+    if (parts && crossBorderEu && !input.taxExempt) {
+      if (input.vatIdVerified) {
+        buyerVatId = formatVatId(parts);
+      } else {
+        try {
+          const result = await verifyVatId(formatVatId(parts));
+          buyerVatId = result.valid ? formatVatId(parts) : undefined;
+        } catch (error) {
+          logger.warn({ error, vatId: formatVatId(parts) }, "VAT ID verification failed");
+        }
+      }
+    }
+
+    const treatment = determineVatTreatment({
+      storeCountry: store,
+      destinationCountry: destination,
+      taxExempt: input.taxExempt,
+      buyerVatCountry: buyerVatId ? parts?.country : null,
+      ossApplies: crossBorderEu && !buyerVatId && !input.taxExempt
+        ? await this.ossApplies(input.orderNet, executor)
+        : false,
+    });
+
+    return {
+      treatment,
+      // Below the OSS threshold EU consumers pay the shop country's VAT
+      taxAddress: treatment === "standard" && destination !== store ? { country: store } : input.address,
+      buyerVatId: treatment === "reverse_charge" ? buyerVatId : undefined,
+    };
+  },
+
+  /**
+   * Rate implied by a net and gross price pair, in basis points
+   */
+  impliedRate(priceNet: number, priceGross: number): number {
+    return priceNet > 0 ? Math.round(((priceGross - priceNet) / priceNet) * 10000) : 0;
+  },
+};
@@ -0,0 +1,111 @@
+// Tax Types
+// src/tax/types.ts
+
+export interface TaxAddress {
+  country: string; // ISO 3166-1 alpha-2
+  state?: string;
+  postalCode?: string;
+  city?: string;
+}
+
+// A configured rate, as stored in taxRates
+export interface TaxRateRule {
+  id?: string;
+  name: string;
+  rate: number; // Basis points (1900 = 19%)
+  country: string;
+  state?: string | null;
+  postalCode?: string | null;
+  city?: string | null;
+  priority: number;
+  compound: boolean;
+}
+
+// Tax charged at one rate
+export interface AppliedTax {
+  name: string;
+  rate: number;
+  amount: number;
+}
+
+export interface TaxableLine {
+  key: string;
+  netAmount: number; // Line total before tax and discounts
+  rates: TaxRateRule[];
+  discountGross?: number; // Discount on this line incl. tax (promotions)
+}
+
+export interface TaxCalculationInput {
+  lines: TaxableLine[];
+  shippingGross?: number;      // Shipping price incl. tax
+  discountGross?: number;      // Order discount incl. tax, on top of line discounts
+  fallbackRates?: TaxRateRule[]; // For shipping when there are no taxable lines
+}
+
+export interface TaxedLine {
+  key: string;
+  netAmount: number;
+  taxAmount: number;      // Before discount
+  grossAmount: number;    // Before discount
+  taxRate: number;        // Combined rate in basis points
+  discountAmount: number; // Line discount plus share of the order discount (gross)
+  discountedTaxAmount: number;
+  taxes: AppliedTax[];    // After discount
+}
+
+export interface TaxCalculation {
+  lines: TaxedLine[];
+  shipping: {
+    grossAmount: number;
+    netAmount: number;
+    taxAmount: number;
+    taxes: AppliedTax[];
+  };
+  taxLines: AppliedTax[]; // Per rate, over lines and shipping
+  subtotal: number;       // Line gross before discount
+  discountTotal: number;
+  shippingTotal: number;
+  taxTotal: number;
+  total: number;
+}
+
+export interface TaxItemInput {
+  key: string;
+  taxClassId?: string | null;
+  unitPriceNet: number;
+  quantity: number;
+  discountGross?: number; // Discount on this line incl. tax
+}
+
+// How VAT is charged on an order, see determineVatTreatment
+export type VatTreatment =
+  | "standard"       // Shop country rates (domestic, or EU consumers below the OSS threshold)
+  | "oss"            // Destination country rates, declared via the One-Stop-Shop
+  | "reverse_charge" // Zero-rated intra-community supply to a business with a verified VAT ID
+  | "export"         // Zero-rated delivery outside the EU
+  | "exempt";        // Customer exempted by the shop
+
+export interface VatIdParts {
+  prefix: string;  // VAT prefix as printed, e.g. "DE" or "EL"
+  country: string; // ISO 3166-1 alpha-2, e.g. "GR" for "EL"
+  number: string;  // Without prefix, spaces or punctuation
+}
+
+export interface VatIdVerificationResult {
+  valid: boolean;
+  name?: string;
+  address?: string;
+  source: string; // "format" for local checks, else the verifier
+  checkedAt: Date;
+}
+
+// Checks a VAT ID with the issuing member state (VIES or a stub in tests)
+export interface VatIdVerifier {
+  verify(vatId: VatIdParts): Promise<VatIdVerificationResult>;
+}
+
+export interface VatContext {
+  treatment: VatTreatment;
+  taxAddress: TaxAddress; // Where the rates are taken from
+  buyerVatId?: string;    // Verified VAT ID for reverse charge
+}
@@ -0,0 +1,59 @@
+// VAT ID Verification
+// src/tax/vat-id-verifier.ts
+
+import type { VatIdVerificationResult, VatIdVerifier } from "./types.js";
+import { parseVatId } from "./vat.js";
+
+const VIES_URL = "https://ec.europa.eu/taxation_customs/vies/rest-api/check-vat-number";
+
+/**
+ * Checks VAT IDs against the EU's VIES service
+ */
+export const viesVerifier: VatIdVerifier = {
+  async verify(vatId) {
+    const response = await fetch(VIES_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify({ countryCode: vatId.prefix, vatNumber: vatId.number }),
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!response.ok) {
+      throw new Error(`VIES request failed: HTTP ${response.status}`);
+    }
+
+    const result = await response.json() as { valid?: boolean; name?: string; address?: string };
+    const text = (value?: string) => (value && value !== "---" ? value.trim() : undefined);
+    return {
+      valid: result.valid === true,
+      name: text(result.name),
+      address: text(result.address),
+      source: "vies",
+      checkedAt: new Date(),
+    };
+  },
+};
+
+let verifier: VatIdVerifier = viesVerifier;
+
+/**
+ * Replace the verifier, e.g. with a stub in tests or for another registry
+ */
+export function setVatIdVerifier(next: VatIdVerifier): void {
+  verifier = next;
+}
+
+export function resetVatIdVerifier(): void {
+  verifier = viesVerifier;
+}
+
+/**
+ * Verify a VAT ID. The format is checked locally first, so malformed IDs
+ * never reach the verifier.
+ */
+export async function verifyVatId(vatId: string): Promise<VatIdVerificationResult> {
+  const parts = parseVatId(vatId);
+  if (!parts) {
+    return { valid: false, source: "format", checkedAt: new Date() };
+  }
+  return verifier.verify(parts);
+}
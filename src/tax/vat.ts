@@ -0,0 +1,153 @@
+// EU VAT Rules
+// src/tax/vat.ts
+
+import type { VatIdParts, VatTreatment } from "./types.js";
+
+// EU member states (ISO 3166-1 alpha-2)
+export const EU_COUNTRIES = [
+  "AT", "BE", "BG", "CY", "CZ", "DE", "DK", "EE", "ES", "FI", "FR", "GR", "HR", "HU",
+  "IE", "IT", "LT", "LU", "LV", "MT", "NL", "PL", "PT", "RO", "SE", "SI", "SK",
+] as const;
+
+// VAT ID formats per prefix, without the prefix
+const VAT_ID_PATTERNS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  EL: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^(\d{7}[A-W][A-IW]?|\d[A-Z+*]\d{5}[A-W])$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^\d{2,10}$/,
+  SE: /^\d{10}01$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+};
+
+// Greece uses "EL" instead of its ISO code
+const PREFIX_COUNTRIES: Record<string, string> = { EL: "GR" };
+
+export function isEuCountry(country: string | null | undefined): boolean {
+  return !!country && (EU_COUNTRIES as readonly string[]).includes(country.toUpperCase());
+}
+
+/**
+ * Split a VAT ID into prefix and number. Spaces, dots and dashes are
+ * ignored; returns null if the format does not match the member state.
+ */
+export function parseVatId(vatId: string): VatIdParts | null {
+  const normalized = vatId.replace(/[\s.\-]/g, "").toUpperCase();
+  const prefix = normalized.slice(0, 2);
+  const number = normalized.slice(2);
+  const pattern = VAT_ID_PATTERNS[prefix];
+  if (!pattern || !pattern.test(number)) {
+    return null;
+  }
+  return { prefix, country: PREFIX_COUNTRIES[prefix] ?? prefix, number };
+}
+
+export function isValidVatIdFormat(vatId: string): boolean {
+  return parseVatId(vatId) !== null;
+}
+
+export function formatVatId(parts: VatIdParts): string {
+  return `${parts.prefix}${parts.number}`;
+}
+
+/**
+ * Whether cross-border sales to EU consumers are taxed in the destination
+ * country: the threshold counts all of them, in the previous or the current
+ * calendar year (including the order at hand).
+ */
+export function ossThresholdReached(input: {
+  previousYear: number;
+  currentYear: number;
+  orderNet: number;
+  threshold: number;
+}): boolean {
+  return input.previousYear > input.threshold ||
+    input.currentYear + input.orderNet > input.threshold;
+}
+
+/**
+ * VAT treatment of an order shipped from the shop country. Businesses with
+ * a verified VAT ID of another member state are zero-rated (the buyer
+ * accounts for the VAT), consumers pay destination VAT once OSS applies.
+ */
+export function determineVatTreatment(input: {
+  storeCountry: string;
+  destinationCountry: string;
+  taxExempt?: boolean;
+  buyerVatCountry?: string | null; // Country of a verified VAT ID
+  ossApplies: boolean;
+}): VatTreatment {
+  const store = input.storeCountry.toUpperCase();
+  const destination = input.destinationCountry.toUpperCase();
+  const crossBorder = destination !== store;
+
+  if (crossBorder && isEuCountry(store) && !isEuCountry(destination)) {
+    return "export";
+  }
+  if (input.taxExempt) {
+    return "exempt";
+  }
+  if (
+    crossBorder &&
+    input.buyerVatCountry &&
+    isEuCountry(input.buyerVatCountry) &&
+    input.buyerVatCountry.toUpperCase() !== store
+  ) {
+    return "reverse_charge";
+  }
+  if (crossBorder && input.ossApplies) {
+    return "oss";
+  }
+  return "standard";
+}
+
+export function isZeroRated(treatment: VatTreatment): boolean {
+  return treatment === "reverse_charge" || treatment === "export" || treatment === "exempt";
+}
+
+/**
+ * Note an invoice must carry for the treatment, null if none is needed
+ */
+export function getVatTreatmentNote(
+  treatment: VatTreatment,
+  details: { buyerVatId?: string | null; destinationCountry?: string } = {}
+): string | null {
+  switch (treatment) {
+    case "reverse_charge":
+      return [
+        "Steuerfreie innergemeinschaftliche Lieferung (§ 4 Nr. 1b i.V.m. § 6a UStG).",
+        "Steuerschuldnerschaft des Leistungsempfängers (Reverse Charge, Art. 138 und 196 MwStSystRL).",
+        details.buyerVatId ? `USt-IdNr. des Leistungsempfängers: ${details.buyerVatId}` : null,
+      ].filter(Boolean).join(" ");
+    case "export":
+      return "Steuerfreie Ausfuhrlieferung (§ 4 Nr. 1a i.V.m. § 6 UStG).";
+    case "exempt":
+      return "Ohne Umsatzsteuer: der Leistungsempfänger ist von der Umsatzsteuer befreit.";
+    case "oss":
+      return details.destinationCountry
+        ? `Umsatzsteuer des Bestimmungslandes ${details.destinationCountry.toUpperCase()}, erklärt im One-Stop-Shop-Verfahren (OSS).`
+        : "Umsatzsteuer des Bestimmungslandes, erklärt im One-Stop-Shop-Verfahren (OSS).";
+    default:
+      return null;
+  }
+}
@@ -6,9 +6,13 @@ import { categoryRouter } from "./routers/category";
 import { shippingRouter } from "./routers/shipping";
 import { paymentRouter } from "./routers/payment";
 import { couponRouter } from "./routers/coupon";
+import { promotionRouter } from "./routers/promotion";
 import { taxRouter } from "./routers/tax";
 import { deliveryTimeRouter } from "./routers/deliveryTime";
 import { adminUserRouter } from "./routers/adminUser";
+import { warehouseRouter } from "./routers/warehouse";
+import { returnRouter } from "./routers/return";
+import { sequenceRouter } from "./routers/sequence";
 
 export const appRouter = router({
   product: productRouter,
@@ -18,9 +22,13 @@ export const appRouter = router({
   shipping: shippingRouter,
   payment: paymentRouter,
   coupon: couponRouter,
+  promotion: promotionRouter,
   tax: taxRouter,
   deliveryTime: deliveryTimeRouter,
   adminUser: adminUserRouter,
+  warehouse: warehouseRouter,
+  return: returnRouter,
+  sequence: sequenceRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -1,16 +1,19 @@
 import { z } from "zod";
 import { eq, and, gte, lte, desc, asc, sql } from "drizzle-orm";
 import { router, adminProcedure } from "@/trpc/trpc";
-import { coupons } from "@/db/schema";
+import { couponBatches, coupons } from "@/db/schema";
+import { discountService, couponBatchService, CouponError, type CouponSettings } from "@/discounts";
 
 const createCouponInput = z.object({
-  code: z.string().min(3).max(100).transform((v) => v.toUpperCase()),
+  code: z.string().min(3).max(100).transform((v) => v.trim().toUpperCase()),
+  description: z.string().max(1000).optional(),
   type: z.enum(["percentage", "fixed", "free_shipping"]),
   value: z.number().int().min(0), // percentage in basis points (1000 = 10%) or fixed in cents
   minPurchase: z.number().int().optional(),
   maxDiscount: z.number().int().optional(),
   usageLimit: z.number().int().optional(),
-  usageLimitPerCustomer: z.number().int().default(1),
+  usageLimitPerCustomer: z.number().int().min(1).nullable().default(1), // null: unlimited
+  firstOrderOnly: z.boolean().default(false),
   startsAt: z.string().datetime().optional(),
   expiresAt: z.string().datetime().optional(),
   productIds: z.array(z.string().uuid()).optional(),
@@ -24,11 +27,97 @@ const updateCouponInput = createCouponInput.partial().extend({
   id: z.string().uuid(),
 });
 
+// Batch codes are single-use unless set otherwise
+const batchSettingsInput = createCouponInput.omit({ code: true }).extend({
+  usageLimit: z.number().int().min(1).default(1),
+});
+
+function toSettings(input: z.infer<typeof batchSettingsInput>): CouponSettings {
+  const { startsAt, expiresAt, ...settings } = input;
+  return {
+    ...settings,
+    startsAt: startsAt ? new Date(startsAt) : null,
+    expiresAt: expiresAt ? new Date(expiresAt) : null,
+  };
+}
+
+const batchRouter = router({
+  list: adminProcedure
+    .query(async ({ ctx }) => {
+      return { items: await couponBatchService.list(ctx.db) };
+    }),
+
+  get: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const batch = await ctx.db.query.couponBatches.findFirst({
+        where: eq(couponBatches.id, input.id),
+      });
+      if (!batch) throw new Error("Coupon batch not found");
+      return { ...batch, stats: await couponBatchService.getStats(input.id, ctx.db) };
+    }),
+
+  generate: adminProcedure
+    .input(z.object({
+      name: z.string().min(1).max(255),
+      description: z.string().max(1000).optional(),
+      count: z.number().int().min(1).max(50000),
+      prefix: z.string().max(20).regex(/^[A-Za-z0-9_-]*$/).optional(),
+      pattern: z.string().min(4).max(30).regex(/^[X_-]+$/).optional(), // X: random character
+      settings: batchSettingsInput,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { batch, count } = await couponBatchService.generate({ ...input, settings: toSettings(input.settings) });
+      ctx.logger.info({ batchId: batch.id, count }, "Coupon batch generated");
+      return { ...batch, count };
+    }),
+
+  import: adminProcedure
+    .input(z.object({
+      name: z.string().min(1).max(255),
+      description: z.string().max(1000).optional(),
+      content: z.string().min(1).max(5_000_000), // One code per line or CSV
+      settings: batchSettingsInput,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await couponBatchService.import({ ...input, settings: toSettings(input.settings) });
+      ctx.logger.info(
+        { batchId: result.batch.id, count: result.count, duplicates: result.duplicates.length, invalid: result.invalid.length },
+        "Coupon batch imported"
+      );
+      return { ...result.batch, count: result.count, duplicates: result.duplicates, invalid: result.invalid };
+    }),
+
+  export: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const batch = await ctx.db.query.couponBatches.findFirst({
+        where: eq(couponBatches.id, input.id),
+      });
+      if (!batch) throw new Error("Coupon batch not found");
+      const slug = batch.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+      return {
+        filename: `coupons-${slug || batch.id}.csv`,
+        contentType: "text/csv",
+        content: await couponBatchService.exportCsv(input.id, ctx.db),
+      };
+    }),
+
+  setActive: adminProcedure
+    .input(z.object({ id: z.string().uuid(), isActive: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const count = await couponBatchService.setActive(input.id, input.isActive, ctx.db);
+      ctx.logger.info({ batchId: input.id, isActive: input.isActive, count }, "Coupon batch updated");
+      return { count };
+    }),
+});
+
 const listCouponsInput = z.object({
   page: z.number().int().min(1).default(1),
   limit: z.number().int().min(1).max(100).default(20),
   type: z.enum(["percentage", "fixed", "free_shipping"]).optional(),
   isActive: z.boolean().optional(),
+  batchId: z.string().uuid().optional(),
   includeExpired: z.boolean().default(false),
   search: z.string().optional(),
   sortBy: z.enum(["createdAt", "code", "usageCount", "expiresAt"]).default("createdAt"),
@@ -36,15 +125,18 @@ const listCouponsInput = z.object({
 });
 
 export const couponRouter = router({
+  batches: batchRouter,
+
   list: adminProcedure
     .input(listCouponsInput)
     .query(async ({ ctx, input }) => {
-      const { page, limit, type, isActive, includeExpired, search, sortBy, sortOrder } = input;
+      const { page, limit, type, isActive, batchId, includeExpired, search, sortBy, sortOrder } = input;
       const offset = (page - 1) * limit;
       
       const conditions = [];
       if (type) conditions.push(eq(coupons.type, type));
       if (isActive !== undefined) conditions.push(eq(coupons.isActive, isActive));
+      if (batchId) conditions.push(eq(coupons.batchId, batchId));
       if (!includeExpired) {
         conditions.push(
           sql`(${coupons.expiresAt} IS NULL OR ${coupons.expiresAt} > NOW())`
@@ -150,80 +242,59 @@ export const couponRouter = router({
       return { success: true };
     }),
 
-  // Validate coupon for use
+  // Check a code against a cart, as checkout would
   validate: adminProcedure
     .input(z.object({
       code: z.string(),
-      cartTotal: z.number().int(),
+      items: z.array(z.object({
+        productId: z.string().uuid(),
+        quantity: z.number().int().positive(),
+        unitPrice: z.number().int().min(0), // Gross, cents
+      })).min(1),
+      shippingTotal: z.number().int().min(0).optional(),
       customerId: z.string().uuid().optional(),
+      email: z.string().email().optional(),
     }))
-    .query(async ({ ctx, input }) => {
-      const coupon = await ctx.db.query.coupons.findFirst({
-        where: eq(coupons.code, input.code.toUpperCase()),
-      });
-      
-      if (!coupon) {
-        return { valid: false, reason: "Coupon not found" };
-      }
-      
-      if (!coupon.isActive) {
-        return { valid: false, reason: "Coupon is inactive" };
-      }
-      
-      const now = new Date();
-      if (coupon.startsAt && coupon.startsAt > now) {
-        return { valid: false, reason: "Coupon not yet active" };
-      }
-      
-      if (coupon.expiresAt && coupon.expiresAt < now) {
-        return { valid: false, reason: "Coupon has expired" };
-      }
-      
-      if (coupon.usageLimit && coupon.usageCount >= coupon.usageLimit) {
-        return { valid: false, reason: "Coupon usage limit reached" };
-      }
-      
-      if (coupon.minPurchase && input.cartTotal < coupon.minPurchase) {
-        return { 
-          valid: false, 
-          reason: `Minimum purchase of ${coupon.minPurchase} cents required` 
+    .query(async ({ input }) => {
+      try {
+        const result = await discountService.evaluate({
+          code: input.code,
+          items: input.items.map((item, index) => ({
+            key: String(index),
+            productId: item.productId,
+            total: item.unitPrice * item.quantity,
+          })),
+          shippingTotal: input.shippingTotal,
+          customerId: input.customerId,
+          email: input.email,
+        });
+        return {
+          valid: true,
+          discount: result.discountTotal,
+          type: result.type,
+          freeShipping: result.freeShipping,
+          shippingDiscount: result.shippingDiscount,
+          items: result.lineDiscounts.map((line) => ({
+            productId: input.items[Number(line.key)].productId,
+            discount: line.amount,
+          })),
         };
-      }
-      
-      // Calculate discount
-      let discount = 0;
-      if (coupon.type === "percentage") {
-        discount = Math.floor(input.cartTotal * coupon.value / 10000);
-        if (coupon.maxDiscount && discount > coupon.maxDiscount) {
-          discount = coupon.maxDiscount;
+      } catch (error) {
+        if (error instanceof CouponError) {
+          return { valid: false, reason: error.message };
         }
-      } else if (coupon.type === "fixed") {
-        discount = Math.min(coupon.value, input.cartTotal);
+        throw error;
       }
-      
-      return {
-        valid: true,
-        coupon,
-        discount,
-        type: coupon.type,
-      };
     }),
 
-  // Increment usage count (called after successful order)
-  incrementUsage: adminProcedure
+  // Redemptions by order; released ones were cancelled before payment
+  usage: adminProcedure
     .input(z.object({ id: z.string().uuid() }))
-    .mutation(async ({ ctx, input }) => {
-      const [coupon] = await ctx.db
-        .update(coupons)
-        .set({ 
-          usageCount: sql`${coupons.usageCount} + 1`,
-          updatedAt: new Date(),
-        })
-        .where(eq(coupons.id, input.id))
-        .returning();
-      
-      if (!coupon) throw new Error("Coupon not found");
-      ctx.logger.info({ couponId: input.id, usageCount: coupon.usageCount }, "Coupon usage incremented");
-      return coupon;
+    .query(async ({ input }) => {
+      const [stats, items] = await Promise.all([
+        discountService.getUsageStats(input.id),
+        discountService.listRedemptions(input.id),
+      ]);
+      return { ...stats, items };
     }),
 });
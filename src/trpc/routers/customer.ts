@@ -2,6 +2,7 @@ import { z } from "zod";
 import { eq, and, like, desc, asc, sql } from "drizzle-orm";
 import { router, adminProcedure } from "@/trpc/trpc";
 import { customers, customerAddresses, customerGroups, customerGroupMembers } from "@/db/schema";
+import { formatVatId, parseVatId, verifyVatId } from "@/tax";
 
 const addressSchema = z.object({
   type: z.enum(["billing", "shipping"]).default("shipping"),
@@ -27,7 +28,10 @@ const createCustomerInput = z.object({
   phone: z.string().max(50).optional(),
   status: z.enum(["active", "inactive", "banned"]).default("active"),
   taxExempt: z.boolean().default(false),
-  vatId: z.string().max(50).optional(),
+  vatId: z.string().max(50)
+    .refine((value) => parseVatId(value) !== null, "Invalid VAT ID format")
+    .transform((value) => formatVatId(parseVatId(value)!))
+    .optional(),
   locale: z.string().max(10).default("de-DE"),
   currency: z.string().length(3).default("EUR"),
   addresses: z.array(addressSchema).optional(),
@@ -165,6 +169,11 @@ export const customerRouter = router({
           updateData.passwordHash = password;
         }
         
+        // A changed VAT ID has to be verified again
+        if (customerData.vatId !== undefined) {
+          updateData.vatIdVerified = sql`${customers.vatIdVerified} and ${customers.vatId} is not distinct from ${customerData.vatId}`;
+        }
+        
         const [customer] = await tx
           .update(customers)
           .set(updateData)
@@ -198,6 +207,32 @@ export const customerRouter = router({
       return { success: true };
     }),
 
+  // Check the VAT ID with the verifier (VIES) and store the result
+  verifyVatId: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const customer = await ctx.db.query.customers.findFirst({
+        where: eq(customers.id, input.id),
+      });
+      
+      if (!customer) {
+        throw new Error("Customer not found");
+      }
+      if (!customer.vatId) {
+        throw new Error("Customer has no VAT ID");
+      }
+      
+      const result = await verifyVatId(customer.vatId);
+      await ctx.db
+        .update(customers)
+        .set({ vatIdVerified: result.valid, updatedAt: new Date() })
+        .where(eq(customers.id, input.id));
+      
+      ctx.logger.info({ customerId: input.id, valid: result.valid, source: result.source }, "Customer VAT ID verified");
+      
+      return result;
+    }),
+
   // Address management
   addAddress: adminProcedure
     .input(addressSchema.extend({ customerId: z.string().uuid() }))
@@ -1,7 +1,12 @@
 import { z } from "zod";
 import { eq, and, desc, asc, sql, gte, lte } from "drizzle-orm";
 import { router, adminProcedure } from "@/trpc/trpc";
-import { orders, orderItems, orderTaxLines, invoices } from "@/db/schema";
+import { orders, orderItems, orderTaxLines, orderStatusHistory, shipments, refunds, orderEdits, invoices } from "@/db/schema";
+import { orderService, orderEditService, refundService, shipmentService } from "@/orders";
+import { carrierService, buildTrackingUrl } from "@/carriers";
+import { creditNoteService } from "@/invoices";
+import { sequenceService } from "@/sequences";
+import { addInvoiceJob } from "@/jobs/queues";
 
 const addressSchema = z.object({
   company: z.string().optional(),
@@ -32,14 +37,33 @@ const listOrdersInput = z.object({
 
 const updateOrderStatusInput = z.object({
   id: z.string().uuid(),
-  status: z.string().optional(),
-  paymentStatus: z.string().optional(),
-  fulfillmentStatus: z.string().optional(),
-  trackingNumber: z.string().optional(),
-  trackingUrl: z.string().url().optional(),
+  status: z.enum(["pending", "paid", "processing", "shipped", "delivered", "cancelled"]).optional(),
+  paymentStatus: z.enum([
+    "pending", "authorized", "processing", "paid", "failed", "cancelled", "partially_refunded", "refunded",
+  ]).optional(),
+  reason: z.string().max(1000).optional(), // Recorded in the status history
+  notifyCustomer: z.boolean().default(true),
   internalNote: z.string().optional(),
 });
 
+// Quantities of top-level order items; everything still open if omitted
+const shipmentLinesInput = z.array(z.object({
+  orderItemId: z.string().uuid(),
+  quantity: z.number().int().positive(),
+})).min(1).optional();
+
+const orderEditInput = z.object({
+  orderId: z.string().uuid(),
+  changes: z.array(z.discriminatedUnion("type", [
+    z.object({ type: z.literal("add"), productId: z.string().uuid(), quantity: z.number().int().positive() }),
+    z.object({ type: z.literal("update"), orderItemId: z.string().uuid(), quantity: z.number().int().min(0) }),
+    z.object({ type: z.literal("remove"), orderItemId: z.string().uuid() }),
+  ])).default([]),
+  shippingAddress: addressSchema.optional(),
+  billingAddress: addressSchema.optional(),
+  shippingMethodId: z.string().uuid().optional(),
+});
+
 export const orderRouter = router({
   list: adminProcedure
     .input(listOrdersInput)
@@ -102,7 +126,21 @@ export const orderRouter = router({
           items: true,
           taxLines: true,
           invoices: true,
+          creditNotes: true,
           customer: true,
+          statusHistory: {
+            orderBy: [asc(orderStatusHistory.createdAt)],
+          },
+          shipments: {
+            with: { items: true },
+            orderBy: [asc(shipments.shippedAt)],
+          },
+          refunds: {
+            orderBy: [asc(refunds.createdAt)],
+          },
+          edits: {
+            orderBy: [asc(orderEdits.createdAt)],
+          },
         },
       });
       
@@ -116,40 +154,228 @@ export const orderRouter = router({
   updateStatus: adminProcedure
     .input(updateOrderStatusInput)
     .mutation(async ({ ctx, input }) => {
-      const { id, ...updateData } = input;
+      const { id, status, paymentStatus, reason, notifyCustomer, ...fields } = input;
       
-      const now = new Date();
-      const updates: Record<string, unknown> = { ...updateData, updatedAt: now };
+      // Illegal transitions are rejected; stock, emails and webhooks follow
+      // the transition. The fulfilment status follows the shipments.
+      const { order, transitions } = await orderService.transition(
+        id,
+        { status, paymentStatus },
+        {
+          actor: { type: "admin", id: ctx.user.id },
+          reason,
+          notifyCustomer,
+          fields: Object.keys(fields).length > 0 ? fields : undefined,
+        }
+      );
       
-      // Set timestamp based on status changes
-      if (updateData.paymentStatus === "paid") {
-        updates.paidAt = now;
-      }
-      if (updateData.fulfillmentStatus === "shipped") {
-        updates.shippedAt = now;
-      }
-      if (updateData.fulfillmentStatus === "delivered") {
-        updates.deliveredAt = now;
-      }
-      if (updateData.status === "cancelled") {
-        updates.cancelledAt = now;
-      }
+      ctx.logger.info({ orderId: id, transitions }, "Order status updated");
       
-      const [order] = await ctx.db
-        .update(orders)
-        .set(updates)
-        .where(eq(orders.id, id))
-        .returning();
+      return order;
+    }),
+
+  history: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ input }) => {
+      const items = await orderService.getHistory(input.id);
+      return { items };
+    }),
+
+  // Refund in full, by line or by amount; routed to the payment's provider
+  refund: adminProcedure
+    .input(z.object({
+      id: z.string().uuid(),
+      amount: z.number().int().positive().optional(), // Cents; defaults to the value of the items
+      items: shipmentLinesInput, // Everything still open unless given
+      includeShipping: z.boolean().default(false),
+      method: z.enum(["original", "gift_card"]).default("original"),
+      reason: z.string().max(500).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, items, ...request } = input;
+      const { refund, giftCardCode } = await refundService.refund(
+        id,
+        { ...request, lines: items },
+        { type: "admin", id: ctx.user.id }
+      );
       
-      if (!order) {
-        throw new Error("Order not found");
-      }
+      ctx.logger.info(
+        { orderId: id, refundId: refund.id, provider: refund.provider, amount: refund.amount },
+        "Order refunded"
+      );
+      
+      return { refund, giftCardCode };
+    }),
+
+  refunds: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ input }) => {
+      const items = await refundService.listForOrder(input.id);
+      return { items };
+    }),
+
+  // Buy a shipping label for some or all open items
+  ship: adminProcedure
+    .input(z.object({
+      id: z.string().uuid(),
+      items: shipmentLinesInput,
+      carrierCode: z.string().max(50).optional(), // Defaults to the shipping method's carrier
+      service: z.string().max(50).optional(),
+      parcels: z.array(z.object({
+        weight: z.number().int().positive(), // Grams
+        length: z.number().int().positive().optional(),
+        width: z.number().int().positive().optional(),
+        height: z.number().int().positive().optional(),
+      })).min(1).optional(),
+      notifyCustomer: z.boolean().default(true),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...options } = input;
+      const { order, shipment } = await carrierService.shipOrder(id, options, { type: "admin", id: ctx.user.id });
       
-      ctx.logger.info({ orderId: id, updates: updateData }, "Order status updated");
+      ctx.logger.info(
+        { orderId: id, shipmentId: shipment.id, carrierCode: shipment.carrierCode, trackingNumber: shipment.trackingNumber },
+        "Order shipped"
+      );
       
-      return order;
+      return {
+        order,
+        shipment,
+        labelUrl: await carrierService.getLabelUrl(shipment.id),
+      };
     }),
 
+  shipments: router({
+    list: adminProcedure
+      .input(z.object({ orderId: z.string().uuid() }))
+      .query(async ({ input }) => {
+        const items = await shipmentService.listForOrder(input.orderId);
+        return { items };
+      }),
+
+    // Record a shipment sent without a label from us
+    create: adminProcedure
+      .input(z.object({
+        orderId: z.string().uuid(),
+        items: shipmentLinesInput,
+        carrierCode: z.string().max(50).optional(),
+        trackingNumber: z.string().max(255).optional(),
+        trackingUrl: z.string().url().optional(),
+        notifyCustomer: z.boolean().default(true),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { orderId, carrierCode, trackingNumber, ...options } = input;
+        const result = await shipmentService.create(orderId, {
+          ...options,
+          carrierCode: carrierCode?.toLowerCase(),
+          trackingNumber,
+          trackingUrl: input.trackingUrl
+            ?? (carrierCode && trackingNumber ? buildTrackingUrl(carrierCode, trackingNumber) : undefined),
+        }, { type: "admin", id: ctx.user.id });
+        
+        ctx.logger.info({ orderId, shipmentId: result.shipment.id }, "Shipment created");
+        
+        return result;
+      }),
+
+    markDelivered: adminProcedure
+      .input(z.object({ id: z.string().uuid() }))
+      .mutation(async ({ ctx, input }) => {
+        const result = await shipmentService.markDelivered(input.id, { type: "admin", id: ctx.user.id });
+        ctx.logger.info({ shipmentId: input.id }, "Shipment delivered");
+        return result;
+      }),
+
+    cancel: adminProcedure
+      .input(z.object({ id: z.string().uuid() }))
+      .mutation(async ({ ctx, input }) => {
+        const result = await carrierService.cancelShipment(input.id, { type: "admin", id: ctx.user.id });
+        ctx.logger.info({ shipmentId: input.id }, "Shipment cancelled");
+        return result;
+      }),
+
+    label: adminProcedure
+      .input(z.object({ id: z.string().uuid() }))
+      .query(async ({ input }) => {
+        const url = await carrierService.getLabelUrl(input.id);
+        if (!url) {
+          throw new Error("Shipping label not found");
+        }
+        return { url };
+      }),
+
+    tracking: adminProcedure
+      .input(z.object({ id: z.string().uuid() }))
+      .query(async ({ input }) => {
+        const tracking = await carrierService.getTracking(input.id);
+        if (!tracking) {
+          throw new Error("Shipment has no tracking");
+        }
+        return tracking;
+      }),
+  }),
+
+  // Change lines, addresses or shipping of an order that has not shipped
+  edits: router({
+    preview: adminProcedure
+      .input(orderEditInput)
+      .query(async ({ input }) => {
+        const { orderId, ...request } = input;
+        return orderEditService.preview(orderId, request);
+      }),
+
+    apply: adminProcedure
+      .input(orderEditInput.extend({
+        refundMethod: z.enum(["original", "gift_card"]).default("original"), // If the total goes down
+        reason: z.string().max(500).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { orderId, ...request } = input;
+        const result = await orderEditService.apply(orderId, request, { type: "admin", id: ctx.user.id });
+        
+        ctx.logger.info(
+          {
+            orderId,
+            orderEditId: result.edit.id,
+            totalDifference: result.edit.totalDifference,
+            settlement: result.edit.settlement,
+            paymentStatus: result.edit.paymentStatus,
+          },
+          "Order edited"
+        );
+        
+        return result;
+      }),
+
+    list: adminProcedure
+      .input(z.object({ orderId: z.string().uuid() }))
+      .query(async ({ input }) => {
+        const items = await orderEditService.listForOrder(input.orderId);
+        return { items };
+      }),
+
+    // New payment link for the difference, e.g. after the last one expired
+    requestPayment: adminProcedure
+      .input(z.object({ id: z.string().uuid() }))
+      .mutation(async ({ ctx, input }) => {
+        const edit = await orderEditService.requestPayment(input.id);
+        ctx.logger.info({ orderEditId: edit.id, chargeReference: edit.chargeReference }, "Order edit payment requested");
+        return edit;
+      }),
+
+    // Retry a refund of the difference that failed
+    refund: adminProcedure
+      .input(z.object({
+        id: z.string().uuid(),
+        method: z.enum(["original", "gift_card"]).default("original"),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const edit = await orderEditService.refundDifference(input.id, { type: "admin", id: ctx.user.id }, input.method);
+        ctx.logger.info({ orderEditId: edit.id, paymentStatus: edit.paymentStatus }, "Order edit refunded");
+        return edit;
+      }),
+  }),
+
   // Generate invoice
   createInvoice: adminProcedure
     .input(z.object({ orderId: z.string().uuid() }))
@@ -166,36 +392,59 @@ export const orderRouter = router({
         throw new Error("Order not found");
       }
       
-      // Generate sequential invoice number
-      const lastInvoice = await ctx.db.query.invoices.findFirst({
-        orderBy: desc(invoices.createdAt),
-        columns: { invoiceNumber: true },
+      // Gapless: the number is taken together with the invoice
+      const invoice = await ctx.db.transaction(async (tx) => {
+        const [invoice] = await tx.insert(invoices).values({
+          orderId: input.orderId,
+          invoiceNumber: await sequenceService.next("invoice", tx),
+          data: order,
+          status: "final",
+        }).returning();
+        return invoice;
       });
       
-      const year = new Date().getFullYear();
-      let nextNumber = 1;
-      
-      if (lastInvoice?.invoiceNumber) {
-        const match = lastInvoice.invoiceNumber.match(/RE-(\d{4})-(\d+)/);
-        if (match && match[1] === String(year)) {
-          nextNumber = parseInt(match[2], 10) + 1;
-        }
-      }
+      ctx.logger.info({ invoiceId: invoice.id, invoiceNumber: invoice.invoiceNumber }, "Invoice created");
       
-      const invoiceNumber = `RE-${year}-${String(nextNumber).padStart(6, "0")}`;
+      // The PDF is rendered in the background; downloads render it on demand
+      addInvoiceJob({ orderId: input.orderId, invoiceId: invoice.id }).catch((error) => {
+        ctx.logger.error({ error, invoiceId: invoice.id }, "Failed to queue invoice PDF");
+      });
       
-      const [invoice] = await ctx.db.insert(invoices).values({
-        orderId: input.orderId,
-        invoiceNumber,
-        data: order,
-        status: "final",
-      }).returning();
+      return invoice;
+    }),
+
+  // Cancel a final invoice with a credit note (Storno)
+  cancelInvoice: adminProcedure
+    .input(z.object({
+      invoiceId: z.string().uuid(),
+      reason: z.string().max(500).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { invoice, creditNote } = await creditNoteService.cancelInvoice(input.invoiceId, { reason: input.reason });
       
-      ctx.logger.info({ invoiceId: invoice.id, invoiceNumber }, "Invoice created");
+      ctx.logger.info(
+        { invoiceId: invoice.id, creditNoteId: creditNote.id, creditNoteNumber: creditNote.creditNoteNumber },
+        "Invoice cancelled"
+      );
       
-      return invoice;
+      return { invoice, creditNote };
     }),
 
+  creditNotes: router({
+    list: adminProcedure
+      .input(z.object({ orderId: z.string().uuid() }))
+      .query(async ({ input }) => {
+        const items = await creditNoteService.listForOrder(input.orderId);
+        return { items };
+      }),
+
+    pdf: adminProcedure
+      .input(z.object({ id: z.string().uuid() }))
+      .query(async ({ input }) => {
+        return { url: await creditNoteService.getPdfUrl(input.id) };
+      }),
+  }),
+
   // Get order statistics
   stats: adminProcedure
     .input(z.object({
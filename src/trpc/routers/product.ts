@@ -1,7 +1,10 @@
 import { z } from "zod";
-import { eq, and, like, desc, asc, sql } from "drizzle-orm";
+import { eq, and, like, desc, asc, sql, isNull } from "drizzle-orm";
 import { router, adminProcedure } from "@/trpc/trpc";
 import { products, productTranslations, categories, productCategories } from "@/db/schema";
+import { inventoryService } from "@/inventory";
+import { variantService } from "@/variants";
+import { bundleService } from "@/bundles";
 
 // Input schemas
 const createProductInput = z.object({
@@ -66,6 +69,13 @@ const listProductsInput = z.object({
   search: z.string().optional(),
   sortBy: z.enum(["createdAt", "updatedAt", "sku", "priceGross"]).default("createdAt"),
   sortOrder: z.enum(["asc", "desc"]).default("desc"),
+  includeVariants: z.boolean().default(false),
+});
+
+const imageInput = z.object({
+  url: z.string().url(),
+  alt: z.string().max(255).optional(),
+  storageKey: z.string().max(500).optional(),
 });
 
 export const productRouter = router({
@@ -73,10 +83,13 @@ export const productRouter = router({
   list: adminProcedure
     .input(listProductsInput)
     .query(async ({ ctx, input }) => {
-      const { page, limit, status, search, sortBy, sortOrder } = input;
+      const { page, limit, status, search, sortBy, sortOrder, includeVariants } = input;
       const offset = (page - 1) * limit;
       
       const conditions = [];
+      if (!includeVariants) {
+        conditions.push(isNull(products.parentId));
+      }
       if (status) {
         conditions.push(eq(products.status, status));
       }
@@ -128,6 +141,7 @@ export const productRouter = router({
         with: {
           translations: true,
           categories: true,
+          images: true,
           deliveryTime: {
             with: {
               // translations would be added
@@ -140,7 +154,15 @@ export const productRouter = router({
         throw new Error("Product not found");
       }
       
-      return product;
+      if (product.type !== "variant" || product.parentId) {
+        return { ...product, options: [], variants: [] };
+      }
+      
+      const [options, variants] = await Promise.all([
+        variantService.getOptions(product.id),
+        variantService.listVariants(product.id),
+      ]);
+      return { ...product, options, variants };
     }),
 
   // Create product
@@ -153,6 +175,16 @@ export const productRouter = router({
         // Insert product
         const [product] = await tx.insert(products).values(productData).returning();
         
+        // Open the stock ledger for the product
+        await inventoryService.initializeInventory({
+          productId: product.id,
+          sku: product.sku,
+          quantity: product.stockQuantity,
+          lowStockThreshold: product.lowStockThreshold ?? undefined,
+          trackInventory: product.trackInventory,
+          allowBackorder: product.allowBackorder,
+        }, tx);
+        
         // Insert translations
         if (translations.length > 0) {
           await tx.insert(productTranslations).values(
@@ -184,11 +216,11 @@ export const productRouter = router({
   update: adminProcedure
     .input(updateProductInput)
     .mutation(async ({ ctx, input }) => {
-      const { id, translations, categoryIds, ...productData } = input;
+      const { id, translations, categoryIds, stockQuantity, ...productData } = input;
       
       return await ctx.db.transaction(async (tx) => {
         // Update product
-        const [product] = await tx
+        let [product] = await tx
           .update(products)
           .set({ ...productData, updatedAt: new Date() })
           .where(eq(products.id, id))
@@ -198,6 +230,27 @@ export const productRouter = router({
           throw new Error("Product not found");
         }
         
+        // Keep the inventory rows in line with the product settings
+        const { trackInventory, allowBackorder, lowStockThreshold } = productData;
+        if (trackInventory !== undefined || allowBackorder !== undefined || lowStockThreshold !== undefined) {
+          await inventoryService.updateSettings(id, { trackInventory, allowBackorder, lowStockThreshold }, tx);
+        }
+        
+        // Stock changes go through the ledger, which syncs stockQuantity
+        if (stockQuantity !== undefined && stockQuantity !== product.stockQuantity) {
+          await inventoryService.setStock({
+            productId: id,
+            quantity: stockQuantity,
+            reason: "Product update",
+          }, tx);
+          product = (await tx.query.products.findFirst({ where: eq(products.id, id) }))!;
+        }
+        
+        // Bundles priced from their components follow price changes
+        if (productData.priceNet !== undefined || productData.priceGross !== undefined) {
+          await bundleService.refreshPricesForComponent(id, tx);
+        }
+        
         // Update translations if provided
         if (translations) {
           await tx.delete(productTranslations).where(eq(productTranslations.productId, id));
@@ -259,33 +312,120 @@ export const productRouter = router({
     .mutation(async ({ ctx, input }) => {
       const { id, quantity, operation } = input;
       
-      let newQuantity: number;
+      const product = await ctx.db.query.products.findFirst({
+        where: eq(products.id, id),
+        columns: { id: true },
+      });
       
-      if (operation === "set") {
-        newQuantity = quantity;
-      } else {
-        const product = await ctx.db.query.products.findFirst({
-          where: eq(products.id, id),
-          columns: { stockQuantity: true },
-        });
-        
-        if (!product) {
-          throw new Error("Product not found");
-        }
-        
-        newQuantity = operation === "add" 
-          ? product.stockQuantity + quantity 
-          : product.stockQuantity - quantity;
+      if (!product) {
+        throw new Error("Product not found");
       }
       
-      const [updated] = await ctx.db
-        .update(products)
-        .set({ stockQuantity: Math.max(0, newQuantity), updatedAt: new Date() })
-        .where(eq(products.id, id))
-        .returning();
-      
-      ctx.logger.info({ productId: id, newQuantity }, "Stock updated");
-      
-      return updated;
+      return await ctx.db.transaction(async (tx) => {
+        const item = operation === "set"
+          ? await inventoryService.setStock({ productId: id, quantity: Math.max(0, quantity), reason: "Manual stock update" }, tx)
+          : await inventoryService.adjustStock({
+              productId: id,
+              quantity: operation === "add" ? quantity : -quantity,
+              reason: "Manual stock update",
+            }, tx);
+        
+        ctx.logger.info({ productId: id, newQuantity: item.quantity }, "Stock updated");
+        
+        const [updated] = await tx.select().from(products).where(eq(products.id, id));
+        return updated;
+      });
+    }),
+
+  // Define the option axes (e.g., Größe, Farbe) of a product
+  setOptions: adminProcedure
+    .input(z.object({
+      productId: z.string().uuid(),
+      options: z.array(z.object({
+        name: z.string().min(1).max(100),
+        values: z.array(z.string().min(1).max(100)).min(1),
+      })),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const options = await variantService.setOptions(input.productId, input.options);
+      ctx.logger.info({ productId: input.productId, options: options.length }, "Product options updated");
+      return { items: options };
+    }),
+
+  // Create the missing variants of the option matrix
+  generateVariants: adminProcedure
+    .input(z.object({ productId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const variants = await variantService.generateVariants(input.productId);
+      ctx.logger.info({ productId: input.productId, variants: variants.length }, "Product variants generated");
+      return { items: variants };
+    }),
+
+  // List variants of a product
+  variants: adminProcedure
+    .input(z.object({ productId: z.string().uuid() }))
+    .query(async ({ input }) => {
+      const items = await variantService.listVariants(input.productId);
+      return { items };
+    }),
+
+  // Update SKU, price, status or stock of a variant
+  updateVariant: adminProcedure
+    .input(z.object({
+      id: z.string().uuid(),
+      sku: z.string().min(1).max(100).optional(),
+      status: z.enum(["draft", "active", "archived"]).optional(),
+      priceNet: z.number().int().min(0).optional(),
+      priceGross: z.number().int().min(0).optional(),
+      compareAtPrice: z.number().int().min(0).nullable().optional(),
+      costPrice: z.number().int().min(0).nullable().optional(),
+      weight: z.number().int().nullable().optional(),
+      stockQuantity: z.number().int().min(0).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...data } = input;
+      const variant = await variantService.updateVariant(id, data);
+      ctx.logger.info({ variantId: id }, "Variant updated");
+      return variant;
+    }),
+
+  // Get components and pricing of a bundle
+  bundle: adminProcedure
+    .input(z.object({ productId: z.string().uuid() }))
+    .query(async ({ input }) => {
+      const bundle = await bundleService.getBundle(input.productId);
+      if (!bundle) throw new Error("Bundle not found");
+      return bundle;
+    }),
+
+  // Define components and pricing of a bundle
+  setBundle: adminProcedure
+    .input(z.object({
+      productId: z.string().uuid(),
+      pricing: z.enum(["fixed", "components"]),
+      discountType: z.enum(["percentage", "fixed"]).optional(),
+      discountValue: z.number().int().min(0).optional(), // Basis points or cents
+      components: z.array(z.object({
+        productId: z.string().uuid(),
+        quantity: z.number().int().positive(),
+      })).min(1),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { productId, ...data } = input;
+      const bundle = await bundleService.setBundle(productId, data);
+      ctx.logger.info({ productId, components: bundle.components.length }, "Bundle updated");
+      return bundle;
+    }),
+
+  // Replace the images of a product or variant
+  setImages: adminProcedure
+    .input(z.object({
+      productId: z.string().uuid(),
+      images: z.array(imageInput),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const images = await variantService.setImages(input.productId, input.images);
+      ctx.logger.info({ productId: input.productId, images: images.length }, "Product images updated");
+      return { items: images };
     }),
 });
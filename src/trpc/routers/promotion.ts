@@ -0,0 +1,187 @@
+import { z } from "zod";
+import { eq, and, ne, desc, sql } from "drizzle-orm";
+import { router, adminProcedure } from "@/trpc/trpc";
+import { orders, promotions } from "@/db/schema";
+import { discountService, describePromotions } from "@/discounts";
+
+const promotionType = z.enum(["buy_x_get_y", "tiered_spend", "free_gift", "bundle_price"]);
+
+// Settings per type (see src/discounts/automatic.ts)
+const ruleSchemas = {
+  buy_x_get_y: z.object({
+    buyQuantity: z.number().int().min(1),
+    getQuantity: z.number().int().min(1),
+    discountPercent: z.number().int().min(1).max(10000).optional(), // basis points, default free
+  }),
+  tiered_spend: z.object({
+    tiers: z.array(z.object({
+      minSubtotal: z.number().int().min(0),
+      type: z.enum(["percentage", "fixed"]),
+      value: z.number().int().min(1), // basis points or cents
+    })).min(1),
+  }),
+  free_gift: z.object({
+    minSubtotal: z.number().int().min(0),
+    productId: z.string().uuid(),
+    quantity: z.number().int().min(1).optional(),
+  }),
+  bundle_price: z.object({
+    items: z.array(z.object({
+      productId: z.string().uuid(),
+      quantity: z.number().int().min(1).optional(),
+    })).min(1),
+    price: z.number().int().min(0), // cents for the whole set, incl. tax
+  }),
+};
+
+function parseRule(type: z.infer<typeof promotionType>, rule: unknown) {
+  const result = ruleSchemas[type].safeParse(rule);
+  if (!result.success) {
+    throw new Error(`Invalid rule for ${type}: ${result.error.issues[0]?.message}`);
+  }
+  return result.data;
+}
+
+const createPromotionInput = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().max(1000).optional(),
+  type: promotionType,
+  rule: z.record(z.unknown()),
+  priority: z.number().int().default(0),
+  stackable: z.boolean().default(true),
+  combinesWithCoupons: z.boolean().default(true),
+  startsAt: z.string().datetime().optional(),
+  expiresAt: z.string().datetime().optional(),
+  productIds: z.array(z.string().uuid()).optional(),
+  categoryIds: z.array(z.string().uuid()).optional(),
+  excludeProductIds: z.array(z.string().uuid()).optional(),
+  excludeCategoryIds: z.array(z.string().uuid()).optional(),
+  isActive: z.boolean().default(true),
+});
+
+const updatePromotionInput = createPromotionInput.partial().extend({
+  id: z.string().uuid(),
+});
+
+export const promotionRouter = router({
+  list: adminProcedure
+    .input(z.object({
+      type: promotionType.optional(),
+      isActive: z.boolean().optional(),
+    }))
+    .query(async ({ ctx, input }) => {
+      const conditions = [];
+      if (input.type) conditions.push(eq(promotions.type, input.type));
+      if (input.isActive !== undefined) conditions.push(eq(promotions.isActive, input.isActive));
+
+      const items = await ctx.db.query.promotions.findMany({
+        where: conditions.length > 0 ? and(...conditions) : undefined,
+        orderBy: [desc(promotions.priority), desc(promotions.createdAt)],
+      });
+      return { items };
+    }),
+
+  get: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const promotion = await ctx.db.query.promotions.findFirst({
+        where: eq(promotions.id, input.id),
+      });
+      if (!promotion) throw new Error("Promotion not found");
+      return promotion;
+    }),
+
+  create: adminProcedure
+    .input(createPromotionInput)
+    .mutation(async ({ ctx, input }) => {
+      const { startsAt, expiresAt, rule, ...data } = input;
+
+      const [promotion] = await ctx.db.insert(promotions).values({
+        ...data,
+        rule: parseRule(input.type, rule),
+        startsAt: startsAt ? new Date(startsAt) : null,
+        expiresAt: expiresAt ? new Date(expiresAt) : null,
+      }).returning();
+
+      ctx.logger.info({ promotionId: promotion.id, type: promotion.type }, "Promotion created");
+      return promotion;
+    }),
+
+  update: adminProcedure
+    .input(updatePromotionInput)
+    .mutation(async ({ ctx, input }) => {
+      const { id, startsAt, expiresAt, rule, ...data } = input;
+
+      const existing = await ctx.db.query.promotions.findFirst({
+        where: eq(promotions.id, id),
+      });
+      if (!existing) throw new Error("Promotion not found");
+
+      const updateData: Record<string, unknown> = { ...data, updatedAt: new Date() };
+      if (rule !== undefined || data.type !== undefined) {
+        const type = data.type ?? (existing.type as z.infer<typeof promotionType>);
+        updateData.rule = parseRule(type, rule ?? existing.rule);
+      }
+      if (startsAt !== undefined) updateData.startsAt = startsAt ? new Date(startsAt) : null;
+      if (expiresAt !== undefined) updateData.expiresAt = expiresAt ? new Date(expiresAt) : null;
+
+      const [promotion] = await ctx.db
+        .update(promotions)
+        .set(updateData)
+        .where(eq(promotions.id, id))
+        .returning();
+
+      ctx.logger.info({ promotionId: id }, "Promotion updated");
+      return promotion;
+    }),
+
+  delete: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const [deleted] = await ctx.db
+        .delete(promotions)
+        .where(eq(promotions.id, input.id))
+        .returning();
+      if (!deleted) throw new Error("Promotion not found");
+      ctx.logger.info({ promotionId: input.id }, "Promotion deleted");
+      return { success: true };
+    }),
+
+  // Promotions a cart would get right now
+  preview: adminProcedure
+    .input(z.object({
+      items: z.array(z.object({
+        productId: z.string().uuid(),
+        quantity: z.number().int().positive(),
+        unitPrice: z.number().int().min(0), // Gross, cents
+      })).min(1),
+    }))
+    .query(async ({ input }) => {
+      const { automatic } = await discountService.priceCart({
+        items: input.items.map((item, index) => ({
+          key: String(index),
+          productId: item.productId,
+          quantity: item.quantity,
+          total: item.unitPrice * item.quantity,
+        })),
+      });
+      return {
+        discountTotal: automatic.discountTotal,
+        promotions: describePromotions(automatic),
+      };
+    }),
+
+  // Orders placed with the promotion applied
+  usage: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const [stats] = await ctx.db
+        .select({ orders: sql<number>`count(*)` })
+        .from(orders)
+        .where(and(
+          ne(orders.status, "cancelled"),
+          sql`${orders.metadata}->'promotions' @> ${JSON.stringify([{ id: input.id }])}::jsonb`
+        ));
+      return { orders: Number(stats?.orders ?? 0) };
+    }),
+});
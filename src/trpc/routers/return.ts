@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { router, adminProcedure } from "@/trpc/trpc";
+import { returnService } from "@/returns";
+
+const returnReason = z.enum(["withdrawal", "defective", "damaged_in_transit", "wrong_item", "not_as_described", "other"]);
+
+export const returnRouter = router({
+  list: adminProcedure
+    .input(z.object({
+      status: z.enum(["requested", "approved", "rejected", "received", "cancelled"]).optional(),
+      orderId: z.string().uuid().optional(),
+    }))
+    .query(async ({ input }) => {
+      const items = await returnService.list(input);
+      return { items };
+    }),
+
+  get: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ input }) => {
+      const ret = await returnService.getById(input.id);
+      if (!ret) {
+        throw new Error("Return not found");
+      }
+      return ret;
+    }),
+
+  // Create a return for a customer, e.g. a warranty case after the withdrawal period
+  create: adminProcedure
+    .input(z.object({
+      orderId: z.string().uuid(),
+      items: z.array(z.object({
+        orderItemId: z.string().uuid(),
+        quantity: z.number().int().positive(),
+        reason: returnReason.optional(),
+      })).min(1),
+      reason: returnReason,
+      customerNote: z.string().max(2000).optional(),
+      refundMethod: z.enum(["original", "gift_card"]).optional(),
+      enforceDeadline: z.boolean().default(false),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { orderId, enforceDeadline, ...data } = input;
+      const ret = await returnService.request(orderId, data, { enforceDeadline });
+      ctx.logger.info({ returnId: ret.id, orderId }, "Return created");
+      return ret;
+    }),
+
+  // Approve and refund; the amount defaults to the value of the returned items
+  approve: adminProcedure
+    .input(z.object({
+      id: z.string().uuid(),
+      refundMethod: z.enum(["original", "gift_card"]).optional(),
+      amount: z.number().int().positive().optional(),
+      note: z.string().max(2000).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...data } = input;
+      const ret = await returnService.approve(id, data, { type: "admin", id: ctx.user.id });
+      ctx.logger.info({ returnId: id, refundAmount: ret.refundAmount, refundMethod: ret.refundMethod }, "Return approved");
+      return ret;
+    }),
+
+  reject: adminProcedure
+    .input(z.object({
+      id: z.string().uuid(),
+      note: z.string().max(2000).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const ret = await returnService.reject(input.id, { note: input.note });
+      ctx.logger.info({ returnId: input.id }, "Return rejected");
+      return ret;
+    }),
+
+  // Book in the goods after inspection
+  receive: adminProcedure
+    .input(z.object({
+      id: z.string().uuid(),
+      items: z.array(z.object({
+        orderItemId: z.string().uuid(),
+        condition: z.enum(["restock", "damaged"]),
+      })).min(1),
+      note: z.string().max(2000).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...data } = input;
+      const ret = await returnService.receive(id, data, { type: "admin", id: ctx.user.id });
+      ctx.logger.info({ returnId: id }, "Return received");
+      return ret;
+    }),
+});
@@ -0,0 +1,30 @@
+import { z } from "zod";
+import { router, adminProcedure } from "@/trpc/trpc";
+import { sequenceService } from "@/sequences";
+
+const sequenceKey = z.enum(["order", "invoice", "credit_note"]);
+
+export const sequenceRouter = router({
+  list: adminProcedure.query(async () => {
+    const items = await sequenceService.list();
+    return { items };
+  }),
+
+  // Issued numbers stay as they are; changes apply from the next number
+  update: adminProcedure
+    .input(z.object({
+      key: sequenceKey,
+      prefix: z.string().min(1).max(20).optional(),
+      format: z.string().min(1).max(100).optional(),
+      resetYearly: z.boolean().optional(),
+      currentValue: z.number().int().min(0).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { key, ...config } = input;
+      const sequence = await sequenceService.configure(key, config);
+      
+      ctx.logger.info({ key, ...config }, "Number sequence updated");
+      
+      return sequence;
+    }),
+});
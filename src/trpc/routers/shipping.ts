@@ -1,7 +1,8 @@
 import { z } from "zod";
-import { eq, asc } from "drizzle-orm";
+import { eq, and, asc } from "drizzle-orm";
 import { router, adminProcedure } from "@/trpc/trpc";
-import { shippingZones, shippingMethods, shippingClasses } from "@/db/schema";
+import { shippingZones, shippingMethods, shippingClasses, shippingMethodClasses } from "@/db/schema";
+import { shippingService } from "@/shipping";
 
 // Shipping Zones
 const createZoneInput = z.object({
@@ -26,6 +27,10 @@ const createMethodInput = z.object({
   price: z.number().int().default(0),
   freeAbove: z.number().int().optional(),
   pricePerKg: z.number().int().optional(),
+  rateTable: z.array(z.object({
+    upTo: z.number().int().nonnegative().nullable(), // Grams or cents, by type
+    price: z.number().int().nonnegative(),
+  })).optional(),
   deliveryTimeId: z.string().uuid().optional(),
   carrierCode: z.string().max(50).optional(),
   carrierConfig: z.record(z.unknown()).optional(),
@@ -48,6 +53,15 @@ const updateClassInput = createClassInput.partial().extend({
   id: z.string().uuid(),
 });
 
+// Class surcharges/restrictions per method
+const classRuleInput = z.object({
+  methodId: z.string().uuid(),
+  classId: z.string().uuid(),
+  surcharge: z.number().int().nonnegative().default(0),
+  perItem: z.boolean().default(false),
+  excluded: z.boolean().default(false),
+});
+
 export const shippingRouter = router({
   // === ZONES ===
   zones: router({
@@ -127,6 +141,9 @@ export const shippingRouter = router({
       .query(async ({ ctx, input }) => {
         const method = await ctx.db.query.shippingMethods.findFirst({
           where: eq(shippingMethods.id, input.id),
+          with: {
+            classRules: true,
+          },
         });
         if (!method) throw new Error("Shipping method not found");
         return method;
@@ -166,6 +183,20 @@ export const shippingRouter = router({
         return { success: true };
       }),
 
+    // Preview which methods a cart to a country gets, and at what price
+    quote: adminProcedure
+      .input(z.object({
+        country: z.string().length(2),
+        subtotal: z.number().int().nonnegative().default(0),
+        items: z.array(z.object({
+          productId: z.string().uuid(),
+          quantity: z.number().int().positive(),
+        })).default([]),
+      }))
+      .query(async ({ input }) => {
+        return shippingService.getQuote(input);
+      }),
+
     reorder: adminProcedure
       .input(z.object({
         items: z.array(z.object({
@@ -239,4 +270,54 @@ export const shippingRouter = router({
         return { success: true };
       }),
   }),
+
+  // === CLASS RULES (class x method matrix) ===
+  classRules: router({
+    matrix: adminProcedure.query(async ({ ctx }) => {
+      const [classes, methods, rules] = await Promise.all([
+        ctx.db.query.shippingClasses.findMany({
+          orderBy: [asc(shippingClasses.name)],
+        }),
+        ctx.db.query.shippingMethods.findMany({
+          with: {
+            zone: true,
+          },
+          orderBy: [asc(shippingMethods.position)],
+        }),
+        ctx.db.query.shippingMethodClasses.findMany(),
+      ]);
+      return { classes, methods, items: rules };
+    }),
+
+    set: adminProcedure
+      .input(classRuleInput)
+      .mutation(async ({ ctx, input }) => {
+        const { methodId, classId, ...data } = input;
+        const [rule] = await ctx.db
+          .insert(shippingMethodClasses)
+          .values(input)
+          .onConflictDoUpdate({
+            target: [shippingMethodClasses.methodId, shippingMethodClasses.classId],
+            set: { ...data, updatedAt: new Date() },
+          })
+          .returning();
+        ctx.logger.info({ methodId, classId }, "Shipping class rule updated");
+        return rule;
+      }),
+
+    delete: adminProcedure
+      .input(z.object({ methodId: z.string().uuid(), classId: z.string().uuid() }))
+      .mutation(async ({ ctx, input }) => {
+        const [deleted] = await ctx.db
+          .delete(shippingMethodClasses)
+          .where(and(
+            eq(shippingMethodClasses.methodId, input.methodId),
+            eq(shippingMethodClasses.classId, input.classId)
+          ))
+          .returning();
+        if (!deleted) throw new Error("Shipping class rule not found");
+        ctx.logger.info(input, "Shipping class rule deleted");
+        return { success: true };
+      }),
+  }),
 });
@@ -1,7 +1,8 @@
 import { z } from "zod";
-import { eq, and, asc } from "drizzle-orm";
+import { eq, asc } from "drizzle-orm";
 import { router, adminProcedure } from "@/trpc/trpc";
 import { taxClasses, taxRates } from "@/db/schema";
+import { taxService } from "@/tax";
 
 // Tax Classes
 const createTaxClassInput = z.object({
@@ -181,62 +182,18 @@ export const taxRouter = router({
       postalCode: z.string().optional(),
       amount: z.number().int(), // net amount in cents
     }))
-    .query(async ({ ctx, input }) => {
-      // Find applicable tax rates (most specific first)
-      const rates = await ctx.db.query.taxRates.findMany({
-        where: and(
-          eq(taxRates.taxClassId, input.taxClassId),
-          eq(taxRates.country, input.country)
-        ),
-        orderBy: [asc(taxRates.priority)],
-      });
-      
-      // Filter by specificity
-      let applicableRates = rates;
-      
-      if (input.state) {
-        const stateRates = rates.filter((r) => r.state === input.state);
-        if (stateRates.length > 0) applicableRates = stateRates;
-      }
-      
-      if (input.postalCode) {
-        const postalRates = applicableRates.filter((r) => r.postalCode === input.postalCode);
-        if (postalRates.length > 0) applicableRates = postalRates;
-      }
-      
-      if (applicableRates.length === 0) {
-        return {
-          rates: [],
-          totalRate: 0,
-          taxAmount: 0,
-          grossAmount: input.amount,
-        };
-      }
-      
-      // Calculate tax (handle compound rates)
-      let totalTax = 0;
-      let baseAmount = input.amount;
-      const appliedRates: Array<{ name: string; rate: number; amount: number }> = [];
-      
-      for (const rate of applicableRates) {
-        const taxAmount = Math.floor(baseAmount * rate.rate / 10000);
-        appliedRates.push({
-          name: rate.name,
-          rate: rate.rate,
-          amount: taxAmount,
-        });
-        totalTax += taxAmount;
-        
-        if (rate.compound) {
-          baseAmount += taxAmount;
-        }
-      }
+    .query(async ({ input }) => {
+      const result = await taxService.calculateAmount(
+        input.taxClassId,
+        { country: input.country, state: input.state, postalCode: input.postalCode },
+        input.amount
+      );
       
       return {
-        rates: appliedRates,
-        totalRate: appliedRates.reduce((sum, r) => sum + r.rate, 0),
-        taxAmount: totalTax,
-        grossAmount: input.amount + totalTax,
+        rates: result.rates,
+        totalRate: result.rates.reduce((sum, r) => sum + r.rate, 0),
+        taxAmount: result.taxAmount,
+        grossAmount: result.grossAmount,
       };
     }),
 });
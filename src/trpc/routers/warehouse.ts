@@ -0,0 +1,115 @@
+import { z } from "zod";
+import { router, adminProcedure } from "@/trpc/trpc";
+import { inventoryService, warehouseService } from "@/inventory";
+
+const addressSchema = z.object({
+  street: z.string(),
+  city: z.string(),
+  postalCode: z.string(),
+  country: z.string().length(2), // ISO country code
+});
+
+const createWarehouseInput = z.object({
+  name: z.string().min(1).max(255),
+  code: z.string().min(1).max(50),
+  address: addressSchema.optional(),
+  priority: z.number().int().default(0), // Lower value is preferred
+  isDefault: z.boolean().default(false),
+  isActive: z.boolean().default(true),
+});
+
+const updateWarehouseInput = createWarehouseInput.partial().extend({
+  id: z.string().uuid(),
+});
+
+export const warehouseRouter = router({
+  list: adminProcedure
+    .input(z.object({ activeOnly: z.boolean().default(false) }).optional())
+    .query(async ({ input }) => {
+      const items = await warehouseService.list({ activeOnly: input?.activeOnly });
+      return { items };
+    }),
+
+  get: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ input }) => {
+      const warehouse = await warehouseService.getById(input.id);
+      if (!warehouse) throw new Error("Warehouse not found");
+      return warehouse;
+    }),
+
+  create: adminProcedure
+    .input(createWarehouseInput)
+    .mutation(async ({ ctx, input }) => {
+      const warehouse = await warehouseService.create(input);
+      ctx.logger.info({ warehouseId: warehouse.id }, "Warehouse created");
+      return warehouse;
+    }),
+
+  update: adminProcedure
+    .input(updateWarehouseInput)
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...data } = input;
+      const warehouse = await warehouseService.update(id, data);
+      ctx.logger.info({ warehouseId: id }, "Warehouse updated");
+      return warehouse;
+    }),
+
+  delete: adminProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await warehouseService.delete(input.id);
+      ctx.logger.info({ warehouseId: input.id }, "Warehouse deleted");
+      return { success: true };
+    }),
+
+  // Stock of a product across all warehouses
+  stockLevels: adminProcedure
+    .input(z.object({
+      productId: z.string().uuid(),
+      variantId: z.string().uuid().optional(),
+    }))
+    .query(async ({ input }) => {
+      const items = await inventoryService.getStockLevels(input.productId, input.variantId);
+      return { items };
+    }),
+
+  // Set the on-hand quantity of a product in one warehouse
+  setStock: adminProcedure
+    .input(z.object({
+      productId: z.string().uuid(),
+      variantId: z.string().uuid().optional(),
+      warehouseId: z.string().uuid(),
+      quantity: z.number().int().min(0),
+      reason: z.string().default("Stock take"),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const item = await inventoryService.setStock(input);
+      ctx.logger.info({ productId: input.productId, warehouseId: input.warehouseId, quantity: item.quantity }, "Warehouse stock updated");
+      return item;
+    }),
+
+  transfer: adminProcedure
+    .input(z.object({
+      productId: z.string().uuid(),
+      variantId: z.string().uuid().optional(),
+      fromWarehouseId: z.string().uuid(),
+      toWarehouseId: z.string().uuid(),
+      quantity: z.number().int().positive(),
+      reason: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await inventoryService.transferStock(input);
+      ctx.logger.info(input, "Stock transferred");
+      return { success: true };
+    }),
+
+  pickingList: adminProcedure
+    .input(z.object({
+      warehouseId: z.string().uuid(),
+      includeUnpaid: z.boolean().default(false),
+    }))
+    .query(async ({ input }) => {
+      return warehouseService.getPickingList(input.warehouseId, { includeUnpaid: input.includeUnpaid });
+    }),
+});
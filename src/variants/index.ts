@@ -0,0 +1,6 @@
+// Variants Module
+// src/variants/index.ts
+
+export * from "./types.js";
+export * from "./utils.js";
+export { variantService } from "./variant-service.js";
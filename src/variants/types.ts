@@ -0,0 +1,81 @@
+// Variant Types
+// src/variants/types.ts
+
+export interface OptionInput {
+  name: string;      // e.g. "Größe"
+  values: string[];  // e.g. ["S", "M", "L"]
+}
+
+export interface ProductOption {
+  id: string;
+  name: string;
+  position: number;
+  values: ProductOptionValue[];
+}
+
+export interface ProductOptionValue {
+  id: string;
+  value: string;
+  position: number;
+}
+
+// One option value picked for a variant, e.g. Größe = M
+export interface SelectedOption {
+  optionId: string;
+  name: string;
+  valueId: string;
+  value: string;
+}
+
+export interface VariantImage {
+  id: string;
+  url: string;
+  alt?: string;
+  position: number;
+}
+
+export interface Variant {
+  id: string;
+  sku: string;
+  slug: string;
+  status: string;
+  options: SelectedOption[];
+  priceNet: number;
+  priceGross: number;
+  compareAtPrice?: number;
+  trackInventory: boolean;
+  allowBackorder: boolean;
+  availableQuantity: number;
+  images: VariantImage[];
+}
+
+export interface VariantUpdate {
+  sku?: string;
+  status?: "draft" | "active" | "archived";
+  priceNet?: number;
+  priceGross?: number;
+  compareAtPrice?: number | null;
+  costPrice?: number | null;
+  weight?: number | null;
+  stockQuantity?: number;
+}
+
+export interface VariantMatrixEntry {
+  id: string;
+  sku: string;
+  slug: string;
+  options: Record<string, string>;
+  price: { net: number; gross: number };
+  compareAtPrice: number | null;
+  inStock: boolean;
+  stockQuantity: number | null;
+  images: VariantImage[];
+}
+
+export interface VariantMatrix {
+  options: Array<{
+    name: string;
+    values: Array<{ value: string; available: boolean }>;
+  }>;
+  variants: VariantMatrixEntry[];
+}
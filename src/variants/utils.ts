@@ -0,0 +1,128 @@
+// Variant Utilities
+// src/variants/utils.ts
+
+import type { ProductOption, SelectedOption, Variant, VariantMatrix } from "./types.js";
+
+/**
+ * All combinations picking one element of each group, in group order
+ */
+export function cartesianProduct<T>(groups: T[][]): T[][] {
+  if (groups.length === 0) {
+    return [];
+  }
+  return groups.reduce<T[][]>(
+    (combinations, group) =>
+      combinations.flatMap((combination) => group.map((item) => [...combination, item])),
+    [[]]
+  );
+}
+
+/**
+ * Option combinations a product offers, one per variant
+ */
+export function buildOptionCombinations(options: ProductOption[]): SelectedOption[][] {
+  const sorted = [...options].sort((a, b) => a.position - b.position);
+  return cartesianProduct(
+    sorted.map((option) =>
+      [...option.values]
+        .sort((a, b) => a.position - b.position)
+        .map((value) => ({
+          optionId: option.id,
+          name: option.name,
+          valueId: value.id,
+          value: value.value,
+        }))
+    )
+  );
+}
+
+/**
+ * Order-independent key of a combination, to match existing variants
+ */
+export function combinationKey(valueIds: string[]): string {
+  return [...valueIds].sort().join(":");
+}
+
+function toToken(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/ß/g, "ss")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Variant SKU from the parent SKU and option values
+ * Example: TSHIRT + [Rot, XL] => TSHIRT-ROT-XL
+ */
+export function buildVariantSku(parentSku: string, values: string[]): string {
+  return [parentSku, ...values.map((value) => toToken(value).toUpperCase())]
+    .filter(Boolean)
+    .join("-");
+}
+
+/**
+ * Variant slug from the parent slug and option values
+ * Example: t-shirt + [Rot, XL] => t-shirt-rot-xl
+ */
+export function buildVariantSlug(parentSlug: string, values: string[]): string {
+  return [parentSlug, ...values.map((value) => toToken(value).toLowerCase())]
+    .filter(Boolean)
+    .join("-");
+}
+
+/**
+ * Human readable label of a variant, e.g. "Rot / XL"
+ */
+export function formatVariantLabel(options: Pick<SelectedOption, "value">[]): string {
+  return options.map((option) => option.value).join(" / ");
+}
+
+/**
+ * Whether a variant can be bought in the given quantity
+ */
+export function isVariantAvailable(
+  variant: Pick<Variant, "status" | "trackInventory" | "allowBackorder" | "availableQuantity">,
+  quantity = 1
+): boolean {
+  if (variant.status !== "active") {
+    return false;
+  }
+  return !variant.trackInventory || variant.allowBackorder || variant.availableQuantity >= quantity;
+}
+
+/**
+ * Storefront view of the variants: option axes with the values that can
+ * still be bought, and every active variant with its availability
+ */
+export function buildVariantMatrix(options: ProductOption[], variants: Variant[]): VariantMatrix {
+  const active = variants.filter((variant) => variant.status === "active");
+  const available = active.filter((variant) => isVariantAvailable(variant));
+
+  return {
+    options: [...options]
+      .sort((a, b) => a.position - b.position)
+      .map((option) => ({
+        name: option.name,
+        values: [...option.values]
+          .sort((a, b) => a.position - b.position)
+          .filter((value) => active.some((variant) => variant.options.some((o) => o.valueId === value.id)))
+          .map((value) => ({
+            value: value.value,
+            available: available.some((variant) => variant.options.some((o) => o.valueId === value.id)),
+          })),
+      })),
+    variants: active.map((variant) => ({
+      id: variant.id,
+      sku: variant.sku,
+      slug: variant.slug,
+      options: Object.fromEntries(variant.options.map((option) => [option.name, option.value])),
+      price: { net: variant.priceNet, gross: variant.priceGross },
+      compareAtPrice: variant.compareAtPrice ?? null,
+      inStock: isVariantAvailable(variant),
+      stockQuantity: variant.trackInventory ? Math.max(0, variant.availableQuantity) : null,
+      images: variant.images,
+    })),
+  };
+}
@@ -0,0 +1,418 @@
+// Variant Service
+// src/variants/variant-service.ts
+
+import { eq, and, asc, inArray, notInArray } from "drizzle-orm";
+import { db, type DbExecutor } from "@/db";
+import {
+  products,
+  productTranslations,
+  productOptions,
+  productOptionValues,
+  productVariantOptions,
+  productImages,
+} from "@/db/schema";
+import { inventoryService } from "@/inventory";
+import { bundleService } from "@/bundles";
+import { availabilityExtras } from "@/inventory/availability";
+import type {
+  OptionInput,
+  ProductOption,
+  SelectedOption,
+  Variant,
+  VariantImage,
+  VariantUpdate,
+  VariantMatrix,
+} from "./types.js";
+import {
+  buildOptionCombinations,
+  buildVariantMatrix,
+  buildVariantSku,
+  buildVariantSlug,
+  combinationKey,
+  formatVariantLabel,
+} from "./utils.js";
+
+function inTransaction<T>(executor: DbExecutor | undefined, fn: (tx: DbExecutor) => Promise<T>): Promise<T> {
+  return (executor ?? db).transaction(fn);
+}
+
+function toImage(row: typeof productImages.$inferSelect): VariantImage {
+  return {
+    id: row.id,
+    url: row.url,
+    alt: row.alt ?? undefined,
+    position: row.position,
+  };
+}
+
+type VariantOptionRow = {
+  optionValue: typeof productOptionValues.$inferSelect & {
+    option: typeof productOptions.$inferSelect;
+  };
+};
+
+function toSelectedOptions(rows: VariantOptionRow[]): SelectedOption[] {
+  return rows
+    .map((row) => row.optionValue)
+    .sort((a, b) => a.option.position - b.option.position)
+    .map((value) => ({
+      optionId: value.option.id,
+      name: value.option.name,
+      valueId: value.id,
+      value: value.value,
+    }));
+}
+
+const variantOptionsWith = {
+  with: {
+    optionValue: {
+      with: { option: true },
+    },
+  },
+} as const;
+
+async function loadOptions(executor: DbExecutor, productId: string): Promise<ProductOption[]> {
+  const rows = await executor.query.productOptions.findMany({
+    where: eq(productOptions.productId, productId),
+    with: {
+      values: { orderBy: [asc(productOptionValues.position)] },
+    },
+    orderBy: [asc(productOptions.position)],
+  });
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    position: row.position,
+    values: row.values.map((value) => ({ id: value.id, value: value.value, position: value.position })),
+  }));
+}
+
+async function requireParent(executor: DbExecutor, productId: string) {
+  const parent = await executor.query.products.findFirst({
+    where: eq(products.id, productId),
+  });
+  if (!parent) {
+    throw new Error("Product not found");
+  }
+  if (parent.parentId) {
+    throw new Error("Options can only be defined on the parent product");
+  }
+  return parent;
+}
+
+export const variantService = {
+  /**
+   * Option axes of a parent product with their values
+   */
+  async getOptions(productId: string, executor: DbExecutor = db): Promise<ProductOption[]> {
+    return loadOptions(executor, productId);
+  },
+
+  /**
+   * Replace the option axes of a parent product. Options and values are
+   * matched by name, so variants keep their links when axes are reordered
+   * or extended. Variants that lose one of their values are archived.
+   */
+  async setOptions(productId: string, options: OptionInput[], tx?: DbExecutor): Promise<ProductOption[]> {
+    return inTransaction(tx, async (t) => {
+      await requireParent(t, productId);
+
+      const names = options.map((option) => option.name);
+      if (new Set(names).size !== names.length) {
+        throw new Error("Option names must be unique");
+      }
+
+      const existing = await loadOptions(t, productId);
+      const keptValueIds: string[] = [];
+
+      for (const [position, input] of options.entries()) {
+        if (new Set(input.values).size !== input.values.length) {
+          throw new Error(`Values of option "${input.name}" must be unique`);
+        }
+
+        let option = existing.find((o) => o.name === input.name);
+        if (option) {
+          await t
+            .update(productOptions)
+            .set({ position, updatedAt: new Date() })
+            .where(eq(productOptions.id, option.id));
+        } else {
+          const [row] = await t
+            .insert(productOptions)
+            .values({ productId, name: input.name, position })
+            .returning();
+          option = { id: row.id, name: row.name, position, values: [] };
+        }
+
+        for (const [valuePosition, value] of input.values.entries()) {
+          const current = option.values.find((v) => v.value === value);
+          if (current) {
+            await t
+              .update(productOptionValues)
+              .set({ position: valuePosition, updatedAt: new Date() })
+              .where(eq(productOptionValues.id, current.id));
+            keptValueIds.push(current.id);
+          } else {
+            const [row] = await t
+              .insert(productOptionValues)
+              .values({ optionId: option.id, value, position: valuePosition })
+              .returning();
+            keptValueIds.push(row.id);
+          }
+        }
+      }
+
+      // Archive variants whose combination no longer exists
+      const removedValueIds = existing
+        .flatMap((option) => option.values.map((value) => value.id))
+        .filter((id) => !keptValueIds.includes(id));
+      if (removedValueIds.length > 0) {
+        const affected = await t
+          .selectDistinct({ variantId: productVariantOptions.variantId })
+          .from(productVariantOptions)
+          .where(inArray(productVariantOptions.optionValueId, removedValueIds));
+        if (affected.length > 0) {
+          await t
+            .update(products)
+            .set({ status: "archived", updatedAt: new Date() })
+            .where(inArray(products.id, affected.map((row) => row.variantId)));
+        }
+      }
+
+      const obsoleteOptionIds = existing
+        .filter((option) => !names.includes(option.name))
+        .map((option) => option.id);
+      if (obsoleteOptionIds.length > 0) {
+        await t.delete(productOptions).where(inArray(productOptions.id, obsoleteOptionIds));
+      }
+      const optionIds = (await loadOptions(t, productId)).map((option) => option.id);
+      if (optionIds.length > 0) {
+        await t.delete(productOptionValues).where(and(
+          inArray(productOptionValues.optionId, optionIds),
+          keptValueIds.length > 0 ? notInArray(productOptionValues.id, keptValueIds) : undefined
+        ));
+      }
+
+      await t
+        .update(products)
+        .set({ type: options.length > 0 ? "variant" : "simple", updatedAt: new Date() })
+        .where(eq(products.id, productId));
+
+      return loadOptions(t, productId);
+    });
+  },
+
+  /**
+   * Create a variant for every option combination that does not have one
+   * yet. Variants inherit price, tax, shipping and inventory settings from
+   * the parent and start without stock.
+   */
+  async generateVariants(productId: string, tx?: DbExecutor): Promise<Variant[]> {
+    return inTransaction(tx, async (t) => {
+      const parent = await requireParent(t, productId);
+      const options = await loadOptions(t, productId);
+      if (options.length === 0) {
+        throw new Error("Product has no options");
+      }
+
+      const translations = await t.query.productTranslations.findMany({
+        where: eq(productTranslations.productId, productId),
+      });
+      const existing = await t.query.products.findMany({
+        where: eq(products.parentId, productId),
+        columns: { id: true },
+        with: { optionValues: true },
+      });
+      const existingKeys = new Set(
+        existing.map((variant) => combinationKey(variant.optionValues.map((row) => row.optionValueId)))
+      );
+
+      for (const combination of buildOptionCombinations(options)) {
+        if (existingKeys.has(combinationKey(combination.map((option) => option.valueId)))) {
+          continue;
+        }
+
+        const values = combination.map((option) => option.value);
+        const [variant] = await t
+          .insert(products)
+          .values({
+            parentId: parent.id,
+            type: "variant",
+            status: parent.status,
+            sku: buildVariantSku(parent.sku, values),
+            slug: buildVariantSlug(parent.slug, values),
+            priceNet: parent.priceNet,
+            priceGross: parent.priceGross,
+            compareAtPrice: parent.compareAtPrice,
+            costPrice: parent.costPrice,
+            taxClassId: parent.taxClassId,
+            basePriceAmount: parent.basePriceAmount,
+            basePriceUnit: parent.basePriceUnit,
+            basePriceReference: parent.basePriceReference,
+            trackInventory: parent.trackInventory,
+            stockQuantity: 0,
+            lowStockThreshold: parent.lowStockThreshold,
+            allowBackorder: parent.allowBackorder,
+            weight: parent.weight,
+            length: parent.length,
+            width: parent.width,
+            height: parent.height,
+            shippingClassId: parent.shippingClassId,
+            deliveryTimeId: parent.deliveryTimeId,
+          })
+          .returning();
+
+        await t.insert(productVariantOptions).values(
+          combination.map((option) => ({ variantId: variant.id, optionValueId: option.valueId }))
+        );
+
+        await inventoryService.initializeInventory({
+          productId: variant.id,
+          sku: variant.sku,
+          quantity: 0,
+          lowStockThreshold: variant.lowStockThreshold ?? undefined,
+          trackInventory: variant.trackInventory,
+          allowBackorder: variant.allowBackorder,
+        }, t);
+
+        if (translations.length > 0) {
+          const label = formatVariantLabel(combination);
+          await t.insert(productTranslations).values(
+            translations.map((translation) => ({
+              productId: variant.id,
+              locale: translation.locale,
+              name: `${translation.name} - ${label}`.slice(0, 255),
+              description: translation.description,
+              shortDescription: translation.shortDescription,
+            }))
+          );
+        }
+      }
+
+      return this.listVariants(productId, t);
+    });
+  },
+
+  /**
+   * Variants of a parent product with their options, availability and images
+   */
+  async listVariants(productId: string, executor: DbExecutor = db): Promise<Variant[]> {
+    const rows = await executor.query.products.findMany({
+      where: eq(products.parentId, productId),
+      extras: availabilityExtras,
+      with: {
+        optionValues: variantOptionsWith,
+        images: { orderBy: [asc(productImages.position)] },
+      },
+      orderBy: [asc(products.sku)],
+    });
+
+    return rows.map((row) => ({
+      id: row.id,
+      sku: row.sku,
+      slug: row.slug,
+      status: row.status,
+      options: toSelectedOptions(row.optionValues),
+      priceNet: row.priceNet,
+      priceGross: row.priceGross,
+      compareAtPrice: row.compareAtPrice ?? undefined,
+      trackInventory: row.trackInventory,
+      allowBackorder: row.allowBackorder,
+      availableQuantity: row.availableQuantity,
+      images: row.images.map(toImage),
+    }));
+  },
+
+  /**
+   * Options picked by each of the given variants
+   */
+  async getSelectedOptions(variantIds: string[], executor: DbExecutor = db): Promise<Map<string, SelectedOption[]>> {
+    const result = new Map<string, SelectedOption[]>();
+    if (variantIds.length === 0) {
+      return result;
+    }
+
+    const rows = await executor.query.productVariantOptions.findMany({
+      where: inArray(productVariantOptions.variantId, variantIds),
+      ...variantOptionsWith,
+    });
+    for (const variantId of variantIds) {
+      const options = toSelectedOptions(rows.filter((row) => row.variantId === variantId));
+      if (options.length > 0) {
+        result.set(variantId, options);
+      }
+    }
+    return result;
+  },
+
+  /**
+   * Update the SKU, price, status or stock of a single variant
+   */
+  async updateVariant(variantId: string, input: VariantUpdate, tx?: DbExecutor): Promise<typeof products.$inferSelect> {
+    return inTransaction(tx, async (t) => {
+      const { stockQuantity, ...data } = input;
+
+      const [variant] = await t
+        .update(products)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(products.id, variantId))
+        .returning();
+      if (!variant || !variant.parentId) {
+        throw new Error("Variant not found");
+      }
+
+      if (data.priceNet !== undefined || data.priceGross !== undefined) {
+        await bundleService.refreshPricesForComponent(variantId, t);
+      }
+
+      // Keep the ledger's SKU in line with the product
+      if (data.sku) {
+        await inventoryService.updateSettings(variantId, { sku: data.sku }, t);
+      }
+
+      if (stockQuantity !== undefined && stockQuantity !== variant.stockQuantity) {
+        await inventoryService.setStock({
+          productId: variantId,
+          quantity: stockQuantity,
+          reason: "Variant update",
+        }, t);
+        return (await t.query.products.findFirst({ where: eq(products.id, variantId) }))!;
+      }
+
+      return variant;
+    });
+  },
+
+  /**
+   * Replace the images of a product or variant
+   */
+  async setImages(
+    productId: string,
+    images: Array<{ url: string; alt?: string; storageKey?: string }>,
+    tx?: DbExecutor
+  ): Promise<VariantImage[]> {
+    return inTransaction(tx, async (t) => {
+      await t.delete(productImages).where(eq(productImages.productId, productId));
+      if (images.length === 0) {
+        return [];
+      }
+
+      const rows = await t
+        .insert(productImages)
+        .values(images.map((image, position) => ({ productId, position, ...image })))
+        .returning();
+      return rows.map(toImage);
+    });
+  },
+
+  /**
+   * Options and variants of a parent product for the storefront
+   */
+  async getVariantMatrix(productId: string, executor: DbExecutor = db): Promise<VariantMatrix> {
+    const [options, variants] = await Promise.all([
+      loadOptions(executor, productId),
+      this.listVariants(productId, executor),
+    ]);
+    return buildVariantMatrix(options, variants);
+  },
+};
@@ -1,10 +1,16 @@
+import { fileURLToPath } from "node:url";
 import { defineConfig } from "vitest/config";
 
 export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
   test: {
     globals: true,
     environment: "node",
-    include: ["src/__tests__/integration/**/*.ts"],
+    include: ["src/__tests__/integration/**/*.test.ts"],
     testTimeout: 60000, // 60s for container startup
     hookTimeout: 60000,
     pool: "forks", // Use forks for better isolation